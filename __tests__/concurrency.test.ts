@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../lib/concurrency';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('should return results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await delay(ms);
+      return ms * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40]);
+  });
+
+  it('should run no more than the given number of calls at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(5);
+      running--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('should handle an empty list', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+
+  it('should reject a non-positive concurrency', async () => {
+    await expect(mapWithConcurrency([1], 0, async (n) => n)).rejects.toThrow(
+      'concurrency must be a positive integer'
+    );
+  });
+});
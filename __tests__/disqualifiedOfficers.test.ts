@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  screenDisqualifiedOfficers,
+  officerSearchName,
+  isCandidate,
+} from '../services/disqualifiedOfficers';
+import { ConnectorErrorCode } from '../services/connectors';
+import type {
+  ConnectorResponse,
+  DisqualifiedOfficerResponse,
+  DisqualifiedOfficerSearchResponse,
+} from '../services/connectors';
+import {
+  disqualifiedOfficerFixture,
+  disqualifiedOfficerSearchFixture,
+  officersFixture,
+} from '../services/connectors/__fixtures__';
+
+const API_BASE = 'https://api.company-information.service.gov.uk';
+
+const emptySearch: DisqualifiedOfficerSearchResponse = {
+  ...disqualifiedOfficerSearchFixture,
+  items: [],
+  total_results: 0,
+};
+
+/**
+ * Fake connector serving searches keyed by query and records keyed by ID.
+ */
+function createConnector(
+  searches: Record<string, DisqualifiedOfficerSearchResponse>,
+  records: Record<string, DisqualifiedOfficerResponse>
+) {
+  const evidence = (apiUrl: string) => ({
+    apiUrl,
+    fetchedAt: '2024-01-15T12:00:00.000Z',
+    fromCache: false,
+  });
+  const notFound = (apiUrl: string) => ({
+    success: false as const,
+    error: { code: ConnectorErrorCode.NOT_FOUND, message: 'Not found', statusCode: 404 },
+    evidence: evidence(apiUrl),
+  });
+
+  return {
+    searchDisqualifiedOfficers: vi.fn(
+      async (query: string): Promise<ConnectorResponse<DisqualifiedOfficerSearchResponse>> => {
+        const apiUrl = `${API_BASE}/search/disqualified-officers?q=${encodeURIComponent(query)}`;
+        const data = searches[query];
+        return data ? { success: true, data, evidence: evidence(apiUrl) } : notFound(apiUrl);
+      }
+    ),
+    getDisqualifiedOfficer: vi.fn(
+      async (officerId: string): Promise<ConnectorResponse<DisqualifiedOfficerResponse>> => {
+        const apiUrl = `${API_BASE}/disqualified-officers/natural/${officerId}`;
+        const data = records[officerId];
+        return data ? { success: true, data, evidence: evidence(apiUrl) } : notFound(apiUrl);
+      }
+    ),
+  };
+}
+
+const [smith] = officersFixture.items;
+const [sameBirth, otherBirth] = disqualifiedOfficerSearchFixture.items;
+
+describe('officerSearchName', () => {
+  it('should put forenames before the surname', () => {
+    expect(officerSearchName(smith)).toBe('John David SMITH');
+  });
+
+  it('should keep names without forenames as they are', () => {
+    expect(officerSearchName({ ...smith, name: 'CORPORATE SECRETARY LTD' })).toBe(
+      'CORPORATE SECRETARY LTD'
+    );
+  });
+});
+
+describe('isCandidate', () => {
+  it('should accept results with the same surname and month/year of birth', () => {
+    expect(isCandidate(smith, sameBirth)).toBe(true);
+  });
+
+  it('should reject results with a conflicting date of birth or surname', () => {
+    expect(isCandidate(smith, otherBirth)).toBe(false);
+    expect(isCandidate(smith, { ...sameBirth, title: 'John David SMYTH' })).toBe(false);
+  });
+
+  it('should accept results without a date of birth', () => {
+    expect(isCandidate(smith, { ...sameBirth, date_of_birth: undefined })).toBe(true);
+  });
+});
+
+describe('screenDisqualifiedOfficers', () => {
+  it('should search for current individual officers and fetch candidate records', async () => {
+    const connector = createConnector(
+      {
+        'John David SMITH': disqualifiedOfficerSearchFixture,
+        'Sarah Elizabeth JONES': emptySearch,
+      },
+      { dq1234567890: disqualifiedOfficerFixture }
+    );
+
+    const result = await screenDisqualifiedOfficers(connector, officersFixture);
+
+    expect(connector.searchDisqualifiedOfficers.mock.calls.map(([query]) => query)).toEqual([
+      'John David SMITH',
+      'Sarah Elizabeth JONES',
+    ]);
+    expect(connector.getDisqualifiedOfficer.mock.calls.map(([id]) => id)).toEqual(['dq1234567890']);
+    expect(result.records).toEqual([disqualifiedOfficerFixture]);
+    expect(result.evidence.map((e) => e.apiUrl)).toContain(
+      `${API_BASE}/disqualified-officers/natural/dq1234567890`
+    );
+    expect(result.evidence).toHaveLength(3);
+  });
+
+  it('should fetch each record once and keep evidence in officer order', async () => {
+    const connector = createConnector(
+      { 'John David SMITH': disqualifiedOfficerSearchFixture },
+      { dq1234567890: disqualifiedOfficerFixture }
+    );
+    const officers = { ...officersFixture, items: [smith, smith] };
+
+    const result = await screenDisqualifiedOfficers(connector, officers, { concurrency: 2 });
+
+    expect(connector.getDisqualifiedOfficer).toHaveBeenCalledTimes(1);
+    expect(result.records).toEqual([disqualifiedOfficerFixture]);
+    expect(result.evidence.map((e) => e.apiUrl)).toEqual([
+      `${API_BASE}/search/disqualified-officers?q=John%20David%20SMITH`,
+      `${API_BASE}/disqualified-officers/natural/dq1234567890`,
+      `${API_BASE}/search/disqualified-officers?q=John%20David%20SMITH`,
+    ]);
+  });
+
+  it('should skip officers whose search fails', async () => {
+    const connector = createConnector({ 'John David SMITH': emptySearch }, {});
+
+    const result = await screenDisqualifiedOfficers(connector, officersFixture);
+
+    expect(result.records).toEqual([]);
+    expect(result.evidence).toHaveLength(1);
+  });
+
+  it('should limit the officers searched and records fetched', async () => {
+    const connector = createConnector(
+      { 'John David SMITH': disqualifiedOfficerSearchFixture },
+      { dq1234567890: disqualifiedOfficerFixture }
+    );
+
+    await screenDisqualifiedOfficers(connector, officersFixture, {
+      maxOfficers: 1,
+      maxCandidates: 0,
+    });
+
+    expect(connector.searchDisqualifiedOfficers).toHaveBeenCalledTimes(1);
+    expect(connector.getDisqualifiedOfficer).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid limits', async () => {
+    await expect(
+      screenDisqualifiedOfficers(createConnector({}, {}), officersFixture, { maxOfficers: -1 })
+    ).rejects.toThrow('maxOfficers must be a non-negative integer');
+  });
+});
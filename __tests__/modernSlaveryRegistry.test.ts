@@ -234,6 +234,7 @@ describe('Modern Slavery Registry Connector', () => {
       expect(result.latestYear).toBeUndefined();
       expect(result.statementSummaryUrl).toBeUndefined();
       expect(result.evidence).toEqual([]);
+      expect(result.incomplete).toBeUndefined();
     });
 
     it('should return found:false when no cache data available', async () => {
@@ -248,6 +249,7 @@ describe('Modern Slavery Registry Connector', () => {
 
       expect(result.found).toBe(false);
       expect(result.evidence).toEqual([]);
+      expect(result.incomplete).toBe(true);
     });
 
     it('should handle schema changes gracefully (return found:false)', async () => {
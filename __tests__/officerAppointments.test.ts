@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  fetchDirectorAppointments,
+  getOfficerId,
+  isActiveDirector,
+  officerIdFromLink,
+} from '../services/officerAppointments';
+import { ConnectorErrorCode } from '../services/connectors';
+import type {
+  ConnectorResponse,
+  OfficerAppointmentsResponse,
+  OfficersResponse,
+} from '../services/connectors';
+import { officerAppointmentsFixture, officersFixture } from '../services/connectors/__fixtures__';
+
+const API_BASE = 'https://api.company-information.service.gov.uk';
+
+/**
+ * Fake connector serving appointment lists from a map keyed by officer ID.
+ */
+function createConnector(
+  lists: Record<string, OfficerAppointmentsResponse>,
+  truncated: string[] = []
+) {
+  return {
+    getOfficerAppointments: vi.fn(
+      async (officerId: string): Promise<ConnectorResponse<OfficerAppointmentsResponse>> => {
+        const apiUrl = `${API_BASE}/officers/${officerId}/appointments`;
+        const data = lists[officerId];
+
+        if (!data) {
+          return {
+            success: false,
+            error: { code: ConnectorErrorCode.NOT_FOUND, message: 'Not found', statusCode: 404 },
+            evidence: { apiUrl, fetchedAt: '2024-01-15T12:00:00.000Z', fromCache: false },
+          };
+        }
+
+        return {
+          success: true,
+          data,
+          evidence: { apiUrl, fetchedAt: '2024-01-15T12:00:00.000Z', fromCache: false },
+          ...(truncated.includes(officerId) && { truncated: true }),
+        };
+      }
+    ),
+  };
+}
+
+const [smith, jones, brown] = officersFixture.items;
+
+describe('officerIdFromLink', () => {
+  it('should read the officer ID from an appointments link', () => {
+    expect(officerIdFromLink('/officers/abc123def456/appointments')).toBe('abc123def456');
+  });
+
+  it('should return undefined for other links', () => {
+    expect(officerIdFromLink('/company/12345678')).toBeUndefined();
+    expect(officerIdFromLink(undefined)).toBeUndefined();
+  });
+});
+
+describe('getOfficerId', () => {
+  it('should read the officer ID from the appointments link', () => {
+    expect(getOfficerId(smith)).toBe('abc123def456');
+  });
+
+  it('should return undefined without an appointments link', () => {
+    expect(getOfficerId({ ...smith, links: { self: smith.links.self } })).toBeUndefined();
+  });
+});
+
+describe('isActiveDirector', () => {
+  it('should accept directors who have not resigned', () => {
+    expect(isActiveDirector(smith)).toBe(true);
+  });
+
+  it('should reject resigned officers and secretaries', () => {
+    expect(isActiveDirector(brown)).toBe(false);
+    expect(isActiveDirector({ ...smith, resigned_on: '2023-01-01' })).toBe(false);
+  });
+});
+
+describe('fetchDirectorAppointments', () => {
+  it('should fetch appointments for each active director', async () => {
+    const connector = createConnector({
+      abc123def456: officerAppointmentsFixture,
+      xyz789ghi012: { ...officerAppointmentsFixture, name: jones.name },
+    });
+
+    const result = await fetchDirectorAppointments(connector, officersFixture);
+
+    expect(connector.getOfficerAppointments.mock.calls.map(([id]) => id)).toEqual([
+      'abc123def456',
+      'xyz789ghi012',
+    ]);
+    expect(result.appointments).toHaveLength(2);
+    expect(result.evidence.map((e) => e.apiUrl)).toEqual([
+      `${API_BASE}/officers/abc123def456/appointments`,
+      `${API_BASE}/officers/xyz789ghi012/appointments`,
+    ]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should keep the listed order when lookups finish out of order', async () => {
+    const connector = createConnector({
+      abc123def456: officerAppointmentsFixture,
+      xyz789ghi012: { ...officerAppointmentsFixture, name: jones.name },
+    });
+    const lookup = connector.getOfficerAppointments.getMockImplementation()!;
+    connector.getOfficerAppointments.mockImplementation(async (officerId: string) => {
+      if (officerId === 'abc123def456') {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      return lookup(officerId);
+    });
+
+    const result = await fetchDirectorAppointments(connector, officersFixture, { concurrency: 2 });
+
+    expect(result.appointments.map((list) => list.name)).toEqual([
+      officerAppointmentsFixture.name,
+      jones.name,
+    ]);
+  });
+
+  it('should skip directors whose lookup fails', async () => {
+    const connector = createConnector({ abc123def456: officerAppointmentsFixture });
+
+    const result = await fetchDirectorAppointments(connector, officersFixture);
+
+    expect(result.appointments).toEqual([officerAppointmentsFixture]);
+    expect(result.evidence).toHaveLength(1);
+  });
+
+  it('should look up each officer once and respect maxOfficers', async () => {
+    const connector = createConnector({ abc123def456: officerAppointmentsFixture });
+    const officers: OfficersResponse = {
+      ...officersFixture,
+      items: [smith, { ...smith, officer_role: 'nominee-director' }, jones],
+    };
+
+    await fetchDirectorAppointments(connector, officers, { maxOfficers: 1 });
+
+    expect(connector.getOfficerAppointments).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report lists cut short by the page ceiling', async () => {
+    const connector = createConnector({ abc123def456: officerAppointmentsFixture }, [
+      'abc123def456',
+    ]);
+
+    const result = await fetchDirectorAppointments(connector, officersFixture);
+
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should reject an invalid maxOfficers', async () => {
+    await expect(
+      fetchDirectorAppointments(createConnector({}), officersFixture, { maxOfficers: 1.5 })
+    ).rejects.toThrow('maxOfficers must be a non-negative integer');
+  });
+});
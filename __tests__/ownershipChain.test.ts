@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  resolveOwnershipChain,
+  isUkRegistered,
+  DEFAULT_OWNERSHIP_MAX_DEPTH,
+} from '../services/ownershipChain';
+import { ConnectorErrorCode } from '../services/connectors';
+import type { ConnectorResponse, PSCItem, PSCsResponse } from '../services/connectors';
+import { corporatePscFixture, pscsFixture } from '../services/connectors/__fixtures__';
+
+const API_BASE = 'https://api.company-information.service.gov.uk';
+
+function corporate(name: string, registrationNumber: string, countryRegistered = 'England') {
+  return {
+    identification: {
+      country_registered: countryRegistered,
+      registration_number: registrationNumber,
+    },
+    kind: 'corporate-entity-person-with-significant-control',
+    links: { self: `/psc/${registrationNumber}` },
+    name,
+    natures_of_control: ['ownership-of-shares-75-to-100-percent'],
+    notified_on: '2020-01-01',
+  } satisfies PSCItem;
+}
+
+function register(companyNumber: string, items: PSCItem[]): PSCsResponse {
+  return {
+    items,
+    items_per_page: 25,
+    kind: 'persons-with-significant-control#list',
+    links: { self: `/company/${companyNumber}/persons-with-significant-control` },
+    start_index: 0,
+    total_results: items.length,
+  };
+}
+
+/**
+ * Fake connector serving PSC registers from a map keyed by company number.
+ */
+function createConnector(registers: Record<string, PSCsResponse>) {
+  return {
+    getPscs: vi.fn(async (companyNumber: string): Promise<ConnectorResponse<PSCsResponse>> => {
+      const apiUrl = `${API_BASE}/company/${companyNumber}/persons-with-significant-control`;
+      const data = registers[companyNumber];
+
+      if (!data) {
+        return {
+          success: false,
+          error: { code: ConnectorErrorCode.NOT_FOUND, message: 'Not found', statusCode: 404 },
+          evidence: { apiUrl, fetchedAt: '2024-01-15T12:00:00.000Z', fromCache: false },
+        };
+      }
+
+      return {
+        success: true,
+        data,
+        evidence: { apiUrl, fetchedAt: '2024-01-15T12:00:00.000Z', fromCache: false },
+      };
+    }),
+  };
+}
+
+const individual = pscsFixture.items[0];
+
+describe('isUkRegistered', () => {
+  it('should recognise UK jurisdictions and the Companies House register', () => {
+    expect(isUkRegistered({ country_registered: 'England' })).toBe(true);
+    expect(isUkRegistered({ country_registered: 'England and Wales' })).toBe(true);
+    expect(isUkRegistered({ country_registered: ' SCOTLAND ' })).toBe(true);
+    expect(isUkRegistered({ place_registered: 'Companies House, Cardiff' })).toBe(true);
+  });
+
+  it('should treat other jurisdictions as overseas', () => {
+    expect(isUkRegistered({ country_registered: 'Cayman Islands' })).toBe(false);
+    expect(isUkRegistered(undefined)).toBe(false);
+  });
+});
+
+describe('resolveOwnershipChain', () => {
+  it('should follow a UK corporate PSC to its individual owners', async () => {
+    const connector = createConnector({ '11112222': register('11112222', [individual]) });
+
+    const { chain, evidence } = await resolveOwnershipChain(
+      connector,
+      '12345678',
+      corporatePscFixture
+    );
+
+    expect(chain.maxDepth).toBe(DEFAULT_OWNERSHIP_MAX_DEPTH);
+    expect(chain.owners).toHaveLength(1);
+    expect(chain.owners[0]).toMatchObject({
+      name: 'PARENT HOLDINGS LTD',
+      companyNumber: '11112222',
+      countryRegistered: 'England',
+      placeRegistered: 'Companies House',
+      depth: 1,
+    });
+    expect(chain.owners[0].termination).toBeUndefined();
+    expect(chain.owners[0].owners).toEqual([
+      expect.objectContaining({ name: individual.name, depth: 2, termination: 'individual' }),
+    ]);
+    expect(evidence.map((e) => e.apiUrl)).toEqual([
+      `${API_BASE}/company/11112222/persons-with-significant-control`,
+    ]);
+  });
+
+  it('should not look up individuals or ceased PSCs', async () => {
+    const connector = createConnector({});
+    const pscs = register('12345678', [
+      individual,
+      { ...corporate('OLD PARENT LTD', '22223333'), ceased_on: '2021-01-01' },
+    ]);
+
+    const { chain } = await resolveOwnershipChain(connector, '12345678', pscs);
+
+    expect(connector.getPscs).not.toHaveBeenCalled();
+    expect(chain.owners.map((owner) => owner.termination)).toEqual(['individual']);
+  });
+
+  it('should stop where the chain leaves the UK register', async () => {
+    const connector = createConnector({});
+    const pscs = register('12345678', [corporate('OFFSHORE LTD', 'C-1234', 'Cayman Islands')]);
+
+    const { chain } = await resolveOwnershipChain(connector, '12345678', pscs);
+
+    expect(connector.getPscs).not.toHaveBeenCalled();
+    expect(chain.owners[0]).toMatchObject({
+      countryRegistered: 'Cayman Islands',
+      termination: 'overseas',
+    });
+    expect(chain.owners[0].companyNumber).toBeUndefined();
+  });
+
+  it('should detect ownership cycles', async () => {
+    const connector = createConnector({
+      '22223333': register('22223333', [corporate('SUBJECT LTD', '12345678')]),
+    });
+    const pscs = register('12345678', [corporate('SISTER LTD', '22223333')]);
+
+    const { chain } = await resolveOwnershipChain(connector, '12345678', pscs);
+
+    expect(connector.getPscs).toHaveBeenCalledTimes(1);
+    expect(chain.owners[0].owners[0]).toMatchObject({
+      companyNumber: '12345678',
+      termination: 'cycle',
+    });
+  });
+
+  it('should stop at the configured depth', async () => {
+    const connector = createConnector({
+      '00000001': register('00000001', [corporate('LAYER TWO LTD', '00000002')]),
+      '00000002': register('00000002', [corporate('LAYER THREE LTD', '00000003')]),
+    });
+    const pscs = register('12345678', [corporate('LAYER ONE LTD', '1')]);
+
+    const { chain } = await resolveOwnershipChain(connector, '12345678', pscs, { maxDepth: 2 });
+
+    expect(connector.getPscs.mock.calls.map(([number]) => number)).toEqual([
+      '00000001',
+      '00000002',
+    ]);
+    expect(chain.owners[0].owners[0].owners[0]).toMatchObject({
+      name: 'LAYER THREE LTD',
+      depth: 3,
+      termination: 'depth-limit',
+    });
+  });
+
+  it('should not follow any corporate owner at depth 0', async () => {
+    const connector = createConnector({});
+
+    const { chain } = await resolveOwnershipChain(connector, '12345678', corporatePscFixture, {
+      maxDepth: 0,
+    });
+
+    expect(connector.getPscs).not.toHaveBeenCalled();
+    expect(chain.owners[0].termination).toBe('depth-limit');
+  });
+
+  it('should mark owners that cannot be looked up or have no PSCs', async () => {
+    const connector = createConnector({ '44445555': register('44445555', []) });
+    const pscs = register('12345678', [
+      corporate('MISSING LTD', '33334444'),
+      corporate('EXEMPT PLC', '44445555'),
+      { ...corporate('UNKNOWN LTD', ''), identification: {} },
+    ]);
+
+    const { chain, evidence } = await resolveOwnershipChain(connector, '12345678', pscs);
+
+    expect(chain.owners.map((owner) => [owner.name, owner.termination])).toEqual([
+      ['MISSING LTD', 'unresolved'],
+      ['EXEMPT PLC', 'no-pscs'],
+      ['UNKNOWN LTD', 'unresolved'],
+    ]);
+    expect(evidence).toHaveLength(1);
+  });
+
+  it('should reject an invalid depth', async () => {
+    await expect(
+      resolveOwnershipChain(createConnector({}), '12345678', corporatePscFixture, {
+        maxDepth: -1,
+      })
+    ).rejects.toThrow('maxDepth must be a non-negative integer');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MAX_SCREENING_ROWS,
+  parseScreeningCsv,
+  parseScreeningList,
+  resolveCompanyName,
+  screenSuppliers,
+  type ScreenCompanyResult,
+} from '../services/supplierScreening';
+import { ConnectorErrorCode } from '../services/connectors';
+import type { CompanySearchResponse, ConnectorResponse } from '../services/connectors';
+import { searchFixture } from '../services/connectors/__fixtures__';
+
+const API_BASE = 'https://api.company-information.service.gov.uk';
+
+/**
+ * Fake connector whose search returns the fixture, or fails with the given code.
+ */
+function createConnector(failWith?: ConnectorErrorCode) {
+  return {
+    searchCompanies: vi.fn(async (): Promise<ConnectorResponse<CompanySearchResponse>> => {
+      const evidence = {
+        apiUrl: `${API_BASE}/search/companies`,
+        fetchedAt: '2024-01-15T12:00:00.000Z',
+        fromCache: false,
+      };
+      return failWith
+        ? { success: false, error: { code: failWith, message: 'Search failed' }, evidence }
+        : { success: true, data: searchFixture, evidence };
+    }),
+  };
+}
+
+function screened(companyNumber: string): ScreenCompanyResult<string> {
+  return { success: true, companyName: `COMPANY ${companyNumber}`, riskFlags: ['F7'] };
+}
+
+describe('parseScreeningCsv', () => {
+  it('should read company numbers and names from detected columns', () => {
+    const csv =
+      'CRN,Supplier,Company Name\n01234567,ignored,ACME LTD\n,ignored,"Marine Enterprises, Ltd"\n';
+
+    expect(parseScreeningCsv(csv)).toEqual([
+      { companyNumber: '01234567', companyName: 'ACME LTD' },
+      { companyName: 'Marine Enterprises, Ltd' },
+    ]);
+  });
+
+  it('should keep rows with neither value so they can be reported', () => {
+    expect(parseScreeningCsv('Company Number,Notes\n,missing\n')).toEqual([{}]);
+  });
+
+  it('should reject CSVs without a company column or rows', () => {
+    expect(() => parseScreeningCsv('Supplier,Notes\nACME,x\n')).toThrow(
+      'CSV must have a company number or company name column'
+    );
+    expect(() => parseScreeningCsv('Company Number\n')).toThrow('No suppliers to screen');
+  });
+});
+
+describe('parseScreeningList', () => {
+  it('should treat strings as company numbers or names', () => {
+    expect(parseScreeningList(['12345678', 'SC 123456', 'Acme Ltd'])).toEqual([
+      { companyNumber: '12345678' },
+      { companyNumber: 'SC 123456' },
+      { companyName: 'Acme Ltd' },
+    ]);
+  });
+
+  it('should accept objects with a company number and/or name', () => {
+    expect(parseScreeningList([{ companyNumber: ' 12345678 ', companyName: 'Acme' }])).toEqual([
+      { companyNumber: '12345678', companyName: 'Acme' },
+    ]);
+  });
+
+  it('should reject malformed lists and oversized batches', () => {
+    expect(() => parseScreeningList('12345678')).toThrow('companies must be a list');
+    expect(() => parseScreeningList([{ companyNumber: 12345678 }])).toThrow(
+      'companies[0] must be a string or an object'
+    );
+    expect(() => parseScreeningList([])).toThrow('No suppliers to screen');
+    expect(() => parseScreeningList(Array(MAX_SCREENING_ROWS + 1).fill('12345678'))).toThrow(
+      `At most ${MAX_SCREENING_ROWS} suppliers`
+    );
+  });
+});
+
+describe('resolveCompanyName', () => {
+  it('should pick the search result whose normalised name matches', async () => {
+    const result = await resolveCompanyName(createConnector(), 'Marine Enterprises Limited');
+
+    expect(result).toEqual({
+      success: true,
+      companyNumber: searchFixture.items[1].company_number,
+      companyName: 'MARINE ENTERPRISES LTD',
+    });
+  });
+
+  it('should not guess when no result matches exactly', async () => {
+    const result = await resolveCompanyName(createConnector(), 'Marine');
+
+    expect(result).toEqual({
+      success: false,
+      error: { code: 'NO_MATCH', message: 'No company named "Marine" found' },
+    });
+  });
+});
+
+describe('screenSuppliers', () => {
+  it('should screen each row and report failures per row', async () => {
+    const screenCompany = vi.fn(async (companyNumber: string) =>
+      companyNumber === '00099999'
+        ? { success: false as const, error: { code: 'NOT_FOUND', message: 'Company not found' } }
+        : screened(companyNumber)
+    );
+
+    const results = await screenSuppliers(
+      createConnector(),
+      [
+        { companyNumber: '1234567' },
+        { companyName: 'Marine Enterprises Ltd' },
+        { companyNumber: '99999' },
+        {},
+      ],
+      screenCompany
+    );
+
+    expect(screenCompany.mock.calls.map(([number]) => number)).toEqual([
+      '01234567',
+      searchFixture.items[1].company_number,
+      '00099999',
+    ]);
+    expect(results.map((result) => [result.row, result.status, result.matchedBy])).toEqual([
+      [1, 'screened', 'company_number'],
+      [2, 'screened', 'name_search'],
+      [3, 'failed', 'company_number'],
+      [4, 'failed', undefined],
+    ]);
+    expect(results[0]).toMatchObject({ companyName: 'COMPANY 01234567', riskFlags: ['F7'] });
+    expect(results[2].error).toEqual({ code: 'NOT_FOUND', message: 'Company not found' });
+    expect(results[3].error?.code).toBe('INVALID_ROW');
+  });
+
+  it('should report progress and stop when cancelled', async () => {
+    const controller = new AbortController();
+    const onProgress = vi.fn(() => controller.abort());
+
+    const results = await screenSuppliers(
+      createConnector(),
+      [{ companyNumber: '12345678' }, { companyNumber: '87654321' }],
+      async (companyNumber) => screened(companyNumber),
+      { onProgress, signal: controller.signal }
+    );
+
+    expect(onProgress).toHaveBeenCalledWith(1, 2);
+    expect(results.map((result) => [result.status, result.error?.code])).toEqual([
+      ['screened', undefined],
+      ['skipped', 'CANCELLED'],
+    ]);
+  });
+
+  it('should skip the remaining rows once the request budget is exhausted', async () => {
+    const screenCompany = vi.fn(async (companyNumber: string) => screened(companyNumber));
+
+    const results = await screenSuppliers(
+      createConnector(ConnectorErrorCode.RATE_LIMITED),
+      [{ companyName: 'Acme Ltd' }, { companyNumber: '12345678' }],
+      screenCompany
+    );
+
+    expect(screenCompany).not.toHaveBeenCalled();
+    expect(results.map((result) => [result.status, result.error?.code])).toEqual([
+      ['failed', ConnectorErrorCode.RATE_LIMITED],
+      ['skipped', ConnectorErrorCode.RATE_LIMITED],
+    ]);
+  });
+});
@@ -1,26 +1,117 @@
 import Fastify, { type FastifyInstance, type FastifyReply } from 'fastify';
 import cors from '@fastify/cors';
 import rateLimit from '@fastify/rate-limit';
+import { randomBytes, randomUUID } from 'crypto';
 import {
+  applyRiskFlags,
   buildDossier,
-  buildDossierWithRiskFlags,
+  computeRiskFlags,
+  diffDossiers,
+  findLapsedWaivers,
+  isWaiverActive,
+  normalizeOfficerAppointments,
   renderDossierHtml,
+  riskFlagFingerprint,
+  scoreRiskFlags,
+  type Dossier,
   type DossierInput,
+  type EvidenceWithId,
+  type RiskFlag,
+  type RiskPolicy,
+  type RiskScore,
+  type TruncatableSection,
 } from '@pkg/core';
+import {
+  SqliteConnectorCache,
+  SqliteJobStore,
+  SqliteRateLimitStore,
+  SqliteSnapshotStore,
+  SqliteWaiverStore,
+  SqliteWatchlistStore,
+  SqliteWebhookStore,
+  type Job,
+  type SnapshotReport,
+  type SnapshotReportFormat,
+  type SnapshotSummary,
+  type StoredWaiver,
+  type Webhook,
+} from '@pkg/db';
 import { renderReportPdf } from './report/renderPdf';
 import {
+  JobWorker,
+  type JobHandler,
+  type JobLane,
+  type JobOutcome,
+  type JobWorkerOptions,
+} from './jobs/worker';
+import { loadRiskPolicies, parseRiskPolicyPaths } from './utils/riskPolicies';
+import {
+  WATCHLIST_JOB_TYPE,
+  WatchlistScheduler,
+  type WatchlistJobPayload,
+  type WatchlistSchedulerOptions,
+} from './watchlist/scheduler';
+import {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_JOB_TYPE,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_TEST_EVENT,
+  checkWebhookUrl,
+  sendWebhook,
+  type WebhookEvent,
+  type WebhookJobPayload,
+  type WebhookSenderOptions,
+} from './webhooks/delivery';
+import {
+  Cache,
+  COMPANIES_HOUSE_CACHE_POLICY,
+  COMPANIES_HOUSE_RATE_LIMIT,
   createCompaniesHouseConnector,
   ConnectorErrorCode,
+  RateLimiter,
   type CompaniesHouseConnector,
   type ConnectorError,
   type ConnectorResponse,
+  type AdvancedCompanySearchItem,
   type CompanySearchItem,
+  type OfficerSearchItem,
 } from '../../../services/connectors';
+import type {
+  OfficerAppointmentList,
+  OfficerSearchResult,
+  OfficerSearchResults,
+  PageLinks,
+  ScreeningInput,
+  ScreeningResponse,
+  SearchFilters,
+  SearchResponse,
+  SearchResult,
+} from '../../../services/connectors/types';
 import {
   DEFAULT_REGISTRY_CONFIG,
   lookupModernSlaveryRegistry,
   type RegistryConfig,
 } from '../../../services/modernSlaveryRegistry';
+import {
+  DEFAULT_OWNERSHIP_MAX_DEPTH,
+  resolveOwnershipChain,
+} from '../../../services/ownershipChain';
+import { normalizeCompanyNumber } from '../../../lib/nameNormalizer';
+import {
+  DEFAULT_MAX_OFFICERS,
+  fetchDirectorAppointments,
+  officerIdFromLink,
+} from '../../../services/officerAppointments';
+import {
+  DEFAULT_MAX_CANDIDATES,
+  screenDisqualifiedOfficers,
+} from '../../../services/disqualifiedOfficers';
+import {
+  parseScreeningCsv,
+  parseScreeningList,
+  screenSuppliers,
+  type ScreeningOptions,
+} from '../../../services/supplierScreening';
 
 const COMPANIES_HOUSE_API_KEY_PENDING_VALUE = '__PENDING__';
 const COMPANIES_HOUSE_API_KEY_PENDING_CODE = 'COMPANIES_HOUSE_API_KEY_PENDING';
@@ -34,12 +125,36 @@ export interface ServerEnv {
   NODE_ENV: 'development' | 'production' | 'test';
   RATE_LIMIT_MAX: number;
   RATE_LIMIT_WINDOW_MS: number;
+  COMPANIES_HOUSE_MAX_WAIT_MS?: number;
+  OWNERSHIP_MAX_DEPTH?: number;
+  OFFICER_LOOKUP_MAX_OFFICERS?: number;
+  DISQUALIFICATION_MAX_CANDIDATES?: number;
+  RISK_POLICY_PATHS?: string;
+  WATCHLIST_CHECK_INTERVAL_HOURS?: number;
 }
 
 export interface ApiAppOptions {
   env: ServerEnv;
   connector?: CompaniesHouseConnector;
   registryConfig?: RegistryConfig;
+  /** Risk policies, default first; loaded from RISK_POLICY_PATHS when omitted */
+  riskPolicies?: RiskPolicy[];
+  /** Risk flag waivers; stored in the CACHE_DB_PATH database when omitted */
+  waiverStore?: SqliteWaiverStore;
+  /** Background jobs; stored in the CACHE_DB_PATH database when omitted */
+  jobStore?: SqliteJobStore;
+  /** Worker settings, or false to leave queued jobs to another process */
+  jobWorker?: false | Pick<JobWorkerOptions, 'pollIntervalMs' | 'retryDelayMs'>;
+  /** Watched suppliers; stored in the CACHE_DB_PATH database when omitted */
+  watchlistStore?: SqliteWatchlistStore;
+  /** Scheduler settings, or false to leave watchlist checks to another process */
+  watchlistScheduler?: false | Pick<WatchlistSchedulerOptions, 'pollIntervalMs'>;
+  /** Webhook subscriptions and deliveries; stored in the CACHE_DB_PATH database when omitted */
+  webhookStore?: SqliteWebhookStore;
+  /** How webhook deliveries are sent, e.g. a custom fetch for testing */
+  webhookSender?: WebhookSenderOptions;
+  /** Stored dossier snapshots; stored in the CACHE_DB_PATH database when omitted */
+  snapshotStore?: SqliteSnapshotStore;
 }
 
 interface ApiErrorPayload {
@@ -104,7 +219,9 @@ function mapConnectorError(error: ConnectorError['error']): {
           ? 401
           : error.code === ConnectorErrorCode.RATE_LIMITED
             ? 429
-            : 502);
+            : error.code === ConnectorErrorCode.TIMEOUT
+              ? 504
+              : 502);
 
   return {
     statusCode,
@@ -114,7 +231,7 @@ function mapConnectorError(error: ConnectorError['error']): {
   };
 }
 
-function mapSearchResult(item: CompanySearchItem) {
+function mapSearchResult(item: CompanySearchItem): SearchResult {
   return {
     companyNumber: item.company_number,
     name: item.title,
@@ -127,10 +244,454 @@ function mapSearchResult(item: CompanySearchItem) {
   };
 }
 
+function mapAdvancedSearchResult(item: AdvancedCompanySearchItem): SearchResult {
+  const address = item.registered_office_address;
+  return {
+    companyNumber: item.company_number,
+    name: item.company_name,
+    status: item.company_status,
+    addressSnippet: [
+      address?.premises,
+      address?.address_line_1,
+      address?.locality,
+      address?.postal_code,
+    ]
+      .filter(Boolean)
+      .join(', '),
+  };
+}
+
+const DEFAULT_SEARCH_ITEMS_PER_PAGE = 20;
+const MAX_SEARCH_ITEMS_PER_PAGE = 100;
+
+type QueryValue = string | string[] | undefined;
+
+/**
+ * Values of a query parameter given repeated and/or comma-separated.
+ */
+function queryList(value: QueryValue): string[] {
+  return (Array.isArray(value) ? value : value ? [value] : [])
+    .flatMap((item) => item.split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * First value of a query parameter, trimmed, or undefined when blank.
+ */
+function queryValue(value: QueryValue): string | undefined {
+  const first = (Array.isArray(value) ? value[0] : value)?.trim();
+  return first || undefined;
+}
+
+/**
+ * Advanced search filters from the query string, or undefined when none were given.
+ */
+function parseSearchFilters(query: Record<string, QueryValue>): SearchFilters | undefined {
+  const filters: SearchFilters = {};
+  const status = queryList(query.status);
+  const type = queryList(query.type);
+  const sic = queryList(query.sic);
+  const incorporatedFrom = queryValue(query.incorporated_from);
+  const incorporatedTo = queryValue(query.incorporated_to);
+  const location = queryValue(query.location);
+
+  if (status.length > 0) filters.status = status;
+  if (type.length > 0) filters.type = type;
+  if (sic.length > 0) filters.sic = sic;
+  if (incorporatedFrom) filters.incorporatedFrom = incorporatedFrom;
+  if (incorporatedTo) filters.incorporatedTo = incorporatedTo;
+  if (location) filters.location = location;
+
+  return Object.keys(filters).length > 0 ? filters : undefined;
+}
+
+/**
+ * Paging from "start_index" and "items_per_page", or a validation message.
+ */
+function parsePaging(
+  query: Record<string, QueryValue>
+): { startIndex: number; itemsPerPage: number } | { error: string } {
+  const startIndexParam = queryValue(query.start_index);
+  const itemsPerPageParam = queryValue(query.items_per_page);
+  const startIndex = startIndexParam === undefined ? 0 : Number(startIndexParam);
+  const itemsPerPage =
+    itemsPerPageParam === undefined ? DEFAULT_SEARCH_ITEMS_PER_PAGE : Number(itemsPerPageParam);
+
+  if (!Number.isInteger(startIndex) || startIndex < 0) {
+    return { error: '"start_index" must be a non-negative integer.' };
+  }
+  if (
+    !Number.isInteger(itemsPerPage) ||
+    itemsPerPage < 1 ||
+    itemsPerPage > MAX_SEARCH_ITEMS_PER_PAGE
+  ) {
+    return {
+      error: `"items_per_page" must be an integer between 1 and ${MAX_SEARCH_ITEMS_PER_PAGE}.`,
+    };
+  }
+  return { startIndex, itemsPerPage };
+}
+
+/**
+ * Self, next and previous links for a page of results.
+ */
+function buildPageLinks(
+  path: string,
+  params: URLSearchParams,
+  startIndex: number,
+  itemsPerPage: number,
+  totalResults: number
+): PageLinks {
+  const link = (start: number) => {
+    const pageParams = new URLSearchParams(params);
+    pageParams.set('start_index', String(start));
+    pageParams.set('items_per_page', String(itemsPerPage));
+    return `${path}?${pageParams.toString()}`;
+  };
+
+  return {
+    self: link(startIndex),
+    ...(startIndex + itemsPerPage < totalResults && { next: link(startIndex + itemsPerPage) }),
+    ...(startIndex > 0 && { previous: link(Math.max(0, startIndex - itemsPerPage)) }),
+  };
+}
+
+/**
+ * Query parameters that reproduce a company search.
+ */
+function searchParams(query: string, filters: SearchFilters | undefined): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query) params.set('q', query);
+  if (filters?.status) params.set('status', filters.status.join(','));
+  if (filters?.type) params.set('type', filters.type.join(','));
+  if (filters?.sic) params.set('sic', filters.sic.join(','));
+  if (filters?.incorporatedFrom) params.set('incorporated_from', filters.incorporatedFrom);
+  if (filters?.incorporatedTo) params.set('incorporated_to', filters.incorporatedTo);
+  if (filters?.location) params.set('location', filters.location);
+  return params;
+}
+
+function mapOfficerSearchResult(item: OfficerSearchItem): OfficerSearchResult | undefined {
+  const officerId = officerIdFromLink(item.links.self);
+  if (!officerId) {
+    return undefined;
+  }
+
+  return {
+    officerId,
+    name: item.title,
+    appointmentCount: item.appointment_count ?? 0,
+    ...(item.date_of_birth && {
+      dateOfBirth: { month: item.date_of_birth.month, year: item.date_of_birth.year },
+    }),
+    addressSnippet:
+      item.address_snippet ??
+      [item.address?.address_line_1, item.address?.locality, item.address?.postal_code]
+        .filter(Boolean)
+        .join(', '),
+    ...(item.description && { description: item.description }),
+    links: {
+      appointments: `/api/officers/${officerId}/appointments`,
+    },
+  };
+}
+
+/**
+ * Risk policy chosen by the `policy` query parameter, or the default (first) policy.
+ */
+function selectRiskPolicy(
+  policies: RiskPolicy[],
+  policyId: string | undefined
+): RiskPolicy | undefined {
+  return policyId ? policies.find((policy) => policy.id === policyId) : policies[0];
+}
+
+/**
+ * Compute risk flags under a policy and annotate those with an active waiver.
+ * Waivers whose flag is now raised on different evidence are marked as lapsed.
+ */
+function buildReviewedDossier(
+  dossier: Dossier,
+  input: DossierInput,
+  riskPolicy: RiskPolicy,
+  waiverStore: SqliteWaiverStore
+): Dossier {
+  const { flags } = computeRiskFlags(dossier, input, dossier.generatedAt, riskPolicy);
+  const waivers = waiverStore.listForCompany(dossier.company.companyNumber);
+
+  const lapsed = new Set(findLapsedWaivers(flags, waivers).map((waiver) => waiver.id));
+  if (lapsed.size > 0) {
+    waiverStore.markLapsed([...lapsed]);
+  }
+
+  return applyRiskFlags(
+    dossier,
+    flags,
+    waivers.filter((waiver) => !lapsed.has(waiver.id))
+  );
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Watchlist events returned by default, and the most one request may ask for */
+const DEFAULT_WATCHLIST_EVENTS = 100;
+const MAX_WATCHLIST_EVENTS = 500;
+
+type WaiverStatus = 'active' | 'expired' | 'lapsed';
+
+function mapWaiver(waiver: StoredWaiver, today: string): StoredWaiver & { status: WaiverStatus } {
+  const status: WaiverStatus = waiver.lapsedAt
+    ? 'lapsed'
+    : isWaiverActive(waiver, today)
+      ? 'active'
+      : 'expired';
+  return { ...waiver, status };
+}
+
+interface WaiverRequest {
+  flagId: string;
+  reason: string;
+  reviewer: string;
+  expiresOn: string;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate a waiver request body, returning the problems found.
+ */
+function parseWaiverRequest(
+  body: unknown,
+  today: string
+): { waiver?: WaiverRequest; errors: string[] } {
+  const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const text = (name: keyof WaiverRequest) =>
+    typeof fields[name] === 'string' ? (fields[name] as string).trim() : '';
+
+  const waiver: WaiverRequest = {
+    flagId: text('flagId').toUpperCase(),
+    reason: text('reason'),
+    reviewer: text('reviewer'),
+    expiresOn: text('expiresOn'),
+  };
+
+  const errors: string[] = [];
+  for (const name of ['flagId', 'reason', 'reviewer'] as const) {
+    if (!waiver[name]) {
+      errors.push(`${name} is required.`);
+    }
+  }
+  if (!ISO_DATE_PATTERN.test(waiver.expiresOn) || Number.isNaN(Date.parse(waiver.expiresOn))) {
+    errors.push('expiresOn must be a date (YYYY-MM-DD).');
+  } else if (waiver.expiresOn < today) {
+    errors.push('expiresOn must not be in the past.');
+  }
+
+  return errors.length > 0 ? { errors } : { waiver, errors };
+}
+
+interface WebhookRequest {
+  url: string;
+  eventTypes: string[];
+  secret: string;
+  description?: string;
+}
+
+/** Company numbers as Companies House stores them, e.g. 01234567 or SC123456 */
+const COMPANY_NUMBER_PATTERN = /^[A-Z0-9]{8}$/;
+
+/** Shortest secret accepted for signing deliveries */
+const MIN_WEBHOOK_SECRET_LENGTH = 16;
+
+/**
+ * Validate a webhook registration, returning the problems found.
+ * A secret is generated when none is given.
+ */
+function parseWebhookRequest(body: unknown): { webhook?: WebhookRequest; errors: string[] } {
+  const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const url = typeof fields.url === 'string' ? fields.url.trim() : '';
+  let protocol: string | undefined;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    protocol = undefined;
+  }
+  if (protocol !== 'https:') {
+    errors.push('url must be an https URL.');
+  }
+
+  const eventTypes = Array.isArray(fields.events) ? fields.events : [];
+  if (eventTypes.length === 0) {
+    errors.push(`events must list one or more of: ${WEBHOOK_EVENT_TYPES.join(', ')}.`);
+  }
+  for (const type of eventTypes) {
+    if (typeof type !== 'string' || !WEBHOOK_EVENT_TYPES.includes(type)) {
+      errors.push(`Unknown event type "${String(type)}".`);
+    }
+  }
+
+  if (
+    fields.secret !== undefined &&
+    (typeof fields.secret !== 'string' || fields.secret.length < MIN_WEBHOOK_SECRET_LENGTH)
+  ) {
+    errors.push(`secret must be at least ${MIN_WEBHOOK_SECRET_LENGTH} characters.`);
+  }
+  if (fields.description !== undefined && typeof fields.description !== 'string') {
+    errors.push('description must be a string.');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const description = (fields.description as string | undefined)?.trim();
+  return {
+    webhook: {
+      url,
+      eventTypes: [...new Set(eventTypes as string[])],
+      secret: (fields.secret as string | undefined) ?? `whsec_${randomBytes(24).toString('hex')}`,
+      ...(description && { description }),
+    },
+    errors,
+  };
+}
+
+/**
+ * A webhook as returned by the API. The secret is only shown when the webhook is created.
+ */
+function mapWebhook({ secret: _secret, ...webhook }: Webhook) {
+  return {
+    ...webhook,
+    links: {
+      self: `/api/webhooks/${webhook.id}`,
+      deliveries: `/api/webhooks/${webhook.id}/deliveries`,
+    },
+  };
+}
+
+function mapSnapshot(snapshot: SnapshotSummary) {
+  return {
+    ...snapshot,
+    links: {
+      self: `/api/snapshots/${snapshot.id}`,
+      reportHtml: `/api/snapshots/${snapshot.id}/report.html`,
+      reportPdf: `/api/snapshots/${snapshot.id}/report.pdf`,
+    },
+  };
+}
+
+const SNAPSHOT_REPORT_CONTENT_TYPES: Record<SnapshotReportFormat, string> = {
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+/** Snapshots listed by default, and the most one request may ask for */
+const DEFAULT_SNAPSHOTS = 50;
+const MAX_SNAPSHOTS = 500;
+
+const JOB_TYPES = ['screening', 'dossier', 'report'] as const;
+
+/**
+ * Share of the Companies House request budget one inline screening may spend;
+ * the rest is left for the requests arriving while it runs.
+ */
+const INLINE_SCREENING_BUDGET = COMPANIES_HOUSE_RATE_LIMIT.capacity / 2;
+
+type JobType = (typeof JOB_TYPES)[number];
+
+/**
+ * Screenings can run for minutes, so they get a lane of their own; webhook
+ * deliveries are short and mostly spent waiting on the receiver, so several
+ * run at once. Dossiers, reports and watchlist checks share the rest.
+ */
+const JOB_LANES: JobLane[] = [
+  { types: ['screening'] },
+  { types: [WEBHOOK_JOB_TYPE], concurrency: 4 },
+  { concurrency: 2 },
+];
+
+interface ScreeningJobPayload {
+  policy: string;
+  companies: ScreeningInput[];
+}
+
+interface CompanyJobPayload {
+  policy: string;
+  companyNumber: string;
+  /** Report jobs only */
+  format?: 'html' | 'pdf';
+}
+
+function mapJob(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    state: job.state,
+    payload: job.payload,
+    progress: job.progress,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    ...(job.result !== undefined && { result: job.result }),
+    ...(job.error && { error: job.error }),
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(job.updatedAt).toISOString(),
+    ...(job.startedAt && { startedAt: new Date(job.startedAt).toISOString() }),
+    ...(job.finishedAt && { finishedAt: new Date(job.finishedAt).toISOString() }),
+    links: {
+      self: `/api/jobs/${job.id}`,
+    },
+  };
+}
+
+/**
+ * Job failure for an API error; upstream and rate limit failures are worth retrying.
+ */
+function jobFailure(error: ApiErrorPayload): JobOutcome {
+  const { code, message, statusCode } = error.error;
+  return {
+    success: false,
+    error: { code, message },
+    retryable: statusCode >= 500 || statusCode === 429,
+  };
+}
+
+/** Address filings fetched for the registered office history */
+const ADDRESS_FILINGS_PER_PAGE = 100;
+
+/**
+ * Caps on the Companies House lookups one dossier makes beyond its fixed calls.
+ */
+interface DossierLookupLimits {
+  /** Corporate owner layers followed above the company */
+  ownershipMaxDepth?: number;
+  /** Officers whose appointments are fetched, and officers screened for disqualification */
+  maxOfficers?: number;
+  /** Disqualification records fetched per officer */
+  maxCandidates?: number;
+}
+
+/**
+ * Most Companies House requests one screened supplier can cost: a name search,
+ * the profile, officers, PSCs, PSC statements, two filing history pages,
+ * charges and insolvency, then one request per ownership layer (assuming one
+ * corporate owner each), per director's appointments, per officer search and
+ * per candidate record.
+ */
+function screeningRequestCost(limits: DossierLookupLimits): number {
+  const ownershipMaxDepth = limits.ownershipMaxDepth ?? DEFAULT_OWNERSHIP_MAX_DEPTH;
+  const maxOfficers = limits.maxOfficers ?? DEFAULT_MAX_OFFICERS;
+  const maxCandidates = limits.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
+  return 9 + ownershipMaxDepth + maxOfficers + maxOfficers * (1 + maxCandidates);
+}
+
 async function buildDossierInput(
   connector: CompaniesHouseConnector,
   companyNumber: string,
-  registryConfig: RegistryConfig
+  registryConfig: RegistryConfig,
+  limits: DossierLookupLimits = {}
 ): Promise<{ input: DossierInput; error?: ApiErrorPayload }> {
   const profileResult = await connector.getCompanyProfile(companyNumber);
   if (isConnectorError(profileResult)) {
@@ -143,9 +704,27 @@ async function buildDossierInput(
     };
   }
 
-  const [officersResult, pscsResult] = await Promise.all([
+  const [
+    officersResult,
+    pscsResult,
+    filingHistoryResult,
+    addressFilingsResult,
+    chargesResult,
+    insolvencyResult,
+  ] = await Promise.all([
     connector.getOfficers(companyNumber),
     connector.getPscs(companyNumber),
+    connector.getFilingHistory(companyNumber),
+    // Registered office moves may be older than the first page of all filings
+    connector.getFilingHistory(companyNumber, {
+      category: 'address',
+      itemsPerPage: ADDRESS_FILINGS_PER_PAGE,
+    }),
+    // Skip the charges and insolvency calls when the profile says there is nothing to fetch
+    profileResult.data.has_charges ? connector.getCharges(companyNumber) : undefined,
+    profileResult.data.has_insolvency_history || profileResult.data.has_been_liquidated
+      ? connector.getInsolvency(companyNumber)
+      : undefined,
   ]);
 
   if (isConnectorError(officersResult)) {
@@ -168,6 +747,30 @@ async function buildDossierInput(
     };
   }
 
+  // Follow corporate PSCs up the chain; the connector's cache and budget apply to each hop
+  const ownership = await resolveOwnershipChain(connector, companyNumber, pscsResult.data, {
+    maxDepth: limits.ownershipMaxDepth,
+  });
+
+  // PSC statements are only fetched when the PSC register links to any
+  const pscStatementsResult = pscsResult.data.links.persons_with_significant_control_statements
+    ? await connector.getPscStatements(companyNumber)
+    : undefined;
+  const pscStatements =
+    pscStatementsResult && !isConnectorError(pscStatementsResult) ? pscStatementsResult : undefined;
+
+  // Look up where each active director also serves, for the serial director rules, and
+  // search the disqualified directors register for each current officer
+  const [directorAppointments, disqualification] = await Promise.all([
+    fetchDirectorAppointments(connector, officersResult.data, {
+      maxOfficers: limits.maxOfficers,
+    }),
+    screenDisqualifiedOfficers(connector, officersResult.data, {
+      maxOfficers: limits.maxOfficers,
+      maxCandidates: limits.maxCandidates,
+    }),
+  ]);
+
   const modernSlavery = await lookupModernSlaveryRegistry(
     profileResult.data.company_number,
     profileResult.data.company_name,
@@ -178,6 +781,7 @@ async function buildDossierInput(
     profile: profileResult.data,
     officers: officersResult.data,
     pscs: pscsResult.data,
+    ownership: ownership.chain,
     modernSlavery,
     evidence: {
       profile: profileResult.evidence,
@@ -185,29 +789,483 @@ async function buildDossierInput(
       pscs: pscsResult.evidence,
     },
   };
+  if (ownership.evidence.length > 0) {
+    input.evidence.ownership = ownership.evidence;
+  }
+  if (directorAppointments.appointments.length > 0) {
+    input.officerAppointments = directorAppointments.appointments;
+    input.evidence.officerAppointments = directorAppointments.evidence;
+  }
+  if (disqualification.evidence.length > 0) {
+    input.disqualifiedOfficers = disqualification.records;
+    input.evidence.disqualifiedOfficers = disqualification.evidence;
+  }
+
+  // PSC statements are supplementary: a failure leaves F5 relying on the statements link
+  if (pscStatements) {
+    input.pscStatements = pscStatements.data;
+    input.evidence.pscStatements = pscStatements.evidence;
+  }
+
+  // Officers, PSCs and PSC statements are walked page by page; keep evidence for every page
+  // and note any list cut short by the connector's page ceiling.
+  const additionalPages = [
+    ...(officersResult.additionalEvidence || []),
+    ...(pscsResult.additionalEvidence || []),
+    ...(pscStatements?.additionalEvidence || []),
+  ];
+  if (additionalPages.length > 0) {
+    input.evidence.additionalPages = additionalPages;
+  }
+  const truncated: TruncatableSection[] = [];
+  if (officersResult.truncated) truncated.push('officers');
+  if (pscsResult.truncated) truncated.push('pscs');
+  if (pscStatements?.truncated) truncated.push('pscStatements');
+  if (directorAppointments.truncated) truncated.push('officerAppointments');
+  if (truncated.length > 0) {
+    input.truncated = truncated;
+  }
+
+  // Filing history, address filings, charges and insolvency are supplementary: a failure leaves
+  // the section empty (and F4 falls back to the profile flags) rather than failing the dossier.
+  if (!isConnectorError(filingHistoryResult)) {
+    input.filingHistory = filingHistoryResult.data;
+    input.evidence.filingHistory = filingHistoryResult.evidence;
+  }
+  if (!isConnectorError(addressFilingsResult)) {
+    input.addressFilings = addressFilingsResult.data;
+    input.evidence.addressFilings = addressFilingsResult.evidence;
+  }
+  if (chargesResult && !isConnectorError(chargesResult)) {
+    input.charges = chargesResult.data;
+    input.evidence.charges = chargesResult.evidence;
+  }
+  if (insolvencyResult && !isConnectorError(insolvencyResult)) {
+    input.insolvency = insolvencyResult.data;
+    input.evidence.insolvency = insolvencyResult.evidence;
+  }
 
   return { input };
 }
 
+/**
+ * Cache and request budget for the Companies House connector.
+ * With CACHE_DB_PATH set, both live in SQLite so cached responses survive
+ * restarts and all API processes sharing the volume draw on one key allowance.
+ * Either cache serves recently expired data if Companies House is unavailable.
+ */
+function createCompaniesHouseConnectorOptions(env: ServerEnv) {
+  const persistent = Boolean(process.env.CACHE_DB_PATH);
+
+  return {
+    cache: persistent
+      ? new SqliteConnectorCache(COMPANIES_HOUSE_CACHE_POLICY)
+      : new Cache(COMPANIES_HOUSE_CACHE_POLICY),
+    rateLimiter: new RateLimiter({
+      maxWaitMs: env.COMPANIES_HOUSE_MAX_WAIT_MS,
+      store: persistent ? new SqliteRateLimitStore() : undefined,
+    }),
+  };
+}
+
 export async function buildApiApp(options: ApiAppOptions): Promise<FastifyInstance> {
   const env = options.env;
   const isVercel = process.env.VERCEL === '1' || process.env.VERCEL === 'true';
   const apiKeyPending =
     !options.connector && isCompaniesHouseApiKeyPending(env.COMPANIES_HOUSE_API_KEY);
   const connector =
-    options.connector ?? (apiKeyPending ? undefined : createCompaniesHouseConnector(env.COMPANIES_HOUSE_API_KEY));
+    options.connector ??
+    (apiKeyPending
+      ? undefined
+      : createCompaniesHouseConnector(
+          env.COMPANIES_HOUSE_API_KEY,
+          createCompaniesHouseConnectorOptions(env)
+        ));
   const registryConfig = options.registryConfig ?? DEFAULT_REGISTRY_CONFIG;
+  const dossierLookupLimits: DossierLookupLimits = {
+    ownershipMaxDepth: env.OWNERSHIP_MAX_DEPTH,
+    maxOfficers: env.OFFICER_LOOKUP_MAX_OFFICERS,
+    maxCandidates: env.DISQUALIFICATION_MAX_CANDIDATES,
+  };
+  // Most suppliers POST /api/screenings screens while the caller waits; larger
+  // batches are queued as a screening job instead
+  const maxInlineScreeningRows = Math.max(
+    1,
+    Math.floor(INLINE_SCREENING_BUDGET / screeningRequestCost(dossierLookupLimits))
+  );
+  const riskPolicies =
+    options.riskPolicies ?? (await loadRiskPolicies(parseRiskPolicyPaths(env.RISK_POLICY_PATHS)));
+  const waiverStore = options.waiverStore ?? new SqliteWaiverStore();
+  const jobStore = options.jobStore ?? new SqliteJobStore();
+  const watchlistStore = options.watchlistStore ?? new SqliteWatchlistStore();
+  const webhookStore = options.webhookStore ?? new SqliteWebhookStore();
+  const snapshotStore = options.snapshotStore ?? new SqliteSnapshotStore();
+
+  /**
+   * Queue delivery of an event to every webhook subscribed to it.
+   */
+  const publishEvent = (type: string, data: unknown): void => {
+    const webhooks = webhookStore.listForEvent(type);
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    const event: WebhookEvent = {
+      id: randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    for (const webhook of webhooks) {
+      const delivery = webhookStore.createDelivery(webhook.id, type, event);
+      const payload: WebhookJobPayload = { deliveryId: delivery.id };
+      jobStore.enqueue({ type: WEBHOOK_JOB_TYPE, payload, maxAttempts: WEBHOOK_MAX_ATTEMPTS });
+    }
+  };
+
+  /**
+   * Report for a stored snapshot. The first rendering of each format is stored
+   * with the snapshot and returned from then on, so the bytes never change even
+   * if the renderer does (PDFs also embed their creation time).
+   */
+  const getSnapshotReport = async (snapshotId: string, format: SnapshotReportFormat) => {
+    const stored = snapshotStore.getReport(snapshotId, format);
+    if (stored) {
+      return stored;
+    }
+
+    const snapshot = snapshotStore.get(snapshotId);
+    if (!snapshot) {
+      return undefined;
+    }
+
+    const html = renderDossierHtml(
+      snapshot.dossier as Dossier,
+      snapshot.evidence as EvidenceWithId[],
+      { riskScore: snapshot.riskScore as RiskScore }
+    );
+    const body = format === 'pdf' ? await renderReportPdf(html) : Buffer.from(html, 'utf8');
+    const contentType = SNAPSHOT_REPORT_CONTENT_TYPES[format];
+    return snapshotStore.saveReport(snapshotId, format, contentType, body);
+  };
+
+  /**
+   * Dossier with reviewed risk flags and score for one company.
+   */
+  const buildCompanyDossier = async (
+    connector: CompaniesHouseConnector,
+    companyNumber: string,
+    riskPolicy: RiskPolicy
+  ) => {
+    const { input, error } = await buildDossierInput(
+      connector,
+      companyNumber,
+      registryConfig,
+      dossierLookupLimits
+    );
+    if (error) {
+      return { error };
+    }
+
+    const dossierResult = buildDossier(input);
+    const dossier = buildReviewedDossier(dossierResult.dossier, input, riskPolicy, waiverStore);
+    return {
+      input,
+      dossier,
+      evidence: dossierResult.evidence,
+      riskScore: scoreRiskFlags(dossier.riskFlags, riskPolicy.scoring),
+    };
+  };
+
+  /**
+   * Build a company's dossier and store it as a snapshot, so what was served
+   * can be shown later exactly as it was.
+   */
+  const buildAndSnapshot = async (
+    connector: CompaniesHouseConnector,
+    companyNumber: string,
+    riskPolicy: RiskPolicy
+  ) => {
+    const built = await buildCompanyDossier(connector, companyNumber, riskPolicy);
+    if (built.error) {
+      return { error: built.error };
+    }
+
+    const snapshot = snapshotStore.create({
+      companyNumber,
+      policyId: riskPolicy.id,
+      policyVersion: riskPolicy.version,
+      generatedAt: built.dossier.generatedAt,
+      dossier: built.dossier,
+      evidence: built.evidence,
+      rawInput: built.input,
+      riskScore: built.riskScore,
+    });
+    return { ...built, snapshot };
+  };
+
+  /**
+   * Screen a batch of suppliers under a risk policy.
+   */
+  const runScreening = async (
+    connector: CompaniesHouseConnector,
+    rows: ScreeningInput[],
+    riskPolicy: RiskPolicy,
+    screeningOptions?: ScreeningOptions
+  ): Promise<ScreeningResponse<RiskFlag>> => {
+    const results = await screenSuppliers<RiskFlag>(
+      connector,
+      rows,
+      async (companyNumber) => {
+        const built = await buildCompanyDossier(connector, companyNumber, riskPolicy);
+        if (built.error) {
+          const { code, message } = built.error.error;
+          return { success: false, error: { code, message } };
+        }
+
+        const { score, maxScore, band } = built.riskScore;
+        return {
+          success: true,
+          companyName: built.dossier.company.name,
+          riskFlags: built.dossier.riskFlags,
+          riskScore: { score, maxScore, band },
+        };
+      },
+      screeningOptions
+    );
+
+    return {
+      riskPolicy: { id: riskPolicy.id, version: riskPolicy.version },
+      summary: {
+        total: results.length,
+        screened: results.filter((result) => result.status === 'screened').length,
+        failed: results.filter((result) => result.status === 'failed').length,
+        skipped: results.filter((result) => result.status === 'skipped').length,
+      },
+      results,
+    };
+  };
+
+  /**
+   * Handlers for background jobs. Payloads were validated when the job was queued.
+   */
+  const createJobHandlers = (
+    connector: CompaniesHouseConnector
+  ): Record<JobType | typeof WATCHLIST_JOB_TYPE | typeof WEBHOOK_JOB_TYPE, JobHandler> => {
+    const policyFor = (payload: {
+      policy: string;
+    }): RiskPolicy | Extract<JobOutcome, { success: false }> =>
+      selectRiskPolicy(riskPolicies, payload.policy) ?? {
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `Unknown risk policy "${payload.policy}".` },
+        retryable: false,
+      };
+
+    return {
+      screening: async (payload, { job, reportProgress, signal }) => {
+        const { companies, ...rest } = payload as ScreeningJobPayload;
+        const riskPolicy = policyFor(rest);
+        if ('success' in riskPolicy) {
+          return riskPolicy;
+        }
+
+        reportProgress(0, companies.length);
+        const result = await runScreening(connector, companies, riskPolicy, {
+          onProgress: reportProgress,
+          signal,
+        });
+        if (!signal.aborted) {
+          publishEvent('screening.completed', { jobId: job.id, ...result });
+        }
+        return { success: true, result };
+      },
+
+      dossier: async (payload) => {
+        const { companyNumber, ...rest } = payload as CompanyJobPayload;
+        const riskPolicy = policyFor(rest);
+        if ('success' in riskPolicy) {
+          return riskPolicy;
+        }
+
+        const built = await buildCompanyDossier(connector, companyNumber, riskPolicy);
+        if (built.error) {
+          return jobFailure(built.error);
+        }
+        return {
+          success: true,
+          result: {
+            dossier: built.dossier,
+            riskPolicy: { id: riskPolicy.id, version: riskPolicy.version },
+            riskScore: built.riskScore,
+          },
+        };
+      },
+
+      report: async (payload) => {
+        const { companyNumber, format, ...rest } = payload as CompanyJobPayload;
+        const riskPolicy = policyFor(rest);
+        if ('success' in riskPolicy) {
+          return riskPolicy;
+        }
+
+        const built = await buildCompanyDossier(connector, companyNumber, riskPolicy);
+        if (built.error) {
+          return jobFailure(built.error);
+        }
+
+        const html = renderDossierHtml(built.dossier, built.evidence, {
+          riskScore: built.riskScore,
+        });
+        if (format !== 'pdf') {
+          return {
+            success: true,
+            result: { contentType: 'text/html; charset=utf-8', encoding: 'utf8', body: html },
+          };
+        }
+
+        const pdfBuffer = await renderReportPdf(html);
+        return {
+          success: true,
+          result: {
+            contentType: 'application/pdf',
+            encoding: 'base64',
+            body: Buffer.from(pdfBuffer).toString('base64'),
+          },
+        };
+      },
+
+      // Rebuild a watched company's dossier and record what changed since the last check
+      [WATCHLIST_JOB_TYPE]: async (payload) => {
+        const { companyNumber } = payload as WatchlistJobPayload;
+        const watch = watchlistStore.get(companyNumber);
+        if (!watch) {
+          return { success: true, result: { companyNumber, removed: true } };
+        }
+
+        const riskPolicy = policyFor({ policy: watch.policyId });
+        if ('success' in riskPolicy) {
+          watchlistStore.recordError(companyNumber, riskPolicy.error);
+          return riskPolicy;
+        }
+
+        const built = await buildCompanyDossier(connector, companyNumber, riskPolicy);
+        if (built.error) {
+          const { code, message } = built.error.error;
+          watchlistStore.recordError(companyNumber, { code, message });
+          return jobFailure(built.error);
+        }
+
+        // The first check stores a baseline to compare later checks against
+        const previous = watchlistStore.getLastDossier(companyNumber) as Dossier | undefined;
+        const changes = previous ? diffDossiers(previous, built.dossier) : [];
+        const events = watchlistStore.recordCheck(companyNumber, built.dossier, changes);
+        for (const event of events) {
+          publishEvent(`watchlist.${event.type}`, {
+            event,
+            dossier: built.dossier,
+            riskPolicy: { id: riskPolicy.id, version: riskPolicy.version },
+            riskScore: built.riskScore,
+          });
+        }
+
+        return {
+          success: true,
+          result: { companyNumber, baseline: !previous, events: events.length },
+        };
+      },
+
+      // Attempt one delivery; the worker retries with backoff until attempts run out
+      [WEBHOOK_JOB_TYPE]: async (payload, { job }) => {
+        const { deliveryId } = payload as WebhookJobPayload;
+        const delivery = webhookStore.getDelivery(deliveryId);
+        const webhook = delivery && webhookStore.get(delivery.webhookId);
+        if (!delivery || !webhook) {
+          return { success: true, result: { deliveryId, removed: true } };
+        }
+
+        const sent = await sendWebhook(webhook, delivery, options.webhookSender);
+        if (sent.success) {
+          webhookStore.recordAttempt(deliveryId, {
+            state: 'succeeded',
+            responseStatus: sent.responseStatus,
+          });
+          return { success: true, result: { deliveryId, responseStatus: sent.responseStatus } };
+        }
+
+        const willRetry = sent.retryable && job.attempts < job.maxAttempts;
+        webhookStore.recordAttempt(deliveryId, {
+          state: willRetry ? 'pending' : 'failed',
+          responseStatus: sent.responseStatus,
+          error: sent.error,
+        });
+        return {
+          success: false,
+          error: { code: 'WEBHOOK_DELIVERY_FAILED', message: sent.error },
+          retryable: sent.retryable,
+        };
+      },
+    };
+  };
+
+  const jobWorker =
+    connector && options.jobWorker !== false && !isVercel
+      ? new JobWorker({
+          store: jobStore,
+          handlers: createJobHandlers(connector),
+          lanes: JOB_LANES,
+          ...options.jobWorker,
+          onError: (error, job) => app.log.error({ err: error, jobId: job.id }, 'Job failed'),
+        })
+      : undefined;
+
+  const watchlistScheduler =
+    connector && options.watchlistScheduler !== false && !isVercel
+      ? new WatchlistScheduler({
+          watchlist: watchlistStore,
+          jobs: jobStore,
+          checkIntervalMs: env.WATCHLIST_CHECK_INTERVAL_HOURS
+            ? env.WATCHLIST_CHECK_INTERVAL_HOURS * HOUR_MS
+            : undefined,
+          ...options.watchlistScheduler,
+          onError: (error) => app.log.error({ err: error }, 'Watchlist scheduling failed'),
+        })
+      : undefined;
 
   const app = Fastify({
     logger: true,
   });
 
+  app.addHook('onReady', async () => {
+    if (!process.env.CACHE_DB_PATH && !isVercel) {
+      app.log.warn(
+        'CACHE_DB_PATH is not set: background jobs, the watchlist, webhooks, waivers and ' +
+          'snapshots are kept in memory and lost when the process stops'
+      );
+    }
+    jobWorker?.start();
+    watchlistScheduler?.start();
+  });
+
+  app.addHook('onClose', async () => {
+    watchlistScheduler?.stop();
+    await jobWorker?.stop();
+  });
+
   await app.register(cors, { origin: true });
   await app.register(rateLimit, {
     max: env.RATE_LIMIT_MAX,
     timeWindow: env.RATE_LIMIT_WINDOW_MS,
   });
 
+  // CSV uploads for bulk screening arrive as plain text
+  app.addContentTypeParser(
+    ['text/csv', 'text/plain'],
+    { parseAs: 'string' },
+    (_request, body, done) => {
+      done(null, body);
+    }
+  );
+
   app.get('/', async () => {
     return { status: 'ok', service: 'api' };
   });
@@ -220,6 +1278,19 @@ export async function buildApiApp(options: ApiAppOptions): Promise<FastifyInstan
     return { status: 'ok', timestamp: new Date().toISOString(), service: 'api' };
   });
 
+  app.get('/api/rate-limit', async (_request, reply) => {
+    if (apiKeyPending || !connector) {
+      return sendCompaniesHouseKeyPending(reply);
+    }
+
+    const status = connector.getRateLimitStatus();
+    if (!status) {
+      return sendError(reply, 404, 'NOT_CONFIGURED', 'No Companies House rate limiter configured.');
+    }
+
+    return status;
+  });
+
   app.get('/_debug', async () => {
     return {
       node: process.version,
@@ -237,21 +1308,153 @@ export async function buildApiApp(options: ApiAppOptions): Promise<FastifyInstan
       return sendCompaniesHouseKeyPending(reply);
     }
 
-    const query = String((request.query as { q?: string }).q ?? '').trim();
+    const params = request.query as Record<string, QueryValue>;
+    const query = queryValue(params.q) ?? '';
+    const filters = parseSearchFilters(params);
+    if (!query && !filters) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', 'Query parameter "q" is required.');
+    }
+
+    const paging = parsePaging(params);
+    if ('error' in paging) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', paging.error);
+    }
+    const { startIndex, itemsPerPage } = paging;
+
+    let results: SearchResult[];
+    let totalResults: number;
+
+    if (filters) {
+      // Any filter switches to Companies House advanced search, with "q" matched against the name
+      const result = await connector.advancedSearchCompanies({
+        companyName: query || undefined,
+        companyStatus: filters.status,
+        companyType: filters.type,
+        sicCodes: filters.sic,
+        incorporatedFrom: filters.incorporatedFrom,
+        incorporatedTo: filters.incorporatedTo,
+        location: filters.location,
+        startIndex,
+        itemsPerPage,
+      });
+      if (isConnectorError(result)) {
+        // Advanced search answers 404 when nothing matches
+        if (result.error.code !== ConnectorErrorCode.NOT_FOUND) {
+          const mapped = mapConnectorError(result.error);
+          return sendError(reply, mapped.statusCode, mapped.code, mapped.message, mapped.details);
+        }
+        results = [];
+        totalResults = 0;
+      } else {
+        results = result.data.items.map(mapAdvancedSearchResult);
+        totalResults = result.data.hits;
+      }
+    } else {
+      const result = await connector.searchCompanies(query, { startIndex, itemsPerPage });
+      if (isConnectorError(result)) {
+        const mapped = mapConnectorError(result.error);
+        return sendError(reply, mapped.statusCode, mapped.code, mapped.message, mapped.details);
+      }
+      results = result.data.items.map(mapSearchResult);
+      totalResults = result.data.total_results;
+    }
+
+    const response: SearchResponse = {
+      query,
+      mode: filters ? 'advanced' : 'basic',
+      ...(filters && { filters }),
+      results,
+      totalResults,
+      startIndex,
+      itemsPerPage,
+      links: buildPageLinks(
+        '/api/search',
+        searchParams(query, filters),
+        startIndex,
+        itemsPerPage,
+        totalResults
+      ),
+    };
+    return response;
+  });
+
+  app.get('/api/officers/search', async (request, reply) => {
+    if (apiKeyPending || !connector) {
+      return sendCompaniesHouseKeyPending(reply);
+    }
+
+    const params = request.query as Record<string, QueryValue>;
+    const query = queryValue(params.q);
     if (!query) {
       return sendError(reply, 400, 'VALIDATION_ERROR', 'Query parameter "q" is required.');
     }
 
-    const result = await connector.searchCompanies(query);
+    const paging = parsePaging(params);
+    if ('error' in paging) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', paging.error);
+    }
+    const { startIndex, itemsPerPage } = paging;
+
+    const result = await connector.searchOfficers(query, { startIndex, itemsPerPage });
     if (isConnectorError(result)) {
       const mapped = mapConnectorError(result.error);
       return sendError(reply, mapped.statusCode, mapped.code, mapped.message, mapped.details);
     }
 
-    return {
+    const response: OfficerSearchResults = {
       query,
-      results: result.data.items.map(mapSearchResult),
+      results: result.data.items
+        .map(mapOfficerSearchResult)
+        .filter((item): item is OfficerSearchResult => Boolean(item)),
+      totalResults: result.data.total_results,
+      startIndex,
+      itemsPerPage,
+      links: buildPageLinks(
+        '/api/officers/search',
+        new URLSearchParams({ q: query }),
+        startIndex,
+        itemsPerPage,
+        result.data.total_results
+      ),
     };
+    return response;
+  });
+
+  app.get('/api/officers/:officerId/appointments', async (request, reply) => {
+    if (apiKeyPending || !connector) {
+      return sendCompaniesHouseKeyPending(reply);
+    }
+
+    const officerId = String((request.params as { officerId?: string }).officerId ?? '').trim();
+    if (!officerId) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', 'Officer ID is required.');
+    }
+
+    const result = await connector.getOfficerAppointments(officerId);
+    if (isConnectorError(result)) {
+      const mapped = mapConnectorError(result.error);
+      return sendError(reply, mapped.statusCode, mapped.code, mapped.message, mapped.details);
+    }
+
+    const appointments = normalizeOfficerAppointments(result.data).map((appointment) => ({
+      ...appointment,
+      links: {
+        dossier: `/api/company/${appointment.companyNumber}`,
+        report: `/api/company/${appointment.companyNumber}/report.html`,
+      },
+    }));
+
+    const response: OfficerAppointmentList = {
+      officerId,
+      name: result.data.name,
+      ...(result.data.date_of_birth && { dateOfBirth: result.data.date_of_birth }),
+      isCorporateOfficer: result.data.is_corporate_officer ?? false,
+      totalResults: result.data.total_results,
+      activeCount: appointments.filter((appointment) => !appointment.resignedOn).length,
+      appointments,
+      truncated: result.truncated ?? false,
+    };
+    return response;
   });
 
   app.get('/api/company/:companyNumber', async (request, reply) => {
@@ -266,27 +1469,31 @@ export async function buildApiApp(options: ApiAppOptions): Promise<FastifyInstan
       return sendError(reply, 400, 'VALIDATION_ERROR', 'Company number is required.');
     }
 
-    const { input, error } = await buildDossierInput(connector, companyNumber, registryConfig);
-    if (error) {
-      return sendError(reply, error.error.statusCode, error.error.code, error.error.message, error.error.details);
+    const policyId = queryValue((request.query as Record<string, QueryValue>).policy);
+    const riskPolicy = selectRiskPolicy(riskPolicies, policyId);
+    if (!riskPolicy) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', `Unknown risk policy "${policyId}".`);
     }
 
-    const dossierResult = buildDossier(input);
-    const dossierWithFlags = buildDossierWithRiskFlags(
-      dossierResult.dossier,
-      input,
-      dossierResult.dossier.generatedAt
-    );
+    const built = await buildAndSnapshot(connector, companyNumber, riskPolicy);
+    if (built.error) {
+      const { error } = built.error;
+      return sendError(reply, error.statusCode, error.code, error.message, error.details);
+    }
 
     const baseUrl = `${request.protocol}://${request.headers.host}`;
     const reportBase = `${baseUrl}/api/company/${companyNumber}/report`;
+    const reportQuery = policyId ? `?policy=${encodeURIComponent(policyId)}` : '';
 
     return {
-      dossier: dossierWithFlags,
+      dossier: built.dossier,
+      riskPolicy: { id: riskPolicy.id, version: riskPolicy.version },
+      riskScore: built.riskScore,
       report: {
-        htmlUrl: `${reportBase}.html`,
-        pdfUrl: `${reportBase}.pdf`,
+        htmlUrl: `${reportBase}.html${reportQuery}`,
+        pdfUrl: `${reportBase}.pdf${reportQuery}`,
       },
+      snapshot: mapSnapshot(built.snapshot),
     };
   });
 
@@ -302,21 +1509,24 @@ export async function buildApiApp(options: ApiAppOptions): Promise<FastifyInstan
       return sendError(reply, 400, 'VALIDATION_ERROR', 'Company number is required.');
     }
 
-    const { input, error } = await buildDossierInput(connector, companyNumber, registryConfig);
-    if (error) {
-      return sendError(reply, error.error.statusCode, error.error.code, error.error.message, error.error.details);
+    const policyId = queryValue((request.query as Record<string, QueryValue>).policy);
+    const riskPolicy = selectRiskPolicy(riskPolicies, policyId);
+    if (!riskPolicy) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', `Unknown risk policy "${policyId}".`);
     }
 
-    const dossierResult = buildDossier(input);
-    const dossierWithFlags = buildDossierWithRiskFlags(
-      dossierResult.dossier,
-      input,
-      dossierResult.dossier.generatedAt
-    );
-    const html = renderDossierHtml(dossierWithFlags, dossierResult.evidence);
+    const built = await buildAndSnapshot(connector, companyNumber, riskPolicy);
+    if (built.error) {
+      const { error } = built.error;
+      return sendError(reply, error.statusCode, error.code, error.message, error.details);
+    }
+    const report = (await getSnapshotReport(built.snapshot.id, 'html')) as SnapshotReport;
 
-    reply.type('text/html; charset=utf-8');
-    return html;
+    reply
+      .type(report.contentType)
+      .header('etag', `"${report.sha256}"`)
+      .header('content-location', `/api/snapshots/${built.snapshot.id}/report.html`);
+    return report.body;
   });
 
   app.get('/api/company/:companyNumber/report.pdf', async (request, reply) => {
@@ -340,22 +1550,470 @@ export async function buildApiApp(options: ApiAppOptions): Promise<FastifyInstan
       return sendError(reply, 400, 'VALIDATION_ERROR', 'Company number is required.');
     }
 
-    const { input, error } = await buildDossierInput(connector, companyNumber, registryConfig);
+    const policyId = queryValue((request.query as Record<string, QueryValue>).policy);
+    const riskPolicy = selectRiskPolicy(riskPolicies, policyId);
+    if (!riskPolicy) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', `Unknown risk policy "${policyId}".`);
+    }
+
+    const built = await buildAndSnapshot(connector, companyNumber, riskPolicy);
+    if (built.error) {
+      const { error } = built.error;
+      return sendError(reply, error.statusCode, error.code, error.message, error.details);
+    }
+    const report = (await getSnapshotReport(built.snapshot.id, 'pdf')) as SnapshotReport;
+
+    reply
+      .type(report.contentType)
+      .header('etag', `"${report.sha256}"`)
+      .header('content-location', `/api/snapshots/${built.snapshot.id}/report.pdf`);
+    return report.body;
+  });
+
+  app.get('/api/company/:companyNumber/snapshots', async (request, reply) => {
+    const companyNumber = String((request.params as { companyNumber?: string }).companyNumber ?? '')
+      .trim()
+      .toUpperCase();
+    if (!companyNumber) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', 'Company number is required.');
+    }
+
+    const limitValue = queryValue((request.query as Record<string, QueryValue>).limit);
+    const limit = Number(limitValue ?? DEFAULT_SNAPSHOTS);
+    const limitValid = Number.isInteger(limit) && limit >= 1 && limit <= MAX_SNAPSHOTS;
+    if (limitValue !== undefined && !limitValid) {
+      return sendError(
+        reply,
+        400,
+        'VALIDATION_ERROR',
+        `limit must be a whole number from 1 to ${MAX_SNAPSHOTS}.`
+      );
+    }
+
+    return {
+      companyNumber,
+      snapshots: snapshotStore.listForCompany(companyNumber, limit).map(mapSnapshot),
+    };
+  });
+
+  app.get('/api/snapshots/:snapshotId', async (request, reply) => {
+    const { snapshotId } = request.params as { snapshotId: string };
+    const snapshot = snapshotStore.get(snapshotId);
+    if (!snapshot) {
+      return sendError(reply, 404, 'NOT_FOUND', `Snapshot "${snapshotId}" not found.`);
+    }
+
+    return mapSnapshot(snapshot);
+  });
+
+  app.get('/api/snapshots/:snapshotId/report.html', async (request, reply) => {
+    const { snapshotId } = request.params as { snapshotId: string };
+    const report = await getSnapshotReport(snapshotId, 'html');
+    if (!report) {
+      return sendError(reply, 404, 'NOT_FOUND', `Snapshot "${snapshotId}" not found.`);
+    }
+
+    reply.type(report.contentType).header('etag', `"${report.sha256}"`);
+    return report.body;
+  });
+
+  app.get('/api/snapshots/:snapshotId/report.pdf', async (request, reply) => {
+    const { snapshotId } = request.params as { snapshotId: string };
+    // A PDF already stored can be served anywhere; only rendering one needs Chromium
+    if (isVercel && !snapshotStore.getReport(snapshotId, 'pdf')) {
+      return sendError(
+        reply,
+        501,
+        'PDF_DISABLED_ON_VERCEL',
+        'Use /report.html and print to PDF, or run PDF service off-Vercel.'
+      );
+    }
+
+    const report = await getSnapshotReport(snapshotId, 'pdf');
+    if (!report) {
+      return sendError(reply, 404, 'NOT_FOUND', `Snapshot "${snapshotId}" not found.`);
+    }
+
+    reply.type(report.contentType).header('etag', `"${report.sha256}"`);
+    return report.body;
+  });
+
+  app.get('/api/company/:companyNumber/waivers', async (request, reply) => {
+    const companyNumber = String((request.params as { companyNumber?: string }).companyNumber ?? '')
+      .trim()
+      .toUpperCase();
+    if (!companyNumber) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', 'Company number is required.');
+    }
+
+    const today = new Date().toISOString().substring(0, 10);
+    return {
+      companyNumber,
+      waivers: waiverStore.listForCompany(companyNumber).map((waiver) => mapWaiver(waiver, today)),
+    };
+  });
+
+  app.post('/api/company/:companyNumber/waivers', async (request, reply) => {
+    if (apiKeyPending || !connector) {
+      return sendCompaniesHouseKeyPending(reply);
+    }
+
+    const companyNumber = String((request.params as { companyNumber?: string }).companyNumber ?? '')
+      .trim()
+      .toUpperCase();
+    if (!companyNumber) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', 'Company number is required.');
+    }
+
+    const policyId = queryValue((request.query as Record<string, QueryValue>).policy);
+    const riskPolicy = selectRiskPolicy(riskPolicies, policyId);
+    if (!riskPolicy) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', `Unknown risk policy "${policyId}".`);
+    }
+
+    const today = new Date().toISOString().substring(0, 10);
+    const { waiver, errors } = parseWaiverRequest(request.body, today);
+    if (!waiver) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', 'Invalid waiver.', errors);
+    }
+
+    const { input, error } = await buildDossierInput(
+      connector,
+      companyNumber,
+      registryConfig,
+      dossierLookupLimits
+    );
     if (error) {
-      return sendError(reply, error.error.statusCode, error.error.code, error.error.message, error.error.details);
+      return sendError(
+        reply,
+        error.error.statusCode,
+        error.error.code,
+        error.error.message,
+        error.error.details
+      );
     }
 
-    const dossierResult = buildDossier(input);
-    const dossierWithFlags = buildDossierWithRiskFlags(
-      dossierResult.dossier,
-      input,
-      dossierResult.dossier.generatedAt
+    // The waiver is bound to the flag as raised now, so it lapses if the evidence changes
+    const { dossier } = buildDossier(input);
+    const { flags } = computeRiskFlags(dossier, input, dossier.generatedAt, riskPolicy);
+    const flag = flags.find((candidate) => candidate.id === waiver.flagId);
+    if (!flag) {
+      return sendError(
+        reply,
+        409,
+        'FLAG_NOT_RAISED',
+        `Flag ${waiver.flagId} is not raised for company ${companyNumber} under risk policy "${riskPolicy.id}".`
+      );
+    }
+
+    const stored = waiverStore.create({
+      ...waiver,
+      companyNumber,
+      policyId: riskPolicy.id,
+      fingerprint: riskFlagFingerprint(flag),
+    });
+
+    reply.status(201);
+    return mapWaiver(stored, today);
+  });
+
+  app.delete('/api/waivers/:waiverId', async (request, reply) => {
+    const waiverId = String((request.params as { waiverId?: string }).waiverId ?? '').trim();
+    if (!waiverStore.delete(waiverId)) {
+      return sendError(reply, 404, 'NOT_FOUND', `Waiver "${waiverId}" not found.`);
+    }
+
+    reply.status(204);
+    return null;
+  });
+
+  app.post('/api/screenings', async (request, reply) => {
+    if (apiKeyPending || !connector) {
+      return sendCompaniesHouseKeyPending(reply);
+    }
+
+    const policyId = queryValue((request.query as Record<string, QueryValue>).policy);
+    const riskPolicy = selectRiskPolicy(riskPolicies, policyId);
+    if (!riskPolicy) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', `Unknown risk policy "${policyId}".`);
+    }
+
+    let rows: ScreeningInput[];
+    try {
+      rows =
+        typeof request.body === 'string'
+          ? parseScreeningCsv(request.body)
+          : parseScreeningList((request.body as { companies?: unknown } | undefined)?.companies);
+    } catch (error) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', `${(error as Error).message}.`);
+    }
+
+    if (rows.length > maxInlineScreeningRows) {
+      const payload: ScreeningJobPayload = { policy: riskPolicy.id, companies: rows };
+      const job = jobStore.enqueue({ type: 'screening', payload });
+
+      reply.status(202).header('location', `/api/jobs/${job.id}`);
+      return mapJob(job);
+    }
+
+    const result = await runScreening(connector, rows, riskPolicy);
+    publishEvent('screening.completed', result);
+    return result;
+  });
+
+  app.post('/api/jobs', async (request, reply) => {
+    if (apiKeyPending || !connector) {
+      return sendCompaniesHouseKeyPending(reply);
+    }
+
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    const type = body.type as JobType;
+    if (!JOB_TYPES.includes(type)) {
+      const types = JOB_TYPES.join(', ');
+      return sendError(reply, 400, 'VALIDATION_ERROR', `type must be one of: ${types}.`);
+    }
+
+    const policyId = typeof body.policy === 'string' ? body.policy.trim() || undefined : undefined;
+    const riskPolicy = selectRiskPolicy(riskPolicies, policyId);
+    if (!riskPolicy) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', `Unknown risk policy "${policyId}".`);
+    }
+
+    let payload: ScreeningJobPayload | CompanyJobPayload;
+    if (type === 'screening') {
+      try {
+        payload = { policy: riskPolicy.id, companies: parseScreeningList(body.companies) };
+      } catch (error) {
+        return sendError(reply, 400, 'VALIDATION_ERROR', `${(error as Error).message}.`);
+      }
+    } else {
+      const companyNumber = String(body.companyNumber ?? '')
+        .trim()
+        .toUpperCase();
+      if (!companyNumber) {
+        return sendError(reply, 400, 'VALIDATION_ERROR', 'Company number is required.');
+      }
+
+      const format = body.format ?? 'pdf';
+      if (type === 'report' && format !== 'html' && format !== 'pdf') {
+        return sendError(reply, 400, 'VALIDATION_ERROR', 'format must be html or pdf.');
+      }
+      if (type === 'report' && format === 'pdf' && isVercel) {
+        return sendError(
+          reply,
+          501,
+          'PDF_DISABLED_ON_VERCEL',
+          'Use /report.html and print to PDF, or run PDF service off-Vercel.'
+        );
+      }
+
+      payload = {
+        policy: riskPolicy.id,
+        companyNumber,
+        ...(type === 'report' && { format: format as 'html' | 'pdf' }),
+      };
+    }
+
+    const job = jobStore.enqueue({ type, payload });
+
+    reply.status(202).header('location', `/api/jobs/${job.id}`);
+    return mapJob(job);
+  });
+
+  app.get('/api/jobs/:jobId', async (request, reply) => {
+    const jobId = String((request.params as { jobId?: string }).jobId ?? '').trim();
+    const job = jobStore.get(jobId);
+    if (!job) {
+      return sendError(reply, 404, 'NOT_FOUND', `Job "${jobId}" not found.`);
+    }
+
+    return mapJob(job);
+  });
+
+  app.delete('/api/jobs/:jobId', async (request, reply) => {
+    const jobId = String((request.params as { jobId?: string }).jobId ?? '').trim();
+
+    // Unfinished jobs are cancelled and kept; finished ones are removed
+    if (jobStore.cancel(jobId)) {
+      jobWorker?.abort(jobId);
+      return mapJob(jobStore.get(jobId) as Job);
+    }
+    if (!jobStore.delete(jobId)) {
+      return sendError(reply, 404, 'NOT_FOUND', `Job "${jobId}" not found.`);
+    }
+
+    reply.status(204);
+    return null;
+  });
+
+  app.get('/api/webhooks', async () => {
+    return { webhooks: webhookStore.list().map(mapWebhook) };
+  });
+
+  app.post('/api/webhooks', async (request, reply) => {
+    const { webhook, errors } = parseWebhookRequest(request.body);
+    if (!webhook) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', 'Invalid webhook.', errors);
+    }
+    const refused = await checkWebhookUrl(webhook.url, options.webhookSender?.lookup);
+    if (refused) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', 'Invalid webhook.', [refused.error]);
+    }
+
+    const created = webhookStore.create(webhook);
+
+    reply.status(201);
+    return { ...mapWebhook(created), secret: created.secret };
+  });
+
+  app.get('/api/webhooks/:webhookId', async (request, reply) => {
+    const webhookId = String((request.params as { webhookId?: string }).webhookId ?? '').trim();
+    const webhook = webhookStore.get(webhookId);
+    if (!webhook) {
+      return sendError(reply, 404, 'NOT_FOUND', `Webhook "${webhookId}" not found.`);
+    }
+
+    return mapWebhook(webhook);
+  });
+
+  app.delete('/api/webhooks/:webhookId', async (request, reply) => {
+    const webhookId = String((request.params as { webhookId?: string }).webhookId ?? '').trim();
+    if (!webhookStore.delete(webhookId)) {
+      return sendError(reply, 404, 'NOT_FOUND', `Webhook "${webhookId}" not found.`);
+    }
+
+    reply.status(204);
+    return null;
+  });
+
+  app.get('/api/webhooks/:webhookId/deliveries', async (request, reply) => {
+    const webhookId = String((request.params as { webhookId?: string }).webhookId ?? '').trim();
+    if (!webhookStore.get(webhookId)) {
+      return sendError(reply, 404, 'NOT_FOUND', `Webhook "${webhookId}" not found.`);
+    }
+
+    return { deliveries: webhookStore.listDeliveries(webhookId) };
+  });
+
+  app.post('/api/webhooks/:webhookId/test', async (request, reply) => {
+    const webhookId = String((request.params as { webhookId?: string }).webhookId ?? '').trim();
+    const webhook = webhookStore.get(webhookId);
+    if (!webhook) {
+      return sendError(reply, 404, 'NOT_FOUND', `Webhook "${webhookId}" not found.`);
+    }
+
+    // Sent straight away and not retried, so the caller sees the receiver's response
+    const event: WebhookEvent = {
+      id: randomUUID(),
+      type: WEBHOOK_TEST_EVENT,
+      createdAt: new Date().toISOString(),
+      data: { webhookId, message: 'Test delivery from SupplierCheck UK' },
+    };
+    const delivery = webhookStore.createDelivery(webhookId, WEBHOOK_TEST_EVENT, event);
+    const sent = await sendWebhook(webhook, delivery, options.webhookSender);
+
+    return webhookStore.recordAttempt(delivery.id, {
+      state: sent.success ? 'succeeded' : 'failed',
+      responseStatus: sent.responseStatus,
+      ...(!sent.success && { error: sent.error }),
+    });
+  });
+
+  app.get('/api/watchlist', async () => {
+    return { companies: watchlistStore.list() };
+  });
+
+  app.post('/api/watchlist', async (request, reply) => {
+    if (apiKeyPending || !connector) {
+      return sendCompaniesHouseKeyPending(reply);
+    }
+
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    const companyNumber = normalizeCompanyNumber(String(body.companyNumber ?? ''));
+    if (!companyNumber) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', 'Company number is required.');
+    }
+    if (!COMPANY_NUMBER_PATTERN.test(companyNumber)) {
+      return sendError(
+        reply,
+        400,
+        'VALIDATION_ERROR',
+        'Company number must be 8 letters and digits, e.g. 01234567 or SC123456.'
+      );
+    }
+    if (body.label !== undefined && typeof body.label !== 'string') {
+      return sendError(reply, 400, 'VALIDATION_ERROR', 'label must be a string.');
+    }
+
+    const policyId = typeof body.policy === 'string' ? body.policy.trim() || undefined : undefined;
+    const riskPolicy = selectRiskPolicy(riskPolicies, policyId);
+    if (!riskPolicy) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', `Unknown risk policy "${policyId}".`);
+    }
+
+    // New watches must be real companies; re-adding one only updates its label and policy
+    const existing = watchlistStore.get(companyNumber);
+    if (!existing) {
+      const profile = await connector.getCompanyProfile(companyNumber);
+      if (isConnectorError(profile)) {
+        const mapped = mapConnectorError(profile.error);
+        return sendError(reply, mapped.statusCode, mapped.code, mapped.message, mapped.details);
+      }
+    }
+
+    const label = body.label?.trim();
+    const watch = watchlistStore.add({
+      companyNumber,
+      ...(label && { label }),
+      policyId: riskPolicy.id,
+    });
+
+    reply.status(existing ? 200 : 201);
+    return watch;
+  });
+
+  app.delete('/api/watchlist/:companyNumber', async (request, reply) => {
+    const companyNumber = normalizeCompanyNumber(
+      String((request.params as { companyNumber?: string }).companyNumber ?? '')
     );
-    const html = renderDossierHtml(dossierWithFlags, dossierResult.evidence);
-    const pdfBuffer = await renderReportPdf(html);
+    if (!watchlistStore.remove(companyNumber)) {
+      const message = `Company ${companyNumber} is not on the watchlist.`;
+      return sendError(reply, 404, 'NOT_FOUND', message);
+    }
+
+    reply.status(204);
+    return null;
+  });
+
+  app.get('/api/watchlist/events', async (request, reply) => {
+    const query = request.query as Record<string, QueryValue>;
+    const companyNumber =
+      normalizeCompanyNumber(queryValue(query.companyNumber) ?? '') || undefined;
+
+    const since = queryValue(query.since);
+    if (since && Number.isNaN(Date.parse(since))) {
+      return sendError(reply, 400, 'VALIDATION_ERROR', 'since must be an ISO date or timestamp.');
+    }
 
-    reply.type('application/pdf');
-    return pdfBuffer;
+    const limitValue = queryValue(query.limit);
+    const limit = Number(limitValue ?? DEFAULT_WATCHLIST_EVENTS);
+    const limitValid = Number.isInteger(limit) && limit >= 1 && limit <= MAX_WATCHLIST_EVENTS;
+    if (limitValue !== undefined && !limitValid) {
+      return sendError(
+        reply,
+        400,
+        'VALIDATION_ERROR',
+        `limit must be a whole number from 1 to ${MAX_WATCHLIST_EVENTS}.`
+      );
+    }
+
+    return {
+      events: watchlistStore.listEvents({
+        companyNumber,
+        ...(since && { since: new Date(since).toISOString() }),
+        limit,
+      }),
+    };
   });
 
   app.setErrorHandler((error, _request, reply) => {
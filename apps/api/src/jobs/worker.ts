@@ -0,0 +1,240 @@
+import { randomUUID } from 'crypto';
+import {
+  DEFAULT_LEASE_MS,
+  type Job,
+  type JobClaim,
+  type JobError,
+  type JobLease,
+  type SqliteJobStore,
+} from '@pkg/db';
+
+export interface JobContext {
+  job: Job;
+  /** Record progress; also notices when the job has been cancelled */
+  reportProgress(done: number, total?: number): void;
+  /** Aborted when the job is cancelled or its lease is lost; long handlers should stop early */
+  signal: AbortSignal;
+}
+
+export type JobOutcome =
+  | { success: true; result: unknown }
+  | { success: false; error: JobError; retryable: boolean };
+
+export type JobHandler = (payload: unknown, context: JobContext) => Promise<JobOutcome>;
+
+/**
+ * A share of the worker kept for some job types, so long jobs of one type
+ * don't hold up the rest.
+ */
+export interface JobLane {
+  /** Job types run in this lane; omit to run every type no other lane names */
+  types?: string[];
+  /** Jobs of this lane run at once (default: 1) */
+  concurrency?: number;
+}
+
+export interface JobWorkerOptions {
+  store: SqliteJobStore;
+  /** Handlers by job type */
+  handlers: Record<string, JobHandler>;
+  /** Wait between polls when the queue is empty (default: 1000) */
+  pollIntervalMs?: number;
+  /** Delay before the first retry, doubled on each later one (default: 5000) */
+  retryDelayMs?: number;
+  /** Identifies this worker's leases (default: a random ID) */
+  workerId?: string;
+  /** How long a claimed job is held without renewal (default: 30000) */
+  leaseMs?: number;
+  /** Lanes jobs run in (default: a single lane running every type one at a time) */
+  lanes?: JobLane[];
+  onError?: (error: unknown, job: Job) => void;
+}
+
+export const DEFAULT_POLL_INTERVAL_MS = 1000;
+export const DEFAULT_RETRY_DELAY_MS = 5000;
+
+interface JobSlot {
+  claim: JobClaim;
+  timer: NodeJS.Timeout | null;
+  current: Promise<boolean> | null;
+}
+
+/**
+ * Runs queued jobs inside the API process.
+ *
+ * Jobs run in lanes: each lane claims only its own job types and runs up to
+ * its concurrency of them at once, so a long screening in one lane doesn't
+ * delay webhook deliveries waiting in another.
+ *
+ * The queue lives in SQLite and may be shared by several processes. Each job
+ * is claimed under a lease the worker renews while the job runs, so a job
+ * left behind by a process that stopped is picked up again once its lease
+ * lapses, while jobs other processes are still running are left alone. Failed
+ * attempts are retried with exponential backoff until the job runs out of attempts.
+ */
+export class JobWorker {
+  private readonly store: SqliteJobStore;
+  private readonly handlers: Record<string, JobHandler>;
+  private readonly pollIntervalMs: number;
+  private readonly retryDelayMs: number;
+  private readonly lease: Required<JobLease>;
+  private readonly onError?: (error: unknown, job: Job) => void;
+
+  private readonly slots: JobSlot[];
+  /** Jobs running in this process, so cancelling one can stop it at once */
+  private readonly controllers = new Map<string, AbortController>();
+
+  private running = false;
+
+  constructor(options: JobWorkerOptions) {
+    this.store = options.store;
+    this.handlers = options.handlers;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.lease = {
+      workerId: options.workerId ?? randomUUID(),
+      leaseMs: options.leaseMs ?? DEFAULT_LEASE_MS,
+    };
+    this.onError = options.onError;
+
+    const lanes = options.lanes ?? [{}];
+    const laneTypes = lanes.flatMap((lane) => lane.types ?? []);
+    this.slots = lanes.flatMap((lane) => {
+      const claim: JobClaim = lane.types
+        ? { ...this.lease, types: lane.types }
+        : { ...this.lease, excludeTypes: laneTypes };
+      return Array.from({ length: lane.concurrency ?? 1 }, () => ({
+        claim,
+        timer: null,
+        current: null,
+      }));
+    });
+  }
+
+  /**
+   * Start polling.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    for (const slot of this.slots) {
+      this.schedule(slot, 0);
+    }
+  }
+
+  /**
+   * Stop polling and wait for the jobs in progress, if any, to finish.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    for (const slot of this.slots) {
+      if (slot.timer) {
+        clearTimeout(slot.timer);
+        slot.timer = null;
+      }
+    }
+    await Promise.all(this.slots.map((slot) => slot.current));
+  }
+
+  /**
+   * Signal a job running in this process to stop, e.g. once it has been cancelled.
+   * @returns false if the job isn't running here
+   */
+  abort(jobId: string): boolean {
+    const controller = this.controllers.get(jobId);
+    controller?.abort();
+    return controller !== undefined;
+  }
+
+  /**
+   * Claim and run the next due job.
+   * @param claim - Job types to claim (default: any)
+   * @returns false if no job was due
+   */
+  async runNext(claim: JobClaim = this.lease): Promise<boolean> {
+    const job = this.store.claimNext(claim);
+    if (!job) {
+      return false;
+    }
+
+    const handler = this.handlers[job.type];
+    if (!handler) {
+      this.store.fail(
+        job.id,
+        { code: 'UNKNOWN_JOB_TYPE', message: `No handler for job type "${job.type}"` },
+        { retryable: false }
+      );
+      return true;
+    }
+
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    const context: JobContext = {
+      job,
+      signal: controller.signal,
+      reportProgress: (done, total) => {
+        this.store.updateProgress(job.id, done, total);
+        if (this.store.get(job.id)?.state === 'cancelled') {
+          controller.abort();
+        }
+      },
+    };
+
+    // Renewing the lease also notices when the job is cancelled or taken over
+    const heartbeat = setInterval(() => {
+      if (!this.store.renewLease(job.id, this.lease)) {
+        controller.abort();
+      }
+    }, this.lease.leaseMs / 3);
+    heartbeat.unref();
+
+    let outcome: JobOutcome;
+    try {
+      outcome = await handler(job.payload, context);
+    } catch (error) {
+      this.onError?.(error, job);
+      outcome = {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: (error as Error).message },
+        retryable: true,
+      };
+    } finally {
+      clearInterval(heartbeat);
+      this.controllers.delete(job.id);
+    }
+
+    // A job cancelled or taken over by another worker meanwhile is left as it is
+    if (!this.store.renewLease(job.id, this.lease)) {
+      return true;
+    }
+
+    if (outcome.success) {
+      this.store.complete(job.id, outcome.result);
+    } else {
+      this.store.fail(job.id, outcome.error, {
+        retryable: outcome.retryable,
+        retryAt: Date.now() + this.retryDelayMs * 2 ** (job.attempts - 1),
+      });
+    }
+    return true;
+  }
+
+  private schedule(slot: JobSlot, delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    slot.timer = setTimeout(() => {
+      slot.timer = null;
+      slot.current = this.runNext(slot.claim);
+      void slot.current.then(
+        (ran) => this.schedule(slot, ran ? 0 : this.pollIntervalMs),
+        () => this.schedule(slot, this.pollIntervalMs)
+      );
+    }, delayMs);
+    slot.timer.unref();
+  }
+}
@@ -0,0 +1,46 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { DEFAULT_RISK_POLICY, parseRiskPolicy, type RiskPolicy } from '@pkg/core';
+
+/**
+ * Split a comma-separated list of policy file paths.
+ */
+export function parseRiskPolicyPaths(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Load risk policies from JSON or YAML files (by extension).
+ *
+ * The first policy is the default; the rest can be chosen per request by ID.
+ * Without any files the built-in default policy is used.
+ */
+export async function loadRiskPolicies(paths: string[]): Promise<RiskPolicy[]> {
+  if (paths.length === 0) {
+    return [DEFAULT_RISK_POLICY];
+  }
+
+  const policies: RiskPolicy[] = [];
+  for (const file of paths) {
+    const extension = path.extname(file).toLowerCase();
+    const format = extension === '.yaml' || extension === '.yml' ? 'yaml' : 'json';
+    const source = await readFile(file, 'utf8');
+
+    let policy: RiskPolicy;
+    try {
+      policy = parseRiskPolicy(source, format);
+    } catch (error) {
+      throw new Error(`${file}: ${(error as Error).message}`);
+    }
+
+    if (policies.some((loaded) => loaded.id === policy.id)) {
+      throw new Error(`${file}: risk policy "${policy.id}" is already loaded`);
+    }
+    policies.push(policy);
+  }
+
+  return policies;
+}
@@ -0,0 +1,96 @@
+import type { SqliteJobStore, SqliteWatchlistStore } from '@pkg/db';
+
+export const WATCHLIST_JOB_TYPE = 'watchlist';
+
+export interface WatchlistJobPayload {
+  companyNumber: string;
+}
+
+export interface WatchlistSchedulerOptions {
+  watchlist: SqliteWatchlistStore;
+  jobs: SqliteJobStore;
+  /** Time between checks of each watched company (default: 24 hours) */
+  checkIntervalMs?: number;
+  /** Wait between looks for companies due a check (default: 60000) */
+  pollIntervalMs?: number;
+  onError?: (error: unknown) => void;
+}
+
+export const DEFAULT_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_SCHEDULER_POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Queues a watchlist check job for each watched company that is due one.
+ *
+ * The checks themselves run on the job worker, so they are retried and
+ * survive restarts like any other job. Claiming a company moves its next
+ * check forward by the check interval, so several API processes sharing the
+ * database never queue the same check twice. The claim and its job are written
+ * in one transaction, so a failure part way cannot skip a company's check.
+ * The watchlist and job stores must share a database connection.
+ */
+export class WatchlistScheduler {
+  private readonly watchlist: SqliteWatchlistStore;
+  private readonly jobs: SqliteJobStore;
+  private readonly checkIntervalMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly onError?: (error: unknown) => void;
+
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: WatchlistSchedulerOptions) {
+    this.watchlist = options.watchlist;
+    this.jobs = options.jobs;
+    this.checkIntervalMs = options.checkIntervalMs ?? DEFAULT_CHECK_INTERVAL_MS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_SCHEDULER_POLL_INTERVAL_MS;
+    this.onError = options.onError;
+  }
+
+  /**
+   * Queue checks that are due now, then keep polling.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.poll();
+    this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a check for every company that is due one.
+   * @returns Number of checks queued
+   */
+  runOnce(now: Date = new Date()): number {
+    const due = this.watchlist.claimDue(
+      new Date(now.getTime() + this.checkIntervalMs),
+      now,
+      (watch) => {
+        const payload: WatchlistJobPayload = { companyNumber: watch.companyNumber };
+        this.jobs.enqueue({ type: WATCHLIST_JOB_TYPE, payload }, now.getTime());
+      }
+    );
+    return due.length;
+  }
+
+  /**
+   * Run one look for due checks from the timer. A failure, such as the
+   * database being locked, is reported and the next poll tries again.
+   */
+  private poll(): void {
+    try {
+      this.runOnce();
+    } catch (error) {
+      this.onError?.(error);
+    }
+  }
+}
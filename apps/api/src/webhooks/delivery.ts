@@ -0,0 +1,255 @@
+import crypto from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Agent } from 'undici';
+import { DOSSIER_CHANGE_TYPES } from '@pkg/core';
+import type { Webhook, WebhookDelivery } from '@pkg/db';
+
+export const WEBHOOK_JOB_TYPE = 'webhook';
+
+/** Attempts at each delivery before it is logged as failed */
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+
+/** Longest a receiver may take to respond */
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
+/** Sent by POST /api/webhooks/:id/test, whatever the webhook subscribes to */
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+/** Event types a webhook can subscribe to */
+export const WEBHOOK_EVENT_TYPES = [
+  ...DOSSIER_CHANGE_TYPES.map((type) => `watchlist.${type}`),
+  'screening.completed',
+];
+
+export const SIGNATURE_HEADER = 'x-suppliercheck-signature';
+export const TIMESTAMP_HEADER = 'x-suppliercheck-timestamp';
+export const EVENT_HEADER = 'x-suppliercheck-event';
+export const DELIVERY_HEADER = 'x-suppliercheck-delivery';
+
+export interface WebhookJobPayload {
+  deliveryId: string;
+}
+
+/**
+ * Body posted to a webhook.
+ */
+export interface WebhookEvent<Data = unknown> {
+  /** Same for every webhook the event is delivered to, so receivers can de-duplicate */
+  id: string;
+  type: string;
+  createdAt: string;
+  data: Data;
+}
+
+/** Resolves a host name to the addresses it would be reached at */
+export type WebhookHostLookup = (hostname: string) => Promise<string[]>;
+
+export interface WebhookSenderOptions {
+  /** Optional custom fetch implementation (for testing) */
+  fetch?: typeof fetch;
+  /** Optional custom DNS lookup (for testing) */
+  lookup?: WebhookHostLookup;
+}
+
+/**
+ * Loopback, private, link-local (including cloud metadata services), shared,
+ * multicast and reserved ranges. Webhooks are registered by API users, so a
+ * receiver in any of them could be used to reach services behind the API.
+ * IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+async function lookupHost(hostname: string): Promise<string[]> {
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  return addresses.map(({ address }) => address);
+}
+
+/** Why a webhook URL may not be used, and whether that may change on a later try */
+interface WebhookUrlRefusal {
+  error: string;
+  retryable: boolean;
+}
+
+/**
+ * Resolve a webhook URL's host, refusing URLs that are not HTTPS or whose host
+ * resolves to any private or reserved address.
+ */
+async function resolveWebhookUrl(
+  url: string,
+  lookupFn: WebhookHostLookup
+): Promise<{ addresses: string[]; refused?: undefined } | { refused: WebhookUrlRefusal }> {
+  let parsed: URL | undefined;
+  try {
+    parsed = new URL(url);
+  } catch {
+    parsed = undefined;
+  }
+  if (parsed?.protocol !== 'https:') {
+    return { refused: { error: 'url must be an https URL.', retryable: false } };
+  }
+
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  try {
+    addresses = await lookupFn(hostname);
+  } catch {
+    addresses = [];
+  }
+  if (addresses.length === 0) {
+    return {
+      refused: { error: `url host "${hostname}" could not be resolved.`, retryable: true },
+    };
+  }
+
+  const blocked = addresses.find((address) => {
+    const family = isIP(address);
+    return family === 0 || BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  });
+  if (blocked) {
+    return {
+      refused: {
+        error: `url host "${hostname}" resolves to a private or reserved address (${blocked}).`,
+        retryable: false,
+      },
+    };
+  }
+  return { addresses };
+}
+
+/**
+ * Check that a webhook URL is HTTPS and that its host resolves only to public
+ * addresses.
+ *
+ * Checked when a webhook is registered and again before every delivery, as
+ * the host's DNS records may have changed since.
+ *
+ * @returns Why the URL may not be used, and whether that may change on a
+ * later try, or undefined if it may be used
+ */
+export async function checkWebhookUrl(
+  url: string,
+  lookupFn: WebhookHostLookup = lookupHost
+): Promise<WebhookUrlRefusal | undefined> {
+  return (await resolveWebhookUrl(url, lookupFn)).refused;
+}
+
+/**
+ * Socket lookup answering with the given addresses only, whatever host is asked for.
+ */
+function pinnedLookup(addresses: string[]): LookupFunction {
+  const entries = addresses.map((address) => ({ address, family: isIP(address) }));
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  };
+}
+
+export type WebhookSendResult =
+  | { success: true; responseStatus: number }
+  | { success: false; responseStatus?: number; error: string; retryable: boolean };
+
+/**
+ * Sign a delivery body.
+ *
+ * The signature covers the timestamp and the raw body, so receivers can reject
+ * replayed deliveries as well as tampered ones.
+ *
+ * @returns Signature header value, e.g. "sha256=5257a869..."
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Whether a failed delivery is worth retrying: timeouts, rate limits and server errors are.
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Post one attempt at a delivery to its webhook.
+ * Any 2xx response counts as delivered; redirects are not followed, and
+ * receivers at private or reserved addresses are refused. The connection is
+ * made to the addresses that were checked, so a host whose DNS answer changes
+ * straight after the check still cannot be used to reach a private address.
+ */
+export async function sendWebhook(
+  webhook: Webhook,
+  delivery: WebhookDelivery,
+  options: WebhookSenderOptions = {},
+  now: Date = new Date()
+): Promise<WebhookSendResult> {
+  const fetchFn = options.fetch ?? fetch;
+
+  const resolved = await resolveWebhookUrl(webhook.url, options.lookup ?? lookupHost);
+  if (resolved.refused) {
+    return { success: false, ...resolved.refused };
+  }
+  const dispatcher = new Agent({ connect: { lookup: pinnedLookup(resolved.addresses) } });
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(now.getTime() / 1000));
+
+  try {
+    const response = await fetchFn(webhook.url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'user-agent': 'SupplierCheck-UK-Webhooks',
+        [SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, body),
+        [TIMESTAMP_HEADER]: timestamp,
+        [EVENT_HEADER]: delivery.eventType,
+        [DELIVERY_HEADER]: delivery.id,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      dispatcher,
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      return { success: true, responseStatus: response.status };
+    }
+    return {
+      success: false,
+      responseStatus: response.status,
+      error: `Webhook responded with HTTP ${response.status}`,
+      retryable: isRetryableStatus(response.status),
+    };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, retryable: true };
+  } finally {
+    await dispatcher.destroy();
+  }
+}
@@ -14,6 +14,37 @@ interface CompanySearchItem {
   addressSnippet?: string;
 }
 
+interface SearchPage {
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  links: {
+    self: string;
+    next?: string;
+    previous?: string;
+  };
+}
+
+interface SearchFilters {
+  status: string;
+  type: string;
+  sic: string;
+  incorporatedFrom: string;
+  incorporatedTo: string;
+  location: string;
+}
+
+const EMPTY_FILTERS: SearchFilters = {
+  status: '',
+  type: '',
+  sic: '',
+  incorporatedFrom: '',
+  incorporatedTo: '',
+  location: '',
+};
+
+const ITEMS_PER_PAGE = 20;
+
 const API_KEY_PENDING_MESSAGE = 'Companies House API key pending';
 
 const apiBase = (() => {
@@ -23,11 +54,30 @@ const apiBase = (() => {
 
 const buildApiUrl = (path: string) => (apiBase ? `${apiBase}${path}` : path);
 
+const buildSearchUrl = (term: string, filters: SearchFilters, startIndex: number) => {
+  const params = new URLSearchParams();
+  if (term) params.set('q', term);
+  if (filters.status) params.set('status', filters.status);
+  if (filters.type) params.set('type', filters.type.trim());
+  if (filters.sic) params.set('sic', filters.sic.trim());
+  if (filters.incorporatedFrom) params.set('incorporated_from', filters.incorporatedFrom);
+  if (filters.incorporatedTo) params.set('incorporated_to', filters.incorporatedTo);
+  if (filters.location) params.set('location', filters.location.trim());
+  params.set('start_index', String(startIndex));
+  params.set('items_per_page', String(ITEMS_PER_PAGE));
+  return `${buildApiUrl('/api/search')}?${params.toString()}`;
+};
+
+const hasFilters = (filters: SearchFilters) =>
+  Object.values(filters).some((value) => value.trim().length > 0);
+
 function App() {
   const [health, setHealth] = useState<HealthResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<CompanySearchItem[] | null>(null);
+  const [page, setPage] = useState<SearchPage | null>(null);
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
   const [searchError, setSearchError] = useState<string | null>(null);
   const [keyPending, setKeyPending] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
@@ -103,20 +153,25 @@ function App() {
     };
   }, [query, keyPending]);
 
-  const performSearch = async (term: string) => {
+  const updateFilter = (key: keyof SearchFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const performSearch = async (term: string, startIndex = 0, activeFilters = filters) => {
     setSearchError(null);
     setKeyPending(false);
     setIsSearching(true);
     setResults(null);
+    setPage(null);
 
     const trimmed = term.trim();
-    if (!trimmed) {
-      setSearchError('Please enter a company name or number.');
+    if (!trimmed && !hasFilters(activeFilters)) {
+      setSearchError('Please enter a company name or number, or choose a filter.');
       setIsSearching(false);
       return;
     }
 
-    const searchUrl = `${buildApiUrl('/api/search')}?q=${encodeURIComponent(trimmed)}`;
+    const searchUrl = buildSearchUrl(trimmed, activeFilters, startIndex);
 
     try {
       const response = await fetch(searchUrl);
@@ -132,7 +187,14 @@ function App() {
         return;
       }
 
-      setResults((payload?.results ?? []) as CompanySearchItem[]);
+      const items = (payload?.results ?? []) as CompanySearchItem[];
+      setResults(items);
+      setPage({
+        totalResults: payload?.totalResults ?? items.length,
+        startIndex: payload?.startIndex ?? startIndex,
+        itemsPerPage: payload?.itemsPerPage ?? ITEMS_PER_PAGE,
+        links: payload?.links ?? { self: searchUrl },
+      });
       setSuggestions([]);
     } catch (err) {
       setSearchError(err instanceof Error ? err.message : 'Unexpected error');
@@ -149,7 +211,12 @@ function App() {
   const handleSuggestionClick = async (item: CompanySearchItem) => {
     const term = item.companyNumber || item.name;
     setQuery(term);
-    await performSearch(term);
+    setFilters(EMPTY_FILTERS);
+    await performSearch(term, 0, EMPTY_FILTERS);
+  };
+
+  const handlePageChange = async (startIndex: number) => {
+    await performSearch(query, startIndex);
   };
 
   const showSuggestions = suggestions.length > 0 && !isSearching && !keyPending;
@@ -219,6 +286,68 @@ function App() {
             <button type="submit" className="search__button" disabled={isSearching}>
               {isSearching ? 'Searching…' : 'Search'}
             </button>
+            <details className="filters">
+              <summary>Advanced filters</summary>
+              <div className="filters__grid">
+                <label>
+                  <span>Status</span>
+                  <select
+                    value={filters.status}
+                    onChange={(event) => updateFilter('status', event.target.value)}
+                  >
+                    <option value="">Any</option>
+                    <option value="active">Active</option>
+                    <option value="dissolved">Dissolved</option>
+                    <option value="liquidation">Liquidation</option>
+                    <option value="administration">Administration</option>
+                    <option value="receivership">Receivership</option>
+                  </select>
+                </label>
+                <label>
+                  <span>Company type</span>
+                  <input
+                    type="text"
+                    placeholder="e.g. ltd, plc"
+                    value={filters.type}
+                    onChange={(event) => updateFilter('type', event.target.value)}
+                  />
+                </label>
+                <label>
+                  <span>SIC codes</span>
+                  <input
+                    type="text"
+                    placeholder="e.g. 62020, 62090"
+                    value={filters.sic}
+                    onChange={(event) => updateFilter('sic', event.target.value)}
+                  />
+                </label>
+                <label>
+                  <span>Location</span>
+                  <input
+                    type="text"
+                    placeholder="Postcode or town"
+                    value={filters.location}
+                    onChange={(event) => updateFilter('location', event.target.value)}
+                  />
+                </label>
+                <label>
+                  <span>Incorporated from</span>
+                  <input
+                    type="date"
+                    value={filters.incorporatedFrom}
+                    onChange={(event) => updateFilter('incorporatedFrom', event.target.value)}
+                  />
+                </label>
+                <label>
+                  <span>Incorporated to</span>
+                  <input
+                    type="date"
+                    value={filters.incorporatedTo}
+                    onChange={(event) => updateFilter('incorporatedTo', event.target.value)}
+                  />
+                </label>
+              </div>
+            </details>
           </form>
 
           {isSuggesting && !isSearching && <p className="hint">Loading suggestions…</p>}
@@ -250,7 +379,11 @@ function App() {
             <div className="results">
               <div className="results__header">
                 <h3>Results</h3>
-                <span>{results.length} found</span>
+                <span>
+                  {page && results.length > 0
+                    ? `${page.startIndex + 1}–${page.startIndex + results.length} of ${page.totalResults}`
+                    : `${page?.totalResults ?? results.length} found`}
+                </span>
               </div>
               <ul>
                 {results.length === 0 && <li>No results yet.</li>}
@@ -265,6 +398,26 @@ function App() {
                   </li>
                 ))}
               </ul>
+              {page && (page.links.previous || page.links.next) && (
+                <div className="pager">
+                  <button
+                    type="button"
+                    disabled={!page.links.previous || isSearching}
+                    onClick={() =>
+                      void handlePageChange(Math.max(0, page.startIndex - page.itemsPerPage))
+                    }
+                  >
+                    Previous
+                  </button>
+                  <button
+                    type="button"
+                    disabled={!page.links.next || isSearching}
+                    onClick={() => void handlePageChange(page.startIndex + page.itemsPerPage)}
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,38 @@
+/**
+ * Bounded concurrency for connector lookups.
+ *
+ * Runs a fixed number of lookups at a time so independent requests overlap
+ * without flooding the upstream API or the rate limiter's queue.
+ */
+
+/**
+ * Map items through an async function, running at most `concurrency` calls at once.
+ *
+ * Results are returned in the order of `items`, whatever order the calls finish in.
+ *
+ * @param items - Items to map
+ * @param concurrency - Most calls in flight at once (at least 1)
+ * @param fn - Async mapping function
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('concurrency must be a positive integer');
+  }
+
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
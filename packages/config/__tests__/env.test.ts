@@ -58,6 +58,11 @@ describe('env parsing', () => {
         expect(result.data.LOG_LEVEL).toBe('info');
         expect(result.data.RATE_LIMIT_MAX).toBe(100);
         expect(result.data.RATE_LIMIT_WINDOW_MS).toBe(60000);
+        expect(result.data.COMPANIES_HOUSE_MAX_WAIT_MS).toBe(60000);
+        expect(result.data.OWNERSHIP_MAX_DEPTH).toBe(5);
+        expect(result.data.OFFICER_LOOKUP_MAX_OFFICERS).toBe(20);
+        expect(result.data.DISQUALIFICATION_MAX_CANDIDATES).toBe(3);
+        expect(result.data.WATCHLIST_CHECK_INTERVAL_HOURS).toBe(24);
       }
     });
 
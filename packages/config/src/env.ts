@@ -34,6 +34,24 @@ const serverEnvSchema = baseEnvSchema.extend({
   // Optional: Rate limiting
   RATE_LIMIT_MAX: z.coerce.number().default(100),
   RATE_LIMIT_WINDOW_MS: z.coerce.number().default(60000),
+
+  // Longest a Companies House request may queue for upstream budget before failing
+  COMPANIES_HOUSE_MAX_WAIT_MS: z.coerce.number().default(60000),
+
+  // Corporate owner layers followed above a company when resolving its ownership chain
+  OWNERSHIP_MAX_DEPTH: z.coerce.number().int().min(0).default(5),
+
+  // Officers per dossier whose appointments are fetched and who are screened for disqualification
+  OFFICER_LOOKUP_MAX_OFFICERS: z.coerce.number().int().min(0).default(20),
+
+  // Disqualification records fetched per screened officer
+  DISQUALIFICATION_MAX_CANDIDATES: z.coerce.number().int().min(0).default(3),
+
+  // Comma-separated JSON/YAML risk policy files; the first is the default
+  RISK_POLICY_PATHS: z.string().optional(),
+
+  // Hours between rebuilds of each watched supplier's dossier
+  WATCHLIST_CHECK_INTERVAL_HOURS: z.coerce.number().positive().default(24),
 });
 
 /**
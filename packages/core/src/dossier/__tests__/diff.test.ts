@@ -0,0 +1,127 @@
+/**
+ * Dossier diff tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildDossier } from '../builder';
+import { diffDossiers } from '../diff';
+import { FlagSeverity, type Dossier, type RiskFlag } from '../connector-types';
+import { scenario3Input } from './fixtures';
+
+const baseline: Dossier = buildDossier(scenario3Input).dossier;
+
+const f8: RiskFlag = {
+  id: 'F8',
+  title: 'Recent or numerous outstanding charges',
+  severity: FlagSeverity.HIGH,
+  explanation: 'A charge was registered in the last 12 months.',
+};
+
+const [chairman] = baseline.officers;
+const [parent] = baseline.pscs;
+
+describe('diffDossiers', () => {
+  it('should find no changes between identical dossiers', () => {
+    expect(diffDossiers(baseline, structuredClone(baseline))).toEqual([]);
+  });
+
+  it('should report a status change', () => {
+    const current = { ...baseline, company: { ...baseline.company, status: 'liquidation' } };
+
+    expect(diffDossiers(baseline, current)).toEqual([
+      {
+        type: 'status_changed',
+        summary: 'Company status changed from active to liquidation',
+        previous: 'active',
+        current: 'liquidation',
+      },
+    ]);
+  });
+
+  it('should report new and resigned officers', () => {
+    const newDirector = { ...chairman, name: 'NEW, Director', appointedOn: '2024-02-01' };
+    const current = {
+      ...baseline,
+      officers: [{ ...chairman, resignedOn: '2024-02-01' }, newDirector],
+    };
+
+    const changes = diffDossiers(baseline, current);
+
+    expect(changes.map((change) => change.type)).toEqual(['officer_appointed', 'officer_ceased']);
+    expect(changes[0]).toMatchObject({
+      summary: 'NEW, Director appointed as Director on 2024-02-01',
+      current: newDirector,
+    });
+    expect(changes[1].summary).toBe('LORD CHAIRMAN, Richard resigned as Director on 2024-02-01');
+  });
+
+  it('should treat officers missing from a list as ceased only when the list is complete', () => {
+    const current = { ...baseline, officers: [] };
+
+    expect(diffDossiers(baseline, current)).toMatchObject([
+      {
+        type: 'officer_ceased',
+        summary: 'LORD CHAIRMAN, Richard is no longer listed as Director',
+        previous: chairman,
+      },
+    ]);
+    expect(diffDossiers(baseline, { ...current, truncatedSections: ['officers'] })).toEqual([]);
+  });
+
+  it('should report PSCs added and ceased', () => {
+    const newPsc = { ...parent, name: 'NEW OWNER LTD', notifiedOn: '2024-03-01' };
+    const current = { ...baseline, pscs: [{ ...parent, ceasedOn: '2024-03-01' }, newPsc] };
+
+    expect(diffDossiers(baseline, current).map((change) => change.summary)).toEqual([
+      'NEW OWNER LTD notified as a person with significant control on 2024-03-01',
+      'PARENT HOLDINGS LTD ceased to be a person with significant control on 2024-03-01',
+    ]);
+  });
+
+  it('should report outstanding risk flags that were not outstanding before', () => {
+    const waived = {
+      ...f8,
+      waiver: {
+        id: 'w1',
+        reason: 'Refinancing agreed with the bank',
+        reviewer: 'j.smith',
+        createdAt: '2024-01-10T09:30:00.000Z',
+        expiresOn: '2024-12-31',
+      },
+    };
+
+    expect(diffDossiers(baseline, { ...baseline, riskFlags: [f8] })).toEqual([
+      {
+        type: 'risk_flag_raised',
+        summary: 'F8: Recent or numerous outstanding charges',
+        current: f8,
+      },
+    ]);
+    expect(
+      diffDossiers({ ...baseline, riskFlags: [f8] }, { ...baseline, riskFlags: [f8] })
+    ).toEqual([]);
+    expect(diffDossiers(baseline, { ...baseline, riskFlags: [waived] })).toEqual([]);
+    expect(
+      diffDossiers({ ...baseline, riskFlags: [waived] }, { ...baseline, riskFlags: [f8] })
+    ).toHaveLength(1);
+  });
+
+  it('should report a modern slavery statement that is no longer on the registry', () => {
+    const current = { ...baseline, modernSlavery: undefined };
+
+    expect(diffDossiers(baseline, current)).toEqual([
+      {
+        type: 'modern_slavery_statement_lapsed',
+        summary: 'Modern slavery statement no longer found on the registry',
+        previous: baseline.modernSlavery,
+      },
+    ]);
+    expect(diffDossiers(current, baseline)).toEqual([]);
+  });
+
+  it('should not report a lapse when the registry could not be read in full', () => {
+    const current = { ...baseline, modernSlavery: undefined, modernSlaveryIncomplete: true };
+
+    expect(diffDossiers(baseline, current)).toEqual([]);
+  });
+});
@@ -9,10 +9,28 @@ import {
   normalizeCompany,
   normalizeOfficers,
   normalizePSCs,
+  normalizePSCStatements,
+  normalizePreviousCompanyNames,
+  normalizeRegisteredOfficeChanges,
+  normalizeFilings,
+  normalizeCharges,
+  normalizeInsolvencyCases,
   normalizeAddress,
   normalizeModernSlavery,
+  normalizeOwnership,
+  summarizeOfficerAppointments,
+  normalizeOfficerAppointments,
+  matchDisqualifiedOfficers,
 } from '../normalizers';
-import { sortOfficers, sortPSCs, sortNaturesOfControl, sortSicCodes } from '../sort';
+import {
+  sortOfficers,
+  sortPSCs,
+  sortPSCStatements,
+  sortFilings,
+  sortCharges,
+  sortNaturesOfControl,
+  sortSicCodes,
+} from '../sort';
 import { generateEvidenceId, addEvidenceId } from '../evidence';
 import {
   scenario1Input,
@@ -21,8 +39,22 @@ import {
   activeCompanyProfile,
   activeCompanyOfficers,
   activeCompanyPSCs,
+  activeCompanyPSCStatements,
+  activeCompanyPSCStatementsEvidence,
+  activeCompanyAddressFilings,
+  activeCompanyAddressFilingsEvidence,
+  largeCompanyFilingHistory,
+  largeCompanyCharges,
+  dissolvedCompanyInsolvency,
   noModernSlavery,
   modernSlaveryFound,
+  largeCompanyOwnership,
+  largeCompanyOwnershipEvidence,
+  largeCompanyOfficersWithLinks,
+  directorAppointments,
+  directorAppointmentsEvidence,
+  disqualifiedDirectorRecord,
+  disqualifiedDirectorEvidence,
   FIXED_GENERATED_AT,
 } from './fixtures';
 
@@ -66,6 +98,182 @@ describe('Dossier Builder', () => {
       const ids = result.evidence.map((e) => e.id);
       expect(ids).toEqual([...ids].sort());
     });
+
+    it('should include filing history evidence when filings were fetched', () => {
+      const result = buildDossier(scenario3Input, FIXED_GENERATED_AT);
+      expect(result.evidence).toHaveLength(5);
+      expect(result.evidence.map((e) => e.apiUrl)).toContain(
+        'https://api.company-information.service.gov.uk/company/00123456/filing-history'
+      );
+    });
+
+    it('should record truncated sections in stable order', () => {
+      const result = buildDossier(
+        { ...scenario1Input, truncated: ['pscs', 'officers', 'pscs'] },
+        FIXED_GENERATED_AT
+      );
+      expect(result.dossier.truncatedSections).toEqual(['officers', 'pscs']);
+    });
+
+    it('should record a modern slavery lookup that could not read the whole registry', () => {
+      const result = buildDossier(
+        { ...scenario1Input, modernSlavery: { found: false, evidence: [], incomplete: true } },
+        FIXED_GENERATED_AT
+      );
+      expect(result.dossier.modernSlaveryIncomplete).toBe(true);
+      expect(buildDossier(scenario1Input, FIXED_GENERATED_AT).dossier).not.toHaveProperty(
+        'modernSlaveryIncomplete'
+      );
+    });
+
+    it('should include evidence for additional result pages', () => {
+      const pageUrl =
+        'https://api.company-information.service.gov.uk/company/12345678/officers?items_per_page=100&start_index=35';
+      const result = buildDossier(
+        {
+          ...scenario1Input,
+          evidence: {
+            ...scenario1Input.evidence,
+            additionalPages: [
+              { apiUrl: pageUrl, fetchedAt: '2024-01-15T10:00:03.000Z', fromCache: false },
+            ],
+          },
+        },
+        FIXED_GENERATED_AT
+      );
+      expect(result.evidence).toHaveLength(4);
+      expect(result.evidence.map((e) => e.apiUrl)).toContain(pageUrl);
+    });
+
+    it('should include the ownership chain and its evidence when resolved', () => {
+      const result = buildDossier(
+        {
+          ...scenario3Input,
+          ownership: largeCompanyOwnership,
+          evidence: { ...scenario3Input.evidence, ownership: largeCompanyOwnershipEvidence },
+        },
+        FIXED_GENERATED_AT
+      );
+      expect(result.dossier.ownership?.owners[0].companyNumber).toBe('11112222');
+      expect(result.evidence.map((e) => e.apiUrl)).toContain(
+        largeCompanyOwnershipEvidence[0].apiUrl
+      );
+    });
+
+    it('should omit the ownership chain when it was not resolved', () => {
+      const result = buildDossier(scenario3Input, FIXED_GENERATED_AT);
+      expect(result.dossier).not.toHaveProperty('ownership');
+    });
+
+    it('should attach appointment summaries to the matching officers', () => {
+      const result = buildDossier(
+        {
+          ...scenario3Input,
+          officers: largeCompanyOfficersWithLinks,
+          officerAppointments: [directorAppointments],
+          evidence: {
+            ...scenario3Input.evidence,
+            officerAppointments: directorAppointmentsEvidence,
+          },
+        },
+        FIXED_GENERATED_AT
+      );
+      const [chair] = result.dossier.officers;
+      expect(chair.officerId).toBe('chair001');
+      expect(chair.appointments).toMatchObject({ total: 3, dissolved: 1, liquidated: 1 });
+      expect(result.evidence.map((e) => e.apiUrl)).toContain(
+        directorAppointmentsEvidence[0].apiUrl
+      );
+    });
+
+    it('should include disqualification matches and record evidence when screened', () => {
+      const result = buildDossier(
+        {
+          ...scenario1Input,
+          disqualifiedOfficers: [disqualifiedDirectorRecord],
+          evidence: {
+            ...scenario1Input.evidence,
+            disqualifiedOfficers: disqualifiedDirectorEvidence,
+          },
+        },
+        FIXED_GENERATED_AT
+      );
+      expect(result.dossier.disqualifiedOfficers).toHaveLength(1);
+      expect(result.dossier.disqualifiedOfficers?.[0].officerName).toBe('SMITH, John David');
+      expect(result.evidence.map((e) => e.publicUrl)).toContain(
+        disqualifiedDirectorEvidence[0].publicUrl
+      );
+    });
+
+    it('should omit disqualification matches when officers were not screened', () => {
+      const result = buildDossier(scenario1Input, FIXED_GENERATED_AT);
+      expect(result.dossier).not.toHaveProperty('disqualifiedOfficers');
+    });
+
+    it('should include sorted PSC statements and their evidence when fetched', () => {
+      const result = buildDossier(
+        {
+          ...scenario1Input,
+          pscStatements: activeCompanyPSCStatements,
+          evidence: {
+            ...scenario1Input.evidence,
+            pscStatements: activeCompanyPSCStatementsEvidence,
+          },
+        },
+        FIXED_GENERATED_AT
+      );
+      expect(result.dossier.pscStatements?.map((s) => s.statement)).toEqual([
+        'steps-to-find-psc-not-yet-completed',
+        'psc-details-not-confirmed',
+      ]);
+      expect(result.evidence.map((e) => e.apiUrl)).toContain(
+        activeCompanyPSCStatementsEvidence.apiUrl
+      );
+    });
+
+    it('should omit PSC statements when they were not fetched', () => {
+      const result = buildDossier(scenario1Input, FIXED_GENERATED_AT);
+      expect(result.dossier).not.toHaveProperty('pscStatements');
+    });
+
+    it('should include registered office history and its evidence when fetched', () => {
+      const result = buildDossier(
+        {
+          ...scenario1Input,
+          addressFilings: activeCompanyAddressFilings,
+          evidence: {
+            ...scenario1Input.evidence,
+            addressFilings: activeCompanyAddressFilingsEvidence,
+          },
+        },
+        FIXED_GENERATED_AT
+      );
+      expect(result.dossier.registeredOfficeHistory?.map((c) => c.date)).toEqual([
+        '2022-04-10',
+        '2019-02-18',
+      ]);
+      expect(result.evidence.map((e) => e.apiUrl)).toContain(
+        activeCompanyAddressFilingsEvidence.apiUrl
+      );
+    });
+
+    it('should omit registered office history when address filings were not fetched', () => {
+      const result = buildDossier(scenario1Input, FIXED_GENERATED_AT);
+      expect(result.dossier).not.toHaveProperty('registeredOfficeHistory');
+    });
+
+    it('should leave officers without history when appointments were not looked up', () => {
+      const result = buildDossier(
+        { ...scenario3Input, officers: largeCompanyOfficersWithLinks },
+        FIXED_GENERATED_AT
+      );
+      expect(result.dossier.officers[0]).not.toHaveProperty('appointments');
+    });
+
+    it('should default to no filings when filing history is absent', () => {
+      const result = buildDossier(scenario1Input, FIXED_GENERATED_AT);
+      expect(result.dossier.filings).toEqual([]);
+    });
   });
 
   describe('normalizeCompany', () => {
@@ -147,6 +355,117 @@ describe('Dossier Builder', () => {
     });
   });
 
+  describe('normalizePSCStatements', () => {
+    it('should normalize statement type, dates and linked PSC', () => {
+      const statements = normalizePSCStatements(activeCompanyPSCStatements);
+      expect(statements).toEqual([
+        {
+          statement: 'psc-details-not-confirmed',
+          notifiedOn: '2022-03-01',
+          ceasedOn: undefined,
+          linkedPscName: 'Ms Jane Doe',
+        },
+        {
+          statement: 'steps-to-find-psc-not-yet-completed',
+          notifiedOn: '2019-05-01',
+          ceasedOn: '2020-01-15',
+        },
+      ]);
+    });
+
+    it('should return undefined when statements were not fetched', () => {
+      expect(normalizePSCStatements(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('normalizePreviousCompanyNames', () => {
+    it('should normalize previous names, most recently ceased first', () => {
+      const names = normalizePreviousCompanyNames([
+        { name: 'FIRST NAME LTD', effective_from: '2015-01-01', ceased_on: '2018-06-30' },
+        { name: 'SECOND NAME LTD', effective_from: '2018-06-30', ceased_on: '2021-03-01' },
+      ]);
+      expect(names).toEqual([
+        { name: 'SECOND NAME LTD', effectiveFrom: '2018-06-30', ceasedOn: '2021-03-01' },
+        { name: 'FIRST NAME LTD', effectiveFrom: '2015-01-01', ceasedOn: '2018-06-30' },
+      ]);
+    });
+
+    it('should leave previousNames off companies that never changed name', () => {
+      expect(normalizePreviousCompanyNames(undefined)).toEqual([]);
+      expect(normalizeCompany(activeCompanyProfile)).not.toHaveProperty('previousNames');
+    });
+  });
+
+  describe('normalizeRegisteredOfficeChanges', () => {
+    it('should keep registered office changes only, most recent first', () => {
+      expect(normalizeRegisteredOfficeChanges(activeCompanyAddressFilings)).toEqual([
+        {
+          date: '2022-04-10',
+          transactionId: 'MzAwMDAwMDAx',
+          oldAddress: '1 Old Street, London, EC1A 1AA',
+          newAddress: '123 Test Street, London, EC1A 1BB',
+        },
+        { date: '2019-02-18', transactionId: 'MzAwMDAwMDAz' },
+      ]);
+    });
+
+    it('should return undefined when address filings were not fetched', () => {
+      expect(normalizeRegisteredOfficeChanges(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('normalizeFilings', () => {
+    it('should normalize all filings', () => {
+      const filings = normalizeFilings(largeCompanyFilingHistory);
+      expect(filings).toHaveLength(3);
+      expect(filings[1].type).toBe('AA');
+      expect(filings[1].madeUpDate).toBe('2022-12-31');
+      expect(filings[1].paperFiled).toBe(false);
+      expect(filings[2].paperFiled).toBe(true);
+    });
+
+    it('should return empty list when filing history is undefined', () => {
+      expect(normalizeFilings(undefined)).toEqual([]);
+    });
+  });
+
+  describe('normalizeCharges', () => {
+    it('should normalize charge status, dates and persons entitled', () => {
+      const charges = normalizeCharges(largeCompanyCharges);
+      expect(charges).toHaveLength(2);
+      expect(charges[1].status).toBe('outstanding');
+      expect(charges[1].classification).toBe('A registered charge');
+      expect(charges[1].personsEntitled).toEqual(['Lender One PLC', 'Security Trustee Limited']);
+      expect(charges[1].containsFloatingCharge).toBe(true);
+      expect(charges[0].satisfiedOn).toBe('2012-01-31');
+      expect(charges[0].containsFixedCharge).toBe(false);
+    });
+
+    it('should return empty list when charges are undefined', () => {
+      expect(normalizeCharges(undefined)).toEqual([]);
+    });
+  });
+
+  describe('normalizeInsolvencyCases', () => {
+    it('should normalize case type, chronological dates and practitioners', () => {
+      const cases = normalizeInsolvencyCases(dissolvedCompanyInsolvency);
+      expect(cases).toHaveLength(1);
+      expect(cases[0].caseNumber).toBe('1');
+      expect(cases[0].type).toBe('creditors-voluntary-liquidation');
+      expect(cases[0].dates.map((d) => d.type)).toEqual(['wound-up-on', 'dissolved-on']);
+      expect(cases[0].practitioners[0]).toEqual({
+        name: 'Alex Liquidator',
+        role: 'final-liquidator',
+        appointedOn: '2021-11-02',
+        ceasedToActOn: '2023-06-15',
+      });
+    });
+
+    it('should return empty list when insolvency is undefined', () => {
+      expect(normalizeInsolvencyCases(undefined)).toEqual([]);
+    });
+  });
+
   describe('normalizeModernSlavery', () => {
     it('should return undefined when not found', () => {
       const result = normalizeModernSlavery(noModernSlavery);
@@ -163,6 +482,144 @@ describe('Dossier Builder', () => {
     });
   });
 
+  describe('normalizeOwnership', () => {
+    it('should return undefined when the chain was not resolved', () => {
+      expect(normalizeOwnership(undefined)).toBeUndefined();
+    });
+
+    it('should sort owners and natures of control at every level', () => {
+      const [parent] = normalizeOwnership(largeCompanyOwnership)!.owners;
+      expect(parent.natureOfControl).toEqual([
+        'ownership-of-shares-75-to-100-percent',
+        'voting-rights-75-to-100-percent',
+      ]);
+      expect(parent.owners.map((owner) => owner.name)).toEqual([
+        'HARBOUR NOMINEES LIMITED',
+        'Ms Jane Doe',
+      ]);
+    });
+  });
+
+  describe('summarizeOfficerAppointments', () => {
+    it('should count other appointments and exclude the subject company', () => {
+      const summary = summarizeOfficerAppointments(
+        directorAppointments,
+        '00123456',
+        FIXED_GENERATED_AT
+      );
+      expect(summary).toMatchObject({
+        total: 3,
+        current: 2,
+        resigned: 1,
+        dissolved: 1,
+        liquidated: 1,
+        recent: 1,
+      });
+    });
+
+    it('should list failed companies newest appointment first', () => {
+      const summary = summarizeOfficerAppointments(
+        directorAppointments,
+        '00123456',
+        FIXED_GENERATED_AT
+      );
+      expect(summary.failedCompanies).toEqual([
+        {
+          companyNumber: '22220003',
+          companyName: 'BUST LIMITED',
+          status: 'liquidation',
+          role: 'Director',
+          appointedOn: '2019-06-01',
+          resignedOn: undefined,
+        },
+        {
+          companyNumber: '22220002',
+          companyName: 'GONE LIMITED',
+          status: 'dissolved',
+          role: 'Director',
+          appointedOn: '2016-01-01',
+          resignedOn: '2018-01-01',
+        },
+      ]);
+    });
+
+    it('should count appointments in the 12 months before the reference date as recent', () => {
+      expect(
+        summarizeOfficerAppointments(directorAppointments, '00123456', '2025-01-15T00:00:00.000Z')
+          .recent
+      ).toBe(0);
+    });
+  });
+
+  describe('normalizeOfficerAppointments', () => {
+    it('should list every appointment, most recently appointed first', () => {
+      const companies = normalizeOfficerAppointments(directorAppointments);
+      expect(companies).toHaveLength(directorAppointments.items.length);
+      const dates = companies.map((c) => c.appointedOn || '');
+      expect(dates).toEqual([...dates].sort().reverse());
+    });
+
+    it('should include the subject company and readable roles', () => {
+      const companies = normalizeOfficerAppointments(directorAppointments);
+      const subject = directorAppointments.items[0].appointed_to.company_number;
+      expect(companies.map((c) => c.companyNumber)).toContain(subject);
+      expect(companies.every((c) => /^[A-Z]/.test(c.role))).toBe(true);
+    });
+  });
+
+  describe('matchDisqualifiedOfficers', () => {
+    const officers = normalizeOfficers(activeCompanyOfficers);
+
+    it('should match on full name and month/year of birth with high confidence', () => {
+      const [match] = matchDisqualifiedOfficers(officers, [disqualifiedDirectorRecord]);
+      expect(match).toMatchObject({
+        officerName: 'SMITH, John David',
+        disqualifiedName: 'John David SMITH',
+        disqualifiedOfficerId: 'dq123',
+        confidence: 'high',
+      });
+    });
+
+    it('should list disqualifications most recent first with readable reasons', () => {
+      const [match] = matchDisqualifiedOfficers(officers, [disqualifiedDirectorRecord]);
+      expect(match.disqualifications[0]).toEqual({
+        type: 'Undertaking',
+        from: '2022-03-01',
+        until: '2029-02-28',
+        reason: 'Company Directors Disqualification Act 1986, section 7',
+        companyNames: ['BAD BAKES LIMITED', 'FAILED FOODS LIMITED'],
+        courtName: undefined,
+        caseIdentifier: undefined,
+      });
+      expect(match.disqualifications[1].type).toBe('Court Order');
+    });
+
+    it('should give medium confidence when only the first forename agrees', () => {
+      const record = { ...disqualifiedDirectorRecord, other_forenames: undefined };
+      expect(matchDisqualifiedOfficers(officers, [record])[0].confidence).toBe('medium');
+    });
+
+    it('should give low confidence when a date of birth is missing', () => {
+      const record = { ...disqualifiedDirectorRecord, date_of_birth: undefined };
+      expect(matchDisqualifiedOfficers(officers, [record])[0].confidence).toBe('low');
+    });
+
+    it('should reject records with a different date of birth or name', () => {
+      expect(
+        matchDisqualifiedOfficers(officers, [
+          { ...disqualifiedDirectorRecord, date_of_birth: '1985-07-12' },
+          { ...disqualifiedDirectorRecord, forename: 'James' },
+          { ...disqualifiedDirectorRecord, surname: 'SMYTH' },
+        ])
+      ).toEqual([]);
+    });
+
+    it('should ignore resigned officers', () => {
+      const resigned = officers.map((officer) => ({ ...officer, resignedOn: '2023-01-01' }));
+      expect(matchDisqualifiedOfficers(resigned, [disqualifiedDirectorRecord])).toEqual([]);
+    });
+  });
+
   describe('sortOfficers', () => {
     it('should sort by appointedOn date first', () => {
       const officers = normalizeOfficers(activeCompanyOfficers);
@@ -195,6 +652,31 @@ describe('Dossier Builder', () => {
     });
   });
 
+  describe('sortPSCStatements', () => {
+    it('should sort by notifiedOn date', () => {
+      const sorted = sortPSCStatements(normalizePSCStatements(activeCompanyPSCStatements) || []);
+      expect(sorted.map((s) => s.notifiedOn)).toEqual(['2019-05-01', '2022-03-01']);
+    });
+  });
+
+  describe('sortFilings', () => {
+    it('should sort by date descending, then transaction ID', () => {
+      const sorted = sortFilings(normalizeFilings(largeCompanyFilingHistory));
+      expect(sorted.map((f) => f.transactionId)).toEqual([
+        'MzAwMDAwMDAwMg',
+        'MzAwMDAwMDAwMw',
+        'MzAwMDAwMDAwMQ',
+      ]);
+    });
+  });
+
+  describe('sortCharges', () => {
+    it('should sort by creation date descending', () => {
+      const sorted = sortCharges(normalizeCharges(largeCompanyCharges));
+      expect(sorted.map((c) => c.chargeNumber)).toEqual([2, 1]);
+    });
+  });
+
   describe('sortNaturesOfControl', () => {
     it('should sort alphabetically', () => {
       const input = ['voting-rights', 'ownership', 'appoint-directors'];
@@ -244,6 +726,31 @@ describe('Dossier Builder', () => {
       expect(withId.id).toHaveLength(12);
       expect(withId.apiUrl).toBe(evidence.apiUrl);
       expect(withId.publicUrl).toBe(evidence.publicUrl);
+      expect(withId).not.toHaveProperty('attempts');
+    });
+
+    it('should carry over retry attempts and revalidation', () => {
+      const withId = addEvidenceId({
+        apiUrl: 'https://example.com/api',
+        fetchedAt: '2024-01-01T00:00:00.000Z',
+        fromCache: false,
+        attempts: 3,
+        revalidated: false,
+      });
+      expect(withId.attempts).toBe(3);
+      expect(withId.revalidated).toBe(false);
+    });
+
+    it('should carry over stale markers', () => {
+      const withId = addEvidenceId({
+        apiUrl: 'https://example.com/api',
+        fetchedAt: '2024-01-02T00:00:00.000Z',
+        fromCache: true,
+        stale: true,
+        cachedAt: '2024-01-01T00:00:00.000Z',
+      });
+      expect(withId.stale).toBe(true);
+      expect(withId.cachedAt).toBe('2024-01-01T00:00:00.000Z');
     });
   });
 });
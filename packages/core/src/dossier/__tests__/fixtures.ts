@@ -6,8 +6,16 @@
 import type {
   CompanyProfileResponse,
   OfficersResponse,
+  OfficerAppointmentsResponse,
+  DisqualifiedOfficerResponse,
   PSCsResponse,
+  PSCStatementsResponse,
+  FilingHistoryResponse,
+  ChargesResponse,
+  InsolvencyResponse,
   ModernSlaveryRegistryResult,
+  OwnershipChain,
+  Evidence,
 } from '../connector-types';
 import type { DossierInput } from '../types';
 
@@ -70,6 +78,52 @@ export const activeCompanyOfficers: OfficersResponse = {
   total_results: 3,
 };
 
+export const disqualifiedDirectorRecord: DisqualifiedOfficerResponse = {
+  date_of_birth: '1985-06-12',
+  disqualifications: [
+    {
+      company_names: ['OLD VENTURES LIMITED'],
+      disqualification_type: 'court-order',
+      disqualified_from: '2016-04-01',
+      disqualified_until: '2019-03-31',
+      reason: {
+        act: 'company-directors-disqualification-act-1986',
+        description_identifier: 'unfitness',
+        section: '6',
+      },
+      court_name: 'High Court of Justice',
+      case_identifier: 'CR-2015-0001',
+    },
+    {
+      company_names: ['FAILED FOODS LIMITED', 'BAD BAKES LIMITED'],
+      disqualification_type: 'undertaking',
+      disqualified_from: '2022-03-01',
+      disqualified_until: '2029-02-28',
+      reason: {
+        act: 'company-directors-disqualification-act-1986',
+        description_identifier: 'unfitness',
+        section: '7',
+      },
+      undertaken_on: '2022-02-08',
+    },
+  ],
+  forename: 'John',
+  kind: 'natural-disqualification',
+  links: { self: '/disqualified-officers/natural/dq123' },
+  other_forenames: 'David',
+  surname: 'SMITH',
+};
+
+export const disqualifiedDirectorEvidence: Evidence[] = [
+  {
+    apiUrl: 'https://api.company-information.service.gov.uk/disqualified-officers/natural/dq123',
+    publicUrl:
+      'https://find-and-update.company-information.service.gov.uk/disqualified-officers/natural/dq123',
+    fetchedAt: '2024-01-15T10:00:05.000Z',
+    fromCache: false,
+  },
+];
+
 export const activeCompanyPSCs: PSCsResponse = {
   items: [
     // Intentionally unsorted to test sorting
@@ -102,6 +156,86 @@ export const activeCompanyPSCs: PSCsResponse = {
   total_results: 2,
 };
 
+export const activeCompanyPSCStatements: PSCStatementsResponse = {
+  items: [
+    // Intentionally unsorted to test sorting
+    {
+      statement: 'psc-details-not-confirmed',
+      notified_on: '2022-03-01',
+      linked_psc_name: 'Ms Jane Doe',
+      kind: 'persons-with-significant-control-statement',
+      links: { self: '/company/12345678/persons-with-significant-control-statements/st2' },
+    },
+    {
+      statement: 'steps-to-find-psc-not-yet-completed',
+      notified_on: '2019-05-01',
+      ceased_on: '2020-01-15',
+      kind: 'persons-with-significant-control-statement',
+      links: { self: '/company/12345678/persons-with-significant-control-statements/st1' },
+    },
+  ],
+  items_per_page: 25,
+  kind: 'persons-with-significant-control-statements',
+  links: { self: '/company/12345678/persons-with-significant-control-statements' },
+  start_index: 0,
+  total_results: 2,
+};
+
+export const activeCompanyPSCStatementsEvidence: Evidence = {
+  apiUrl:
+    'https://api.company-information.service.gov.uk/company/12345678/persons-with-significant-control-statements',
+  publicUrl:
+    'https://find-and-update.company-information.service.gov.uk/company/12345678/persons-with-significant-control',
+  fetchedAt: '2024-01-15T10:00:06.000Z',
+  fromCache: false,
+};
+
+export const activeCompanyAddressFilings: FilingHistoryResponse = {
+  items: [
+    // Intentionally unsorted to test sorting
+    {
+      category: 'address',
+      date: '2022-04-12',
+      description: 'change-registered-office-address-company-with-date-old-address-new-address',
+      description_values: {
+        change_date: '2022-04-10',
+        old_address: '1 Old Street, London, EC1A 1AA',
+        new_address: '123 Test Street, London, EC1A 1BB',
+      },
+      transaction_id: 'MzAwMDAwMDAx',
+      type: 'AD01',
+    },
+    {
+      category: 'address',
+      date: '2023-08-01',
+      description: 'change-sail-address-company-with-old-address-new-address',
+      transaction_id: 'MzAwMDAwMDAy',
+      type: 'AD02',
+    },
+    {
+      category: 'address',
+      date: '2019-02-20',
+      description: 'change-registered-office-address-company-with-date-old-address-new-address',
+      description_values: { change_date: '2019-02-18' },
+      transaction_id: 'MzAwMDAwMDAz',
+      type: 'AD01',
+    },
+  ],
+  items_per_page: 100,
+  kind: 'filing-history',
+  start_index: 0,
+  total_count: 3,
+};
+
+export const activeCompanyAddressFilingsEvidence: Evidence = {
+  apiUrl:
+    'https://api.company-information.service.gov.uk/company/12345678/filing-history?category=address&items_per_page=100',
+  publicUrl:
+    'https://find-and-update.company-information.service.gov.uk/company/12345678/filing-history',
+  fetchedAt: '2024-01-15T10:00:07.000Z',
+  fromCache: false,
+};
+
 export const noModernSlavery: ModernSlaveryRegistryResult = {
   found: false,
   evidence: [],
@@ -150,6 +284,8 @@ export const dissolvedCompanyProfile: CompanyProfileResponse = {
   company_status: 'dissolved',
   date_of_cessation: '2023-06-15',
   date_of_creation: '2015-08-20',
+  has_been_liquidated: true,
+  has_insolvency_history: true,
   type: 'ltd',
   sic_codes: ['47110'],
   registered_office_address: {
@@ -181,6 +317,27 @@ export const emptyPSCs: PSCsResponse = {
   total_results: 0,
 };
 
+export const dissolvedCompanyInsolvency: InsolvencyResponse = {
+  cases: [
+    {
+      number: '1',
+      type: 'creditors-voluntary-liquidation',
+      dates: [
+        { type: 'dissolved-on', date: '2023-06-15' },
+        { type: 'wound-up-on', date: '2021-11-02' },
+      ],
+      practitioners: [
+        {
+          name: 'Alex Liquidator',
+          role: 'final-liquidator',
+          appointed_on: '2021-11-02',
+          ceased_to_act_on: '2023-06-15',
+        },
+      ],
+    },
+  ],
+};
+
 export const dissolvedCompanyEvidence: DossierInput['evidence'] = {
   profile: {
     apiUrl: 'https://api.company-information.service.gov.uk/company/SC654321',
@@ -203,12 +360,20 @@ export const dissolvedCompanyEvidence: DossierInput['evidence'] = {
     fetchedAt: '2024-01-15T11:00:02.000Z',
     fromCache: true,
   },
+  insolvency: {
+    apiUrl: 'https://api.company-information.service.gov.uk/company/SC654321/insolvency',
+    publicUrl:
+      'https://find-and-update.company-information.service.gov.uk/company/SC654321/insolvency',
+    fetchedAt: '2024-01-15T11:00:03.000Z',
+    fromCache: true,
+  },
 };
 
 export const scenario2Input: DossierInput = {
   profile: dissolvedCompanyProfile,
   officers: emptyOfficers,
   pscs: emptyPSCs,
+  insolvency: dissolvedCompanyInsolvency,
   modernSlavery: noModernSlavery,
   evidence: dissolvedCompanyEvidence,
 };
@@ -276,6 +441,68 @@ export const corporatePSC: PSCsResponse = {
   total_results: 1,
 };
 
+export const largeCompanyFilingHistory: FilingHistoryResponse = {
+  items: [
+    {
+      transaction_id: 'MzAwMDAwMDAwMQ',
+      category: 'confirmation-statement',
+      date: '2023-03-10',
+      description: 'confirmation-statement-with-no-updates',
+      description_values: { made_up_date: '2023-03-01' },
+      type: 'CS01',
+      pages: 3,
+    },
+    {
+      transaction_id: 'MzAwMDAwMDAwMg',
+      category: 'accounts',
+      date: '2023-09-28',
+      description: 'accounts-with-accounts-type-group',
+      description_values: { made_up_date: '2022-12-31' },
+      type: 'AA',
+      pages: 84,
+    },
+    {
+      transaction_id: 'MzAwMDAwMDAwMw',
+      category: 'address',
+      date: '2023-09-28',
+      description: 'change-registered-office-address-company-with-date-old-address-new-address',
+      type: 'AD01',
+      pages: 1,
+      paper_filed: true,
+    },
+  ],
+  items_per_page: 25,
+  kind: 'filing-history',
+  start_index: 0,
+  total_count: 3,
+};
+
+export const largeCompanyCharges: ChargesResponse = {
+  items: [
+    {
+      charge_number: 1,
+      classification: { description: 'Debenture', type: 'charge-description' },
+      created_on: '2005-06-01',
+      delivered_on: '2005-06-10',
+      persons_entitled: [{ name: 'Old Bank PLC' }],
+      satisfied_on: '2012-01-31',
+      status: 'fully-satisfied',
+    },
+    {
+      charge_code: '001234560002',
+      charge_number: 2,
+      classification: { description: 'A registered charge', type: 'charge-description' },
+      created_on: '2015-09-14',
+      delivered_on: '2015-09-21',
+      particulars: { contains_fixed_charge: true, contains_floating_charge: true },
+      persons_entitled: [{ name: 'Lender One PLC' }, { name: 'Security Trustee Limited' }],
+      status: 'outstanding',
+    },
+  ],
+  satisfied_count: 1,
+  total_count: 2,
+};
+
 export const modernSlaveryFound: ModernSlaveryRegistryResult = {
   found: true,
   latestYear: 2024,
@@ -313,12 +540,152 @@ export const largeCompanyEvidence: DossierInput['evidence'] = {
     fetchedAt: '2024-01-15T12:00:02.000Z',
     fromCache: false,
   },
+  filingHistory: {
+    apiUrl: 'https://api.company-information.service.gov.uk/company/00123456/filing-history',
+    publicUrl:
+      'https://find-and-update.company-information.service.gov.uk/company/00123456/filing-history',
+    fetchedAt: '2024-01-15T12:00:03.000Z',
+    fromCache: false,
+  },
+  charges: {
+    apiUrl: 'https://api.company-information.service.gov.uk/company/00123456/charges',
+    publicUrl:
+      'https://find-and-update.company-information.service.gov.uk/company/00123456/charges',
+    fetchedAt: '2024-01-15T12:00:04.000Z',
+    fromCache: false,
+  },
+};
+
+export const largeCompanyOwnership: OwnershipChain = {
+  maxDepth: 5,
+  owners: [
+    {
+      name: 'PARENT HOLDINGS LTD',
+      kind: 'corporate-entity-person-with-significant-control',
+      companyNumber: '11112222',
+      countryRegistered: 'England',
+      placeRegistered: 'Companies House',
+      natureOfControl: ['voting-rights-75-to-100-percent', 'ownership-of-shares-75-to-100-percent'],
+      depth: 1,
+      owners: [
+        {
+          name: 'Ms Jane Doe',
+          kind: 'individual-person-with-significant-control',
+          natureOfControl: ['ownership-of-shares-50-to-75-percent'],
+          depth: 2,
+          termination: 'individual',
+          owners: [],
+        },
+        {
+          name: 'HARBOUR NOMINEES LIMITED',
+          kind: 'corporate-entity-person-with-significant-control',
+          countryRegistered: 'Cayman Islands',
+          natureOfControl: ['ownership-of-shares-25-to-50-percent'],
+          depth: 2,
+          termination: 'overseas',
+          owners: [],
+        },
+      ],
+    },
+  ],
 };
 
+export const largeCompanyOwnershipEvidence: Evidence[] = [
+  {
+    apiUrl:
+      'https://api.company-information.service.gov.uk/company/11112222/persons-with-significant-control',
+    publicUrl:
+      'https://find-and-update.company-information.service.gov.uk/company/11112222/persons-with-significant-control',
+    fetchedAt: '2024-01-15T12:00:05.000Z',
+    fromCache: false,
+  },
+];
+
+export const largeCompanyOfficersWithLinks: OfficersResponse = {
+  ...largeCompanyOfficers,
+  items: [
+    {
+      ...largeCompanyOfficers.items[0],
+      links: {
+        self: '/company/00123456/appointments/chair',
+        officer: { appointments: '/officers/chair001/appointments' },
+      },
+    },
+  ],
+};
+
+export const directorAppointments: OfficerAppointmentsResponse = {
+  items: [
+    {
+      appointed_on: '2015-03-01',
+      appointed_to: {
+        company_name: 'LARGE CORP PLC',
+        company_number: '00123456',
+        company_status: 'active',
+      },
+      links: { company: '/company/00123456' },
+      name: 'Richard LORD CHAIRMAN',
+      officer_role: 'director',
+    },
+    {
+      appointed_on: '2023-11-01',
+      appointed_to: {
+        company_name: 'FRESH START LIMITED',
+        company_number: '22220001',
+        company_status: 'active',
+      },
+      links: { company: '/company/22220001' },
+      name: 'Richard LORD CHAIRMAN',
+      officer_role: 'director',
+    },
+    {
+      appointed_on: '2016-01-01',
+      appointed_to: {
+        company_name: 'GONE LIMITED',
+        company_number: '22220002',
+        company_status: 'dissolved',
+      },
+      links: { company: '/company/22220002' },
+      name: 'Richard LORD CHAIRMAN',
+      officer_role: 'director',
+      resigned_on: '2018-01-01',
+    },
+    {
+      appointed_on: '2019-06-01',
+      appointed_to: {
+        company_name: 'BUST LIMITED',
+        company_number: '22220003',
+        company_status: 'liquidation',
+      },
+      links: { company: '/company/22220003' },
+      name: 'Richard LORD CHAIRMAN',
+      officer_role: 'director',
+    },
+  ],
+  items_per_page: 50,
+  kind: 'personal-appointment',
+  links: { self: '/officers/chair001/appointments' },
+  name: 'Richard LORD CHAIRMAN',
+  start_index: 0,
+  total_results: 4,
+};
+
+export const directorAppointmentsEvidence: Evidence[] = [
+  {
+    apiUrl: 'https://api.company-information.service.gov.uk/officers/chair001/appointments',
+    publicUrl:
+      'https://find-and-update.company-information.service.gov.uk/officers/chair001/appointments',
+    fetchedAt: '2024-01-15T12:00:06.000Z',
+    fromCache: false,
+  },
+];
+
 export const scenario3Input: DossierInput = {
   profile: largeCompanyProfile,
   officers: largeCompanyOfficers,
   pscs: corporatePSC,
+  filingHistory: largeCompanyFilingHistory,
+  charges: largeCompanyCharges,
   modernSlavery: modernSlaveryFound,
   evidence: largeCompanyEvidence,
 };
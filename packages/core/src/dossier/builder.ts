@@ -3,7 +3,7 @@
  *
  * Key guarantees:
  * - Same inputs produce byte-identical JSON output
- * - Stable sorts for officers and PSCs
+ * - Stable sorts for officers, PSCs, PSC statements, filings, charges and insolvency cases
  * - Stable evidence IDs (hash of URL)
  * - No timestamps inside dossier unless from upstream data
  */
@@ -14,9 +14,24 @@ import {
   normalizeCompany,
   normalizeOfficers,
   normalizePSCs,
+  normalizePSCStatements,
+  normalizeFilings,
+  normalizeRegisteredOfficeChanges,
+  normalizeCharges,
+  normalizeInsolvencyCases,
   normalizeModernSlavery,
+  normalizeOwnership,
+  summarizeOfficerAppointments,
+  matchDisqualifiedOfficers,
 } from './normalizers';
-import { sortOfficers, sortPSCs } from './sort';
+import {
+  sortOfficers,
+  sortPSCs,
+  sortPSCStatements,
+  sortFilings,
+  sortCharges,
+  sortInsolvencyCases,
+} from './sort';
 import { addEvidenceId } from './evidence';
 
 /**
@@ -41,32 +56,110 @@ export function buildDossier(input: DossierInput, generatedAt?: string): Dossier
   // Normalize company data
   const company = normalizeCompany(input.profile);
 
-  // Normalize and sort officers
-  const normalizedOfficers = normalizeOfficers(input.officers);
+  const timestamp = generatedAt || new Date().toISOString();
+
+  // Normalize and sort officers, attaching appointment histories by officer ID
+  const appointmentLists = new Map(
+    (input.officerAppointments || []).map((list) => [list.links.self, list])
+  );
+  const normalizedOfficers = normalizeOfficers(input.officers).map((officer) => {
+    const list = officer.officerId
+      ? appointmentLists.get(`/officers/${officer.officerId}/appointments`)
+      : undefined;
+    return list
+      ? {
+          ...officer,
+          appointments: summarizeOfficerAppointments(list, company.companyNumber, timestamp),
+        }
+      : officer;
+  });
   const officers = sortOfficers(normalizedOfficers);
 
+  // Match current officers against the disqualified directors register, when screened
+  const disqualifiedOfficers =
+    input.disqualifiedOfficers && matchDisqualifiedOfficers(officers, input.disqualifiedOfficers);
+
   // Normalize and sort PSCs
   const normalizedPSCs = normalizePSCs(input.pscs);
   const pscs = sortPSCs(normalizedPSCs);
 
+  // Normalize and sort PSC statements, when fetched
+  const normalizedStatements = normalizePSCStatements(input.pscStatements);
+  const pscStatements = normalizedStatements && sortPSCStatements(normalizedStatements);
+
+  // Normalize and sort filings (most recent first)
+  const filings = sortFilings(normalizeFilings(input.filingHistory));
+
+  // Registered office address changes (most recent first), when the address filings were fetched
+  const registeredOfficeHistory = normalizeRegisteredOfficeChanges(input.addressFilings);
+
+  // Normalize and sort charges (most recently created first)
+  const charges = sortCharges(normalizeCharges(input.charges));
+
+  // Normalize and sort insolvency cases
+  const insolvencyCases = sortInsolvencyCases(normalizeInsolvencyCases(input.insolvency));
+
   // Normalize modern slavery data
   const modernSlavery = normalizeModernSlavery(input.modernSlavery);
 
+  // Normalize the corporate ownership chain, when resolved
+  const ownership = normalizeOwnership(input.ownership);
+
+  // Record sections cut short by pagination, in stable order
+  const truncatedSections = [...new Set(input.truncated || [])].sort((a, b) => a.localeCompare(b));
+
   // Build evidence list with stable IDs
   const evidenceList: EvidenceWithId[] = [
     addEvidenceId(input.evidence.profile),
     addEvidenceId(input.evidence.officers),
     addEvidenceId(input.evidence.pscs),
-  ].sort((a, b) => a.id.localeCompare(b.id)); // Stable sort by ID
+  ];
+  if (input.evidence.pscStatements) {
+    evidenceList.push(addEvidenceId(input.evidence.pscStatements));
+  }
+  if (input.evidence.filingHistory) {
+    evidenceList.push(addEvidenceId(input.evidence.filingHistory));
+  }
+  if (input.evidence.addressFilings) {
+    evidenceList.push(addEvidenceId(input.evidence.addressFilings));
+  }
+  if (input.evidence.charges) {
+    evidenceList.push(addEvidenceId(input.evidence.charges));
+  }
+  if (input.evidence.insolvency) {
+    evidenceList.push(addEvidenceId(input.evidence.insolvency));
+  }
+  for (const appointments of input.evidence.officerAppointments || []) {
+    evidenceList.push(addEvidenceId(appointments));
+  }
+  for (const record of input.evidence.disqualifiedOfficers || []) {
+    evidenceList.push(addEvidenceId(record));
+  }
+  for (const register of input.evidence.ownership || []) {
+    evidenceList.push(addEvidenceId(register));
+  }
+  for (const page of input.evidence.additionalPages || []) {
+    evidenceList.push(addEvidenceId(page));
+  }
+  evidenceList.sort((a, b) => a.id.localeCompare(b.id)); // Stable sort by ID
 
   // Build the dossier
   const dossier: Dossier = {
     company,
     officers,
     pscs,
+    ...(pscStatements && { pscStatements }),
+    filings,
+    ...(registeredOfficeHistory && { registeredOfficeHistory }),
+    charges,
+    insolvencyCases,
     riskFlags: [], // Risk flags are computed by the risk engine (PRD 7)
     modernSlavery,
-    generatedAt: generatedAt || new Date().toISOString(),
+    ...(input.modernSlavery.incomplete && { modernSlaveryIncomplete: true }),
+    ...(ownership && { ownership }),
+    ...(disqualifiedOfficers && { disqualifiedOfficers }),
+    truncatedSections,
+    generatedAt: timestamp,
   };
 
   return {
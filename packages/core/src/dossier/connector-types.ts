@@ -126,6 +126,71 @@ export interface OfficersResponse {
   total_results: number;
 }
 
+// ============================================================================
+// Officer Appointment Types
+// ============================================================================
+
+export interface OfficerAppointmentItem {
+  appointed_before?: string;
+  appointed_on?: string;
+  appointed_to: {
+    company_name?: string;
+    company_number: string;
+    company_status?: string;
+  };
+  is_pre_1992_appointment?: boolean;
+  links: { company: string };
+  name: string;
+  officer_role: string;
+  resigned_on?: string;
+}
+
+export interface OfficerAppointmentsResponse {
+  date_of_birth?: { month: number; year: number };
+  etag?: string;
+  is_corporate_officer?: boolean;
+  items: OfficerAppointmentItem[];
+  items_per_page: number;
+  kind: string;
+  links: { self: string };
+  name: string;
+  start_index: number;
+  total_results: number;
+}
+
+// ============================================================================
+// Disqualified Officer Types
+// ============================================================================
+
+export interface DisqualificationItem {
+  case_identifier?: string;
+  company_names?: string[];
+  court_name?: string;
+  disqualification_type: string;
+  disqualified_from: string;
+  disqualified_until: string;
+  heard_on?: string;
+  reason: {
+    act: string;
+    article?: string;
+    description_identifier: string;
+    section?: string;
+  };
+  undertaken_on?: string;
+}
+
+export interface DisqualifiedOfficerResponse {
+  date_of_birth?: string;
+  disqualifications: DisqualificationItem[];
+  forename?: string;
+  kind: string;
+  links: { self: string };
+  nationality?: string;
+  other_forenames?: string;
+  surname: string;
+  title?: string;
+}
+
 // ============================================================================
 // PSC Types
 // ============================================================================
@@ -172,6 +237,137 @@ export interface PSCsResponse {
   total_results: number;
 }
 
+export interface PSCStatementItem {
+  ceased_on?: string;
+  etag?: string;
+  kind: string;
+  linked_psc_name?: string;
+  links: {
+    person_with_significant_control?: string;
+    self: string;
+  };
+  notified_on?: string;
+  restrictions_notice_withdrawal_reason?: string;
+  statement?: string;
+}
+
+export interface PSCStatementsResponse {
+  active_count?: number;
+  ceased_count?: number;
+  etag?: string;
+  items: PSCStatementItem[];
+  items_per_page: number;
+  kind: string;
+  links: {
+    persons_with_significant_control?: string;
+    self: string;
+  };
+  start_index: number;
+  total_results: number;
+}
+
+export interface FilingHistoryItem {
+  action_date?: string;
+  annotations?: Array<{
+    annotation?: string;
+    date?: string;
+    description?: string;
+  }>;
+  associated_filings?: Array<{
+    date?: string;
+    description?: string;
+    type?: string;
+  }>;
+  barcode?: string;
+  category: string;
+  date: string;
+  description: string;
+  description_values?: {
+    made_up_date?: string;
+    [key: string]: unknown;
+  };
+  links?: {
+    document_metadata?: string;
+    self?: string;
+  };
+  pages?: number;
+  paper_filed?: boolean;
+  subcategory?: string;
+  transaction_id: string;
+  type: string;
+}
+
+export interface FilingHistoryResponse {
+  etag?: string;
+  filing_history_status?: string;
+  items: FilingHistoryItem[];
+  items_per_page: number;
+  kind: string;
+  start_index: number;
+  total_count: number;
+}
+
+export interface ChargeItem {
+  acquired_on?: string;
+  charge_code?: string;
+  charge_number: number;
+  classification: {
+    description: string;
+    type: string;
+  };
+  created_on?: string;
+  delivered_on?: string;
+  id?: string;
+  links?: {
+    self?: string;
+  };
+  particulars?: {
+    contains_fixed_charge?: boolean;
+    contains_floating_charge?: boolean;
+    contains_negative_pledge?: boolean;
+    description?: string;
+    floating_charge_covers_all?: boolean;
+    type?: string;
+  };
+  persons_entitled?: Array<{
+    name: string;
+  }>;
+  satisfied_on?: string;
+  status: string;
+}
+
+export interface ChargesResponse {
+  etag?: string;
+  items: ChargeItem[];
+  part_satisfied_count?: number;
+  satisfied_count?: number;
+  total_count: number;
+  unfiltered_count?: number;
+}
+
+export interface InsolvencyCaseItem {
+  dates: Array<{
+    date: string;
+    type: string;
+  }>;
+  notes?: string[];
+  number: string;
+  practitioners: Array<{
+    address?: CompaniesHouseAddress;
+    appointed_on?: string;
+    ceased_to_act_on?: string;
+    name: string;
+    role?: string;
+  }>;
+  type: string;
+}
+
+export interface InsolvencyResponse {
+  cases: InsolvencyCaseItem[];
+  etag?: string;
+  status?: string[];
+}
+
 // ============================================================================
 // Evidence Types
 // ============================================================================
@@ -181,6 +377,10 @@ export interface Evidence {
   publicUrl?: string;
   fetchedAt: string;
   fromCache: boolean;
+  attempts?: number;
+  revalidated?: boolean;
+  stale?: boolean;
+  cachedAt?: string;
 }
 
 // ============================================================================
@@ -195,6 +395,33 @@ export interface Address {
   country: string;
 }
 
+export interface AppointedCompany {
+  companyNumber: string;
+  companyName: string;
+  status: string;
+  role: string;
+  appointedOn?: string;
+  resignedOn?: string;
+}
+
+/**
+ * An officer's appointments at companies other than the dossier subject.
+ */
+export interface OfficerAppointmentSummary {
+  /** Appointments at other companies, current and resigned */
+  total: number;
+  current: number;
+  resigned: number;
+  /** Other companies now dissolved */
+  dissolved: number;
+  /** Other companies in liquidation, administration, receivership or another insolvency process */
+  liquidated: number;
+  /** Appointments made in the 12 months before the dossier was generated */
+  recent: number;
+  /** The dissolved and insolvent companies, most recently appointed first */
+  failedCompanies: AppointedCompany[];
+}
+
 export interface Officer {
   name: string;
   role: string;
@@ -203,6 +430,46 @@ export interface Officer {
   nationality: string;
   birthMonth?: number;
   birthYear?: number;
+  /** Companies House officer ID, from the officer's appointments link */
+  officerId?: string;
+  /** Appointment history, when it was looked up */
+  appointments?: OfficerAppointmentSummary;
+}
+
+export interface Disqualification {
+  /** How the disqualification was imposed, e.g. "Court Order" or "Undertaking" */
+  type: string;
+  from: string;
+  until: string;
+  /** Statutory basis, e.g. "Company Directors Disqualification Act 1986, section 6" */
+  reason: string;
+  /** Companies whose conduct led to the disqualification */
+  companyNames: string[];
+  courtName?: string;
+  caseIdentifier?: string;
+}
+
+/**
+ * How sure a disqualification match is:
+ * - high: every forename, surname and month/year of birth agree
+ * - medium: first forename, surname and month/year of birth agree
+ * - low: the name agrees but a date of birth is missing on one side
+ */
+export type MatchConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * A current officer who appears on the register of disqualified directors.
+ */
+export interface DisqualifiedOfficerMatch {
+  /** Officer name as listed on the company's register */
+  officerName: string;
+  /** Name on the disqualification record */
+  disqualifiedName: string;
+  /** Disqualified officer ID, from the record's self link */
+  disqualifiedOfficerId: string;
+  confidence: MatchConfidence;
+  /** Disqualifications on the record, most recent first */
+  disqualifications: Disqualification[];
 }
 
 export interface PSC {
@@ -213,6 +480,108 @@ export interface PSC {
   nationality: string;
 }
 
+/**
+ * A statement filed in place of (or alongside) PSC details, e.g. that no
+ * registrable person exists or that one has not yet been identified.
+ */
+export interface PSCStatement {
+  /** Companies House statement type, e.g. 'psc-exists-but-not-identified' */
+  statement: string;
+  notifiedOn: string;
+  ceasedOn?: string;
+  /** PSC the statement concerns, for statements about a named person */
+  linkedPscName?: string;
+}
+
+export interface Filing {
+  transactionId: string;
+  date: string;
+  category: string;
+  subcategory?: string;
+  type: string;
+  description: string;
+  madeUpDate?: string;
+  pages?: number;
+  paperFiled: boolean;
+}
+
+/**
+ * A change of registered office address, from an AD01 (or LLAD01) filing.
+ */
+export interface RegisteredOfficeChange {
+  /** Date the change took effect (the filing date when not stated) */
+  date: string;
+  transactionId: string;
+  oldAddress?: string;
+  newAddress?: string;
+}
+
+export interface Charge {
+  chargeNumber: number;
+  chargeCode?: string;
+  status: string;
+  classification: string;
+  createdOn?: string;
+  deliveredOn?: string;
+  satisfiedOn?: string;
+  personsEntitled: string[];
+  containsFixedCharge: boolean;
+  containsFloatingCharge: boolean;
+}
+
+export interface InsolvencyCaseDate {
+  type: string;
+  date: string;
+}
+
+export interface InsolvencyPractitioner {
+  name: string;
+  role: string;
+  appointedOn?: string;
+  ceasedToActOn?: string;
+}
+
+export interface InsolvencyCase {
+  caseNumber: string;
+  type: string;
+  dates: InsolvencyCaseDate[];
+  practitioners: InsolvencyPractitioner[];
+}
+
+/**
+ * Why traversal of the ownership chain stopped at an owner.
+ */
+export type OwnershipTermination =
+  | 'individual'
+  | 'legal-person'
+  | 'overseas'
+  | 'cycle'
+  | 'depth-limit'
+  | 'no-pscs'
+  | 'unresolved';
+
+export interface OwnershipNode {
+  name: string;
+  kind: string;
+  companyNumber?: string;
+  countryRegistered?: string;
+  placeRegistered?: string;
+  natureOfControl: string[];
+  depth: number;
+  termination?: OwnershipTermination;
+  owners: OwnershipNode[];
+}
+
+export interface OwnershipChain {
+  maxDepth: number;
+  owners: OwnershipNode[];
+}
+
+/**
+ * Dossier sections whose upstream lists can be cut short by the connector's page ceiling.
+ */
+export type TruncatableSection = 'officers' | 'pscs' | 'pscStatements' | 'officerAppointments';
+
 export enum FlagSeverity {
   HIGH = 'HIGH',
   MEDIUM = 'MEDIUM',
@@ -220,12 +589,36 @@ export enum FlagSeverity {
   INFO = 'INFO',
 }
 
+/**
+ * Which risk policy and rule version raised a flag.
+ */
+export interface RiskFlagProvenance {
+  policyId: string;
+  policyVersion: string;
+  ruleVersion: string;
+}
+
+/**
+ * A reviewer's acceptance of a flag, recorded against the evidence they reviewed.
+ */
+export interface RiskFlagWaiver {
+  id: string;
+  reason: string;
+  reviewer: string;
+  createdAt: string;
+  /** Last day the waiver applies (YYYY-MM-DD) */
+  expiresOn: string;
+}
+
 export interface RiskFlag {
   id: string;
   title: string;
   severity: FlagSeverity;
   explanation: string;
   evidenceUrl?: string;
+  provenance?: RiskFlagProvenance;
+  /** Set when the flag has been reviewed and accepted */
+  waiver?: RiskFlagWaiver;
 }
 
 export interface ModernSlaveryStatement {
@@ -235,6 +628,12 @@ export interface ModernSlaveryStatement {
   compliant: boolean;
 }
 
+export interface PreviousCompanyName {
+  name: string;
+  effectiveFrom: string;
+  ceasedOn: string;
+}
+
 export interface Company {
   companyNumber: string;
   name: string;
@@ -243,14 +642,31 @@ export interface Company {
   incorporationDate: string;
   registeredOffice: Address;
   sicCodes: string[];
+  /** Names the company was previously registered under, most recent first */
+  previousNames?: PreviousCompanyName[];
 }
 
 export interface Dossier {
   company: Company;
   officers: Officer[];
   pscs: PSC[];
+  /** PSC statements, when they were fetched */
+  pscStatements?: PSCStatement[];
+  filings: Filing[];
+  /** Registered office address changes, most recent first, when they were fetched */
+  registeredOfficeHistory?: RegisteredOfficeChange[];
+  charges: Charge[];
+  insolvencyCases: InsolvencyCase[];
   riskFlags: RiskFlag[];
   modernSlavery?: ModernSlaveryStatement;
+  /** Set when the registry could not be read in full, so a missing statement is inconclusive */
+  modernSlaveryIncomplete?: boolean;
+  /** Corporate ownership chain above the company, when it was resolved */
+  ownership?: OwnershipChain;
+  /** Current officers matched on the register of disqualified directors, when screened */
+  disqualifiedOfficers?: DisqualifiedOfficerMatch[];
+  /** Sections whose lists are incomplete because pagination hit its ceiling */
+  truncatedSections: TruncatableSection[];
   generatedAt: string;
 }
 
@@ -270,4 +686,6 @@ export interface ModernSlaveryRegistryResult {
   latestYear?: number;
   statementSummaryUrl?: string;
   evidence: RegistryEvidence[];
+  /** Set when a year's registry CSV could not be fetched or read, so a statement may have been missed */
+  incomplete?: boolean;
 }
@@ -0,0 +1,169 @@
+/**
+ * Dossier diff - changes between two dossiers for the same company.
+ *
+ * Used by the supplier watchlist: each time a watched company's dossier is
+ * rebuilt it is compared with the last one stored, and every change found
+ * becomes an event. Only changes a reviewer would act on are reported, not
+ * every field that differs.
+ */
+
+import type { Dossier, Officer, PSC, RiskFlag } from './connector-types';
+
+export const DOSSIER_CHANGE_TYPES = [
+  'status_changed',
+  'officer_appointed',
+  'officer_ceased',
+  'psc_added',
+  'psc_ceased',
+  'risk_flag_raised',
+  'modern_slavery_statement_lapsed',
+] as const;
+
+export type DossierChangeType = (typeof DOSSIER_CHANGE_TYPES)[number];
+
+export interface DossierChange {
+  type: DossierChangeType;
+  /** One-line description of the change */
+  summary: string;
+  /** The value before the change, if there was one */
+  previous?: unknown;
+  /** The value after the change, if there is one */
+  current?: unknown;
+}
+
+/**
+ * Identity of an appointment. A re-appointment has a new appointment date,
+ * so it counts as a new appointment.
+ */
+function officerKey(officer: Officer): string {
+  return [officer.officerId ?? officer.name, officer.role, officer.appointedOn].join('|');
+}
+
+function pscKey(psc: PSC): string {
+  return [psc.name, psc.notifiedOn].join('|');
+}
+
+/**
+ * Compare active entries (officers or PSCs) between two lists.
+ *
+ * An entry has ceased if it was active before and is now marked as ceased, or
+ * has disappeared from a complete list. When the current list was truncated,
+ * missing entries are not treated as ceased.
+ */
+function diffActive<T>(
+  previous: T[],
+  current: T[],
+  key: (item: T) => string,
+  isActive: (item: T) => boolean,
+  currentTruncated: boolean
+): { added: T[]; ceased: Array<{ previous: T; current?: T }> } {
+  const previousByKey = new Map(previous.map((item) => [key(item), item]));
+  const currentByKey = new Map(current.map((item) => [key(item), item]));
+
+  const added = current.filter((item) => isActive(item) && !previousByKey.has(key(item)));
+  const ceased = previous
+    .filter(isActive)
+    .map((item) => ({ previous: item, current: currentByKey.get(key(item)) }))
+    .filter(({ current: now }) => (now ? !isActive(now) : !currentTruncated));
+
+  return { added, ceased };
+}
+
+function isOutstanding(flag: RiskFlag): boolean {
+  return !flag.waiver;
+}
+
+/**
+ * Compare a rebuilt dossier with the previous one for the same company.
+ *
+ * @param previous - Last stored dossier
+ * @param current - Newly built dossier
+ * @returns Changes found, in a stable order: status, officers, PSCs, risk
+ *          flags, then the modern slavery statement
+ */
+export function diffDossiers(previous: Dossier, current: Dossier): DossierChange[] {
+  const changes: DossierChange[] = [];
+
+  if (previous.company.status !== current.company.status) {
+    changes.push({
+      type: 'status_changed',
+      summary: `Company status changed from ${previous.company.status} to ${current.company.status}`,
+      previous: previous.company.status,
+      current: current.company.status,
+    });
+  }
+
+  const officers = diffActive(
+    previous.officers,
+    current.officers,
+    officerKey,
+    (officer) => !officer.resignedOn,
+    current.truncatedSections.includes('officers')
+  );
+  for (const officer of officers.added) {
+    changes.push({
+      type: 'officer_appointed',
+      summary: `${officer.name} appointed as ${officer.role} on ${officer.appointedOn}`,
+      current: officer,
+    });
+  }
+  for (const { previous: officer, current: now } of officers.ceased) {
+    changes.push({
+      type: 'officer_ceased',
+      summary: now?.resignedOn
+        ? `${officer.name} resigned as ${officer.role} on ${now.resignedOn}`
+        : `${officer.name} is no longer listed as ${officer.role}`,
+      previous: officer,
+      ...(now && { current: now }),
+    });
+  }
+
+  const pscs = diffActive(
+    previous.pscs,
+    current.pscs,
+    pscKey,
+    (psc) => !psc.ceasedOn,
+    current.truncatedSections.includes('pscs')
+  );
+  for (const psc of pscs.added) {
+    changes.push({
+      type: 'psc_added',
+      summary: `${psc.name} notified as a person with significant control on ${psc.notifiedOn}`,
+      current: psc,
+    });
+  }
+  for (const { previous: psc, current: now } of pscs.ceased) {
+    changes.push({
+      type: 'psc_ceased',
+      summary: now?.ceasedOn
+        ? `${psc.name} ceased to be a person with significant control on ${now.ceasedOn}`
+        : `${psc.name} is no longer listed as a person with significant control`,
+      previous: psc,
+      ...(now && { current: now }),
+    });
+  }
+
+  // A flag counts as new if it was not outstanding before, so a flag whose
+  // waiver lapsed is reported again
+  const previousFlags = new Set(previous.riskFlags.filter(isOutstanding).map((flag) => flag.id));
+  for (const flag of current.riskFlags.filter(isOutstanding)) {
+    if (!previousFlags.has(flag.id)) {
+      changes.push({
+        type: 'risk_flag_raised',
+        summary: `${flag.id}: ${flag.title}`,
+        current: flag,
+      });
+    }
+  }
+
+  // A statement missing only because the registry could not be read has not lapsed
+  if (previous.modernSlavery && !current.modernSlavery && !current.modernSlaveryIncomplete) {
+    changes.push({
+      type: 'modern_slavery_statement_lapsed',
+      summary: 'Modern slavery statement no longer found on the registry',
+      previous: previous.modernSlavery,
+    });
+  }
+
+  return changes;
+}
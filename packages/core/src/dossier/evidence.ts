@@ -26,6 +26,9 @@ export function addEvidenceId(evidence: Evidence): EvidenceWithId {
     publicUrl: evidence.publicUrl,
     fetchedAt: evidence.fetchedAt,
     fromCache: evidence.fromCache,
+    ...(evidence.attempts !== undefined && { attempts: evidence.attempts }),
+    ...(evidence.revalidated !== undefined && { revalidated: evidence.revalidated }),
+    ...(evidence.stale && { stale: true, cachedAt: evidence.cachedAt }),
   };
 }
 
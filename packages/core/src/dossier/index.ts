@@ -10,34 +10,91 @@ export type { DossierResult } from './builder';
 
 export {
   normalizeCompany,
+  normalizePreviousCompanyNames,
   normalizeOfficers,
   normalizeOfficer,
   normalizePSCs,
   normalizePSC,
+  normalizePSCStatements,
+  normalizePSCStatement,
+  normalizeFilings,
+  normalizeFiling,
+  normalizeRegisteredOfficeChanges,
+  normalizeCharges,
+  normalizeCharge,
+  normalizeInsolvencyCases,
+  normalizeInsolvencyCase,
   normalizeAddress,
   normalizeModernSlavery,
+  normalizeOwnership,
+  summarizeOfficerAppointments,
+  normalizeOfficerAppointments,
+  normalizeDisqualification,
+  matchDisqualifiedOfficers,
 } from './normalizers';
 
-export { sortOfficers, sortPSCs, sortNaturesOfControl, sortSicCodes } from './sort';
+export {
+  sortOfficers,
+  sortPSCs,
+  sortPSCStatements,
+  sortFilings,
+  sortOwnershipNodes,
+  sortNaturesOfControl,
+  sortSicCodes,
+} from './sort';
 
 export { generateEvidenceId, addEvidenceId, createEvidenceMap } from './evidence';
 
+export { diffDossiers, DOSSIER_CHANGE_TYPES } from './diff';
+export type { DossierChange, DossierChangeType } from './diff';
+
 export type { DossierInput, EvidenceWithId } from './types';
 
 // Re-export connector types for consumers
 export type {
   CompanyProfileResponse,
   OfficersResponse,
+  OfficerAppointmentsResponse,
+  OfficerAppointmentItem,
+  DisqualifiedOfficerResponse,
+  DisqualificationItem,
   PSCsResponse,
+  PSCStatementsResponse,
+  PSCStatementItem,
+  FilingHistoryResponse,
+  FilingHistoryItem,
+  ChargesResponse,
+  ChargeItem,
+  InsolvencyResponse,
+  InsolvencyCaseItem,
   Evidence,
   Dossier,
   Company,
   Officer,
+  OfficerAppointmentSummary,
+  AppointedCompany,
+  Disqualification,
+  DisqualifiedOfficerMatch,
+  MatchConfidence,
   PSC,
+  PSCStatement,
+  PreviousCompanyName,
+  Filing,
+  RegisteredOfficeChange,
+  Charge,
+  InsolvencyCase,
+  InsolvencyCaseDate,
+  InsolvencyPractitioner,
+  TruncatableSection,
   Address,
   RiskFlag,
+  RiskFlagProvenance,
+  RiskFlagWaiver,
   ModernSlaveryStatement,
   ModernSlaveryRegistryResult,
+  OwnershipChain,
+  OwnershipNode,
+  OwnershipTermination,
 } from './connector-types';
 
 // Re-export FlagSeverity enum as a value (not just type)
@@ -6,18 +6,43 @@
 import type {
   CompanyProfileResponse,
   OfficersResponse,
+  OfficerAppointmentsResponse,
   PSCsResponse,
+  PSCStatementsResponse,
+  FilingHistoryResponse,
+  ChargesResponse,
+  InsolvencyResponse,
   OfficerItem,
+  OfficerAppointmentItem,
+  DisqualifiedOfficerResponse,
+  DisqualificationItem,
   PSCItem,
+  PSCStatementItem,
+  FilingHistoryItem,
+  ChargeItem,
+  InsolvencyCaseItem,
   CompaniesHouseAddress,
   Company,
   Officer,
+  OfficerAppointmentSummary,
+  AppointedCompany,
+  Disqualification,
+  DisqualifiedOfficerMatch,
+  MatchConfidence,
   PSC,
+  PSCStatement,
+  PreviousCompanyName,
+  Filing,
+  RegisteredOfficeChange,
+  Charge,
+  InsolvencyCase,
   Address,
   ModernSlaveryStatement,
   ModernSlaveryRegistryResult,
+  OwnershipChain,
+  OwnershipNode,
 } from './connector-types';
-import { sortNaturesOfControl, sortSicCodes } from './sort';
+import { sortNaturesOfControl, sortOwnershipNodes, sortSicCodes } from './sort';
 
 /**
  * Normalize Companies House address to domain Address.
@@ -36,6 +61,8 @@ export function normalizeAddress(addr: CompaniesHouseAddress | undefined): Addre
  * Normalize company profile to domain Company.
  */
 export function normalizeCompany(profile: CompanyProfileResponse): Company {
+  const previousNames = normalizePreviousCompanyNames(profile.previous_company_names);
+
   return {
     companyNumber: profile.company_number,
     name: profile.company_name,
@@ -44,9 +71,25 @@ export function normalizeCompany(profile: CompanyProfileResponse): Company {
     incorporationDate: profile.date_of_creation || '',
     registeredOffice: normalizeAddress(profile.registered_office_address),
     sicCodes: sortSicCodes(profile.sic_codes || []),
+    ...(previousNames.length > 0 && { previousNames }),
   };
 }
 
+/**
+ * Normalize previous company names, most recently ceased first.
+ */
+export function normalizePreviousCompanyNames(
+  names: CompanyProfileResponse['previous_company_names']
+): PreviousCompanyName[] {
+  return (names || [])
+    .map((item) => ({
+      name: item.name,
+      effectiveFrom: item.effective_from,
+      ceasedOn: item.ceased_on,
+    }))
+    .sort((a, b) => b.ceasedOn.localeCompare(a.ceasedOn) || a.name.localeCompare(b.name));
+}
+
 /**
  * Normalize officer role to readable format.
  */
@@ -62,6 +105,8 @@ function normalizeOfficerRole(role: string): string {
  * Normalize single officer item to domain Officer.
  */
 export function normalizeOfficer(item: OfficerItem): Officer {
+  const officerId = getOfficerId(item.links.officer?.appointments);
+
   return {
     name: item.name,
     role: normalizeOfficerRole(item.officer_role),
@@ -70,6 +115,109 @@ export function normalizeOfficer(item: OfficerItem): Officer {
     nationality: item.nationality || '',
     birthMonth: item.date_of_birth?.month,
     birthYear: item.date_of_birth?.year,
+    ...(officerId && { officerId }),
+  };
+}
+
+/**
+ * Officer ID from an appointments link (`/officers/{id}/appointments`).
+ */
+function getOfficerId(appointmentsLink: string | undefined): string | undefined {
+  return appointmentsLink?.match(/^\/officers\/([^/]+)\/appointments/)?.[1];
+}
+
+/**
+ * Company statuses that mean a formal insolvency process has begun.
+ */
+const INSOLVENT_COMPANY_STATUSES = new Set([
+  'liquidation',
+  'administration',
+  'receivership',
+  'insolvency-proceedings',
+  'voluntary-arrangement',
+]);
+
+/** Window in which an appointment counts as recent */
+const RECENT_APPOINTMENT_MONTHS = 12;
+
+/**
+ * Normalize single appointment to domain AppointedCompany.
+ */
+function normalizeAppointedCompany(item: OfficerAppointmentItem): AppointedCompany {
+  return {
+    companyNumber: item.appointed_to.company_number,
+    companyName: item.appointed_to.company_name || '',
+    status: item.appointed_to.company_status || '',
+    role: normalizeOfficerRole(item.officer_role),
+    appointedOn: item.appointed_on,
+    resignedOn: item.resigned_on,
+  };
+}
+
+/**
+ * Normalize an officer's appointment list, most recently appointed first.
+ */
+export function normalizeOfficerAppointments(
+  response: OfficerAppointmentsResponse
+): AppointedCompany[] {
+  return response.items
+    .map(normalizeAppointedCompany)
+    .sort(
+      (a, b) =>
+        (b.appointedOn || '').localeCompare(a.appointedOn || '') ||
+        a.companyNumber.localeCompare(b.companyNumber) ||
+        a.role.localeCompare(b.role)
+    );
+}
+
+/**
+ * Summarize an officer's appointments at companies other than the dossier subject.
+ *
+ * Appointments are counted individually; dissolved and insolvent companies are
+ * counted once each, however many roles the officer held there.
+ *
+ * @param response - The officer's appointment list
+ * @param companyNumber - The dossier subject, excluded from the summary
+ * @param asOf - Timestamp against which recent appointments are measured
+ */
+export function summarizeOfficerAppointments(
+  response: OfficerAppointmentsResponse,
+  companyNumber: string,
+  asOf: string
+): OfficerAppointmentSummary {
+  const others = response.items.filter(
+    (item) => item.appointed_to.company_number !== companyNumber
+  );
+
+  const recentSince = new Date(asOf);
+  recentSince.setMonth(recentSince.getMonth() - RECENT_APPOINTMENT_MONTHS);
+  const recentFrom = recentSince.toISOString().slice(0, 10);
+
+  const failed = new Map<string, AppointedCompany>();
+  for (const item of others) {
+    const status = item.appointed_to.company_status || '';
+    if (status !== 'dissolved' && !INSOLVENT_COMPANY_STATUSES.has(status)) continue;
+
+    const company = normalizeAppointedCompany(item);
+    const existing = failed.get(company.companyNumber);
+    if (!existing || (company.appointedOn || '') > (existing.appointedOn || '')) {
+      failed.set(company.companyNumber, company);
+    }
+  }
+  const failedCompanies = [...failed.values()].sort(
+    (a, b) =>
+      (b.appointedOn || '').localeCompare(a.appointedOn || '') ||
+      a.companyNumber.localeCompare(b.companyNumber)
+  );
+
+  return {
+    total: others.length,
+    current: others.filter((item) => !item.resigned_on).length,
+    resigned: others.filter((item) => item.resigned_on).length,
+    dissolved: failedCompanies.filter((c) => c.status === 'dissolved').length,
+    liquidated: failedCompanies.filter((c) => c.status !== 'dissolved').length,
+    recent: others.filter((item) => item.appointed_on && item.appointed_on >= recentFrom).length,
+    failedCompanies,
   };
 }
 
@@ -80,6 +228,105 @@ export function normalizeOfficers(response: OfficersResponse): Officer[] {
   return response.items.map(normalizeOfficer);
 }
 
+/**
+ * Normalize a disqualification to domain Disqualification.
+ */
+export function normalizeDisqualification(item: DisqualificationItem): Disqualification {
+  const { act, section, article } = item.reason;
+  const provision = section ? `, section ${section}` : article ? `, article ${article}` : '';
+
+  return {
+    type: normalizeOfficerRole(item.disqualification_type),
+    from: item.disqualified_from,
+    until: item.disqualified_until,
+    reason: `${normalizeOfficerRole(act)}${provision}`,
+    companyNames: [...(item.company_names || [])].sort((a, b) => a.localeCompare(b)),
+    courtName: item.court_name,
+    caseIdentifier: item.case_identifier,
+  };
+}
+
+/** Honorifics ignored when comparing names */
+const NAME_TITLES = new Set(['MR', 'MRS', 'MS', 'MISS', 'DR', 'SIR', 'DAME', 'LORD', 'LADY']);
+
+/**
+ * Upper-case name words, without punctuation or honorifics.
+ */
+function nameTokens(name: string): string[] {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !NAME_TITLES.has(token));
+}
+
+/**
+ * How confidently a disqualification record belongs to an officer, or
+ * undefined when the name or date of birth rules it out.
+ */
+function disqualificationMatchConfidence(
+  officer: Officer,
+  record: DisqualifiedOfficerResponse
+): MatchConfidence | undefined {
+  // Register names are "SURNAME, Forenames"; corporate officers have no forenames
+  const [surnamePart, forenamePart = ''] = officer.name.split(',', 2);
+  const surname = nameTokens(surnamePart).join(' ');
+  const forenames = nameTokens(forenamePart);
+  const recordForenames = nameTokens(`${record.forename || ''} ${record.other_forenames || ''}`);
+
+  if (!surname || surname !== nameTokens(record.surname).join(' ')) return undefined;
+  if (forenames.length === 0 || forenames[0] !== recordForenames[0]) return undefined;
+
+  const [year, month] = (record.date_of_birth || '').split('-').map(Number);
+  if (!officer.birthYear || !officer.birthMonth || !year || !month) {
+    return 'low';
+  }
+  if (officer.birthYear !== year || officer.birthMonth !== month) {
+    return undefined;
+  }
+
+  return forenames.join(' ') === recordForenames.join(' ') ? 'high' : 'medium';
+}
+
+/**
+ * Match current officers against disqualification records by name and
+ * month/year of birth.
+ *
+ * Names collide, so each match carries a confidence level; records whose
+ * date of birth contradicts the officer's are discarded.
+ */
+export function matchDisqualifiedOfficers(
+  officers: Officer[],
+  records: DisqualifiedOfficerResponse[]
+): DisqualifiedOfficerMatch[] {
+  const matches: DisqualifiedOfficerMatch[] = [];
+
+  for (const officer of officers.filter((o) => !o.resignedOn)) {
+    for (const record of records) {
+      const confidence = disqualificationMatchConfidence(officer, record);
+      if (!confidence) continue;
+
+      matches.push({
+        officerName: officer.name,
+        disqualifiedName: [record.forename, record.other_forenames, record.surname]
+          .filter(Boolean)
+          .join(' '),
+        disqualifiedOfficerId: record.links.self.split('/').pop() || '',
+        confidence,
+        disqualifications: record.disqualifications
+          .map(normalizeDisqualification)
+          .sort((a, b) => b.from.localeCompare(a.from) || b.until.localeCompare(a.until)),
+      });
+    }
+  }
+
+  return matches.sort(
+    (a, b) =>
+      a.officerName.localeCompare(b.officerName) ||
+      a.disqualifiedOfficerId.localeCompare(b.disqualifiedOfficerId)
+  );
+}
+
 /**
  * Normalize single PSC item to domain PSC.
  */
@@ -100,6 +347,148 @@ export function normalizePSCs(response: PSCsResponse): PSC[] {
   return response.items.map(normalizePSC);
 }
 
+/**
+ * Normalize single PSC statement item to domain PSCStatement.
+ */
+export function normalizePSCStatement(item: PSCStatementItem): PSCStatement {
+  return {
+    statement: item.statement || '',
+    notifiedOn: item.notified_on || '',
+    ceasedOn: item.ceased_on,
+    ...(item.linked_psc_name && { linkedPscName: item.linked_psc_name }),
+  };
+}
+
+/**
+ * Normalize PSC statements from response.
+ * Returns undefined when statements were not fetched.
+ */
+export function normalizePSCStatements(
+  response: PSCStatementsResponse | undefined
+): PSCStatement[] | undefined {
+  return response?.items.map(normalizePSCStatement);
+}
+
+/**
+ * Normalize single filing history item to domain Filing.
+ */
+export function normalizeFiling(item: FilingHistoryItem): Filing {
+  return {
+    transactionId: item.transaction_id,
+    date: item.date,
+    category: item.category,
+    subcategory: item.subcategory,
+    type: item.type,
+    description: item.description,
+    madeUpDate: item.description_values?.made_up_date,
+    pages: item.pages,
+    paperFiled: item.paper_filed ?? false,
+  };
+}
+
+/**
+ * Normalize all filings from response.
+ * Returns an empty list when filing history was not fetched.
+ */
+export function normalizeFilings(response: FilingHistoryResponse | undefined): Filing[] {
+  return (response?.items || []).map(normalizeFiling);
+}
+
+/**
+ * Whether a filing changes the registered office address.
+ */
+function isRegisteredOfficeChange(item: FilingHistoryItem): boolean {
+  return (
+    item.type === 'AD01' ||
+    item.type === 'LLAD01' ||
+    item.description.startsWith('change-registered-office-address')
+  );
+}
+
+/**
+ * Normalize registered office address changes from filing history, most recent first.
+ * Returns undefined when the address filings were not fetched.
+ */
+export function normalizeRegisteredOfficeChanges(
+  response: FilingHistoryResponse | undefined
+): RegisteredOfficeChange[] | undefined {
+  if (!response) {
+    return undefined;
+  }
+
+  const text = (value: unknown) => (typeof value === 'string' && value.trim()) || undefined;
+
+  return response.items
+    .filter(isRegisteredOfficeChange)
+    .map((item) => {
+      const oldAddress = text(item.description_values?.old_address);
+      const newAddress = text(item.description_values?.new_address);
+      return {
+        date: text(item.description_values?.change_date) || item.date,
+        transactionId: item.transaction_id,
+        ...(oldAddress && { oldAddress }),
+        ...(newAddress && { newAddress }),
+      };
+    })
+    .sort((a, b) => b.date.localeCompare(a.date) || a.transactionId.localeCompare(b.transactionId));
+}
+
+/**
+ * Normalize single charge item to domain Charge.
+ */
+export function normalizeCharge(item: ChargeItem): Charge {
+  return {
+    chargeNumber: item.charge_number,
+    chargeCode: item.charge_code,
+    status: item.status,
+    classification: item.classification.description,
+    createdOn: item.created_on,
+    deliveredOn: item.delivered_on,
+    satisfiedOn: item.satisfied_on,
+    personsEntitled: (item.persons_entitled || []).map((person) => person.name),
+    containsFixedCharge: item.particulars?.contains_fixed_charge === true,
+    containsFloatingCharge: item.particulars?.contains_floating_charge === true,
+  };
+}
+
+/**
+ * Normalize all charges from response.
+ * Returns an empty list when charges were not fetched.
+ */
+export function normalizeCharges(response: ChargesResponse | undefined): Charge[] {
+  return (response?.items || []).map(normalizeCharge);
+}
+
+/**
+ * Normalize single insolvency case to domain InsolvencyCase.
+ * Case dates are ordered chronologically.
+ */
+export function normalizeInsolvencyCase(item: InsolvencyCaseItem): InsolvencyCase {
+  return {
+    caseNumber: item.number,
+    type: item.type,
+    dates: (item.dates || [])
+      .map((d) => ({ type: d.type, date: d.date }))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.type.localeCompare(b.type)),
+    practitioners: (item.practitioners || []).map((p) => ({
+      name: p.name,
+      role: p.role || '',
+      appointedOn: p.appointed_on,
+      ceasedToActOn: p.ceased_to_act_on,
+    })),
+  };
+}
+
+/**
+ * Normalize all insolvency cases from response.
+ * Returns an empty list when insolvency details were not fetched.
+ */
+export function normalizeInsolvencyCases(
+  response: InsolvencyResponse | undefined
+): InsolvencyCase[] {
+  return (response?.cases || []).map(normalizeInsolvencyCase);
+}
+
 /**
  * Normalize Modern Slavery Registry result to domain statement.
  * Returns undefined if no statement found.
@@ -122,3 +511,29 @@ export function normalizeModernSlavery(
     compliant: true, // Assume compliant if found in registry
   };
 }
+
+/**
+ * Normalize a single ownership node and its owners.
+ */
+function normalizeOwnershipNode(node: OwnershipNode): OwnershipNode {
+  return {
+    ...node,
+    natureOfControl: sortNaturesOfControl(node.natureOfControl),
+    owners: node.owners.map(normalizeOwnershipNode),
+  };
+}
+
+/**
+ * Normalize the resolved ownership chain with stable ordering at every level.
+ * Returns undefined when the chain was not resolved.
+ */
+export function normalizeOwnership(chain: OwnershipChain | undefined): OwnershipChain | undefined {
+  if (!chain) {
+    return undefined;
+  }
+
+  return {
+    maxDepth: chain.maxDepth,
+    owners: sortOwnershipNodes(chain.owners.map(normalizeOwnershipNode)),
+  };
+}
@@ -3,7 +3,15 @@
  * All sorts use multiple keys to ensure stable ordering.
  */
 
-import type { Officer, PSC } from './connector-types';
+import type {
+  Officer,
+  PSC,
+  PSCStatement,
+  Filing,
+  Charge,
+  InsolvencyCase,
+  OwnershipNode,
+} from './connector-types';
 
 /**
  * Compare function for stable string comparison.
@@ -60,6 +68,92 @@ export function sortPSCs(pscs: PSC[]): PSC[] {
   });
 }
 
+/**
+ * Sort PSC statements with stable ordering.
+ * Primary: notifiedOn (ascending, earliest first)
+ * Secondary: statement type (ascending, alphabetical)
+ * Tertiary: ceasedOn (ascending, still-active statements last)
+ */
+export function sortPSCStatements(statements: PSCStatement[]): PSCStatement[] {
+  return [...statements].sort(
+    (a, b) =>
+      compareStrings(a.notifiedOn, b.notifiedOn) ||
+      a.statement.localeCompare(b.statement) ||
+      compareStrings(a.ceasedOn, b.ceasedOn)
+  );
+}
+
+/**
+ * Sort filings with stable ordering.
+ * Primary: date (descending, most recent first)
+ * Secondary: transactionId (ascending, alphabetical)
+ */
+export function sortFilings(filings: Filing[]): Filing[] {
+  return [...filings].sort((a, b) => {
+    // Primary: filing date, newest first
+    const dateCompare = compareStrings(b.date, a.date);
+    if (dateCompare !== 0) return dateCompare;
+
+    // Secondary: transaction ID
+    return a.transactionId.localeCompare(b.transactionId);
+  });
+}
+
+/**
+ * Sort charges with stable ordering.
+ * Primary: createdOn (descending, most recent first)
+ * Secondary: chargeNumber (descending)
+ */
+export function sortCharges(charges: Charge[]): Charge[] {
+  return [...charges].sort((a, b) => {
+    // Primary: creation date, newest first
+    const dateCompare = compareStrings(b.createdOn, a.createdOn);
+    if (dateCompare !== 0) return dateCompare;
+
+    // Secondary: charge number, highest first
+    return b.chargeNumber - a.chargeNumber;
+  });
+}
+
+/**
+ * Sort insolvency cases with stable ordering.
+ * Primary: caseNumber (numeric ascending, as numbered by Companies House)
+ * Secondary: type (ascending, alphabetical)
+ */
+export function sortInsolvencyCases(cases: InsolvencyCase[]): InsolvencyCase[] {
+  return [...cases].sort((a, b) => {
+    // Primary: case number
+    const numberCompare = a.caseNumber.localeCompare(b.caseNumber, undefined, { numeric: true });
+    if (numberCompare !== 0) return numberCompare;
+
+    // Secondary: case type
+    return a.type.localeCompare(b.type);
+  });
+}
+
+/**
+ * Sort an ownership tree level by level with stable ordering.
+ * Primary: name (ascending, alphabetical)
+ * Secondary: companyNumber (ascending, owners without one last)
+ * Tertiary: kind (ascending, alphabetical)
+ */
+export function sortOwnershipNodes(nodes: OwnershipNode[]): OwnershipNode[] {
+  return nodes
+    .map((node) => ({ ...node, owners: sortOwnershipNodes(node.owners) }))
+    .sort((a, b) => {
+      // Primary: name
+      const nameCompare = a.name.localeCompare(b.name);
+      if (nameCompare !== 0) return nameCompare;
+
+      // Secondary: company number
+      const numberCompare = compareStrings(a.companyNumber, b.companyNumber);
+      if (numberCompare !== 0) return numberCompare;
+
+      // Tertiary: kind
+      return a.kind.localeCompare(b.kind);
+    });
+}
+
 /**
  * Sort natures of control array for deterministic output.
  */
@@ -6,9 +6,17 @@
 import type {
   CompanyProfileResponse,
   OfficersResponse,
+  OfficerAppointmentsResponse,
+  DisqualifiedOfficerResponse,
   PSCsResponse,
+  PSCStatementsResponse,
+  FilingHistoryResponse,
+  ChargesResponse,
+  InsolvencyResponse,
+  TruncatableSection,
   Evidence,
   ModernSlaveryRegistryResult,
+  OwnershipChain,
 } from './connector-types';
 
 /**
@@ -19,8 +27,26 @@ export interface DossierInput {
   profile: CompanyProfileResponse;
   /** Officers list from Companies House */
   officers: OfficersResponse;
+  /** Appointment lists of the active directors, from Companies House (optional) */
+  officerAppointments?: OfficerAppointmentsResponse[];
+  /** Disqualification records that may belong to current officers (optional, unscreened when omitted) */
+  disqualifiedOfficers?: DisqualifiedOfficerResponse[];
   /** Persons with Significant Control from Companies House */
   pscs: PSCsResponse;
+  /** PSC statements from Companies House (optional, omitted when not fetched) */
+  pscStatements?: PSCStatementsResponse;
+  /** Filing history from Companies House (optional, omitted when unavailable) */
+  filingHistory?: FilingHistoryResponse;
+  /** Registered office address filings from Companies House (optional, omitted when not fetched) */
+  addressFilings?: FilingHistoryResponse;
+  /** Charges (mortgages) from Companies House (optional, omitted when unavailable) */
+  charges?: ChargesResponse;
+  /** Insolvency case details from Companies House (optional, omitted when unavailable) */
+  insolvency?: InsolvencyResponse;
+  /** Sections cut short by the connector's page ceiling (optional, none when omitted) */
+  truncated?: TruncatableSection[];
+  /** Corporate ownership chain resolved from the PSC registers (optional) */
+  ownership?: OwnershipChain;
   /** Modern Slavery Registry lookup result */
   modernSlavery: ModernSlaveryRegistryResult;
   /** Evidence from each connector call */
@@ -28,6 +54,19 @@ export interface DossierInput {
     profile: Evidence;
     officers: Evidence;
     pscs: Evidence;
+    pscStatements?: Evidence;
+    filingHistory?: Evidence;
+    addressFilings?: Evidence;
+    charges?: Evidence;
+    insolvency?: Evidence;
+    /** Evidence for each director's appointment list */
+    officerAppointments?: Evidence[];
+    /** Evidence for the disqualified directors searches and records */
+    disqualifiedOfficers?: Evidence[];
+    /** Evidence for the PSC registers of corporate owners */
+    ownership?: Evidence[];
+    /** Evidence for result pages after the first (officers, PSCs, PSC statements) */
+    additionalPages?: Evidence[];
   };
 }
 
@@ -40,4 +79,8 @@ export interface EvidenceWithId {
   publicUrl?: string;
   fetchedAt: string;
   fromCache: boolean;
+  attempts?: number;
+  revalidated?: boolean;
+  stale?: boolean;
+  cachedAt?: string;
 }
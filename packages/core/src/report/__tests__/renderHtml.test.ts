@@ -6,11 +6,23 @@
 import { describe, it, expect } from 'vitest';
 import { renderDossierHtml, normalizeHtmlWhitespace } from '../renderHtml';
 import { buildDossier } from '../../dossier';
-import { computeRiskFlags, applyRiskFlags } from '../../riskFlags';
+import { computeRiskFlags, applyRiskFlags, scoreRiskFlags } from '../../riskFlags';
 import {
   scenario1Input,
   scenario2Input,
   scenario3Input,
+  largeCompanyOwnership,
+  largeCompanyOwnershipEvidence,
+  largeCompanyOfficersWithLinks,
+  directorAppointments,
+  directorAppointmentsEvidence,
+  disqualifiedDirectorRecord,
+  disqualifiedDirectorEvidence,
+  activeCompanyPSCStatements,
+  activeCompanyPSCStatementsEvidence,
+  activeCompanyProfile,
+  activeCompanyAddressFilings,
+  activeCompanyAddressFilingsEvidence,
   FIXED_GENERATED_AT,
 } from '../../dossier/__tests__/fixtures';
 import type { Dossier } from '../../dossier';
@@ -132,6 +144,30 @@ describe('renderDossierHtml', () => {
       const html = renderDossierHtml(dossier, evidence);
       expect(html).toContain('15 Jan 2020');
     });
+
+    it('should render the risk rating when scored', () => {
+      const { dossier, evidence } = buildTestDossier(scenario2Input);
+      const html = renderDossierHtml(dossier, evidence, {
+        riskScore: scoreRiskFlags(dossier.riskFlags),
+      });
+      expect(html).toContain('<div class="risk-rating rating-red">');
+      expect(html).toContain('<span class="rating-band">RED</span>');
+      expect(html).toMatch(/Risk score \d+ \/ 100/);
+      expect(html).toContain('F1: Company not active (+40)');
+    });
+
+    it('should note when no flags contributed to the score', () => {
+      const { dossier, evidence } = buildTestDossier(scenario3Input);
+      const html = renderDossierHtml(dossier, evidence, { riskScore: scoreRiskFlags([]) });
+      expect(html).toContain('rating-green');
+      expect(html).toContain('No flags contributed to the score');
+    });
+
+    it('should omit the risk rating when not scored', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).not.toContain('<div class="risk-rating');
+    });
   });
 
   describe('risk flags section', () => {
@@ -154,6 +190,37 @@ describe('renderDossierHtml', () => {
       const html = renderDossierHtml(dossier, evidence);
       expect(html).toContain('View evidence');
     });
+
+    it('should list waived flags under accepted risks', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const waived: Dossier = {
+        ...dossier,
+        riskFlags: dossier.riskFlags.map((flag) => ({
+          ...flag,
+          waiver: {
+            id: 'w1',
+            reason: 'Turnover below the reporting threshold',
+            reviewer: 'j.smith',
+            createdAt: '2024-01-10T09:30:00.000Z',
+            expiresOn: '2024-12-31',
+          },
+        })),
+      };
+
+      const html = renderDossierHtml(waived, evidence);
+
+      expect(html).toContain('No outstanding risk flags');
+      expect(html).toContain('Accepted Risks (1)');
+      expect(html).toContain(
+        'Accepted by j.smith on 10 Jan 2024, until 31 Dec 2024: Turnover below the reporting threshold'
+      );
+    });
+
+    it('should leave out accepted risks when nothing is waived', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).not.toContain('Accepted Risks');
+    });
   });
 
   describe('company section', () => {
@@ -172,6 +239,37 @@ describe('renderDossierHtml', () => {
     });
   });
 
+  describe('name and address history section', () => {
+    it('should list previous names and registered office moves, most recent first', () => {
+      const { dossier, evidence } = buildTestDossier({
+        ...scenario1Input,
+        profile: {
+          ...activeCompanyProfile,
+          previous_company_names: [
+            { name: 'OLD TEST LTD', effective_from: '2015-03-20', ceased_on: '2020-06-01' },
+          ],
+        },
+        addressFilings: activeCompanyAddressFilings,
+        evidence: {
+          ...scenario1Input.evidence,
+          addressFilings: activeCompanyAddressFilingsEvidence,
+        },
+      });
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).toContain('<h2>Name and Address History</h2>');
+      expect(html).toContain('Previously OLD TEST LTD (from 20 Mar 2015)');
+      expect(html).toContain('1 Old Street, London, EC1A 1AA → 123 Test Street, London, EC1A 1BB');
+      expect(html).toContain('Address not stated in filing');
+      expect(html.indexOf('10 Apr 2022')).toBeLessThan(html.indexOf('1 Jun 2020'));
+    });
+
+    it('should not render without name or address changes', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).not.toContain('Name and Address History');
+    });
+  });
+
   describe('officers section', () => {
     it('should render officers table', () => {
       const { dossier, evidence } = buildTestDossier(scenario1Input);
@@ -220,6 +318,125 @@ describe('renderDossierHtml', () => {
       const html = renderDossierHtml(dossier, evidence);
       expect(html).toContain('Ownership of Shares 75 to 100 Percent');
     });
+
+    it('should render PSC statements when fetched', () => {
+      const { dossier, evidence } = buildTestDossier({
+        ...scenario1Input,
+        pscStatements: activeCompanyPSCStatements,
+        evidence: { ...scenario1Input.evidence, pscStatements: activeCompanyPSCStatementsEvidence },
+      });
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).toContain('PSC Statements (2)');
+      expect(html).toContain('The PSC&#039;s details have not been confirmed');
+      expect(html).toContain('Ms Jane Doe');
+      expect(html).toContain('15 Jan 2020');
+    });
+
+    it('should note when no PSC statements are on record', () => {
+      const { dossier, evidence } = buildTestDossier({
+        ...scenario2Input,
+        pscStatements: { ...activeCompanyPSCStatements, items: [], total_results: 0 },
+      });
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).toContain('No PSC statements on record');
+    });
+
+    it('should omit PSC statements when not fetched', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).not.toContain('PSC Statements');
+    });
+  });
+
+  describe('ownership chain section', () => {
+    const ownershipInput = {
+      ...scenario3Input,
+      ownership: largeCompanyOwnership,
+      evidence: { ...scenario3Input.evidence, ownership: largeCompanyOwnershipEvidence },
+    };
+
+    it('should not render when the chain was not resolved', () => {
+      const { dossier, evidence } = buildTestDossier(scenario3Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).not.toContain('<h2>Ownership Chain</h2>');
+    });
+
+    it('should render the chain as a nested tree', () => {
+      const { dossier, evidence } = buildTestDossier(ownershipInput);
+      const html = normalizeHtmlWhitespace(renderDossierHtml(dossier, evidence));
+      expect(html).toContain('<h2>Ownership Chain</h2>');
+      expect(html).toContain('PARENT HOLDINGS LTD');
+      expect(html).toContain('Company 11112222');
+      expect(html).toContain('Corporate owners followed up to 5 level(s).');
+    });
+
+    it('should identify ultimate owners and where the chain leaves the UK register', () => {
+      const { dossier, evidence } = buildTestDossier(ownershipInput);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).toContain('<strong>Ultimate beneficial owners:</strong> Ms Jane Doe');
+      expect(html).toContain('Ultimate beneficial owner</span>');
+      expect(html).toContain('Leaves UK register (Cayman Islands)');
+      expect(html).toContain('Ownership chain ends in a secrecy jurisdiction');
+    });
+  });
+
+  describe('disqualified directors section', () => {
+    it('should not render when officers were not screened', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      expect(renderDossierHtml(dossier, evidence)).not.toContain('<h2>Disqualified Directors</h2>');
+    });
+
+    it('should say so when nobody matched', () => {
+      const { dossier, evidence } = buildTestDossier({
+        ...scenario1Input,
+        disqualifiedOfficers: [],
+      });
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).toContain('<h2>Disqualified Directors</h2>');
+      expect(html).toContain('No current officer matched the register of disqualified directors');
+    });
+
+    it('should list each disqualification with period, reason and confidence', () => {
+      const { dossier, evidence } = buildTestDossier({
+        ...scenario1Input,
+        disqualifiedOfficers: [disqualifiedDirectorRecord],
+        evidence: {
+          ...scenario1Input.evidence,
+          disqualifiedOfficers: disqualifiedDirectorEvidence,
+        },
+      });
+      const html = normalizeHtmlWhitespace(renderDossierHtml(dossier, evidence));
+      expect(html).toContain('John David SMITH');
+      expect(html).toContain('Undertaking: Company Directors Disqualification Act 1986, section 7');
+      expect(html).toContain('<td>High</td>');
+      expect(html).toContain('Officer matches a disqualified director');
+      expect(html).toContain(disqualifiedDirectorEvidence[0].publicUrl);
+    });
+  });
+
+  describe('director appointment history section', () => {
+    it('should not render when no appointments were looked up', () => {
+      const { dossier, evidence } = buildTestDossier(scenario3Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).not.toContain('<h2>Director Appointment History</h2>');
+    });
+
+    it('should list counts and failed companies per director', () => {
+      const { dossier, evidence } = buildTestDossier({
+        ...scenario3Input,
+        officers: largeCompanyOfficersWithLinks,
+        officerAppointments: [directorAppointments],
+        evidence: {
+          ...scenario3Input.evidence,
+          officerAppointments: directorAppointmentsEvidence,
+        },
+      });
+      const html = normalizeHtmlWhitespace(renderDossierHtml(dossier, evidence));
+      expect(html).toContain('<h2>Director Appointment History</h2>');
+      expect(html).toContain('LORD CHAIRMAN, Richard');
+      expect(html).toContain('BUST LIMITED');
+      expect(html).toContain('GONE LIMITED');
+    });
   });
 
   describe('modern slavery section', () => {
@@ -271,6 +488,47 @@ describe('renderDossierHtml', () => {
       const html2 = renderDossierHtml(dossier2, evidence2);
       expect(html2).toContain('Cached');
     });
+
+    it('should show retry attempts when more than one was needed', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const [first, second, ...rest] = evidence;
+      const html = renderDossierHtml(dossier, [
+        { ...first, attempts: 3 },
+        { ...second, attempts: 1 },
+        ...rest,
+      ]);
+      expect(html).toContain('(Fresh, 3 attempts)');
+      expect(html).not.toContain('1 attempts');
+    });
+
+    it('should mark evidence confirmed by a conditional request as revalidated', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const [first, ...rest] = evidence;
+      const html = renderDossierHtml(dossier, [
+        { ...first, fromCache: true, revalidated: true, attempts: 1 },
+        ...rest,
+      ]);
+      expect(html).toContain('(Revalidated)');
+    });
+
+    it('should show "data as of" warnings for stale evidence', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const [first, second, ...rest] = evidence;
+      const html = renderDossierHtml(dossier, [
+        { ...first, fromCache: true, stale: true, cachedAt: '2024-01-14T08:00:00.000Z' },
+        { ...second, fromCache: true, stale: true, cachedAt: '2024-01-13T09:30:00.000Z' },
+        ...rest,
+      ]);
+      expect(html).toContain('class="evidence-stale"');
+      expect(html).toContain('Data as of 2024-01-13T09:30:00.000Z');
+      expect(html).toContain('Stale: data as of 2024-01-14T08:00:00.000Z');
+    });
+
+    it('should not show a stale warning when all evidence is current', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).not.toContain('class="evidence-stale"');
+    });
   });
 
   describe('footer', () => {
@@ -296,6 +554,81 @@ describe('renderDossierHtml', () => {
     });
   });
 
+  describe('charges', () => {
+    it('should render charges with status and persons entitled', () => {
+      const { dossier, evidence } = buildTestDossier(scenario3Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).toContain('Charges (2)');
+      expect(html).toContain('Lender One PLC, Security Trustee Limited');
+      expect(html).toContain('Fully satisfied');
+    });
+
+    it('should show empty state when there are no charges', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).toContain('No charges on record');
+    });
+  });
+
+  describe('insolvency', () => {
+    it('should render insolvency cases with dates and practitioners', () => {
+      const { dossier, evidence } = buildTestDossier(scenario2Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).toContain('Insolvency (1)');
+      expect(html).toContain('Creditors voluntary liquidation');
+      expect(html).toContain('Wound up on: 2 Nov 2021');
+      expect(html).toContain('Alex Liquidator (Final liquidator), ceased 15 Jun 2023');
+    });
+
+    it('should show empty state when there are no insolvency cases', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).toContain('No insolvency cases on record');
+    });
+  });
+
+  describe('truncation warning', () => {
+    it('should not warn when all pages were fetched', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).not.toContain('Incomplete data');
+    });
+
+    it('should warn when officers or PSCs were truncated', () => {
+      const { dossier, evidence } = buildTestDossier({
+        ...scenario1Input,
+        truncated: ['pscs', 'officers'],
+      });
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).toContain('Incomplete data');
+      expect(html).toContain('officers, persons with significant control');
+    });
+  });
+
+  describe('recent filings', () => {
+    it('should render filings most recent first', () => {
+      const { dossier, evidence } = buildTestDossier(scenario3Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).toContain('Recent Filings (3)');
+      expect(html).toContain('Accounts with accounts type group (made up to 31 Dec 2022)');
+      expect(html.indexOf('28 Sep 2023')).toBeLessThan(html.indexOf('10 Mar 2023'));
+    });
+
+    it('should show empty state when no filings were fetched', () => {
+      const { dossier, evidence } = buildTestDossier(scenario1Input);
+      const html = renderDossierHtml(dossier, evidence);
+      expect(html).toContain('No filings on record');
+    });
+
+    it('should limit the number of filings listed', () => {
+      const { dossier, evidence } = buildTestDossier(scenario3Input);
+      const html = renderDossierHtml(dossier, evidence, { recentFilingsLimit: 2 });
+      expect(html).toContain('Recent Filings (2)');
+      expect(html).toContain('Showing the 2 most recent of 3 filings');
+      expect(html).not.toContain('10 Mar 2023');
+    });
+  });
+
   describe('XSS prevention', () => {
     it('should escape HTML in company name', () => {
       const { dossier, evidence } = buildTestDossier(scenario1Input);
@@ -2,11 +2,19 @@
  * Render a Dossier to clean HTML.
  *
  * PRD 8 - Generates a self-contained HTML report with:
- * - Header identity (company name, number, status)
+ * - Header identity (company name, number, status) and risk rating (when scored)
+ * - Truncation warning when lists are incomplete
  * - Risk flags table
  * - Company details section
+ * - Name and registered office history timeline (when there is any)
  * - Officers section
- * - PSCs section
+ * - Director appointment history section (when looked up)
+ * - Disqualified directors section (when screened)
+ * - PSCs section, with PSC statements (when fetched)
+ * - Ownership chain section (when resolved)
+ * - Charges section
+ * - Insolvency cases section
+ * - Recent filings section
  * - Modern slavery statement section
  * - Evidence appendix with links
  * - Print CSS included inline
@@ -14,8 +22,22 @@
  * No external assets required. Deterministic output (no dynamic timestamps).
  */
 
-import type { Dossier, Address, Officer, PSC, RiskFlag, FlagSeverity } from '../dossier';
+import type {
+  Dossier,
+  Address,
+  Officer,
+  PSC,
+  PSCStatement,
+  Filing,
+  Charge,
+  InsolvencyCase,
+  OwnershipNode,
+  OwnershipTermination,
+  RiskFlag,
+  FlagSeverity,
+} from '../dossier';
 import type { EvidenceWithId } from '../dossier/types';
+import type { RiskBand, RiskScore } from '../riskFlags';
 
 /**
  * Options for rendering HTML.
@@ -23,8 +45,14 @@ import type { EvidenceWithId } from '../dossier/types';
 export interface RenderHtmlOptions {
   /** Optional title override (defaults to company name) */
   title?: string;
+  /** Maximum number of filings listed in the recent filings section (defaults to 10) */
+  recentFilingsLimit?: number;
+  /** Aggregate risk score shown in the header (omitted when not given) */
+  riskScore?: RiskScore;
 }
 
+const DEFAULT_RECENT_FILINGS_LIMIT = 10;
+
 /**
  * Escape HTML special characters to prevent XSS.
  */
@@ -97,6 +125,15 @@ function formatNatureOfControl(nature: string): string {
     .replace(/And /g, 'and ');
 }
 
+/**
+ * Format a Companies House kebab-case key to human-readable form.
+ * e.g. 'accounts-with-accounts-type-full' -> 'Accounts with accounts type full'
+ */
+function formatKebabCase(key: string): string {
+  const text = key.replace(/-/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
 /**
  * Generate inline CSS styles for the report.
  */
@@ -178,6 +215,43 @@ function generateStyles(): string {
       background: #fff3cd;
       color: #856404;
     }
+    .risk-rating {
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 16px;
+      margin-top: 16px;
+      padding: 12px 16px;
+      border: 2px solid;
+      border-radius: 8px;
+    }
+    .rating-green {
+      background: #d4edda;
+      border-color: #28a745;
+      color: #155724;
+    }
+    .rating-amber {
+      background: #fff3cd;
+      border-color: #fd7e14;
+      color: #856404;
+    }
+    .rating-red {
+      background: #f8d7da;
+      border-color: #dc3545;
+      color: #721c24;
+    }
+    .rating-band {
+      font-size: 24px;
+      font-weight: 700;
+      letter-spacing: 1px;
+    }
+    .rating-score {
+      font-size: 16px;
+      font-weight: 600;
+    }
+    .rating-breakdown {
+      font-size: 13px;
+    }
     .flags-section {
       background: #f8f9fa;
       border-radius: 8px;
@@ -232,6 +306,16 @@ function generateStyles(): string {
       color: #28a745;
       font-weight: 500;
     }
+    .accepted-risks {
+      border-left: 4px solid #6c757d;
+    }
+    .accepted-risks .flag-badge {
+      opacity: 0.6;
+    }
+    .flag-waiver {
+      margin-top: 4px;
+      font-size: 13px;
+    }
     table {
       width: 100%;
       border-collapse: collapse;
@@ -284,12 +368,57 @@ function generateStyles(): string {
       font-size: 12px;
       padding: 2px 0;
     }
+    .ownership-tree,
+    .ownership-tree ul {
+      margin: 0;
+      padding-left: 20px;
+      list-style: none;
+    }
+    .ownership-tree {
+      padding-left: 0;
+    }
+    .ownership-tree li {
+      padding: 4px 0;
+    }
+    .ownership-tree ul {
+      border-left: 2px solid #dee2e6;
+      margin-left: 6px;
+    }
+    .ownership-meta {
+      color: #6c757d;
+      font-size: 12px;
+    }
+    .ownership-end {
+      display: inline-block;
+      margin-left: 6px;
+      padding: 1px 6px;
+      border-radius: 4px;
+      font-size: 11px;
+      font-weight: 600;
+      background: #e9ecef;
+      color: #495057;
+    }
+    .ownership-end-owner {
+      background: #d4edda;
+      color: #155724;
+    }
+    .ownership-end-exit {
+      background: #fff3cd;
+      color: #856404;
+    }
     .modern-slavery-found {
       padding: 12px 16px;
       background: #d4edda;
       border-radius: 8px;
       border-left: 4px solid #28a745;
     }
+    .truncation-warning {
+      margin-bottom: 24px;
+      padding: 12px 16px;
+      background: #fff3cd;
+      border-radius: 8px;
+      border-left: 4px solid #fd7e14;
+    }
     .modern-slavery-missing {
       padding: 12px 16px;
       background: #fff3cd;
@@ -321,6 +450,14 @@ function generateStyles(): string {
       font-size: 12px;
       margin-top: 2px;
     }
+    .evidence-stale {
+      margin: 8px 0;
+      padding: 8px 12px;
+      background: #fff3cd;
+      border-radius: 6px;
+      border-left: 4px solid #fd7e14;
+      font-size: 13px;
+    }
     a {
       color: #0056b3;
       text-decoration: none;
@@ -360,6 +497,10 @@ function generateStyles(): string {
       .flag-item {
         break-inside: avoid;
       }
+      .risk-rating {
+        print-color-adjust: exact;
+        -webkit-print-color-adjust: exact;
+      }
       a {
         color: #000;
       }
@@ -372,10 +513,39 @@ function generateStyles(): string {
   `;
 }
 
+/**
+ * Render the risk rating band, score and the flags behind it.
+ */
+function renderRiskRating(riskScore: RiskScore | undefined): string {
+  if (!riskScore) {
+    return '';
+  }
+
+  const bandClasses: Record<RiskBand, string> = {
+    GREEN: 'rating-green',
+    AMBER: 'rating-amber',
+    RED: 'rating-red',
+  };
+  const contributions = riskScore.breakdown
+    .map(
+      (contribution) =>
+        `${escapeHtml(contribution.flagId)}: ${escapeHtml(contribution.title)} (+${contribution.points})`
+    )
+    .join(', ');
+
+  return `
+      <div class="risk-rating ${bandClasses[riskScore.band]}">
+        <span class="rating-band">${riskScore.band}</span>
+        <span class="rating-score">Risk score ${riskScore.score} / ${riskScore.maxScore}</span>
+        <span class="rating-breakdown">${contributions || 'No flags contributed to the score'}</span>
+      </div>
+  `;
+}
+
 /**
  * Render the header section with company identity.
  */
-function renderHeader(dossier: Dossier): string {
+function renderHeader(dossier: Dossier, riskScore?: RiskScore): string {
   const { company } = dossier;
   const statusClass =
     company.status === 'active'
@@ -405,46 +575,103 @@ function renderHeader(dossier: Dossier): string {
           <span>${formatDate(company.incorporationDate)}</span>
         </div>
       </div>
+      ${renderRiskRating(riskScore)}
     </div>
   `;
 }
 
 /**
- * Render the risk flags section.
+ * Render a warning when pagination stopped before all records were fetched.
  */
-function renderRiskFlags(flags: RiskFlag[]): string {
-  if (flags.length === 0) {
-    return `
-      <section class="flags-section">
-        <h2>Risk Flags</h2>
-        <p class="no-flags">No risk flags identified</p>
-      </section>
-    `;
+function renderTruncationWarning(dossier: Dossier): string {
+  if (dossier.truncatedSections.length === 0) {
+    return '';
   }
 
-  const flagsHtml = flags
-    .map((flag) => {
-      const badge = getSeverityBadge(flag.severity);
-      const evidenceLink = flag.evidenceUrl
-        ? `<div class="flag-link"><a href="${escapeHtml(flag.evidenceUrl)}" target="_blank">View evidence</a></div>`
-        : '';
+  const labels: Record<string, string> = {
+    officers: 'officers',
+    pscs: 'persons with significant control',
+    pscStatements: 'PSC statements',
+    officerAppointments: 'director appointments',
+  };
+  const sections = dossier.truncatedSections.map((section) => labels[section] || section);
 
-      return `
+  return `
+    <div class="truncation-warning">
+      <strong>Incomplete data:</strong> the list of ${escapeHtml(sections.join(', '))} was cut
+      short at the page limit. Risk flags based on these records may be inaccurate.
+    </div>
+  `;
+}
+
+/**
+ * Render one risk flag, with any extra detail below the explanation.
+ */
+function renderFlagItem(flag: RiskFlag, extra = ''): string {
+  const badge = getSeverityBadge(flag.severity);
+  const evidenceLink = flag.evidenceUrl
+    ? `<div class="flag-link"><a href="${escapeHtml(flag.evidenceUrl)}" target="_blank">View evidence</a></div>`
+    : '';
+
+  return `
         <div class="flag-item">
           <span class="flag-badge ${badge.class}">${escapeHtml(flag.severity)}</span>
           <div class="flag-content">
             <div class="flag-title">${escapeHtml(flag.id)}: ${escapeHtml(flag.title)}</div>
             <div class="flag-explanation">${escapeHtml(flag.explanation)}</div>
-            ${evidenceLink}
+            ${extra}${evidenceLink}
           </div>
         </div>
       `;
-    })
-    .join('');
+}
+
+/**
+ * Render the risk flags section. Waived flags are listed under accepted risks instead.
+ */
+function renderRiskFlags(flags: RiskFlag[]): string {
+  const outstanding = flags.filter((flag) => !flag.waiver);
+
+  if (outstanding.length === 0) {
+    return `
+      <section class="flags-section">
+        <h2>Risk Flags</h2>
+        <p class="no-flags">${flags.length === 0 ? 'No risk flags identified' : 'No outstanding risk flags'}</p>
+      </section>
+    `;
+  }
 
   return `
     <section class="flags-section">
-      <h2>Risk Flags (${flags.length})</h2>
+      <h2>Risk Flags (${outstanding.length})</h2>
+      ${outstanding.map((flag) => renderFlagItem(flag)).join('')}
+    </section>
+  `;
+}
+
+/**
+ * Render flags a reviewer has accepted, with the waiver's reason, reviewer and expiry.
+ */
+function renderAcceptedRisks(flags: RiskFlag[]): string {
+  const waived = flags.filter((flag) => flag.waiver);
+
+  if (waived.length === 0) {
+    return '';
+  }
+
+  const flagsHtml = waived
+    .map(({ waiver, ...flag }) =>
+      renderFlagItem(
+        flag,
+        waiver
+          ? `<div class="flag-waiver">Accepted by ${escapeHtml(waiver.reviewer)} on ${formatDate(waiver.createdAt.substring(0, 10))}, until ${formatDate(waiver.expiresOn)}: ${escapeHtml(waiver.reason)}</div>`
+          : ''
+      )
+    )
+    .join('');
+
+  return `
+    <section class="flags-section accepted-risks">
+      <h2>Accepted Risks (${waived.length})</h2>
       ${flagsHtml}
     </section>
   `;
@@ -477,6 +704,61 @@ function renderCompanySection(dossier: Dossier): string {
   `;
 }
 
+/**
+ * Render previous names and registered office moves as one timeline, most recent first.
+ */
+function renderHistorySection(dossier: Dossier): string {
+  const entries = [
+    ...(dossier.company.previousNames || []).map((previous) => ({
+      date: previous.ceasedOn,
+      change: 'Name change',
+      details: `Previously ${escapeHtml(previous.name)} (from ${formatDate(previous.effectiveFrom)})`,
+    })),
+    ...(dossier.registeredOfficeHistory || []).map((move) => ({
+      date: move.date,
+      change: 'Registered office change',
+      details:
+        move.oldAddress || move.newAddress
+          ? `${escapeHtml(move.oldAddress || 'Unknown address')} → ${escapeHtml(move.newAddress || 'Unknown address')}`
+          : 'Address not stated in filing',
+    })),
+  ].sort((a, b) => b.date.localeCompare(a.date) || a.change.localeCompare(b.change));
+
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const rows = entries
+    .map(
+      (entry) => `
+        <tr>
+          <td>${formatDate(entry.date)}</td>
+          <td>${entry.change}</td>
+          <td>${entry.details}</td>
+        </tr>
+      `
+    )
+    .join('');
+
+  return `
+    <section>
+      <h2>Name and Address History</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Change</th>
+            <th>Details</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+    </section>
+  `;
+}
+
 /**
  * Render the officers table.
  */
@@ -534,14 +816,205 @@ function renderOfficersSection(officers: Officer[]): string {
 }
 
 /**
- * Render the PSCs table.
+ * Render each active director's appointments at other companies, when looked up.
+ */
+function renderAppointmentHistorySection(officers: Officer[]): string {
+  const directors = officers.flatMap((officer) =>
+    !officer.resignedOn && officer.appointments
+      ? [{ name: officer.name, history: officer.appointments }]
+      : []
+  );
+  if (directors.length === 0) {
+    return '';
+  }
+
+  const rows = directors
+    .map(({ name, history }) => {
+      const failed =
+        history.failedCompanies.length > 0
+          ? history.failedCompanies
+              .map(
+                (company) =>
+                  `<li>${escapeHtml(company.companyName || company.companyNumber)} (${escapeHtml(company.companyNumber)}) – ${escapeHtml(formatKebabCase(company.status))}</li>`
+              )
+              .join('')
+          : '';
+
+      return `
+        <tr>
+          <td>${escapeHtml(name)}</td>
+          <td>${history.current}</td>
+          <td>${history.resigned}</td>
+          <td>${history.recent}</td>
+          <td>${history.dissolved}</td>
+          <td>${history.liquidated}</td>
+          <td>${failed ? `<ul class="nature-list">${failed}</ul>` : '—'}</td>
+        </tr>
+      `;
+    })
+    .join('');
+
+  return `
+    <section>
+      <h2>Director Appointment History</h2>
+      <p class="evidence-meta">Appointments at other companies. Recent means appointed in the 12 months before this report.</p>
+      <table>
+        <thead>
+          <tr>
+            <th>Director</th>
+            <th>Current</th>
+            <th>Resigned</th>
+            <th>Recent</th>
+            <th>Dissolved</th>
+            <th>Insolvent</th>
+            <th>Failed Companies</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+    </section>
+  `;
+}
+
+/**
+ * Render matches against the register of disqualified directors.
+ * Omitted entirely when the officers were not screened.
  */
-function renderPSCsSection(pscs: PSC[]): string {
+function renderDisqualificationSection(dossier: Dossier): string {
+  const matches = dossier.disqualifiedOfficers;
+  if (!matches) {
+    return '';
+  }
+
+  if (matches.length === 0) {
+    return `
+      <section>
+        <h2>Disqualified Directors</h2>
+        <p class="empty-state">No current officer matched the register of disqualified directors</p>
+      </section>
+    `;
+  }
+
+  const rows = matches
+    .flatMap((match) =>
+      match.disqualifications.map(
+        (d) => `
+        <tr>
+          <td>${escapeHtml(match.officerName)}</td>
+          <td>${escapeHtml(match.disqualifiedName)}</td>
+          <td>${escapeHtml(formatKebabCase(match.confidence))}</td>
+          <td>${formatDate(d.from)} – ${formatDate(d.until)}</td>
+          <td>${escapeHtml(d.type)}: ${escapeHtml(d.reason)}</td>
+          <td>${d.companyNames.length > 0 ? d.companyNames.map((name) => escapeHtml(name)).join(', ') : '—'}</td>
+        </tr>
+      `
+      )
+    )
+    .join('');
+
+  return `
+    <section>
+      <h2>Disqualified Directors</h2>
+      <p class="evidence-meta">Matched on name and month/year of birth. Low confidence means a date of birth was missing.</p>
+      <table>
+        <thead>
+          <tr>
+            <th>Officer</th>
+            <th>Disqualified Person</th>
+            <th>Confidence</th>
+            <th>Period</th>
+            <th>Reason</th>
+            <th>Companies</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+    </section>
+  `;
+}
+
+/**
+ * Plain-English descriptions of PSC statement types.
+ */
+const PSC_STATEMENT_DESCRIPTIONS: Record<string, string> = {
+  'no-individual-or-entity-with-significant-control':
+    'No individual or entity has significant control',
+  'no-individual-or-entity-with-signficant-control':
+    'No individual or entity has significant control',
+  'steps-to-find-psc-not-yet-completed': 'Steps to find the PSC have not yet been completed',
+  'psc-exists-but-not-identified': 'A PSC exists but has not been identified',
+  'psc-details-not-confirmed': "The PSC's details have not been confirmed",
+  'psc-contacted-but-no-response': 'The PSC has been contacted but has not responded',
+  'restrictions-notice-issued-to-psc': 'A restrictions notice has been issued to the PSC',
+  'psc-has-failed-to-confirm-changed-details': 'The PSC has failed to confirm changed details',
+};
+
+/**
+ * Describe a PSC statement type, ignoring the partnership variant suffix.
+ */
+function describePSCStatement(statement: string): string {
+  return (
+    PSC_STATEMENT_DESCRIPTIONS[statement.replace(/-partnership$/, '')] || formatKebabCase(statement)
+  );
+}
+
+/**
+ * Render the PSC statements table, when statements were fetched.
+ */
+function renderPSCStatements(statements: PSCStatement[] | undefined): string {
+  if (!statements) {
+    return '';
+  }
+
+  if (statements.length === 0) {
+    return '<p class="empty-state">No PSC statements on record</p>';
+  }
+
+  const rows = statements
+    .map(
+      (statement) => `
+        <tr>
+          <td>${escapeHtml(describePSCStatement(statement.statement))}</td>
+          <td>${escapeHtml(statement.linkedPscName || '—')}</td>
+          <td>${statement.notifiedOn ? formatDate(statement.notifiedOn) : '—'}</td>
+          <td>${statement.ceasedOn ? formatDate(statement.ceasedOn) : '—'}</td>
+        </tr>
+      `
+    )
+    .join('');
+
+  return `
+    <h3>PSC Statements (${statements.length})</h3>
+    <table>
+      <thead>
+        <tr>
+          <th>Statement</th>
+          <th>Concerning</th>
+          <th>Notified</th>
+          <th>Ceased</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${rows}
+      </tbody>
+    </table>
+  `;
+}
+
+/**
+ * Render the PSCs table, followed by any PSC statements.
+ */
+function renderPSCsSection(pscs: PSC[], statements: PSCStatement[] | undefined): string {
   if (pscs.length === 0) {
     return `
       <section>
         <h2>Persons with Significant Control</h2>
         <p class="empty-state">No PSCs on record</p>
+        ${renderPSCStatements(statements)}
       </section>
     `;
   }
@@ -582,6 +1055,272 @@ function renderPSCsSection(pscs: PSC[]): string {
           ${rows}
         </tbody>
       </table>
+      ${renderPSCStatements(statements)}
+    </section>
+  `;
+}
+
+/**
+ * Label and badge class for where the ownership chain stops.
+ */
+function describeTermination(node: OwnershipNode, termination: OwnershipTermination) {
+  const map: Record<OwnershipTermination, { label: string; class: string }> = {
+    individual: { label: 'Ultimate beneficial owner', class: 'ownership-end-owner' },
+    'legal-person': { label: 'Ultimate owner (legal person)', class: 'ownership-end-owner' },
+    overseas: {
+      label: `Leaves UK register (${node.countryRegistered || node.placeRegistered})`,
+      class: 'ownership-end-exit',
+    },
+    cycle: { label: 'Circular ownership', class: 'ownership-end-exit' },
+    'depth-limit': { label: 'Not followed (depth limit)', class: '' },
+    'no-pscs': { label: 'No PSCs registered', class: 'ownership-end-exit' },
+    unresolved: { label: 'Could not be resolved', class: 'ownership-end-exit' },
+  };
+  return map[termination];
+}
+
+/**
+ * Render one level of the ownership tree as a nested list.
+ */
+function renderOwnershipNodes(nodes: OwnershipNode[]): string {
+  return nodes
+    .map((node) => {
+      const meta = [
+        node.companyNumber ? `Company ${escapeHtml(node.companyNumber)}` : '',
+        node.natureOfControl.map((n) => escapeHtml(formatNatureOfControl(n))).join(', '),
+      ]
+        .filter(Boolean)
+        .join(' · ');
+      const end = node.termination ? describeTermination(node, node.termination) : undefined;
+      const badge = end
+        ? `<span class="${['ownership-end', end.class].filter(Boolean).join(' ')}">${escapeHtml(end.label)}</span>`
+        : '';
+      const owners = node.owners.length > 0 ? `<ul>${renderOwnershipNodes(node.owners)}</ul>` : '';
+
+      return `
+        <li>
+          <strong>${escapeHtml(node.name || 'Unnamed owner')}</strong>${badge}
+          ${meta ? `<div class="ownership-meta">${meta}</div>` : ''}
+          ${owners}
+        </li>
+      `;
+    })
+    .join('');
+}
+
+/**
+ * Collect owners at which the chain ends with an ultimate owner.
+ */
+function findUltimateOwners(nodes: OwnershipNode[]): OwnershipNode[] {
+  return nodes.flatMap((node) =>
+    node.termination === 'individual' || node.termination === 'legal-person'
+      ? [node]
+      : findUltimateOwners(node.owners)
+  );
+}
+
+/**
+ * Render the corporate ownership chain, when it was resolved.
+ */
+function renderOwnershipSection(dossier: Dossier): string {
+  const { ownership } = dossier;
+  if (!ownership) {
+    return '';
+  }
+
+  if (ownership.owners.length === 0) {
+    return `
+      <section>
+        <h2>Ownership Chain</h2>
+        <p class="empty-state">No active PSCs to follow</p>
+      </section>
+    `;
+  }
+
+  const ultimate = [...new Set(findUltimateOwners(ownership.owners).map((node) => node.name))];
+  const summary =
+    ultimate.length > 0
+      ? ultimate.map((name) => escapeHtml(name)).join(', ')
+      : 'None identified on the UK register';
+
+  return `
+    <section>
+      <h2>Ownership Chain</h2>
+      <p><strong>Ultimate beneficial owners:</strong> ${summary}</p>
+      <ul class="ownership-tree">
+        <li>
+          <strong>${escapeHtml(dossier.company.name)}</strong>
+          <div class="ownership-meta">Company ${escapeHtml(dossier.company.companyNumber)}</div>
+          <ul>${renderOwnershipNodes(ownership.owners)}</ul>
+        </li>
+      </ul>
+      <p class="ownership-meta">Corporate owners followed up to ${ownership.maxDepth} level(s).</p>
+    </section>
+  `;
+}
+
+/**
+ * Render the charges (mortgages) table.
+ */
+function renderChargesSection(charges: Charge[]): string {
+  if (charges.length === 0) {
+    return `
+      <section>
+        <h2>Charges</h2>
+        <p class="empty-state">No charges on record</p>
+      </section>
+    `;
+  }
+
+  const rows = charges
+    .map((charge) => {
+      const created = charge.createdOn ? formatDate(charge.createdOn) : '—';
+      const satisfied = charge.satisfiedOn ? formatDate(charge.satisfiedOn) : '—';
+      const personsEntitled =
+        charge.personsEntitled.length > 0
+          ? charge.personsEntitled.map((name) => escapeHtml(name)).join(', ')
+          : '—';
+
+      return `
+        <tr>
+          <td>${created}</td>
+          <td>${escapeHtml(formatKebabCase(charge.status))}</td>
+          <td>${escapeHtml(charge.classification)}</td>
+          <td>${personsEntitled}</td>
+          <td>${satisfied}</td>
+        </tr>
+      `;
+    })
+    .join('');
+
+  return `
+    <section>
+      <h2>Charges (${charges.length})</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Created</th>
+            <th>Status</th>
+            <th>Classification</th>
+            <th>Persons Entitled</th>
+            <th>Satisfied</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+    </section>
+  `;
+}
+
+/**
+ * Render the insolvency cases table.
+ */
+function renderInsolvencySection(cases: InsolvencyCase[]): string {
+  if (cases.length === 0) {
+    return `
+      <section>
+        <h2>Insolvency</h2>
+        <p class="empty-state">No insolvency cases on record</p>
+      </section>
+    `;
+  }
+
+  const rows = cases
+    .map((insolvencyCase) => {
+      const dateList = insolvencyCase.dates
+        .map((d) => `<li>${escapeHtml(formatKebabCase(d.type))}: ${formatDate(d.date)}</li>`)
+        .join('');
+      const practitionerList = insolvencyCase.practitioners
+        .map((p) => {
+          const role = p.role ? ` (${escapeHtml(formatKebabCase(p.role))})` : '';
+          const ceased = p.ceasedToActOn ? `, ceased ${formatDate(p.ceasedToActOn)}` : '';
+          return `<li>${escapeHtml(p.name)}${role}${ceased}</li>`;
+        })
+        .join('');
+
+      return `
+        <tr>
+          <td>${escapeHtml(insolvencyCase.caseNumber)}</td>
+          <td>${escapeHtml(formatKebabCase(insolvencyCase.type))}</td>
+          <td><ul class="nature-list">${dateList}</ul></td>
+          <td>${practitionerList ? `<ul class="nature-list">${practitionerList}</ul>` : '—'}</td>
+        </tr>
+      `;
+    })
+    .join('');
+
+  return `
+    <section>
+      <h2>Insolvency (${cases.length})</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Case</th>
+            <th>Type</th>
+            <th>Dates</th>
+            <th>Practitioners</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+    </section>
+  `;
+}
+
+/**
+ * Render the recent filings table (most recent first).
+ */
+function renderFilingsSection(filings: Filing[], limit: number): string {
+  if (filings.length === 0) {
+    return `
+      <section>
+        <h2>Recent Filings</h2>
+        <p class="empty-state">No filings on record</p>
+      </section>
+    `;
+  }
+
+  const shown = filings.slice(0, limit);
+  const rows = shown
+    .map((filing) => {
+      const madeUp = filing.madeUpDate ? ` (made up to ${formatDate(filing.madeUpDate)})` : '';
+
+      return `
+        <tr>
+          <td>${formatDate(filing.date)}</td>
+          <td>${escapeHtml(filing.type)}</td>
+          <td>${escapeHtml(formatKebabCase(filing.category))}</td>
+          <td>${escapeHtml(formatKebabCase(filing.description))}${madeUp}</td>
+        </tr>
+      `;
+    })
+    .join('');
+  const truncatedNote =
+    filings.length > shown.length
+      ? `<p class="empty-state">Showing the ${shown.length} most recent of ${filings.length} filings</p>`
+      : '';
+
+  return `
+    <section>
+      <h2>Recent Filings (${shown.length})</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Type</th>
+            <th>Category</th>
+            <th>Description</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+      ${truncatedNote}
     </section>
   `;
 }
@@ -618,6 +1357,8 @@ function renderModernSlaverySection(dossier: Dossier): string {
 
 /**
  * Render the evidence appendix.
+ * Stale sources (cached data served past expiry) are called out with the time the
+ * data was fetched, since the live record may have changed since.
  */
 function renderEvidenceSection(evidence: EvidenceWithId[]): string {
   if (evidence.length === 0) {
@@ -627,24 +1368,46 @@ function renderEvidenceSection(evidence: EvidenceWithId[]): string {
   const items = evidence
     .map((e) => {
       const linkUrl = e.publicUrl || e.apiUrl;
-      const cacheStatus = e.fromCache ? 'Cached' : 'Fresh';
+      const cacheStatus = e.revalidated ? 'Revalidated' : e.fromCache ? 'Cached' : 'Fresh';
+      const attempts = e.attempts && e.attempts > 1 ? `, ${e.attempts} attempts` : '';
+      const staleNote =
+        e.stale && e.cachedAt
+          ? `<div class="evidence-meta">Stale: data as of ${escapeHtml(e.cachedAt)}</div>`
+          : '';
 
       return `
         <div class="evidence-item">
           <span class="evidence-id">${escapeHtml(e.id)}</span>
           <a href="${escapeHtml(linkUrl)}" target="_blank">${escapeHtml(linkUrl)}</a>
           <div class="evidence-meta">
-            Fetched: ${escapeHtml(e.fetchedAt)} (${cacheStatus})
+            Fetched: ${escapeHtml(e.fetchedAt)} (${cacheStatus}${attempts})
           </div>
+          ${staleNote}
         </div>
       `;
     })
     .join('');
 
+  const staleDates = evidence
+    .filter((e) => e.stale && e.cachedAt)
+    .map((e) => e.cachedAt as string)
+    .sort();
+  const staleWarning =
+    staleDates.length > 0
+      ? `
+      <div class="evidence-stale">
+        <strong>Data as of ${escapeHtml(staleDates[0])}:</strong> ${staleDates.length} source(s)
+        could not be refreshed from Companies House and are shown from cache. The live record
+        may have changed since.
+      </div>
+    `
+      : '';
+
   return `
     <section class="evidence-section">
       <h2>Evidence Appendix</h2>
       <p>Data sources used to compile this dossier:</p>
+      ${staleWarning}
       ${items}
     </section>
   `;
@@ -678,11 +1441,20 @@ export function renderDossierHtml(
 </head>
 <body>
   <div class="container">
-    ${renderHeader(dossier)}
+    ${renderHeader(dossier, options.riskScore)}
+    ${renderTruncationWarning(dossier)}
     ${renderRiskFlags(dossier.riskFlags)}
+    ${renderAcceptedRisks(dossier.riskFlags)}
     ${renderCompanySection(dossier)}
+    ${renderHistorySection(dossier)}
     ${renderOfficersSection(dossier.officers)}
-    ${renderPSCsSection(dossier.pscs)}
+    ${renderAppointmentHistorySection(dossier.officers)}
+    ${renderDisqualificationSection(dossier)}
+    ${renderPSCsSection(dossier.pscs, dossier.pscStatements)}
+    ${renderOwnershipSection(dossier)}
+    ${renderChargesSection(dossier.charges)}
+    ${renderInsolvencySection(dossier.insolvencyCases)}
+    ${renderFilingsSection(dossier.filings, options.recentFilingsLimit ?? DEFAULT_RECENT_FILINGS_LIMIT)}
     ${renderModernSlaverySection(dossier)}
     ${renderEvidenceSection(evidence)}
     <footer class="footer">
@@ -5,8 +5,14 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
 import { buildDossier } from '../../dossier/builder';
 import { computeRiskFlags, applyRiskFlags, buildDossierWithRiskFlags } from '../engine';
+import { BUILT_IN_RULES, defineRule } from '../registry';
+import { DEFAULT_RISK_POLICY } from '../policy';
+import { riskFlagFingerprint } from '../waivers';
+import { FlagSeverity } from '../../dossier/connector-types';
+import type { RiskPolicy } from '../types';
 import {
   scenario1Input,
   scenario2Input,
@@ -42,7 +48,52 @@ describe('Risk Flags Engine', () => {
       const result = computeRiskFlags(dossierResult.dossier, scenario2Input, FIXED_GENERATED_AT);
 
       const ids = result.flags.map((f) => f.id);
-      expect(ids).toEqual([...ids].sort());
+      expect(ids).toEqual([...ids].sort((a, b) => a.localeCompare(b, 'en', { numeric: true })));
+    });
+
+    it('should order two-digit flag IDs after single-digit ones', () => {
+      const { dossier } = buildDossier(scenario2Input, FIXED_GENERATED_AT);
+      const [director, ...others] = dossier.officers;
+      const officers = [
+        {
+          ...director,
+          resignedOn: undefined,
+          appointments: {
+            total: 2,
+            current: 0,
+            resigned: 2,
+            dissolved: 0,
+            liquidated: 2,
+            recent: 0,
+            failedCompanies: [],
+          },
+        },
+        ...others,
+      ];
+
+      const result = computeRiskFlags({ ...dossier, officers }, scenario2Input, FIXED_GENERATED_AT);
+
+      const ids = result.flags.map((f) => f.id);
+      expect(ids).toContain('F10');
+      expect(ids.indexOf('F10')).toBeGreaterThan(ids.indexOf('F1'));
+      expect(ids[ids.length - 1]).toBe('F10');
+    });
+
+    it('should include registered office and status detail flags from the profile', () => {
+      const input = {
+        ...scenario1Input,
+        profile: {
+          ...scenario1Input.profile,
+          company_status_detail: 'active-proposal-to-strike-off',
+          registered_office_is_in_dispute: true,
+          undeliverable_registered_office_address: true,
+        },
+      };
+      const { dossier } = buildDossier(input, FIXED_GENERATED_AT);
+      const result = computeRiskFlags(dossier, input, FIXED_GENERATED_AT);
+
+      const ids = result.flags.map((f) => f.id);
+      expect(ids.slice(-3)).toEqual(['F14', 'F15', 'F16']);
     });
 
     it('should produce identical flags for same inputs', () => {
@@ -55,6 +106,115 @@ describe('Risk Flags Engine', () => {
     });
   });
 
+  describe('risk policies', () => {
+    const policy = (rules: RiskPolicy['rules']): RiskPolicy => ({
+      id: 'procurement',
+      version: '2024-06',
+      rules,
+    });
+
+    it('should record the policy and rule version on each flag', () => {
+      const { dossier } = buildDossier(scenario1Input, FIXED_GENERATED_AT);
+      const result = computeRiskFlags(dossier, scenario1Input, FIXED_GENERATED_AT);
+
+      expect(result.policy).toEqual({ id: 'default', version: '1' });
+      expect(result.flags.find((f) => f.id === 'F7')?.provenance).toEqual({
+        policyId: DEFAULT_RISK_POLICY.id,
+        policyVersion: DEFAULT_RISK_POLICY.version,
+        ruleVersion: '1.0.0',
+      });
+    });
+
+    it('should skip rules the policy disables', () => {
+      const { dossier } = buildDossier(scenario2Input, FIXED_GENERATED_AT);
+      const result = computeRiskFlags(
+        dossier,
+        scenario2Input,
+        FIXED_GENERATED_AT,
+        policy({ F1: { enabled: false } })
+      );
+
+      const ids = result.flags.map((f) => f.id);
+      expect(ids).not.toContain('F1');
+      expect(ids).toContain('F5');
+      expect(result.flags[0].provenance?.policyId).toBe('procurement');
+    });
+
+    it('should override the severity of flags from a rule', () => {
+      const { dossier } = buildDossier(scenario1Input, FIXED_GENERATED_AT);
+      const result = computeRiskFlags(
+        dossier,
+        scenario1Input,
+        FIXED_GENERATED_AT,
+        policy({ F7: { severity: FlagSeverity.LOW } })
+      );
+
+      expect(result.flags.find((f) => f.id === 'F7')?.severity).toBe(FlagSeverity.LOW);
+    });
+
+    it('should run rules registered alongside the built-in ones with policy parameters', () => {
+      const { dossier } = buildDossier(scenario3Input, FIXED_GENERATED_AT);
+      const sicCheck = defineRule({
+        id: 'X1',
+        version: '0.1.0',
+        severity: FlagSeverity.INFO,
+        enabled: false,
+        description: 'Company trades in a watched industry',
+        params: z.object({ sicCodes: z.array(z.string()).default([]) }).strict(),
+        evaluate: (input, params) =>
+          input.dossier.company.sicCodes.some((code) => params.sicCodes.includes(code))
+            ? {
+                id: 'X1',
+                title: 'Watched industry',
+                severity: FlagSeverity.INFO,
+                explanation: 'The company trades in a watched industry.',
+              }
+            : undefined,
+      });
+      const rules = [...BUILT_IN_RULES, sicCheck];
+      const [sicCode] = dossier.company.sicCodes;
+
+      const byDefault = computeRiskFlags(
+        dossier,
+        scenario3Input,
+        FIXED_GENERATED_AT,
+        undefined,
+        rules
+      );
+      const enabled = computeRiskFlags(
+        dossier,
+        scenario3Input,
+        FIXED_GENERATED_AT,
+        policy({ X1: { enabled: true, params: { sicCodes: [sicCode] } } }),
+        rules
+      );
+
+      expect(byDefault.flags.map((f) => f.id)).not.toContain('X1');
+      expect(enabled.flags.find((f) => f.id === 'X1')?.provenance?.ruleVersion).toBe('0.1.0');
+    });
+
+    it('should still accept the deprecated engine configuration', () => {
+      const { dossier } = buildDossier(scenario1Input, FIXED_GENERATED_AT);
+      const officerChanges = { lookbackMonths: 1200, threshold: 1 };
+
+      const configured = computeRiskFlags(dossier, scenario1Input, FIXED_GENERATED_AT, {
+        officerChanges,
+      });
+      const viaPolicy = computeRiskFlags(
+        dossier,
+        scenario1Input,
+        FIXED_GENERATED_AT,
+        policy({ F6: { params: officerChanges } })
+      );
+
+      expect(configured.flags.map((f) => f.id)).toContain('F6');
+      expect(configured.flags.find((f) => f.id === 'F6')?.explanation).toBe(
+        viaPolicy.flags.find((f) => f.id === 'F6')?.explanation
+      );
+      expect(configured.policy).toEqual({ id: 'default', version: '1' });
+    });
+  });
+
   describe('applyRiskFlags', () => {
     it('should apply flags to dossier without mutation', () => {
       const dossierResult = buildDossier(scenario1Input, FIXED_GENERATED_AT);
@@ -78,6 +238,54 @@ describe('Risk Flags Engine', () => {
       const ids = withFlags.riskFlags.map((f) => f.id);
       expect(ids).toEqual([...ids].sort());
     });
+
+    it('should annotate waived flags and keep them in the dossier', () => {
+      const { dossier } = buildDossier(scenario1Input, FIXED_GENERATED_AT);
+      const { flags } = computeRiskFlags(dossier, scenario1Input, FIXED_GENERATED_AT);
+      const [f7] = flags.filter((flag) => flag.id === 'F7');
+      const waiver = {
+        id: 'w1',
+        companyNumber: dossier.company.companyNumber,
+        flagId: 'F7',
+        policyId: 'default',
+        fingerprint: riskFlagFingerprint(f7),
+        reason: 'Below the reporting threshold',
+        reviewer: 'j.smith',
+        createdAt: '2024-01-10T09:30:00.000Z',
+        expiresOn: '2024-06-30',
+      };
+
+      const withFlags = applyRiskFlags(dossier, flags, [waiver]);
+
+      expect(withFlags.riskFlags.map((flag) => flag.id)).toEqual(flags.map((flag) => flag.id));
+      expect(withFlags.riskFlags.find((flag) => flag.id === 'F7')?.waiver).toMatchObject({
+        id: 'w1',
+        reviewer: 'j.smith',
+      });
+      expect(withFlags.riskFlags.filter((flag) => flag.waiver)).toHaveLength(1);
+    });
+
+    it('should not apply a waiver that expired before the dossier was generated', () => {
+      const { dossier } = buildDossier(scenario1Input, FIXED_GENERATED_AT);
+      const { flags } = computeRiskFlags(dossier, scenario1Input, FIXED_GENERATED_AT);
+      const [f7] = flags.filter((flag) => flag.id === 'F7');
+
+      const withFlags = applyRiskFlags(dossier, flags, [
+        {
+          id: 'w1',
+          companyNumber: dossier.company.companyNumber,
+          flagId: 'F7',
+          policyId: 'default',
+          fingerprint: riskFlagFingerprint(f7),
+          reason: 'Below the reporting threshold',
+          reviewer: 'j.smith',
+          createdAt: '2023-01-10T09:30:00.000Z',
+          expiresOn: '2024-01-14',
+        },
+      ]);
+
+      expect(withFlags.riskFlags).toEqual(flags);
+    });
   });
 
   describe('buildDossierWithRiskFlags', () => {
@@ -113,6 +321,25 @@ describe('Risk Flags Engine', () => {
 
       expect(dossierWithFlags).toMatchSnapshot('scenario3-dossier-with-flags');
     });
+
+    it('should still accept the deprecated engine configuration', () => {
+      const { dossier } = buildDossier(scenario1Input, FIXED_GENERATED_AT);
+      const officerChanges = { lookbackMonths: 1200, threshold: 1 };
+
+      const configured = buildDossierWithRiskFlags(dossier, scenario1Input, FIXED_GENERATED_AT, {
+        officerChanges,
+      });
+      const viaPolicy = buildDossierWithRiskFlags(dossier, scenario1Input, FIXED_GENERATED_AT, {
+        ...DEFAULT_RISK_POLICY,
+        rules: {
+          ...DEFAULT_RISK_POLICY.rules,
+          F6: { ...DEFAULT_RISK_POLICY.rules.F6, params: officerChanges },
+        },
+      });
+
+      expect(configured.riskFlags.map((f) => f.id)).toContain('F6');
+      expect(configured.riskFlags).toEqual(viaPolicy.riskFlags);
+    });
   });
 
   describe('Expected flags per scenario', () => {
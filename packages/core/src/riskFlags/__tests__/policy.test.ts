@@ -0,0 +1,95 @@
+/**
+ * Risk policy parsing and validation tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseRiskPolicy, validateRiskPolicy } from '../policy';
+import { FlagSeverity } from '../../dossier/connector-types';
+
+describe('parseRiskPolicy', () => {
+  it('should parse a YAML policy', () => {
+    const policy = parseRiskPolicy(
+      [
+        'id: procurement',
+        'version: 2',
+        'description: Stricter officer checks',
+        'rules:',
+        '  F6:',
+        '    params: { lookbackMonths: 6, threshold: 2 }',
+        '  F7:',
+        '    enabled: false',
+        '  F11:',
+        '    severity: low',
+      ].join('\n'),
+      'yaml'
+    );
+
+    expect(policy).toEqual({
+      id: 'procurement',
+      version: '2',
+      description: 'Stricter officer checks',
+      rules: {
+        F6: { params: { lookbackMonths: 6, threshold: 2 } },
+        F7: { enabled: false },
+        F11: { severity: FlagSeverity.LOW },
+      },
+    });
+  });
+
+  it('should parse a JSON policy without rule settings', () => {
+    expect(parseRiskPolicy('{"id": "finance", "version": "2024-06"}', 'json')).toEqual({
+      id: 'finance',
+      version: '2024-06',
+      rules: {},
+    });
+  });
+
+  it('should reject documents that cannot be parsed', () => {
+    expect(() => parseRiskPolicy('{"id": ', 'json')).toThrow('Invalid risk policy');
+    expect(() => parseRiskPolicy('rules: [unclosed', 'yaml')).toThrow('Invalid risk policy');
+  });
+});
+
+describe('validateRiskPolicy', () => {
+  it('should reject unknown rules', () => {
+    expect(() =>
+      validateRiskPolicy({ id: 'p', version: '1', rules: { F99: { enabled: true } } })
+    ).toThrow('rules.F99: Unknown rule "F99"');
+  });
+
+  it('should check parameters against the rule schema', () => {
+    expect(() =>
+      validateRiskPolicy({ id: 'p', version: '1', rules: { F6: { params: { threshold: -1 } } } })
+    ).toThrow('rules.F6.params.threshold');
+    expect(() =>
+      validateRiskPolicy({ id: 'p', version: '1', rules: { F1: { params: { days: 3 } } } })
+    ).toThrow('rules.F1.params');
+  });
+
+  it('should reject unknown settings and severities', () => {
+    expect(() =>
+      validateRiskPolicy({ id: 'p', version: '1', rules: { F1: { weight: 3 } } })
+    ).toThrow('rules.F1');
+    expect(() =>
+      validateRiskPolicy({ id: 'p', version: '1', rules: { F1: { severity: 'critical' } } })
+    ).toThrow('rules.F1.severity');
+  });
+
+  it('should validate scoring settings', () => {
+    const policy = validateRiskPolicy({
+      id: 'p',
+      version: '1',
+      scoring: { severityWeights: { high: 50 }, bands: { amber: 20, red: 50 } },
+    });
+    expect(policy.scoring?.severityWeights).toEqual({ HIGH: 50, MEDIUM: 15, LOW: 5, INFO: 0 });
+    expect(policy.scoring?.bands).toEqual({ amber: 20, red: 50 });
+
+    expect(() =>
+      validateRiskPolicy({ id: 'p', version: '1', scoring: { flagWeights: { F99: 10 } } })
+    ).toThrow('scoring.flagWeights.F99: Unknown rule "F99"');
+  });
+
+  it('should require an ID and version', () => {
+    expect(() => validateRiskPolicy({ rules: {} })).toThrow(/id:.*\n.*version:/);
+  });
+});
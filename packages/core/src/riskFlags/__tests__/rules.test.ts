@@ -1,11 +1,19 @@
 /**
- * Unit tests for individual risk flag rules (F1-F7).
+ * Unit tests for individual risk flag rules (F1-F16).
  *
  * PRD 7 - Each rule is tested in isolation.
  */
 
 import { describe, it, expect } from 'vitest';
 import { FlagSeverity } from '../../dossier/connector-types';
+import type {
+  DisqualifiedOfficerMatch,
+  InsolvencyCase,
+  OfficerAppointmentSummary,
+  OwnershipChain,
+  OwnershipNode,
+  PSCStatement,
+} from '../../dossier/connector-types';
 import type { RiskFlagsInput } from '../types';
 import {
   checkF1StatusNotActive,
@@ -15,12 +23,24 @@ import {
   checkF5PSCMissing,
   checkF6FrequentOfficerChanges,
   checkF7ModernSlaveryMissing,
+  checkF8OutstandingCharges,
+  checkF9OverseasOwnership,
+  checkF10DirectorFailedCompanies,
+  checkF11DirectorRecentAppointments,
+  checkF12DisqualifiedOfficer,
+  checkF13FrequentRebranding,
+  checkF14RegisteredOfficeInDispute,
+  checkF15UndeliverableRegisteredOffice,
+  checkF16CompanyStatusDetail,
 } from '../rules';
 
 // Helper to create minimal test input
 function createTestInput(
   overrides: Partial<{
     companyStatus: string;
+    companyStatusDetail: string;
+    officeInDispute: boolean;
+    officeUndeliverable: boolean;
     accountsOverdue: boolean;
     nextAccountsOverdue: boolean;
     nextAccountsDueOn: string;
@@ -30,12 +50,29 @@ function createTestInput(
     hasBeenLiquidated: boolean;
     pscs: Array<{ name: string; ceasedOn?: string }>;
     pscStatementsLink: boolean;
-    officers: Array<{ appointedOn: string; resignedOn?: string }>;
+    pscStatements: PSCStatement[];
+    officers: Array<{
+      appointedOn: string;
+      resignedOn?: string;
+      officerId?: string;
+      appointments?: OfficerAppointmentSummary;
+    }>;
     modernSlavery: boolean;
+    charges: Array<{
+      status: string;
+      createdOn?: string;
+      personsEntitled?: string[];
+      containsFloatingCharge?: boolean;
+    }>;
+    insolvencyCases: InsolvencyCase[];
+    ownership: OwnershipChain;
   }> = {}
 ): RiskFlagsInput {
   const {
     companyStatus = 'active',
+    companyStatusDetail,
+    officeInDispute = false,
+    officeUndeliverable = false,
     accountsOverdue = false,
     nextAccountsOverdue = false,
     nextAccountsDueOn,
@@ -45,8 +82,12 @@ function createTestInput(
     hasBeenLiquidated = false,
     pscs = [{ name: 'Test PSC' }],
     pscStatementsLink = false,
+    pscStatements,
     officers = [],
     modernSlavery = true,
+    charges = [],
+    insolvencyCases = [],
+    ownership,
   } = overrides;
 
   return {
@@ -71,6 +112,8 @@ function createTestInput(
         appointedOn: o.appointedOn,
         resignedOn: o.resignedOn,
         nationality: 'British',
+        officerId: o.officerId,
+        appointments: o.appointments,
       })),
       pscs: pscs.map((p, _i) => ({
         name: p.name,
@@ -79,6 +122,18 @@ function createTestInput(
         ceasedOn: p.ceasedOn,
         nationality: 'British',
       })),
+      pscStatements,
+      filings: [],
+      charges: charges.map((c, i) => ({
+        chargeNumber: i + 1,
+        status: c.status,
+        classification: 'A registered charge',
+        createdOn: c.createdOn,
+        personsEntitled: c.personsEntitled || [],
+        containsFixedCharge: true,
+        containsFloatingCharge: c.containsFloatingCharge || false,
+      })),
+      insolvencyCases,
       riskFlags: [],
       modernSlavery: modernSlavery
         ? {
@@ -88,6 +143,8 @@ function createTestInput(
             compliant: true,
           }
         : undefined,
+      ownership,
+      truncatedSections: [],
       generatedAt: '2024-01-15T12:00:00.000Z',
     },
     rawInput: {
@@ -95,6 +152,9 @@ function createTestInput(
         company_name: 'TEST COMPANY LTD',
         company_number: 'TEST123',
         company_status: companyStatus,
+        company_status_detail: companyStatusDetail,
+        registered_office_is_in_dispute: officeInDispute,
+        undeliverable_registered_office_address: officeUndeliverable,
         can_file: true,
         type: 'ltd',
         date_of_creation: '2020-01-01',
@@ -163,6 +223,20 @@ function createTestInput(
           fetchedAt: '2024-01-15T10:00:02.000Z',
           fromCache: false,
         },
+        charges: {
+          apiUrl: 'https://api.company-information.service.gov.uk/company/TEST123/charges',
+          publicUrl:
+            'https://find-and-update.company-information.service.gov.uk/company/TEST123/charges',
+          fetchedAt: '2024-01-15T10:00:03.000Z',
+          fromCache: false,
+        },
+        insolvency: {
+          apiUrl: 'https://api.company-information.service.gov.uk/company/TEST123/insolvency',
+          publicUrl:
+            'https://find-and-update.company-information.service.gov.uk/company/TEST123/insolvency',
+          fetchedAt: '2024-01-15T10:00:04.000Z',
+          fromCache: false,
+        },
       },
     },
     referenceDate: '2024-01-15T12:00:00.000Z',
@@ -313,6 +387,133 @@ describe('F4: Insolvency Indicator', () => {
     expect(result?.explanation).toContain('insolvency history');
     expect(result?.explanation).toContain('liquidation history');
   });
+
+  it('should flag a live administration as HIGH with practitioner details', () => {
+    const input = createTestInput({
+      hasInsolvencyHistory: true,
+      insolvencyCases: [
+        {
+          caseNumber: '1',
+          type: 'in-administration',
+          dates: [{ type: 'administration-started-on', date: '2023-11-01' }],
+          practitioners: [{ name: 'Jane Administrator', role: 'practitioner' }],
+        },
+      ],
+    });
+    const result = checkF4InsolvencyIndicator(input);
+
+    expect(result?.severity).toBe(FlagSeverity.HIGH);
+    expect(result?.explanation).toContain('Live in administration (case 1) started 2023-11-01');
+    expect(result?.explanation).toContain('Jane Administrator');
+    expect(result?.evidenceUrl).toBe(
+      'https://find-and-update.company-information.service.gov.uk/company/TEST123/insolvency'
+    );
+  });
+
+  it('should flag a recently concluded liquidation as MEDIUM', () => {
+    const input = createTestInput({
+      hasBeenLiquidated: true,
+      insolvencyCases: [
+        {
+          caseNumber: '1',
+          type: 'creditors-voluntary-liquidation',
+          dates: [
+            { type: 'wound-up-on', date: '2020-02-01' },
+            { type: 'dissolved-on', date: '2021-05-01' },
+          ],
+          practitioners: [],
+        },
+      ],
+    });
+    const result = checkF4InsolvencyIndicator(input);
+
+    expect(result?.severity).toBe(FlagSeverity.MEDIUM);
+    expect(result?.explanation).toContain('concluded 2021-05-01');
+    expect(result?.explanation).toContain('within the last 6 years');
+  });
+
+  it('should flag an old members voluntary liquidation as LOW', () => {
+    const input = createTestInput({
+      hasBeenLiquidated: true,
+      insolvencyCases: [
+        {
+          caseNumber: '1',
+          type: 'members-voluntary-liquidation',
+          dates: [
+            { type: 'declaration-solvent-on', date: '2012-05-01' },
+            { type: 'concluded-winding-up-on', date: '2013-08-20' },
+          ],
+          practitioners: [
+            { name: 'John Liquidator', role: 'final-liquidator', ceasedToActOn: '2013-08-20' },
+          ],
+        },
+      ],
+    });
+    const result = checkF4InsolvencyIndicator(input);
+
+    expect(result?.severity).toBe(FlagSeverity.LOW);
+    expect(result?.explanation).toContain('solvent wind-up');
+    expect(result?.explanation).not.toContain('John Liquidator');
+  });
+
+  it('should flag a live members voluntary liquidation as MEDIUM', () => {
+    const input = createTestInput({
+      insolvencyCases: [
+        {
+          caseNumber: '1',
+          type: 'members-voluntary-liquidation',
+          dates: [{ type: 'declaration-solvent-on', date: '2023-09-01' }],
+          practitioners: [],
+        },
+      ],
+    });
+    const result = checkF4InsolvencyIndicator(input);
+
+    expect(result?.severity).toBe(FlagSeverity.MEDIUM);
+  });
+
+  it('should report the most severe of several cases', () => {
+    const input = createTestInput({
+      insolvencyCases: [
+        {
+          caseNumber: '1',
+          type: 'corporate-voluntary-arrangement',
+          dates: [
+            { type: 'voluntary-arrangement-started-on', date: '2010-01-01' },
+            { type: 'voluntary-arrangement-ended-on', date: '2012-01-01' },
+          ],
+          practitioners: [],
+        },
+        {
+          caseNumber: '2',
+          type: 'compulsory-liquidation',
+          dates: [{ type: 'petitioned-on', date: '2023-12-01' }],
+          practitioners: [],
+        },
+      ],
+    });
+    const result = checkF4InsolvencyIndicator(input);
+
+    expect(result?.severity).toBe(FlagSeverity.HIGH);
+    expect(result?.explanation).toContain('compulsory liquidation (case 2)');
+    expect(result?.explanation).toContain('2 insolvency cases on record');
+  });
+
+  it('should respect custom recency window', () => {
+    const input = createTestInput({
+      insolvencyCases: [
+        {
+          caseNumber: '1',
+          type: 'creditors-voluntary-liquidation',
+          dates: [{ type: 'dissolved-on', date: '2021-05-01' }],
+          practitioners: [],
+        },
+      ],
+    });
+    const result = checkF4InsolvencyIndicator(input, { recentYears: 2 });
+
+    expect(result?.severity).toBe(FlagSeverity.LOW);
+  });
 });
 
 describe('F5: PSC Missing', () => {
@@ -359,6 +560,91 @@ describe('F5: PSC Missing', () => {
     expect(result).toBeDefined();
     expect(result?.id).toBe('F5');
   });
+
+  describe('with fetched PSC statements', () => {
+    it('should flag when there are no PSCs and no statements', () => {
+      const input = createTestInput({ pscs: [], pscStatementsLink: true, pscStatements: [] });
+      const result = checkF5PSCMissing(input);
+
+      expect(result?.title).toBe('PSC missing');
+      expect(result?.severity).toBe(FlagSeverity.HIGH);
+    });
+
+    it('should NOT flag a current statement that no registrable person exists', () => {
+      for (const statement of [
+        'no-individual-or-entity-with-signficant-control',
+        'no-individual-or-entity-with-significant-control-partnership',
+      ]) {
+        const input = createTestInput({
+          pscs: [],
+          pscStatements: [{ statement, notifiedOn: '2020-01-01' }],
+        });
+        expect(checkF5PSCMissing(input)).toBeUndefined();
+      }
+    });
+
+    it('should flag MEDIUM when a statement says the PSC is not identified', () => {
+      const input = createTestInput({
+        pscs: [],
+        pscStatements: [{ statement: 'psc-exists-but-not-identified', notifiedOn: '2023-01-01' }],
+      });
+      const result = checkF5PSCMissing(input);
+
+      expect(result?.title).toBe('PSC not identified');
+      expect(result?.severity).toBe(FlagSeverity.MEDIUM);
+      expect(result?.explanation).toContain('"psc-exists-but-not-identified"');
+    });
+
+    it('should flag MEDIUM when steps to find the PSC are ongoing alongside active PSCs', () => {
+      const input = createTestInput({
+        pscs: [{ name: 'Active PSC' }],
+        pscStatements: [
+          { statement: 'steps-to-find-psc-not-yet-completed', notifiedOn: '2023-01-01' },
+        ],
+      });
+      const result = checkF5PSCMissing(input);
+
+      expect(result?.title).toBe('PSC not identified');
+    });
+
+    it('should ignore unidentified statements that have ceased', () => {
+      const input = createTestInput({
+        pscs: [{ name: 'Active PSC' }],
+        pscStatements: [
+          {
+            statement: 'psc-exists-but-not-identified',
+            notifiedOn: '2021-01-01',
+            ceasedOn: '2022-01-01',
+          },
+        ],
+      });
+      expect(checkF5PSCMissing(input)).toBeUndefined();
+    });
+
+    it('should flag HIGH when every statement has ceased and no PSC is active', () => {
+      const input = createTestInput({
+        pscs: [],
+        pscStatementsLink: true,
+        pscStatements: [
+          {
+            statement: 'no-individual-or-entity-with-signficant-control',
+            notifiedOn: '2019-01-01',
+            ceasedOn: '2021-06-30',
+          },
+          {
+            statement: 'psc-exists-but-not-identified',
+            notifiedOn: '2017-01-01',
+            ceasedOn: '2019-01-01',
+          },
+        ],
+      });
+      const result = checkF5PSCMissing(input);
+
+      expect(result?.title).toBe('PSC statement ceased');
+      expect(result?.severity).toBe(FlagSeverity.HIGH);
+      expect(result?.explanation).toContain('2021-06-30');
+    });
+  });
 });
 
 describe('F6: Frequent Officer Changes', () => {
@@ -493,3 +779,588 @@ describe('F7: Modern Slavery Missing', () => {
     expect(result).toBeUndefined();
   });
 });
+
+describe('F8: Outstanding Charges', () => {
+  it('should NOT flag when there are no charges', () => {
+    const input = createTestInput({ charges: [] });
+    const result = checkF8OutstandingCharges(input);
+    expect(result).toBeUndefined();
+  });
+
+  it('should NOT flag recently satisfied charges', () => {
+    const input = createTestInput({
+      charges: [{ status: 'fully-satisfied', createdOn: '2023-10-01' }],
+    });
+    const result = checkF8OutstandingCharges(input);
+    expect(result).toBeUndefined();
+  });
+
+  it('should NOT flag a few old outstanding charges', () => {
+    const input = createTestInput({
+      charges: [
+        { status: 'outstanding', createdOn: '2015-01-01' },
+        { status: 'part-satisfied', createdOn: '2016-01-01' },
+      ],
+    });
+    const result = checkF8OutstandingCharges(input);
+    expect(result).toBeUndefined();
+  });
+
+  it('should flag a recently created outstanding charge as HIGH', () => {
+    const input = createTestInput({
+      charges: [
+        {
+          status: 'outstanding',
+          createdOn: '2023-11-20',
+          personsEntitled: ['Example Bank PLC'],
+          containsFloatingCharge: true,
+        },
+      ],
+    });
+    const result = checkF8OutstandingCharges(input);
+
+    expect(result).toBeDefined();
+    expect(result?.id).toBe('F8');
+    expect(result?.title).toBe('Recent outstanding charge');
+    expect(result?.severity).toBe(FlagSeverity.HIGH);
+    expect(result?.explanation).toContain('Example Bank PLC');
+    expect(result?.explanation).toContain('floating charge');
+    expect(result?.evidenceUrl).toBe(
+      'https://find-and-update.company-information.service.gov.uk/company/TEST123/charges'
+    );
+  });
+
+  it('should flag many old outstanding charges as MEDIUM', () => {
+    const input = createTestInput({
+      charges: [
+        { status: 'outstanding', createdOn: '2015-01-01' },
+        { status: 'outstanding', createdOn: '2016-01-01' },
+        { status: 'part-satisfied', createdOn: '2017-01-01' },
+      ],
+    });
+    const result = checkF8OutstandingCharges(input);
+
+    expect(result).toBeDefined();
+    expect(result?.title).toBe('Multiple outstanding charges');
+    expect(result?.severity).toBe(FlagSeverity.MEDIUM);
+    expect(result?.explanation).toContain('3 charges are outstanding');
+  });
+
+  it('should respect custom lookback and threshold', () => {
+    const input = createTestInput({
+      charges: [{ status: 'outstanding', createdOn: '2022-06-01' }],
+    });
+
+    expect(checkF8OutstandingCharges(input)).toBeUndefined();
+    expect(
+      checkF8OutstandingCharges(input, { lookbackMonths: 24, outstandingThreshold: 3 })?.severity
+    ).toBe(FlagSeverity.HIGH);
+    expect(
+      checkF8OutstandingCharges(input, { lookbackMonths: 12, outstandingThreshold: 1 })?.severity
+    ).toBe(FlagSeverity.MEDIUM);
+  });
+});
+
+describe('F9: Overseas Ownership', () => {
+  const owner = (overrides: Partial<OwnershipNode>): OwnershipNode => ({
+    name: 'OWNER',
+    kind: 'corporate-entity-person-with-significant-control',
+    natureOfControl: ['ownership-of-shares-75-to-100-percent'],
+    depth: 1,
+    owners: [],
+    ...overrides,
+  });
+
+  it('should not flag when the ownership chain was not resolved', () => {
+    expect(checkF9OverseasOwnership(createTestInput())).toBeUndefined();
+  });
+
+  it('should not flag a chain ending at individuals on the UK register', () => {
+    const input = createTestInput({
+      ownership: {
+        maxDepth: 5,
+        owners: [
+          owner({
+            name: 'PARENT HOLDINGS LTD',
+            companyNumber: '11112222',
+            countryRegistered: 'England',
+            owners: [
+              owner({
+                name: 'Jane Smith',
+                kind: 'individual-person-with-significant-control',
+                depth: 2,
+                termination: 'individual',
+              }),
+            ],
+          }),
+        ],
+      },
+    });
+
+    expect(checkF9OverseasOwnership(input)).toBeUndefined();
+  });
+
+  it('should flag an overseas owner as MEDIUM', () => {
+    const input = createTestInput({
+      ownership: {
+        maxDepth: 5,
+        owners: [
+          owner({
+            name: 'EURO PARENT GMBH',
+            countryRegistered: 'Germany',
+            termination: 'overseas',
+          }),
+        ],
+      },
+    });
+    const result = checkF9OverseasOwnership(input);
+
+    expect(result).toBeDefined();
+    expect(result?.id).toBe('F9');
+    expect(result?.title).toBe('Ownership chain leaves the UK register');
+    expect(result?.severity).toBe(FlagSeverity.MEDIUM);
+    expect(result?.explanation).toContain('EURO PARENT GMBH (Germany)');
+    expect(result?.evidenceUrl).toBe(
+      'https://find-and-update.company-information.service.gov.uk/company/TEST123/persons-with-significant-control'
+    );
+  });
+
+  it('should flag an owner in a secrecy jurisdiction as HIGH and link its register', () => {
+    const input = createTestInput({
+      ownership: {
+        maxDepth: 5,
+        owners: [
+          owner({
+            name: 'PARENT HOLDINGS LTD',
+            companyNumber: '11112222',
+            countryRegistered: 'England',
+            owners: [
+              owner({
+                name: 'ISLAND NOMINEES LIMITED',
+                countryRegistered: 'British Virgin Islands',
+                depth: 2,
+                termination: 'overseas',
+              }),
+            ],
+          }),
+        ],
+      },
+    });
+    input.rawInput.evidence.ownership = [
+      {
+        apiUrl:
+          'https://api.company-information.service.gov.uk/company/11112222/persons-with-significant-control',
+        publicUrl:
+          'https://find-and-update.company-information.service.gov.uk/company/11112222/persons-with-significant-control',
+        fetchedAt: '2024-01-15T10:00:05.000Z',
+        fromCache: false,
+      },
+    ];
+    const result = checkF9OverseasOwnership(input);
+
+    expect(result?.title).toBe('Ownership chain ends in a secrecy jurisdiction');
+    expect(result?.severity).toBe(FlagSeverity.HIGH);
+    expect(result?.explanation).toContain('ISLAND NOMINEES LIMITED (British Virgin Islands)');
+    expect(result?.evidenceUrl).toBe(
+      'https://find-and-update.company-information.service.gov.uk/company/11112222/persons-with-significant-control'
+    );
+  });
+
+  it('should respect a custom secrecy jurisdiction list', () => {
+    const input = createTestInput({
+      ownership: {
+        maxDepth: 5,
+        owners: [owner({ placeRegistered: 'Jersey Financial Services', termination: 'overseas' })],
+      },
+    });
+
+    expect(checkF9OverseasOwnership(input)?.severity).toBe(FlagSeverity.MEDIUM);
+    expect(checkF9OverseasOwnership(input, { opaqueJurisdictions: ['Jersey'] })?.severity).toBe(
+      FlagSeverity.HIGH
+    );
+  });
+});
+
+function appointmentSummary(
+  overrides: Partial<OfficerAppointmentSummary> = {}
+): OfficerAppointmentSummary {
+  return {
+    total: 0,
+    current: 0,
+    resigned: 0,
+    dissolved: 0,
+    liquidated: 0,
+    recent: 0,
+    failedCompanies: [],
+    ...overrides,
+  };
+}
+
+function failedCompany(companyNumber: string, status: string) {
+  return {
+    companyNumber,
+    companyName: `COMPANY ${companyNumber} LTD`,
+    status,
+    role: 'Director',
+    appointedOn: '2018-01-01',
+  };
+}
+
+describe('F10: Director Linked to Failed Companies', () => {
+  it('should not flag when no appointment history was looked up', () => {
+    const input = createTestInput({ officers: [{ appointedOn: '2020-01-01' }] });
+    expect(checkF10DirectorFailedCompanies(input)).toBeUndefined();
+  });
+
+  it('should not flag a director below the thresholds', () => {
+    const input = createTestInput({
+      officers: [
+        {
+          appointedOn: '2020-01-01',
+          appointments: appointmentSummary({
+            dissolved: 1,
+            liquidated: 1,
+            failedCompanies: [
+              failedCompany('00000001', 'dissolved'),
+              failedCompany('00000002', 'liquidation'),
+            ],
+          }),
+        },
+      ],
+    });
+    expect(checkF10DirectorFailedCompanies(input)).toBeUndefined();
+  });
+
+  it('should flag many dissolved companies as MEDIUM', () => {
+    const input = createTestInput({
+      officers: [
+        {
+          appointedOn: '2020-01-01',
+          appointments: appointmentSummary({
+            dissolved: 3,
+            failedCompanies: [
+              failedCompany('00000001', 'dissolved'),
+              failedCompany('00000002', 'dissolved'),
+              failedCompany('00000003', 'dissolved'),
+            ],
+          }),
+        },
+      ],
+    });
+    const result = checkF10DirectorFailedCompanies(input);
+
+    expect(result?.id).toBe('F10');
+    expect(result?.title).toBe('Director linked to failed companies');
+    expect(result?.severity).toBe(FlagSeverity.MEDIUM);
+    expect(result?.explanation).toContain('Officer 1 (3 dissolved, 0 insolvent');
+    expect(result?.evidenceUrl).toBe(
+      'https://find-and-update.company-information.service.gov.uk/company/TEST123/officers'
+    );
+  });
+
+  it('should flag insolvent companies as HIGH and link the appointment list', () => {
+    const input = createTestInput({
+      officers: [
+        {
+          appointedOn: '2020-01-01',
+          officerId: 'abc123',
+          appointments: appointmentSummary({
+            liquidated: 2,
+            failedCompanies: [
+              failedCompany('00000001', 'liquidation'),
+              failedCompany('00000002', 'administration'),
+            ],
+          }),
+        },
+      ],
+    });
+    input.rawInput.evidence.officerAppointments = [
+      {
+        apiUrl: 'https://api.company-information.service.gov.uk/officers/abc123/appointments',
+        publicUrl:
+          'https://find-and-update.company-information.service.gov.uk/officers/abc123/appointments',
+        fetchedAt: '2024-01-15T10:00:05.000Z',
+        fromCache: false,
+      },
+    ];
+    const result = checkF10DirectorFailedCompanies(input);
+
+    expect(result?.severity).toBe(FlagSeverity.HIGH);
+    expect(result?.explanation).toContain('COMPANY 00000001 LTD, COMPANY 00000002 LTD');
+    expect(result?.evidenceUrl).toBe(
+      'https://find-and-update.company-information.service.gov.uk/officers/abc123/appointments'
+    );
+  });
+
+  it('should ignore resigned directors', () => {
+    const input = createTestInput({
+      officers: [
+        {
+          appointedOn: '2020-01-01',
+          resignedOn: '2023-01-01',
+          appointments: appointmentSummary({ liquidated: 5 }),
+        },
+      ],
+    });
+    expect(checkF10DirectorFailedCompanies(input)).toBeUndefined();
+  });
+
+  it('should respect custom thresholds', () => {
+    const input = createTestInput({
+      officers: [{ appointedOn: '2020-01-01', appointments: appointmentSummary({ dissolved: 1 }) }],
+    });
+    const config = {
+      failedCompaniesThreshold: 1,
+      insolventCompaniesThreshold: 2,
+      recentAppointmentsThreshold: 5,
+    };
+
+    expect(checkF10DirectorFailedCompanies(input, config)?.severity).toBe(FlagSeverity.MEDIUM);
+  });
+});
+
+describe('F11: Director with Many Recent Appointments', () => {
+  it('should not flag a director below the threshold', () => {
+    const input = createTestInput({
+      officers: [{ appointedOn: '2020-01-01', appointments: appointmentSummary({ recent: 4 }) }],
+    });
+    expect(checkF11DirectorRecentAppointments(input)).toBeUndefined();
+  });
+
+  it('should flag a director with many recent appointments as MEDIUM', () => {
+    const input = createTestInput({
+      officers: [
+        { appointedOn: '2020-01-01', appointments: appointmentSummary({ recent: 2 }) },
+        { appointedOn: '2020-01-01', appointments: appointmentSummary({ recent: 7 }) },
+      ],
+    });
+    const result = checkF11DirectorRecentAppointments(input);
+
+    expect(result?.id).toBe('F11');
+    expect(result?.title).toBe('Director with many recent appointments');
+    expect(result?.severity).toBe(FlagSeverity.MEDIUM);
+    expect(result?.explanation).toContain('Officer 2 (7)');
+    expect(result?.explanation).not.toContain('Officer 1');
+  });
+});
+
+describe('F12: Disqualified Officer', () => {
+  const match = (overrides: Partial<DisqualifiedOfficerMatch> = {}): DisqualifiedOfficerMatch => ({
+    officerName: 'SMITH, John David',
+    disqualifiedName: 'John David SMITH',
+    disqualifiedOfficerId: 'dq123',
+    confidence: 'high',
+    disqualifications: [
+      {
+        type: 'Undertaking',
+        from: '2022-03-01',
+        until: '2029-02-28',
+        reason: 'Company Directors Disqualification Act 1986, section 7',
+        companyNames: ['FAILED FOODS LIMITED'],
+      },
+    ],
+    ...overrides,
+  });
+
+  it('should not flag when officers were not screened or nobody matched', () => {
+    const input = createTestInput();
+    expect(checkF12DisqualifiedOfficer(input)).toBeUndefined();
+
+    input.dossier.disqualifiedOfficers = [];
+    expect(checkF12DisqualifiedOfficer(input)).toBeUndefined();
+  });
+
+  it('should flag a disqualification in force as HIGH with period and reason', () => {
+    const input = createTestInput();
+    input.dossier.disqualifiedOfficers = [match()];
+    input.rawInput.evidence.disqualifiedOfficers = [
+      {
+        apiUrl:
+          'https://api.company-information.service.gov.uk/disqualified-officers/natural/dq123',
+        publicUrl:
+          'https://find-and-update.company-information.service.gov.uk/disqualified-officers/natural/dq123',
+        fetchedAt: '2024-01-15T10:00:05.000Z',
+        fromCache: false,
+      },
+    ];
+    const result = checkF12DisqualifiedOfficer(input);
+
+    expect(result?.id).toBe('F12');
+    expect(result?.title).toBe('Officer matches a disqualified director');
+    expect(result?.severity).toBe(FlagSeverity.HIGH);
+    expect(result?.explanation).toContain('(high confidence)');
+    expect(result?.explanation).toContain(
+      'disqualified from 2022-03-01 until 2029-02-28 under Company Directors Disqualification Act 1986, section 7'
+    );
+    expect(result?.evidenceUrl).toBe(
+      'https://find-and-update.company-information.service.gov.uk/disqualified-officers/natural/dq123'
+    );
+  });
+
+  it('should not flag a disqualification that has ended', () => {
+    const input = createTestInput();
+    input.dossier.disqualifiedOfficers = [
+      match({
+        disqualifications: [
+          {
+            type: 'Court Order',
+            from: '2016-04-01',
+            until: '2019-03-31',
+            reason: 'Company Directors Disqualification Act 1986, section 6',
+            companyNames: [],
+          },
+        ],
+      }),
+    ];
+    expect(checkF12DisqualifiedOfficer(input)).toBeUndefined();
+  });
+
+  it('should only flag low confidence matches when configured to', () => {
+    const input = createTestInput();
+    input.dossier.disqualifiedOfficers = [match({ confidence: 'low' })];
+
+    expect(checkF12DisqualifiedOfficer(input)).toBeUndefined();
+    expect(checkF12DisqualifiedOfficer(input, { minimumConfidence: 'low' })?.severity).toBe(
+      FlagSeverity.HIGH
+    );
+  });
+});
+
+describe('F13: Frequent Rebranding', () => {
+  const moves = (...dates: string[]) =>
+    dates.map((date, i) => ({
+      date,
+      transactionId: `AD01-${i}`,
+      oldAddress: `${i} Old Street`,
+      newAddress: `${i + 1} Old Street`,
+    }));
+
+  it('should NOT flag a company with no name or office changes', () => {
+    const input = createTestInput();
+    input.dossier.registeredOfficeHistory = [];
+    expect(checkF13FrequentRebranding(input)).toBeUndefined();
+  });
+
+  it('should flag two name changes within the window', () => {
+    const input = createTestInput();
+    input.dossier.company.previousNames = [
+      { name: 'SECOND NAME LTD', effectiveFrom: '2022-06-01', ceasedOn: '2023-09-01' },
+      { name: 'FIRST NAME LTD', effectiveFrom: '2020-01-01', ceasedOn: '2022-06-01' },
+    ];
+    const result = checkF13FrequentRebranding(input);
+
+    expect(result?.id).toBe('F13');
+    expect(result?.severity).toBe(FlagSeverity.MEDIUM);
+    expect(result?.explanation).toContain('2 name change(s)');
+    expect(result?.explanation).toContain('"SECOND NAME LTD" until 2023-09-01');
+    expect(result?.evidenceUrl).toBe(input.rawInput.evidence.profile.publicUrl);
+  });
+
+  it('should ignore name changes before the window', () => {
+    const input = createTestInput();
+    input.dossier.company.previousNames = [
+      { name: 'SECOND NAME LTD', effectiveFrom: '2019-06-01', ceasedOn: '2021-09-01' },
+      { name: 'FIRST NAME LTD', effectiveFrom: '2018-01-01', ceasedOn: '2019-06-01' },
+    ];
+    expect(checkF13FrequentRebranding(input)).toBeUndefined();
+  });
+
+  it('should flag three registered office changes within the window', () => {
+    const input = createTestInput();
+    input.dossier.registeredOfficeHistory = moves('2023-11-01', '2023-03-01', '2022-08-15');
+    const result = checkF13FrequentRebranding(input);
+
+    expect(result?.title).toBe('Frequent name or office changes');
+    expect(result?.explanation).toContain('3 registered office change(s)');
+  });
+
+  it('should respect configured thresholds', () => {
+    const input = createTestInput();
+    input.dossier.registeredOfficeHistory = moves('2023-11-01', '2023-03-01');
+
+    expect(checkF13FrequentRebranding(input)).toBeUndefined();
+    expect(
+      checkF13FrequentRebranding(input, {
+        lookbackMonths: 24,
+        nameChangesThreshold: 2,
+        officeChangesThreshold: 2,
+      })
+    ).toBeDefined();
+  });
+});
+
+describe('F14: Registered Office In Dispute', () => {
+  it('should NOT flag when the registered office is not in dispute', () => {
+    const input = createTestInput({ officeInDispute: false });
+    expect(checkF14RegisteredOfficeInDispute(input)).toBeUndefined();
+  });
+
+  it('should flag when the registered office is in dispute', () => {
+    const input = createTestInput({ officeInDispute: true });
+    const result = checkF14RegisteredOfficeInDispute(input);
+
+    expect(result?.id).toBe('F14');
+    expect(result?.title).toBe('Registered office in dispute');
+    expect(result?.severity).toBe(FlagSeverity.MEDIUM);
+    expect(result?.evidenceUrl).toBe(input.rawInput.evidence.profile.publicUrl);
+  });
+});
+
+describe('F15: Undeliverable Registered Office', () => {
+  it('should NOT flag when the registered office is deliverable', () => {
+    const input = createTestInput({ officeUndeliverable: false });
+    expect(checkF15UndeliverableRegisteredOffice(input)).toBeUndefined();
+  });
+
+  it('should flag when post to the registered office is returned', () => {
+    const input = createTestInput({ officeUndeliverable: true });
+    const result = checkF15UndeliverableRegisteredOffice(input);
+
+    expect(result?.id).toBe('F15');
+    expect(result?.title).toBe('Registered office undeliverable');
+    expect(result?.severity).toBe(FlagSeverity.MEDIUM);
+    expect(result?.explanation).toContain('undeliverable');
+    expect(result?.evidenceUrl).toBe(input.rawInput.evidence.profile.publicUrl);
+  });
+});
+
+describe('F16: Company Status Detail', () => {
+  it('should NOT flag when there is no status detail', () => {
+    const input = createTestInput();
+    expect(checkF16CompanyStatusDetail(input)).toBeUndefined();
+  });
+
+  it('should flag an active proposal to strike off as HIGH', () => {
+    const input = createTestInput({ companyStatusDetail: 'active-proposal-to-strike-off' });
+    const result = checkF16CompanyStatusDetail(input);
+
+    expect(result?.id).toBe('F16');
+    expect(result?.severity).toBe(FlagSeverity.HIGH);
+    expect(result?.explanation).toContain('"active-proposal-to-strike-off"');
+    expect(result?.explanation).toContain('proposal to strike the company off');
+    expect(result?.evidenceUrl).toBe(input.rawInput.evidence.profile.publicUrl);
+  });
+
+  it('should grade other known details by severity', () => {
+    expect(
+      checkF16CompanyStatusDetail(
+        createTestInput({
+          companyStatus: 'dissolved',
+          companyStatusDetail: 'petition-to-restore-dissolved',
+        })
+      )?.severity
+    ).toBe(FlagSeverity.MEDIUM);
+    expect(
+      checkF16CompanyStatusDetail(createTestInput({ companyStatusDetail: 'converted-to-plc' }))
+        ?.severity
+    ).toBe(FlagSeverity.INFO);
+  });
+
+  it('should report unknown details as LOW', () => {
+    const input = createTestInput({ companyStatusDetail: 'some-new-detail' });
+    const result = checkF16CompanyStatusDetail(input);
+
+    expect(result?.severity).toBe(FlagSeverity.LOW);
+    expect(result?.explanation).toContain('"some-new-detail"');
+  });
+});
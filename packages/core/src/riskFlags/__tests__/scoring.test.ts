@@ -0,0 +1,105 @@
+/**
+ * Aggregate risk score tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { scoreRiskFlags, riskScoringSchema, DEFAULT_RISK_SCORING } from '../scoring';
+import { FlagSeverity, type RiskFlag } from '../../dossier/connector-types';
+
+function flag(id: string, severity: FlagSeverity): RiskFlag {
+  return { id, title: `Flag ${id}`, severity, explanation: 'Test flag' };
+}
+
+describe('scoreRiskFlags', () => {
+  it('should rate a company without flags GREEN', () => {
+    expect(scoreRiskFlags([])).toEqual({ score: 0, maxScore: 100, band: 'GREEN', breakdown: [] });
+  });
+
+  it('should rate any MEDIUM flag AMBER and any HIGH flag RED by default', () => {
+    expect(scoreRiskFlags([flag('F7', FlagSeverity.MEDIUM)]).band).toBe('AMBER');
+    expect(scoreRiskFlags([flag('F1', FlagSeverity.HIGH)]).band).toBe('RED');
+    expect(scoreRiskFlags([flag('F16', FlagSeverity.LOW)]).band).toBe('GREEN');
+  });
+
+  it('should list contributing flags heaviest first, leaving out weightless ones', () => {
+    const result = scoreRiskFlags([
+      flag('F7', FlagSeverity.MEDIUM),
+      flag('F16', FlagSeverity.INFO),
+      flag('F1', FlagSeverity.HIGH),
+    ]);
+
+    expect(result.score).toBe(55);
+    expect(result.breakdown).toEqual([
+      { flagId: 'F1', title: 'Flag F1', severity: FlagSeverity.HIGH, weight: 40, points: 40 },
+      { flagId: 'F7', title: 'Flag F7', severity: FlagSeverity.MEDIUM, weight: 15, points: 15 },
+    ]);
+  });
+
+  it('should apply flag weights, severity caps and the score ceiling', () => {
+    const config = riskScoringSchema.parse({
+      flagWeights: { F7: 2 },
+      severityCaps: { high: 60 },
+      maxScore: 70,
+    });
+    const result = scoreRiskFlags(
+      [
+        flag('F1', FlagSeverity.HIGH),
+        flag('F4', FlagSeverity.HIGH),
+        flag('F7', FlagSeverity.MEDIUM),
+        flag('F12', FlagSeverity.HIGH),
+      ],
+      config
+    );
+
+    expect(result.breakdown.map((c) => [c.flagId, c.points])).toEqual([
+      ['F1', 40],
+      ['F4', 20],
+      ['F12', 0],
+      ['F7', 2],
+    ]);
+    expect(result.score).toBe(62);
+    expect(scoreRiskFlags([flag('F1', FlagSeverity.HIGH)], { ...config, maxScore: 30 }).score).toBe(
+      30
+    );
+  });
+
+  it('should leave waived flags out of the score', () => {
+    const waived: RiskFlag = {
+      ...flag('F1', FlagSeverity.HIGH),
+      waiver: {
+        id: 'w1',
+        reason: 'Reviewed',
+        reviewer: 'j.smith',
+        createdAt: '2024-01-10T09:30:00.000Z',
+        expiresOn: '2024-12-31',
+      },
+    };
+
+    const result = scoreRiskFlags([waived, flag('F7', FlagSeverity.MEDIUM)]);
+
+    expect(result.score).toBe(15);
+    expect(result.breakdown.map((c) => c.flagId)).toEqual(['F7']);
+  });
+
+  it('should band by the configured thresholds', () => {
+    const config = riskScoringSchema.parse({ bands: { amber: 50, red: 80 } });
+    expect(scoreRiskFlags([flag('F1', FlagSeverity.HIGH)], config).band).toBe('GREEN');
+  });
+});
+
+describe('riskScoringSchema', () => {
+  it('should fill in defaults', () => {
+    expect(DEFAULT_RISK_SCORING).toEqual({
+      severityWeights: { HIGH: 40, MEDIUM: 15, LOW: 5, INFO: 0 },
+      flagWeights: {},
+      severityCaps: {},
+      maxScore: 100,
+      bands: { amber: 15, red: 40 },
+    });
+  });
+
+  it('should reject negative weights and inverted bands', () => {
+    expect(riskScoringSchema.safeParse({ severityWeights: { HIGH: -1 } }).success).toBe(false);
+    expect(riskScoringSchema.safeParse({ bands: { amber: 50, red: 40 } }).success).toBe(false);
+  });
+});
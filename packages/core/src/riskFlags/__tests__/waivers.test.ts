@@ -0,0 +1,103 @@
+/**
+ * Risk flag waiver tests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { riskFlagFingerprint, isWaiverActive, applyWaivers, findLapsedWaivers } from '../waivers';
+import { FlagSeverity, type RiskFlag } from '../../dossier/connector-types';
+import type { RiskFlagWaiverRecord } from '../types';
+
+const f7: RiskFlag = {
+  id: 'F7',
+  title: 'Modern slavery statement missing',
+  severity: FlagSeverity.MEDIUM,
+  explanation: 'No modern slavery statement found on the registry.',
+  evidenceUrl: 'https://modern-slavery-statement-registry.service.gov.uk/search',
+  provenance: { policyId: 'default', policyVersion: '1', ruleVersion: '1.0.0' },
+};
+
+function waiverFor(flag: RiskFlag, overrides: Partial<RiskFlagWaiverRecord> = {}) {
+  return {
+    id: 'w1',
+    companyNumber: '12345678',
+    flagId: flag.id,
+    policyId: 'default',
+    fingerprint: riskFlagFingerprint(flag),
+    reason: 'Turnover below the £36m reporting threshold',
+    reviewer: 'j.smith',
+    createdAt: '2024-01-10T09:30:00.000Z',
+    expiresOn: '2024-12-31',
+    ...overrides,
+  };
+}
+
+describe('riskFlagFingerprint', () => {
+  it('should be stable for the same evidence', () => {
+    expect(riskFlagFingerprint(f7)).toBe(riskFlagFingerprint({ ...f7 }));
+    expect(riskFlagFingerprint(f7)).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should change with the explanation or evidence URL but not the severity', () => {
+    const fingerprint = riskFlagFingerprint(f7);
+
+    expect(riskFlagFingerprint({ ...f7, explanation: 'Statement withdrawn.' })).not.toBe(
+      fingerprint
+    );
+    expect(riskFlagFingerprint({ ...f7, evidenceUrl: undefined })).not.toBe(fingerprint);
+    expect(riskFlagFingerprint({ ...f7, severity: FlagSeverity.LOW })).toBe(fingerprint);
+  });
+});
+
+describe('isWaiverActive', () => {
+  it('should apply up to and including the expiry date', () => {
+    expect(isWaiverActive(waiverFor(f7), '2024-12-31T23:59:59.000Z')).toBe(true);
+    expect(isWaiverActive(waiverFor(f7), '2025-01-01')).toBe(false);
+  });
+
+  it('should never apply once lapsed', () => {
+    const lapsed = waiverFor(f7, { lapsedAt: '2024-02-01T00:00:00.000Z' });
+    expect(isWaiverActive(lapsed, '2024-01-15')).toBe(false);
+  });
+});
+
+describe('applyWaivers', () => {
+  it('should annotate a waived flag without dropping it', () => {
+    const [flag] = applyWaivers([f7], [waiverFor(f7)], '2024-01-15');
+
+    expect(flag).toEqual({
+      ...f7,
+      waiver: {
+        id: 'w1',
+        reason: 'Turnover below the £36m reporting threshold',
+        reviewer: 'j.smith',
+        createdAt: '2024-01-10T09:30:00.000Z',
+        expiresOn: '2024-12-31',
+      },
+    });
+  });
+
+  it('should ignore waivers that expired, are for other evidence or another policy', () => {
+    const waivers = [
+      waiverFor(f7, { expiresOn: '2024-01-14' }),
+      waiverFor({ ...f7, explanation: 'Older explanation' }),
+      waiverFor(f7, { policyId: 'procurement' }),
+    ];
+
+    expect(applyWaivers([f7], waivers, '2024-01-15')).toEqual([f7]);
+  });
+});
+
+describe('findLapsedWaivers', () => {
+  it('should lapse waivers whose flag is raised on different evidence', () => {
+    const stale = waiverFor({ ...f7, explanation: 'Older explanation' }, { id: 'w2' });
+
+    expect(findLapsedWaivers([f7], [waiverFor(f7), stale])).toEqual([stale]);
+  });
+
+  it('should leave waivers alone when their flag is not raised or already lapsed', () => {
+    const stale = waiverFor({ ...f7, explanation: 'Older explanation' });
+
+    expect(findLapsedWaivers([], [stale])).toEqual([]);
+    expect(findLapsedWaivers([f7], [{ ...stale, lapsedAt: '2024-01-01' }])).toEqual([]);
+  });
+});
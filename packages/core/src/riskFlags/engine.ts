@@ -5,96 +5,153 @@
  *
  * Key guarantees:
  * - Same inputs produce identical flags
- * - Flags are sorted by ID (F1, F2, F3, ...)
- * - No scores, only explicit rule-based flags
+ * - Flags are sorted by ID (F1, F2, ..., F15, F16)
+ * - Flags only; scoring is a separate, optional layer (see scoring.ts)
+ * - Rules come from a registry and run under a risk policy (see policy.ts)
  * - Each flag includes explanation and evidence URL
+ * - Waived flags are annotated, never dropped (see waivers.ts)
  */
 
 import type { Dossier, RiskFlag } from '../dossier/connector-types';
 import type { DossierInput } from '../dossier/types';
-import type { RiskFlagsInput, RiskFlagsResult, OfficerChangesConfig } from './types';
-import {
-  checkF1StatusNotActive,
-  checkF2AccountsOverdue,
-  checkF3ConfirmationStatementOverdue,
-  checkF4InsolvencyIndicator,
-  checkF5PSCMissing,
-  checkF6FrequentOfficerChanges,
-  checkF7ModernSlaveryMissing,
-} from './rules';
+import type {
+  OfficerChangesConfig,
+  RiskFlagsInput,
+  RiskFlagsResult,
+  RiskFlagWaiverRecord,
+  RiskPolicy,
+  RiskRule,
+} from './types';
+import { BUILT_IN_RULES } from './registry';
+import { DEFAULT_RISK_POLICY } from './policy';
+import { applyWaivers } from './waivers';
+
+/**
+ * Order flags by numeric ID, so F10 follows F9 rather than F1.
+ */
+function compareFlagIds(a: RiskFlag, b: RiskFlag): number {
+  return a.id.localeCompare(b.id, undefined, { numeric: true });
+}
 
 /**
  * Configuration for the risk flags engine.
+ *
+ * @deprecated Pass a {@link RiskPolicy} instead; `officerChanges` becomes the F6 rule's params.
  */
 export interface RiskFlagsEngineConfig {
   /** Configuration for F6 officer changes rule */
   officerChanges?: OfficerChangesConfig;
 }
 
-const DEFAULT_CONFIG: RiskFlagsEngineConfig = {
-  officerChanges: {
-    lookbackMonths: 12,
-    threshold: 3,
-  },
-};
+/**
+ * The default policy with an engine configuration's parameters applied.
+ */
+function policyFromEngineConfig(config: RiskFlagsEngineConfig): RiskPolicy {
+  if (!config.officerChanges) {
+    return DEFAULT_RISK_POLICY;
+  }
+  return {
+    ...DEFAULT_RISK_POLICY,
+    rules: {
+      ...DEFAULT_RISK_POLICY.rules,
+      F6: { ...DEFAULT_RISK_POLICY.rules.F6, params: { ...config.officerChanges } },
+    },
+  };
+}
 
 /**
  * Compute risk flags for a dossier.
  *
  * This is the main entry point for the risk flags engine.
- * It runs all 7 rules (F1-F7) and returns the flags in stable order.
+ * It runs every rule the policy enables and returns the flags in stable order,
+ * each recording the policy and rule version that raised it.
  *
  * @param dossier - The normalized dossier
  * @param rawInput - The raw input data (for accessing non-normalized fields)
  * @param referenceDate - Reference date for time-based calculations
- * @param config - Optional engine configuration
+ * @param policy - Which rules run, at what severity and with which parameters
+ * @param rules - Registered rules (default: the built-in rules F1-F16)
  * @returns Risk flags sorted by ID
  */
 export function computeRiskFlags(
   dossier: Dossier,
   rawInput: DossierInput,
   referenceDate: string,
-  config: RiskFlagsEngineConfig = DEFAULT_CONFIG
+  policy?: RiskPolicy,
+  rules?: readonly RiskRule[]
+): RiskFlagsResult;
+/**
+ * @deprecated Pass a {@link RiskPolicy} instead of an engine configuration.
+ */
+export function computeRiskFlags(
+  dossier: Dossier,
+  rawInput: DossierInput,
+  referenceDate: string,
+  config: RiskFlagsEngineConfig
+): RiskFlagsResult;
+export function computeRiskFlags(
+  dossier: Dossier,
+  rawInput: DossierInput,
+  referenceDate: string,
+  policyOrConfig: RiskPolicy | RiskFlagsEngineConfig = DEFAULT_RISK_POLICY,
+  rules: readonly RiskRule[] = BUILT_IN_RULES
 ): RiskFlagsResult {
+  const policy =
+    'rules' in policyOrConfig ? policyOrConfig : policyFromEngineConfig(policyOrConfig);
   const input: RiskFlagsInput = {
     dossier,
     rawInput,
     referenceDate,
   };
 
-  // Run all rules
-  const potentialFlags: (RiskFlag | undefined)[] = [
-    checkF1StatusNotActive(input),
-    checkF2AccountsOverdue(input),
-    checkF3ConfirmationStatementOverdue(input),
-    checkF4InsolvencyIndicator(input),
-    checkF5PSCMissing(input),
-    checkF6FrequentOfficerChanges(input, config.officerChanges),
-    checkF7ModernSlaveryMissing(input),
-  ];
+  const flags: RiskFlag[] = [];
+  for (const rule of rules) {
+    const settings = policy.rules[rule.id];
+    if (!(settings?.enabled ?? rule.enabled)) {
+      continue;
+    }
 
-  // Filter out undefined flags and sort by ID
-  const flags = potentialFlags
-    .filter((flag): flag is RiskFlag => flag !== undefined)
-    .sort((a, b) => a.id.localeCompare(b.id));
+    const flag = rule.evaluate(input, settings?.params);
+    if (flag) {
+      flags.push({
+        ...flag,
+        ...(settings?.severity && { severity: settings.severity }),
+        provenance: {
+          policyId: policy.id,
+          policyVersion: policy.version,
+          ruleVersion: rule.version,
+        },
+      });
+    }
+  }
 
-  return { flags };
+  return {
+    flags: flags.sort(compareFlagIds),
+    policy: { id: policy.id, version: policy.version },
+  };
 }
 
 /**
  * Apply computed risk flags to a dossier.
  *
  * This creates a new dossier with the risk flags populated.
- * The original dossier is not modified.
+ * The original dossier is not modified. Flags with an active waiver for
+ * their current evidence are kept and annotated with the waiver; expiry is
+ * checked against the dossier's generation date.
  *
  * @param dossier - The original dossier (with empty riskFlags)
  * @param flags - The computed risk flags
+ * @param waivers - Optional waivers recorded for the company
  * @returns A new dossier with risk flags
  */
-export function applyRiskFlags(dossier: Dossier, flags: RiskFlag[]): Dossier {
+export function applyRiskFlags(
+  dossier: Dossier,
+  flags: RiskFlag[],
+  waivers: RiskFlagWaiverRecord[] = []
+): Dossier {
   return {
     ...dossier,
-    riskFlags: [...flags].sort((a, b) => a.id.localeCompare(b.id)),
+    riskFlags: applyWaivers(flags, waivers, dossier.generatedAt).sort(compareFlagIds),
   };
 }
 
@@ -106,15 +163,35 @@ export function applyRiskFlags(dossier: Dossier, flags: RiskFlag[]): Dossier {
  * @param dossier - The normalized dossier
  * @param rawInput - The raw input data
  * @param referenceDate - Reference date for time-based calculations
- * @param config - Optional engine configuration
+ * @param policy - Optional risk policy
+ * @param waivers - Optional waivers recorded for the company
  * @returns Dossier with risk flags populated
  */
 export function buildDossierWithRiskFlags(
   dossier: Dossier,
   rawInput: DossierInput,
   referenceDate: string,
-  config?: RiskFlagsEngineConfig
+  policy?: RiskPolicy,
+  waivers?: RiskFlagWaiverRecord[]
+): Dossier;
+/**
+ * @deprecated Pass a {@link RiskPolicy} instead of an engine configuration.
+ */
+export function buildDossierWithRiskFlags(
+  dossier: Dossier,
+  rawInput: DossierInput,
+  referenceDate: string,
+  config: RiskFlagsEngineConfig
+): Dossier;
+export function buildDossierWithRiskFlags(
+  dossier: Dossier,
+  rawInput: DossierInput,
+  referenceDate: string,
+  policyOrConfig: RiskPolicy | RiskFlagsEngineConfig = DEFAULT_RISK_POLICY,
+  waivers?: RiskFlagWaiverRecord[]
 ): Dossier {
-  const { flags } = computeRiskFlags(dossier, rawInput, referenceDate, config);
-  return applyRiskFlags(dossier, flags);
+  const policy =
+    'rules' in policyOrConfig ? policyOrConfig : policyFromEngineConfig(policyOrConfig);
+  const { flags } = computeRiskFlags(dossier, rawInput, referenceDate, policy);
+  return applyRiskFlags(dossier, flags, waivers);
 }
@@ -1,7 +1,7 @@
 /**
  * Risk Flags Engine module.
  *
- * PRD 7 - Implements explicit risk flag rules F1-F7.
+ * PRD 7 - Implements explicit risk flag rules F1-F16.
  *
  * Usage:
  *   import { computeRiskFlags, buildDossierWithRiskFlags } from '@suppliercheck/core/riskFlags';
@@ -11,12 +11,38 @@
  *
  *   // Or build a dossier with flags in one step
  *   const dossierWithFlags = buildDossierWithRiskFlags(dossier, rawInput, referenceDate);
+ *
+ *   // Run under a business unit's policy
+ *   const policy = parseRiskPolicy(readFileSync('policy.yaml', 'utf8'), 'yaml');
+ *   const { flags } = computeRiskFlags(dossier, rawInput, referenceDate, policy);
+ *
+ *   // Annotate flags a reviewer has accepted
+ *   const reviewed = buildDossierWithRiskFlags(dossier, rawInput, referenceDate, policy, waivers);
+ *
+ *   // Optionally summarise the flags as a score and RAG band
+ *   const { score, band, breakdown } = scoreRiskFlags(flags, policy.scoring);
  */
 
 // Engine exports
 export { computeRiskFlags, applyRiskFlags, buildDossierWithRiskFlags } from './engine';
 export type { RiskFlagsEngineConfig } from './engine';
 
+// Rule registry and policy exports
+export { BUILT_IN_RULES, defineRule } from './registry';
+export {
+  DEFAULT_RISK_POLICY,
+  createRiskPolicySchema,
+  validateRiskPolicy,
+  parseRiskPolicy,
+} from './policy';
+export type { RiskPolicyFormat } from './policy';
+
+// Waiver exports
+export { riskFlagFingerprint, isWaiverActive, applyWaivers, findLapsedWaivers } from './waivers';
+
+// Scoring exports
+export { scoreRiskFlags, riskScoringSchema, DEFAULT_RISK_SCORING } from './scoring';
+
 // Individual rule exports (for testing and advanced usage)
 export {
   checkF1StatusNotActive,
@@ -26,6 +52,16 @@ export {
   checkF5PSCMissing,
   checkF6FrequentOfficerChanges,
   checkF7ModernSlaveryMissing,
+  checkF8OutstandingCharges,
+  checkF9OverseasOwnership,
+  checkF10DirectorFailedCompanies,
+  checkF11DirectorRecentAppointments,
+  checkF12DisqualifiedOfficer,
+  checkF13FrequentRebranding,
+  checkF14RegisteredOfficeInDispute,
+  checkF15UndeliverableRegisteredOffice,
+  checkF16CompanyStatusDetail,
+  DEFAULT_OPAQUE_JURISDICTIONS,
 } from './rules';
 
 // Type exports
@@ -33,6 +69,22 @@ export type {
   RiskFlagsInput,
   RiskFlagsResult,
   RiskFlagRule,
+  RiskRule,
+  RiskRuleDefinition,
+  RiskPolicy,
+  RiskPolicyRule,
+  RiskFlagWaiverRecord,
+  RiskBand,
+  RiskScoringConfig,
+  RiskScore,
+  RiskScoreContribution,
   FlagId,
+  BuiltInFlagId,
   OfficerChangesConfig,
+  ChargesConfig,
+  InsolvencyConfig,
+  OwnershipConfig,
+  SerialDirectorConfig,
+  DisqualificationConfig,
+  RebrandingConfig,
 } from './types';
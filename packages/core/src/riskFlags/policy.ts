@@ -0,0 +1,159 @@
+/**
+ * Risk policies: per-deployment or per-business-unit rule settings.
+ *
+ * A policy is a JSON or YAML document naming which registered rules run, at
+ * what severity and with which parameters. Policies are validated against the
+ * rule registry when loaded, so a typo fails at startup rather than silently
+ * falling back to defaults.
+ *
+ * Example (YAML):
+ *
+ *   id: procurement
+ *   version: 2024-06
+ *   rules:
+ *     F6:
+ *       params: { lookbackMonths: 6, threshold: 2 }
+ *     F7:
+ *       enabled: false
+ *     F11:
+ *       severity: low
+ *   scoring:
+ *     severityWeights: { high: 50 }
+ *     bands: { amber: 20, red: 50 }
+ */
+
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { FlagSeverity } from '../dossier/connector-types';
+import type { RiskPolicy, RiskRule } from './types';
+import { BUILT_IN_RULES } from './registry';
+import { riskScoringSchema } from './scoring';
+
+export type RiskPolicyFormat = 'json' | 'yaml';
+
+/**
+ * Policy used when none is configured: every default-enabled rule with its default parameters.
+ */
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  id: 'default',
+  version: '1',
+  description: 'Built-in rules with their default parameters',
+  rules: {},
+};
+
+/**
+ * Build the policy schema for a set of registered rules.
+ * Rule IDs must be registered, and parameters are checked against each rule's schema.
+ */
+export function createRiskPolicySchema(rules: readonly RiskRule[] = BUILT_IN_RULES) {
+  const registered = new Map(rules.map((rule) => [rule.id, rule]));
+
+  const ruleSchema = z
+    .object({
+      enabled: z.boolean().optional(),
+      severity: z
+        .preprocess(
+          (value) => (typeof value === 'string' ? value.toUpperCase() : value),
+          z.nativeEnum(FlagSeverity)
+        )
+        .optional(),
+      params: z.record(z.unknown()).optional(),
+    })
+    .strict();
+
+  return z
+    .object({
+      id: z.string().trim().min(1),
+      // YAML and JSON authors often write versions as bare numbers
+      version: z.union([z.string().trim().min(1), z.number()]).transform(String),
+      description: z.string().optional(),
+      rules: z.record(ruleSchema).default({}),
+      scoring: riskScoringSchema.optional(),
+    })
+    .strict()
+    .superRefine((policy, ctx) => {
+      for (const [id, settings] of Object.entries(policy.rules)) {
+        const rule = registered.get(id);
+        if (!rule) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['rules', id],
+            message: `Unknown rule "${id}"`,
+          });
+          continue;
+        }
+
+        const params = rule.params.safeParse(settings.params ?? {});
+        if (!params.success) {
+          for (const issue of params.error.issues) {
+            ctx.addIssue({ ...issue, path: ['rules', id, 'params', ...issue.path] });
+          }
+        }
+      }
+
+      for (const id of Object.keys(policy.scoring?.flagWeights ?? {})) {
+        if (!registered.has(id)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['scoring', 'flagWeights', id],
+            message: `Unknown rule "${id}"`,
+          });
+        }
+      }
+    });
+}
+
+/**
+ * Format Zod validation errors for readable output
+ */
+function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => {
+      const path = issue.path.join('.');
+      return `  • ${path}: ${issue.message}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Validate a parsed policy document against the rule registry.
+ *
+ * @param data - Parsed JSON or YAML
+ * @param rules - Registered rules the policy may refer to
+ * @throws Error listing every problem found
+ */
+export function validateRiskPolicy(
+  data: unknown,
+  rules: readonly RiskRule[] = BUILT_IN_RULES
+): RiskPolicy {
+  const result = createRiskPolicySchema(rules).safeParse(data);
+
+  if (!result.success) {
+    throw new Error(`Invalid risk policy:\n${formatZodError(result.error)}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Parse and validate a JSON or YAML policy document.
+ *
+ * @param source - Policy file contents
+ * @param format - Document format
+ * @param rules - Registered rules the policy may refer to
+ * @throws Error if the document cannot be parsed or is not a valid policy
+ */
+export function parseRiskPolicy(
+  source: string,
+  format: RiskPolicyFormat,
+  rules: readonly RiskRule[] = BUILT_IN_RULES
+): RiskPolicy {
+  let data: unknown;
+  try {
+    data = format === 'yaml' ? parseYaml(source) : JSON.parse(source);
+  } catch (error) {
+    throw new Error(`Invalid risk policy: ${(error as Error).message}`);
+  }
+
+  return validateRiskPolicy(data, rules);
+}
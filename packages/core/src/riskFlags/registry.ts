@@ -0,0 +1,218 @@
+/**
+ * Rule registry for the risk flags engine.
+ *
+ * Every rule is declared once here with its ID, version, severity, whether it
+ * runs by default and a schema for its parameters. Policies (see policy.ts)
+ * can switch rules off, override their severity and tune their parameters
+ * without a code change.
+ */
+
+import { z } from 'zod';
+import { FlagSeverity } from '../dossier/connector-types';
+import type { RiskRule, RiskRuleDefinition } from './types';
+import {
+  checkF1StatusNotActive,
+  checkF2AccountsOverdue,
+  checkF3ConfirmationStatementOverdue,
+  checkF4InsolvencyIndicator,
+  checkF5PSCMissing,
+  checkF6FrequentOfficerChanges,
+  checkF7ModernSlaveryMissing,
+  checkF8OutstandingCharges,
+  checkF9OverseasOwnership,
+  checkF10DirectorFailedCompanies,
+  checkF11DirectorRecentAppointments,
+  checkF12DisqualifiedOfficer,
+  checkF13FrequentRebranding,
+  checkF14RegisteredOfficeInDispute,
+  checkF15UndeliverableRegisteredOffice,
+  checkF16CompanyStatusDetail,
+  DEFAULT_OPAQUE_JURISDICTIONS,
+} from './rules';
+
+/**
+ * Register a rule, validating policy parameters before each evaluation.
+ */
+export function defineRule<P>(definition: RiskRuleDefinition<P>): RiskRule {
+  return {
+    ...definition,
+    evaluate: (input, params = {}) => definition.evaluate(input, definition.params.parse(params)),
+  };
+}
+
+const count = z.number().int().nonnegative();
+const months = z.number().int().positive();
+
+const noParams = z.object({}).strict();
+
+const serialDirectorParams = z
+  .object({
+    failedCompaniesThreshold: count.default(3),
+    insolventCompaniesThreshold: count.default(2),
+    recentAppointmentsThreshold: count.default(5),
+  })
+  .strict();
+
+/**
+ * The built-in rules, in the order they are run.
+ */
+export const BUILT_IN_RULES: readonly RiskRule[] = [
+  defineRule({
+    id: 'F1',
+    version: '1.0.0',
+    severity: FlagSeverity.HIGH,
+    enabled: true,
+    description: 'Company status is not active',
+    params: noParams,
+    evaluate: (input) => checkF1StatusNotActive(input),
+  }),
+  defineRule({
+    id: 'F2',
+    version: '1.0.0',
+    severity: FlagSeverity.MEDIUM,
+    enabled: true,
+    description: 'Accounts are overdue',
+    params: noParams,
+    evaluate: (input) => checkF2AccountsOverdue(input),
+  }),
+  defineRule({
+    id: 'F3',
+    version: '1.0.0',
+    severity: FlagSeverity.MEDIUM,
+    enabled: true,
+    description: 'Confirmation statement is overdue',
+    params: noParams,
+    evaluate: (input) => checkF3ConfirmationStatementOverdue(input),
+  }),
+  defineRule({
+    id: 'F4',
+    version: '1.0.0',
+    severity: FlagSeverity.HIGH,
+    enabled: true,
+    description: 'Insolvency history, graded by case type and recency',
+    params: z.object({ recentYears: months.default(6) }).strict(),
+    evaluate: checkF4InsolvencyIndicator,
+  }),
+  defineRule({
+    id: 'F5',
+    version: '1.0.0',
+    severity: FlagSeverity.HIGH,
+    enabled: true,
+    description: 'No persons with significant control, or PSC statements on file',
+    params: noParams,
+    evaluate: (input) => checkF5PSCMissing(input),
+  }),
+  defineRule({
+    id: 'F6',
+    version: '1.0.0',
+    severity: FlagSeverity.MEDIUM,
+    enabled: true,
+    description: 'Frequent officer appointments and resignations',
+    params: z.object({ lookbackMonths: months.default(12), threshold: count.default(3) }).strict(),
+    evaluate: checkF6FrequentOfficerChanges,
+  }),
+  defineRule({
+    id: 'F7',
+    version: '1.0.0',
+    severity: FlagSeverity.MEDIUM,
+    enabled: true,
+    description: 'No modern slavery statement on the registry',
+    params: noParams,
+    evaluate: (input) => checkF7ModernSlaveryMissing(input),
+  }),
+  defineRule({
+    id: 'F8',
+    version: '1.0.0',
+    severity: FlagSeverity.HIGH,
+    enabled: true,
+    description: 'Recent or numerous outstanding charges',
+    params: z
+      .object({ lookbackMonths: months.default(12), outstandingThreshold: count.default(3) })
+      .strict(),
+    evaluate: checkF8OutstandingCharges,
+  }),
+  defineRule({
+    id: 'F9',
+    version: '1.0.0',
+    severity: FlagSeverity.HIGH,
+    enabled: true,
+    description: 'Owned through an overseas or secrecy jurisdiction',
+    params: z
+      .object({
+        opaqueJurisdictions: z.array(z.string().min(1)).default(DEFAULT_OPAQUE_JURISDICTIONS),
+      })
+      .strict(),
+    evaluate: checkF9OverseasOwnership,
+  }),
+  defineRule({
+    id: 'F10',
+    version: '1.0.0',
+    severity: FlagSeverity.HIGH,
+    enabled: true,
+    description: 'Director of several failed companies',
+    params: serialDirectorParams,
+    evaluate: checkF10DirectorFailedCompanies,
+  }),
+  defineRule({
+    id: 'F11',
+    version: '1.0.0',
+    severity: FlagSeverity.MEDIUM,
+    enabled: true,
+    description: 'Director with many recent appointments',
+    params: serialDirectorParams,
+    evaluate: checkF11DirectorRecentAppointments,
+  }),
+  defineRule({
+    id: 'F12',
+    version: '1.0.0',
+    severity: FlagSeverity.HIGH,
+    enabled: true,
+    description: 'Officer may be a disqualified director',
+    params: z
+      .object({ minimumConfidence: z.enum(['high', 'medium', 'low']).default('medium') })
+      .strict(),
+    evaluate: checkF12DisqualifiedOfficer,
+  }),
+  defineRule({
+    id: 'F13',
+    version: '1.0.0',
+    severity: FlagSeverity.MEDIUM,
+    enabled: true,
+    description: 'Frequent name or registered office changes',
+    params: z
+      .object({
+        lookbackMonths: months.default(24),
+        nameChangesThreshold: count.default(2),
+        officeChangesThreshold: count.default(3),
+      })
+      .strict(),
+    evaluate: checkF13FrequentRebranding,
+  }),
+  defineRule({
+    id: 'F14',
+    version: '1.0.0',
+    severity: FlagSeverity.MEDIUM,
+    enabled: true,
+    description: 'Registered office address is in dispute',
+    params: noParams,
+    evaluate: (input) => checkF14RegisteredOfficeInDispute(input),
+  }),
+  defineRule({
+    id: 'F15',
+    version: '1.0.0',
+    severity: FlagSeverity.MEDIUM,
+    enabled: true,
+    description: 'Registered office address is undeliverable',
+    params: noParams,
+    evaluate: (input) => checkF15UndeliverableRegisteredOffice(input),
+  }),
+  defineRule({
+    id: 'F16',
+    version: '1.0.0',
+    severity: FlagSeverity.HIGH,
+    enabled: true,
+    description: 'Company status detail, such as a proposal to strike off',
+    params: noParams,
+    evaluate: (input) => checkF16CompanyStatusDetail(input),
+  }),
+];
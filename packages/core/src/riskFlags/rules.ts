@@ -1,12 +1,29 @@
 /**
- * Risk flag rules F1-F7.
+ * Risk flag rules F1-F16.
  * Each rule returns a RiskFlag if the condition is met, undefined otherwise.
  *
  * PRD 7 - Risk flags engine (explicit rules)
  */
 
-import { FlagSeverity, type RiskFlag } from '../dossier/connector-types';
-import type { RiskFlagsInput, OfficerChangesConfig } from './types';
+import {
+  FlagSeverity,
+  type RiskFlag,
+  type InsolvencyCase,
+  type OwnershipNode,
+  type Officer,
+  type OfficerAppointmentSummary,
+  type MatchConfidence,
+} from '../dossier/connector-types';
+import type {
+  RiskFlagsInput,
+  OfficerChangesConfig,
+  ChargesConfig,
+  InsolvencyConfig,
+  OwnershipConfig,
+  SerialDirectorConfig,
+  DisqualificationConfig,
+  RebrandingConfig,
+} from './types';
 
 /**
  * F1: Company status is not active.
@@ -80,13 +97,149 @@ export function checkF3ConfirmationStatementOverdue(input: RiskFlagsInput): Risk
   return undefined;
 }
 
+/**
+ * Insolvency case date types that mark a case as finished.
+ */
+const INSOLVENCY_END_DATE_TYPES = new Set([
+  'administration-discharged-on',
+  'administration-ended-on',
+  'case-end-on',
+  'concluded-winding-up-on',
+  'dissolved-on',
+  'moratorium-ended-on',
+  'voluntary-arrangement-ended-on',
+]);
+
+/**
+ * Insolvency case types for solvent wind-ups (creditors are paid in full).
+ */
+const SOLVENT_INSOLVENCY_CASE_TYPES = new Set(['members-voluntary-liquidation']);
+
+const SEVERITY_RANK: Record<FlagSeverity, number> = {
+  [FlagSeverity.HIGH]: 3,
+  [FlagSeverity.MEDIUM]: 2,
+  [FlagSeverity.LOW]: 1,
+  [FlagSeverity.INFO]: 0,
+};
+
+interface InsolvencyCaseAssessment {
+  insolvencyCase: InsolvencyCase;
+  severity: FlagSeverity;
+  ended: boolean;
+  solvent: boolean;
+  startedOn?: string;
+  endedOn?: string;
+}
+
+/**
+ * Assess a single insolvency case by type and recency.
+ * - Live insolvent case (e.g. administration, CVL): HIGH
+ * - Live members' voluntary liquidation: MEDIUM
+ * - Concluded insolvent case within the recent window: MEDIUM
+ * - Anything older, or a concluded solvent wind-up: LOW
+ */
+function assessInsolvencyCase(
+  insolvencyCase: InsolvencyCase,
+  recentSince: Date
+): InsolvencyCaseAssessment {
+  const { dates } = insolvencyCase;
+  const endDate = dates.filter((d) => INSOLVENCY_END_DATE_TYPES.has(d.type)).pop();
+  const startDate = dates.find((d) => !INSOLVENCY_END_DATE_TYPES.has(d.type));
+  const ended = endDate !== undefined;
+  const solvent = SOLVENT_INSOLVENCY_CASE_TYPES.has(insolvencyCase.type);
+  const latestDate = dates[dates.length - 1]?.date;
+
+  let severity: FlagSeverity;
+  if (!ended) {
+    severity = solvent ? FlagSeverity.MEDIUM : FlagSeverity.HIGH;
+  } else if (!solvent && latestDate && new Date(latestDate) >= recentSince) {
+    severity = FlagSeverity.MEDIUM;
+  } else {
+    severity = FlagSeverity.LOW;
+  }
+
+  return {
+    insolvencyCase,
+    severity,
+    ended,
+    solvent,
+    startedOn: startDate?.date,
+    endedOn: endDate?.date,
+  };
+}
+
+/**
+ * Build the F4 explanation for the most significant insolvency case.
+ */
+function describeInsolvencyCase(
+  assessment: InsolvencyCaseAssessment,
+  totalCases: number,
+  recentYears: number
+): string {
+  const { insolvencyCase, ended, solvent, startedOn, endedOn, severity } = assessment;
+  const caseType = insolvencyCase.type.replace(/-/g, ' ');
+  const started = startedOn ? ` started ${startedOn}` : '';
+  const concluded = ended && endedOn ? ` and concluded ${endedOn}` : '';
+  const practitioners = insolvencyCase.practitioners
+    .filter((p) => !p.ceasedToActOn)
+    .map((p) => p.name);
+  const practitionerInfo =
+    practitioners.length > 0 ? ` Acting practitioner(s): ${practitioners.join(', ')}.` : '';
+  const otherCases =
+    totalCases > 1 ? ` The company has ${totalCases} insolvency cases on record.` : '';
+
+  let assessmentText: string;
+  if (!ended) {
+    assessmentText = solvent
+      ? 'This is a solvent wind-up, but the company is ceasing to trade.'
+      : 'This indicates significant financial distress.';
+  } else if (severity === FlagSeverity.MEDIUM) {
+    assessmentText = `The case concluded within the last ${recentYears} years.`;
+  } else {
+    assessmentText = solvent
+      ? 'This was a solvent wind-up.'
+      : `The case concluded more than ${recentYears} years ago.`;
+  }
+
+  return `${ended ? 'Concluded' : 'Live'} ${caseType} (case ${insolvencyCase.caseNumber})${started}${concluded}. ${assessmentText}${practitionerInfo}${otherCases}`;
+}
+
 /**
  * F4: Insolvency indicator present.
- * Checks has_insolvency_history and has_been_liquidated flags.
+ * When insolvency case details are available, severity and explanation depend
+ * on the case type and recency. Otherwise falls back to the profile's
+ * has_insolvency_history and has_been_liquidated flags.
+ *
+ * @param config - Optional configuration for the recency window
  */
-export function checkF4InsolvencyIndicator(input: RiskFlagsInput): RiskFlag | undefined {
+export function checkF4InsolvencyIndicator(
+  input: RiskFlagsInput,
+  config: InsolvencyConfig = { recentYears: 6 }
+): RiskFlag | undefined {
   const { profile } = input.rawInput;
   const profileEvidence = input.rawInput.evidence.profile;
+  const insolvencyEvidence = input.rawInput.evidence.insolvency;
+  const { insolvencyCases } = input.dossier;
+
+  if (insolvencyCases.length > 0) {
+    const recentSince = subtractMonths(input.referenceDate, config.recentYears * 12);
+    const assessments = insolvencyCases.map((c) => assessInsolvencyCase(c, recentSince));
+
+    // Most severe case wins; ties go to the most recently started case
+    const [worst] = [...assessments].sort(
+      (a, b) =>
+        SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+        (b.startedOn || '').localeCompare(a.startedOn || '')
+    );
+
+    return {
+      id: 'F4',
+      title: 'Insolvency indicator',
+      severity: worst.severity,
+      explanation: describeInsolvencyCase(worst, insolvencyCases.length, config.recentYears),
+      evidenceUrl: insolvencyEvidence?.publicUrl ?? profileEvidence.publicUrl,
+    };
+  }
 
   const hasInsolvencyHistory = profile.has_insolvency_history === true;
   const hasBeenLiquidated = profile.has_been_liquidated === true;
@@ -109,36 +262,111 @@ export function checkF4InsolvencyIndicator(input: RiskFlagsInput): RiskFlag | un
 }
 
 /**
- * F5: PSC missing with no valid statement.
- * Flags when there are no active PSCs and no valid exemption statement.
+ * Statements declaring that no registrable person or entity controls the company.
+ */
+const NO_PSC_STATEMENTS = new Set([
+  'no-individual-or-entity-with-significant-control',
+  // Companies House's own spelling of the statement type
+  'no-individual-or-entity-with-signficant-control',
+]);
+
+/**
+ * Statements admitting that a registrable person exists but has not been
+ * identified, or has not confirmed their details.
+ */
+const UNIDENTIFIED_PSC_STATEMENTS = new Set([
+  'steps-to-find-psc-not-yet-completed',
+  'psc-exists-but-not-identified',
+  'psc-details-not-confirmed',
+  'psc-contacted-but-no-response',
+  'restrictions-notice-issued-to-psc',
+  'psc-has-failed-to-confirm-changed-details',
+]);
+
+/**
+ * Statement type without the variant suffix used by limited liability partnerships.
+ */
+function statementType(statement: string): string {
+  return statement.replace(/-partnership$/, '');
+}
+
+/**
+ * F5: PSC missing or not identified.
+ * A company must have at least one active PSC, or have filed a statement
+ * explaining why. When the statements were fetched, three cases are told apart:
+ * - no active PSC and no statement at all (HIGH)
+ * - no active PSC and every statement has ceased (HIGH)
+ * - an active statement says a PSC exists but is not identified, has not
+ *   confirmed their details or that steps to find them are ongoing (MEDIUM)
+ * A current statement that no registrable person exists is accepted.
  *
- * A company must have at least one active PSC, or have filed a valid
- * statement explaining why (e.g., PSC details not confirmed, steps being taken).
+ * Without fetched statements, falls back to whether the PSC register links to any.
  */
 export function checkF5PSCMissing(input: RiskFlagsInput): RiskFlag | undefined {
-  const { pscs } = input.dossier;
+  const { pscs, pscStatements } = input.dossier;
   const { pscs: rawPscs } = input.rawInput;
   const pscsEvidence = input.rawInput.evidence.pscs;
+  const statementsEvidence = input.rawInput.evidence.pscStatements ?? pscsEvidence;
 
   // Check if there are any active PSCs (not ceased)
   const activePSCs = pscs.filter((psc) => !psc.ceasedOn);
 
-  // Check if there's a valid PSC statement link in the raw data
-  const hasStatementsLink = !!rawPscs.links.persons_with_significant_control_statements;
+  const missing: RiskFlag = {
+    id: 'F5',
+    title: 'PSC missing',
+    severity: FlagSeverity.HIGH,
+    explanation:
+      'The company has no active Persons with Significant Control (PSCs) and no valid statement explaining why. This is a legal requirement.',
+    evidenceUrl: pscsEvidence.publicUrl,
+  };
+
+  if (!pscStatements) {
+    // Statements were not fetched: rely on the statements link in the raw data
+    const hasStatementsLink = !!rawPscs.links.persons_with_significant_control_statements;
+    return activePSCs.length === 0 && !hasStatementsLink ? missing : undefined;
+  }
+
+  const activeStatements = pscStatements.filter((statement) => !statement.ceasedOn);
 
-  // If no active PSCs and no statements link, flag it
-  if (activePSCs.length === 0 && !hasStatementsLink) {
+  const unidentified = activeStatements.filter((statement) =>
+    UNIDENTIFIED_PSC_STATEMENTS.has(statementType(statement.statement))
+  );
+  if (unidentified.length > 0) {
+    const types = [...new Set(unidentified.map((statement) => `"${statement.statement}"`))];
     return {
       id: 'F5',
-      title: 'PSC missing',
+      title: 'PSC not identified',
+      severity: FlagSeverity.MEDIUM,
+      explanation: `The company has filed PSC statement(s) ${types.join(', ')}: someone with significant control exists but has not been identified or has not confirmed their details. Ownership cannot be verified from the register.`,
+      evidenceUrl: statementsEvidence.publicUrl,
+    };
+  }
+
+  if (activePSCs.length > 0) {
+    return undefined;
+  }
+
+  if (
+    activeStatements.some((statement) => NO_PSC_STATEMENTS.has(statementType(statement.statement)))
+  ) {
+    return undefined;
+  }
+
+  if (activeStatements.length === 0 && pscStatements.length > 0) {
+    const lastCeased = pscStatements
+      .map((statement) => statement.ceasedOn || '')
+      .sort()
+      .pop();
+    return {
+      id: 'F5',
+      title: 'PSC statement ceased',
       severity: FlagSeverity.HIGH,
-      explanation:
-        'The company has no active Persons with Significant Control (PSCs) and no valid statement explaining why. This is a legal requirement.',
-      evidenceUrl: pscsEvidence.publicUrl,
+      explanation: `The company has no active Persons with Significant Control (PSCs) and its PSC statement(s) ceased (most recently on ${lastCeased}) without a PSC or new statement replacing them. This is a legal requirement.`,
+      evidenceUrl: statementsEvidence.publicUrl,
     };
   }
 
-  return undefined;
+  return activeStatements.length === 0 ? missing : undefined;
 }
 
 /**
@@ -230,3 +458,511 @@ export function checkF7ModernSlaveryMissing(input: RiskFlagsInput): RiskFlag | u
 
   return undefined;
 }
+
+/**
+ * Charge statuses that still secure debt against the company.
+ */
+const OUTSTANDING_CHARGE_STATUSES = new Set(['outstanding', 'part-satisfied']);
+
+/**
+ * F8: Outstanding charges recently created or numerous.
+ * Flags companies where secured lenders have recently registered a charge
+ * (HIGH) or where many charges remain outstanding (MEDIUM).
+ *
+ * @param config - Optional configuration for lookback period and threshold
+ */
+export function checkF8OutstandingCharges(
+  input: RiskFlagsInput,
+  config: ChargesConfig = { lookbackMonths: 12, outstandingThreshold: 3 }
+): RiskFlag | undefined {
+  const { charges } = input.dossier;
+  const chargesEvidence = input.rawInput.evidence.charges;
+
+  const outstanding = charges.filter((charge) => OUTSTANDING_CHARGE_STATUSES.has(charge.status));
+  if (outstanding.length === 0) {
+    return undefined;
+  }
+
+  const windowEnd = new Date(input.referenceDate);
+  const windowStart = subtractMonths(input.referenceDate, config.lookbackMonths);
+  const recent = outstanding.filter(
+    (charge) => charge.createdOn && isWithinWindow(charge.createdOn, windowStart, windowEnd)
+  );
+
+  if (recent.length > 0) {
+    const lenders = [...new Set(recent.flatMap((charge) => charge.personsEntitled))];
+    const lenderInfo = lenders.length > 0 ? ` in favour of ${lenders.join(', ')}` : '';
+    const floating = recent.some((charge) => charge.containsFloatingCharge)
+      ? ' including a floating charge'
+      : '';
+
+    return {
+      id: 'F8',
+      title: 'Recent outstanding charge',
+      severity: FlagSeverity.HIGH,
+      explanation: `${recent.length} outstanding charge(s) created in the last ${config.lookbackMonths} months${lenderInfo}${floating}. New secured lending can be an early sign of financial distress.`,
+      evidenceUrl: chargesEvidence?.publicUrl,
+    };
+  }
+
+  if (outstanding.length >= config.outstandingThreshold) {
+    return {
+      id: 'F8',
+      title: 'Multiple outstanding charges',
+      severity: FlagSeverity.MEDIUM,
+      explanation: `${outstanding.length} charges are outstanding against the company. Heavily secured lending limits what unsecured creditors could recover.`,
+      evidenceUrl: chargesEvidence?.publicUrl,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Jurisdictions with no public register of beneficial ownership.
+ * Matched as substrings, so 'virgin islands' also covers 'British Virgin Islands'.
+ */
+export const DEFAULT_OPAQUE_JURISDICTIONS = [
+  'anguilla',
+  'bahamas',
+  'belize',
+  'bermuda',
+  'cayman islands',
+  'cook islands',
+  'marshall islands',
+  'nevis',
+  'panama',
+  'samoa',
+  'seychelles',
+  'turks and caicos',
+  'vanuatu',
+  'virgin islands',
+];
+
+/**
+ * An owner registered outside the UK, with the company whose register lists it.
+ */
+interface OverseasOwner {
+  node: OwnershipNode;
+  listedBy?: string;
+}
+
+/**
+ * Collect every owner at which the chain leaves the UK register, in tree order.
+ */
+function findOverseasOwners(nodes: OwnershipNode[], listedBy?: string): OverseasOwner[] {
+  return nodes.flatMap((node) => [
+    ...(node.termination === 'overseas' ? [{ node, listedBy }] : []),
+    ...findOverseasOwners(node.owners, node.companyNumber),
+  ]);
+}
+
+function describeJurisdiction(node: OwnershipNode): string {
+  return node.countryRegistered || node.placeRegistered || 'unknown jurisdiction';
+}
+
+/**
+ * F9: Ownership chain leaves the UK register.
+ * Flags companies whose corporate ownership chain ends at an owner registered
+ * overseas (MEDIUM), or in a secrecy jurisdiction (HIGH), so the ultimate
+ * beneficial owners cannot be confirmed from Companies House.
+ *
+ * @param config - Optional configuration for the secrecy jurisdiction list
+ */
+export function checkF9OverseasOwnership(
+  input: RiskFlagsInput,
+  config: OwnershipConfig = { opaqueJurisdictions: DEFAULT_OPAQUE_JURISDICTIONS }
+): RiskFlag | undefined {
+  const { ownership } = input.dossier;
+  if (!ownership) {
+    return undefined;
+  }
+
+  const overseas = findOverseasOwners(ownership.owners);
+  if (overseas.length === 0) {
+    return undefined;
+  }
+
+  const jurisdictions = config.opaqueJurisdictions.map((j) => j.toLowerCase());
+  const isOpaque = ({ node }: OverseasOwner) => {
+    const registered = describeJurisdiction(node).toLowerCase();
+    return jurisdictions.some((j) => registered.includes(j));
+  };
+  const opaque = overseas.filter(isOpaque);
+  const [first] = opaque.length > 0 ? opaque : overseas;
+
+  // Link to the register that lists the owner: the company's own, or a corporate owner's
+  const registerEvidence = first.listedBy
+    ? input.rawInput.evidence.ownership?.find((e) =>
+        e.apiUrl.endsWith(`/company/${first.listedBy}/persons-with-significant-control`)
+      )
+    : undefined;
+  const evidenceUrl = (registerEvidence ?? input.rawInput.evidence.pscs).publicUrl;
+
+  const owners = overseas
+    .map(({ node }) => `${node.name} (${describeJurisdiction(node)})`)
+    .join(', ');
+
+  if (opaque.length > 0) {
+    return {
+      id: 'F9',
+      title: 'Ownership chain ends in a secrecy jurisdiction',
+      severity: FlagSeverity.HIGH,
+      explanation: `The ownership chain leaves the UK register at ${owners}. ${opaque.length} of these owner(s) are registered where beneficial ownership is not publicly disclosed, so the ultimate owners cannot be verified.`,
+      evidenceUrl,
+    };
+  }
+
+  return {
+    id: 'F9',
+    title: 'Ownership chain leaves the UK register',
+    severity: FlagSeverity.MEDIUM,
+    explanation: `The ownership chain leaves the UK register at ${owners}. Owners above this point cannot be verified from Companies House.`,
+    evidenceUrl,
+  };
+}
+
+const DEFAULT_SERIAL_DIRECTOR_CONFIG: SerialDirectorConfig = {
+  failedCompaniesThreshold: 3,
+  insolventCompaniesThreshold: 2,
+  recentAppointmentsThreshold: 5,
+};
+
+type OfficerWithHistory = Officer & { appointments: OfficerAppointmentSummary };
+
+/**
+ * Active officers whose appointment history was looked up.
+ */
+function officersWithHistory(input: RiskFlagsInput): OfficerWithHistory[] {
+  return input.dossier.officers.filter(
+    (officer): officer is OfficerWithHistory =>
+      !officer.resignedOn && officer.appointments !== undefined
+  );
+}
+
+/**
+ * Public URL of a director's appointment list, falling back to the officers list.
+ */
+function appointmentsEvidenceUrl(input: RiskFlagsInput, officer: Officer): string | undefined {
+  const evidence = officer.officerId
+    ? input.rawInput.evidence.officerAppointments?.find((e) =>
+        e.apiUrl.endsWith(`/officers/${officer.officerId}/appointments`)
+      )
+    : undefined;
+  return (evidence ?? input.rawInput.evidence.officers).publicUrl;
+}
+
+/**
+ * F10: Director linked to many failed companies.
+ * Flags active directors whose other appointments include many companies that
+ * went into an insolvency process (HIGH) or were dissolved (MEDIUM), the
+ * pattern left behind by phoenix trading.
+ *
+ * @param config - Optional configuration for the thresholds
+ */
+export function checkF10DirectorFailedCompanies(
+  input: RiskFlagsInput,
+  config: SerialDirectorConfig = DEFAULT_SERIAL_DIRECTOR_CONFIG
+): RiskFlag | undefined {
+  const assessed = officersWithHistory(input)
+    .map((officer) => {
+      const { dissolved, liquidated } = officer.appointments;
+      const severity =
+        liquidated >= config.insolventCompaniesThreshold
+          ? FlagSeverity.HIGH
+          : dissolved + liquidated >= config.failedCompaniesThreshold
+            ? FlagSeverity.MEDIUM
+            : undefined;
+      return { officer, severity, failed: dissolved + liquidated };
+    })
+    .filter((a): a is typeof a & { severity: FlagSeverity } => a.severity !== undefined);
+
+  if (assessed.length === 0) {
+    return undefined;
+  }
+
+  // Most severe director first; ties go to the one with the most failed companies
+  assessed.sort(
+    (a, b) =>
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+      b.failed - a.failed ||
+      a.officer.name.localeCompare(b.officer.name)
+  );
+  const [worst] = assessed;
+
+  const directors = assessed
+    .map(({ officer }) => {
+      const { dissolved, liquidated, failedCompanies } = officer.appointments;
+      const names = failedCompanies.map((c) => c.companyName || c.companyNumber).join(', ');
+      return `${officer.name} (${dissolved} dissolved, ${liquidated} insolvent: ${names})`;
+    })
+    .join('; ');
+
+  return {
+    id: 'F10',
+    title: 'Director linked to failed companies',
+    severity: worst.severity,
+    explanation: `${assessed.length} active director(s) have been officers of several companies that were later dissolved or became insolvent: ${directors}. Repeated failures under the same director can indicate phoenix trading.`,
+    evidenceUrl: appointmentsEvidenceUrl(input, worst.officer),
+  };
+}
+
+/**
+ * F11: Director with many recent appointments.
+ * Flags active directors who took on many new appointments in the 12 months
+ * before the dossier was generated, typical of nominee and serial directors.
+ *
+ * @param config - Optional configuration for the threshold
+ */
+export function checkF11DirectorRecentAppointments(
+  input: RiskFlagsInput,
+  config: SerialDirectorConfig = DEFAULT_SERIAL_DIRECTOR_CONFIG
+): RiskFlag | undefined {
+  const busy = officersWithHistory(input)
+    .filter((officer) => officer.appointments.recent >= config.recentAppointmentsThreshold)
+    .sort((a, b) => b.appointments.recent - a.appointments.recent || a.name.localeCompare(b.name));
+
+  if (busy.length === 0) {
+    return undefined;
+  }
+
+  const directors = busy
+    .map((officer) => `${officer.name} (${officer.appointments.recent})`)
+    .join(', ');
+
+  return {
+    id: 'F11',
+    title: 'Director with many recent appointments',
+    severity: FlagSeverity.MEDIUM,
+    explanation: `Active director(s) took on many new appointments in the last 12 months: ${directors}. Large numbers of simultaneous appointments are typical of nominee or serial directors.`,
+    evidenceUrl: appointmentsEvidenceUrl(input, busy[0]),
+  };
+}
+
+const DEFAULT_DISQUALIFICATION_CONFIG: DisqualificationConfig = {
+  minimumConfidence: 'medium',
+};
+
+const CONFIDENCE_RANK: Record<MatchConfidence, number> = {
+  high: 2,
+  medium: 1,
+  low: 0,
+};
+
+/**
+ * F12: Current officer matches a disqualified director.
+ * Flags current officers matched on the register of disqualified directors
+ * whose disqualification is in force on the reference date. Matches below the
+ * configured confidence are shown in the dossier but not flagged.
+ *
+ * @param config - Optional configuration for the confidence threshold
+ */
+export function checkF12DisqualifiedOfficer(
+  input: RiskFlagsInput,
+  config: DisqualificationConfig = DEFAULT_DISQUALIFICATION_CONFIG
+): RiskFlag | undefined {
+  const referenceDate = input.referenceDate.slice(0, 10);
+
+  const inForce = (input.dossier.disqualifiedOfficers || [])
+    .filter(
+      (match) => CONFIDENCE_RANK[match.confidence] >= CONFIDENCE_RANK[config.minimumConfidence]
+    )
+    .map((match) => ({
+      match,
+      disqualifications: match.disqualifications.filter(
+        (d) => d.from <= referenceDate && d.until >= referenceDate
+      ),
+    }))
+    .filter(({ disqualifications }) => disqualifications.length > 0)
+    .sort((a, b) => CONFIDENCE_RANK[b.match.confidence] - CONFIDENCE_RANK[a.match.confidence]);
+
+  if (inForce.length === 0) {
+    return undefined;
+  }
+
+  const details = inForce
+    .map(({ match, disqualifications }) => {
+      const periods = disqualifications
+        .map((d) => `disqualified from ${d.from} until ${d.until} under ${d.reason}`)
+        .join('; ');
+      return `${match.officerName} matches ${match.disqualifiedName} (${match.confidence} confidence): ${periods}`;
+    })
+    .join('. ');
+
+  const [strongest] = inForce;
+  const recordEvidence = input.rawInput.evidence.disqualifiedOfficers?.find((e) =>
+    e.apiUrl.endsWith(`/disqualified-officers/natural/${strongest.match.disqualifiedOfficerId}`)
+  );
+
+  return {
+    id: 'F12',
+    title: 'Officer matches a disqualified director',
+    severity: FlagSeverity.HIGH,
+    explanation: `${details}. A disqualified person must not act as a director or be involved in managing a company.`,
+    evidenceUrl: (recordEvidence ?? input.rawInput.evidence.officers).publicUrl,
+  };
+}
+
+const DEFAULT_REBRANDING_CONFIG: RebrandingConfig = {
+  lookbackMonths: 24,
+  nameChangesThreshold: 2,
+  officeChangesThreshold: 3,
+};
+
+/**
+ * F13: Repeated name or registered office changes.
+ * Flags companies renamed or moved several times within the lookback window;
+ * repeated rebranding can be used to shed a poor trading history.
+ * Office moves are only counted when the address filings were fetched.
+ *
+ * @param config - Optional configuration for lookback period and thresholds
+ */
+export function checkF13FrequentRebranding(
+  input: RiskFlagsInput,
+  config: RebrandingConfig = DEFAULT_REBRANDING_CONFIG
+): RiskFlag | undefined {
+  const { company, registeredOfficeHistory } = input.dossier;
+
+  const windowEnd = new Date(input.referenceDate);
+  const windowStart = subtractMonths(input.referenceDate, config.lookbackMonths);
+
+  const nameChanges = (company.previousNames || []).filter(
+    (previous) => previous.ceasedOn && isWithinWindow(previous.ceasedOn, windowStart, windowEnd)
+  );
+  const officeChanges = (registeredOfficeHistory || []).filter((change) =>
+    isWithinWindow(change.date, windowStart, windowEnd)
+  );
+
+  const manyNames = nameChanges.length >= config.nameChangesThreshold;
+  const manyOffices = officeChanges.length >= config.officeChangesThreshold;
+  if (!manyNames && !manyOffices) {
+    return undefined;
+  }
+
+  const details: string[] = [];
+  if (nameChanges.length > 0) {
+    const names = nameChanges.map((previous) => `"${previous.name}" until ${previous.ceasedOn}`);
+    details.push(`${nameChanges.length} name change(s) (previously ${names.join(', ')})`);
+  }
+  if (officeChanges.length > 0) {
+    details.push(`${officeChanges.length} registered office change(s)`);
+  }
+
+  const evidence = manyNames
+    ? input.rawInput.evidence.profile
+    : (input.rawInput.evidence.addressFilings ?? input.rawInput.evidence.profile);
+
+  return {
+    id: 'F13',
+    title: 'Frequent name or office changes',
+    severity: FlagSeverity.MEDIUM,
+    explanation: `${details.join(' and ')} in the last ${config.lookbackMonths} months. Repeated rebranding or relocation can be used to distance a business from its trading history.`,
+    evidenceUrl: evidence.publicUrl,
+  };
+}
+
+/**
+ * F14: Registered office address is in dispute.
+ * Companies House marks the address when someone has applied to have it
+ * removed from the register, e.g. because the company has no right to use it.
+ */
+export function checkF14RegisteredOfficeInDispute(input: RiskFlagsInput): RiskFlag | undefined {
+  const { profile } = input.rawInput;
+  const profileEvidence = input.rawInput.evidence.profile;
+
+  if (profile.registered_office_is_in_dispute === true) {
+    return {
+      id: 'F14',
+      title: 'Registered office in dispute',
+      severity: FlagSeverity.MEDIUM,
+      explanation:
+        'The registered office address is in dispute at Companies House. The company may not be entitled to use it, and correspondence sent there may not reach it.',
+      evidenceUrl: profileEvidence.publicUrl,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * F15: Registered office address is undeliverable.
+ * Set by Companies House when post sent to the registered office is returned.
+ */
+export function checkF15UndeliverableRegisteredOffice(input: RiskFlagsInput): RiskFlag | undefined {
+  const { profile } = input.rawInput;
+  const profileEvidence = input.rawInput.evidence.profile;
+
+  if (profile.undeliverable_registered_office_address === true) {
+    return {
+      id: 'F15',
+      title: 'Registered office undeliverable',
+      severity: FlagSeverity.MEDIUM,
+      explanation:
+        'Companies House has marked the registered office address as undeliverable. Post sent there is being returned, so the company may not receive legal notices.',
+      evidenceUrl: profileEvidence.publicUrl,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Severity and description for each company status detail.
+ * Details not listed here are reported at LOW severity.
+ */
+const STATUS_DETAILS: Record<string, { severity: FlagSeverity; description: string }> = {
+  'active-proposal-to-strike-off': {
+    severity: FlagSeverity.HIGH,
+    description:
+      'There is an active proposal to strike the company off the register. It may be dissolved within months unless an objection is made.',
+  },
+  'petition-to-restore-dissolved': {
+    severity: FlagSeverity.MEDIUM,
+    description:
+      'The company was dissolved and a petition has been made to restore it to the register.',
+  },
+  'transferred-from-uk': {
+    severity: FlagSeverity.MEDIUM,
+    description: 'The company has transferred its registration out of the UK.',
+  },
+  'converted-to-plc': {
+    severity: FlagSeverity.INFO,
+    description: 'The company has converted to a public limited company.',
+  },
+  'converted-to-uk-societas': {
+    severity: FlagSeverity.LOW,
+    description: 'The company has converted to a UK Societas.',
+  },
+  'converted-to-ukeig': {
+    severity: FlagSeverity.LOW,
+    description: 'The company has converted to a UK Economic Interest Grouping.',
+  },
+  'transformed-to-se': {
+    severity: FlagSeverity.LOW,
+    description: 'The company has transformed into a European public limited-liability company.',
+  },
+};
+
+/**
+ * F16: Company status detail needs attention.
+ * The status detail qualifies the main status, e.g. an "active" company with
+ * an active proposal to strike off.
+ */
+export function checkF16CompanyStatusDetail(input: RiskFlagsInput): RiskFlag | undefined {
+  const detail = input.rawInput.profile.company_status_detail;
+  const profileEvidence = input.rawInput.evidence.profile;
+
+  if (!detail) {
+    return undefined;
+  }
+
+  const known = STATUS_DETAILS[detail];
+
+  return {
+    id: 'F16',
+    title: 'Company status detail',
+    severity: known?.severity ?? FlagSeverity.LOW,
+    explanation: `Company status detail is "${detail}". ${known?.description ?? 'Check the register for what this means for the company.'}`,
+    evidenceUrl: profileEvidence.publicUrl,
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Aggregate risk score - an optional layer on top of the explicit flags.
+ *
+ * Each flag is worth a number of points (by severity, or per flag ID), points
+ * from one severity can be capped, and the total is capped and mapped to a
+ * GREEN / AMBER / RED band. The flags themselves are unchanged; the score only
+ * summarises them for triage, with a breakdown showing where it came from.
+ * Waived flags are accepted risks and do not count towards the score.
+ */
+
+import { z } from 'zod';
+import { FlagSeverity, type RiskFlag } from '../dossier/connector-types';
+import type { RiskBand, RiskScore, RiskScoreContribution, RiskScoringConfig } from './types';
+
+const points = z.number().nonnegative();
+
+/**
+ * Upper-case the keys of a severity-keyed object, so policies may write `high:` or `HIGH:`.
+ */
+function severityKeys(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => [key.toUpperCase(), v]));
+}
+
+/**
+ * Schema for scoring settings in a risk policy. Every field has a default.
+ */
+export const riskScoringSchema: z.ZodType<RiskScoringConfig, z.ZodTypeDef, unknown> = z
+  .object({
+    severityWeights: z.preprocess(
+      severityKeys,
+      z
+        .object({
+          [FlagSeverity.HIGH]: points.default(40),
+          [FlagSeverity.MEDIUM]: points.default(15),
+          [FlagSeverity.LOW]: points.default(5),
+          [FlagSeverity.INFO]: points.default(0),
+        })
+        .strict()
+        .default({})
+    ),
+    flagWeights: z.record(points).default({}),
+    severityCaps: z.preprocess(
+      severityKeys,
+      z
+        .object({
+          [FlagSeverity.HIGH]: points.optional(),
+          [FlagSeverity.MEDIUM]: points.optional(),
+          [FlagSeverity.LOW]: points.optional(),
+          [FlagSeverity.INFO]: points.optional(),
+        })
+        .strict()
+        .default({})
+    ),
+    maxScore: z.number().positive().default(100),
+    bands: z
+      .object({ amber: points.default(15), red: points.default(40) })
+      .strict()
+      .default({})
+      .refine((bands) => bands.amber <= bands.red, 'amber must not be above red'),
+  })
+  .strict();
+
+/**
+ * Default scoring: any HIGH flag rates RED, any MEDIUM flag AMBER.
+ */
+export const DEFAULT_RISK_SCORING: RiskScoringConfig = riskScoringSchema.parse({});
+
+/**
+ * Band for a score.
+ */
+function bandFor(score: number, bands: RiskScoringConfig['bands']): RiskBand {
+  if (score >= bands.red) return 'RED';
+  if (score >= bands.amber) return 'AMBER';
+  return 'GREEN';
+}
+
+/**
+ * Score a set of risk flags.
+ *
+ * Severity caps are filled by the heaviest flags first, so the breakdown shows
+ * which flags counted in full when a cap was reached.
+ *
+ * @param flags - Flags to score (usually `RiskFlagsResult.flags`)
+ * @param config - Weights, caps and band thresholds
+ * @returns Score, band and the flags that contributed
+ */
+export function scoreRiskFlags(
+  flags: RiskFlag[],
+  config: RiskScoringConfig = DEFAULT_RISK_SCORING
+): RiskScore {
+  const weighted = flags
+    .filter((flag) => !flag.waiver)
+    .map((flag) => ({
+      flag,
+      weight: config.flagWeights[flag.id] ?? config.severityWeights[flag.severity] ?? 0,
+    }))
+    .filter(({ weight }) => weight > 0)
+    .sort(
+      (a, b) =>
+        b.weight - a.weight || a.flag.id.localeCompare(b.flag.id, undefined, { numeric: true })
+    );
+
+  const used = new Map<FlagSeverity, number>();
+  const breakdown: RiskScoreContribution[] = weighted.map(({ flag, weight }) => {
+    const cap = config.severityCaps[flag.severity];
+    const spent = used.get(flag.severity) ?? 0;
+    const counted = cap === undefined ? weight : Math.max(0, Math.min(weight, cap - spent));
+    used.set(flag.severity, spent + counted);
+
+    return {
+      flagId: flag.id,
+      title: flag.title,
+      severity: flag.severity,
+      weight,
+      points: counted,
+    };
+  });
+
+  const total = breakdown.reduce((sum, contribution) => sum + contribution.points, 0);
+  const score = Math.min(total, config.maxScore);
+
+  return {
+    score,
+    maxScore: config.maxScore,
+    band: bandFor(score, config.bands),
+    breakdown,
+  };
+}
@@ -1,9 +1,16 @@
 /**
  * Types for the Risk Flags Engine.
- * Implements PRD 7 - explicit risk flag rules F1-F7.
+ * Implements PRD 7 - explicit risk flag rules F1-F16.
  */
 
-import type { Dossier, RiskFlag, FlagSeverity } from '../dossier/connector-types';
+import type { z } from 'zod';
+import type {
+  Dossier,
+  RiskFlag,
+  RiskFlagWaiver,
+  FlagSeverity,
+  MatchConfidence,
+} from '../dossier/connector-types';
 import type { DossierInput } from '../dossier/types';
 
 /**
@@ -26,6 +33,8 @@ export interface RiskFlagsInput {
 export interface RiskFlagsResult {
   /** Computed risk flags, sorted by ID */
   flags: RiskFlag[];
+  /** The policy the rules were run under */
+  policy: Pick<RiskPolicy, 'id' | 'version'>;
 }
 
 /**
@@ -35,9 +44,139 @@ export interface RiskFlagsResult {
 export type RiskFlagRule = (input: RiskFlagsInput) => RiskFlag | undefined;
 
 /**
- * Flag IDs for the 7 explicit rules.
+ * Flag IDs for the 16 built-in rules.
  */
-export type FlagId = 'F1' | 'F2' | 'F3' | 'F4' | 'F5' | 'F6' | 'F7';
+export type BuiltInFlagId =
+  | 'F1'
+  | 'F2'
+  | 'F3'
+  | 'F4'
+  | 'F5'
+  | 'F6'
+  | 'F7'
+  | 'F8'
+  | 'F9'
+  | 'F10'
+  | 'F11'
+  | 'F12'
+  | 'F13'
+  | 'F14'
+  | 'F15'
+  | 'F16';
+
+/**
+ * Flag IDs: the built-in rules plus any rules registered alongside them.
+ */
+export type FlagId = BuiltInFlagId | (string & {});
+
+/**
+ * A rule as declared in the registry, with typed parameters.
+ */
+export interface RiskRuleDefinition<P> {
+  id: FlagId;
+  /** Bumped whenever the rule's logic or default parameters change */
+  version: string;
+  /** Severity the rule raises; rules that grade their findings may raise lower ones */
+  severity: FlagSeverity;
+  /** Whether the rule runs when a policy does not mention it */
+  enabled: boolean;
+  description: string;
+  /** Parameter schema; every field has a default */
+  params: z.ZodType<P, z.ZodTypeDef, unknown>;
+  evaluate: (input: RiskFlagsInput, params: P) => RiskFlag | undefined;
+}
+
+/**
+ * A registered rule. Parameters from a policy are validated against
+ * `params` (filling in defaults) before the rule is evaluated.
+ */
+export interface RiskRule extends Omit<RiskRuleDefinition<unknown>, 'params' | 'evaluate'> {
+  params: z.ZodTypeAny;
+  evaluate: (input: RiskFlagsInput, params?: unknown) => RiskFlag | undefined;
+}
+
+/**
+ * How a policy runs a single rule. Anything left out falls back to the rule's own default.
+ */
+export interface RiskPolicyRule {
+  enabled?: boolean;
+  /** Severity every flag from this rule is raised at */
+  severity?: FlagSeverity;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * A risk policy: which rules run, at what severity and with which parameters.
+ */
+export interface RiskPolicy {
+  id: string;
+  version: string;
+  description?: string;
+  /** Rule settings keyed by flag ID */
+  rules: Record<string, RiskPolicyRule>;
+  /** Scoring settings; the default weights and bands apply when omitted */
+  scoring?: RiskScoringConfig;
+}
+
+/**
+ * A stored waiver for one flag on one company.
+ * It only applies while the flag's fingerprint (its explanation and evidence)
+ * is unchanged, and only under the policy it was recorded for.
+ */
+export interface RiskFlagWaiverRecord extends RiskFlagWaiver {
+  companyNumber: string;
+  flagId: string;
+  policyId: string;
+  /** Fingerprint of the flag as reviewed (see riskFlagFingerprint) */
+  fingerprint: string;
+  /** Set once the flag's evidence changed; a lapsed waiver never applies again */
+  lapsedAt?: string;
+}
+
+/**
+ * RAG rating band.
+ */
+export type RiskBand = 'GREEN' | 'AMBER' | 'RED';
+
+/**
+ * Configuration for the aggregate risk score.
+ */
+export interface RiskScoringConfig {
+  /** Points per flag by severity (default: HIGH 40, MEDIUM 15, LOW 5, INFO 0) */
+  severityWeights: Record<FlagSeverity, number>;
+  /** Points for specific flags, keyed by flag ID, instead of their severity weight */
+  flagWeights: Record<string, number>;
+  /** Most points all flags of one severity may contribute together */
+  severityCaps: Partial<Record<FlagSeverity, number>>;
+  /** Ceiling for the total score (default: 100) */
+  maxScore: number;
+  /** Lowest scores rated AMBER and RED (default: 15 and 40) */
+  bands: { amber: number; red: number };
+}
+
+/**
+ * Points one flag contributed to the score.
+ */
+export interface RiskScoreContribution {
+  flagId: string;
+  title: string;
+  severity: FlagSeverity;
+  /** Points before severity caps */
+  weight: number;
+  /** Points counted after severity caps */
+  points: number;
+}
+
+/**
+ * Aggregate risk score with its rating band and contributing flags.
+ */
+export interface RiskScore {
+  score: number;
+  maxScore: number;
+  band: RiskBand;
+  /** Flags that carry any weight, heaviest first */
+  breakdown: RiskScoreContribution[];
+}
 
 /**
  * Configuration for the officer changes rule (F6).
@@ -49,5 +188,63 @@ export interface OfficerChangesConfig {
   threshold: number;
 }
 
+/**
+ * Configuration for the insolvency indicator rule (F4).
+ */
+export interface InsolvencyConfig {
+  /** Years after a case concludes during which it is still treated as recent (default: 6) */
+  recentYears: number;
+}
+
+/**
+ * Configuration for the outstanding charges rule (F8).
+ */
+export interface ChargesConfig {
+  /** Number of months in which a newly created charge is considered recent (default: 12) */
+  lookbackMonths: number;
+  /** Number of outstanding charges that is flagged regardless of age (default: 3) */
+  outstandingThreshold: number;
+}
+
+/**
+ * Configuration for the overseas ownership rule (F9).
+ */
+export interface OwnershipConfig {
+  /** Secrecy jurisdictions, matched case-insensitively against where an owner is registered */
+  opaqueJurisdictions: string[];
+}
+
+/**
+ * Configuration for the serial director rules (F10, F11).
+ */
+export interface SerialDirectorConfig {
+  /** Other dissolved or insolvent companies per director that are flagged (default: 3) */
+  failedCompaniesThreshold: number;
+  /** Other insolvent companies per director that are flagged as HIGH (default: 2) */
+  insolventCompaniesThreshold: number;
+  /** Appointments per director in the last 12 months that are flagged (default: 5) */
+  recentAppointmentsThreshold: number;
+}
+
+/**
+ * Configuration for the disqualified officer rule (F12).
+ */
+export interface DisqualificationConfig {
+  /** Lowest match confidence that is flagged (default: 'medium') */
+  minimumConfidence: MatchConfidence;
+}
+
+/**
+ * Configuration for the rebranding rule (F13).
+ */
+export interface RebrandingConfig {
+  /** Number of months to look back (default: 24) */
+  lookbackMonths: number;
+  /** Name changes in the window that are flagged (default: 2) */
+  nameChangesThreshold: number;
+  /** Registered office changes in the window that are flagged (default: 3) */
+  officeChangesThreshold: number;
+}
+
 // Re-export types used by consumers
 export type { RiskFlag, FlagSeverity, Dossier, DossierInput };
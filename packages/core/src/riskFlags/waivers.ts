@@ -0,0 +1,110 @@
+/**
+ * Risk flag waivers - reviewer overrides for individual flags.
+ *
+ * A waiver records that a reviewer accepted a flag (e.g. F7 for a small
+ * company that does not have to publish a modern slavery statement). Waived
+ * flags stay on the dossier, annotated with the waiver, so reports can show
+ * them as accepted risks rather than hiding them.
+ *
+ * A waiver is bound to the flag's fingerprint as reviewed. If the flag is
+ * raised again with a different explanation or evidence, the waiver lapses
+ * and the flag is outstanding again until it is re-reviewed.
+ */
+
+import { createHash } from 'crypto';
+import type { RiskFlag } from '../dossier/connector-types';
+import type { RiskFlagWaiverRecord } from './types';
+
+/**
+ * Fingerprint of a flag's evidence: its ID, explanation and evidence URL.
+ *
+ * Severity is left out so a policy severity override does not lapse waivers.
+ */
+export function riskFlagFingerprint(flag: RiskFlag): string {
+  return createHash('sha256')
+    .update(JSON.stringify([flag.id, flag.explanation, flag.evidenceUrl ?? null]))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * Whether a waiver was recorded for this flag under the same policy.
+ */
+function isWaiverFor(waiver: RiskFlagWaiverRecord, flag: RiskFlag): boolean {
+  return (
+    waiver.flagId === flag.id && waiver.policyId === (flag.provenance?.policyId ?? waiver.policyId)
+  );
+}
+
+/**
+ * Whether a waiver is in force on a date.
+ *
+ * @param waiver - Stored waiver
+ * @param referenceDate - Date to check against (ISO date or timestamp)
+ */
+export function isWaiverActive(waiver: RiskFlagWaiverRecord, referenceDate: string): boolean {
+  return !waiver.lapsedAt && waiver.expiresOn >= referenceDate.substring(0, 10);
+}
+
+/**
+ * Annotate flags that have an active waiver matching their current evidence.
+ *
+ * @param flags - Computed risk flags
+ * @param waivers - Waivers recorded for the company
+ * @param referenceDate - Date used to check expiry
+ * @returns The same flags, with `waiver` set on those that are waived
+ */
+export function applyWaivers(
+  flags: RiskFlag[],
+  waivers: RiskFlagWaiverRecord[],
+  referenceDate: string
+): RiskFlag[] {
+  return flags.map((flag) => {
+    const fingerprint = riskFlagFingerprint(flag);
+    const waiver = waivers.find(
+      (candidate) =>
+        isWaiverFor(candidate, flag) &&
+        candidate.fingerprint === fingerprint &&
+        isWaiverActive(candidate, referenceDate)
+    );
+
+    if (!waiver) {
+      return flag;
+    }
+
+    return {
+      ...flag,
+      waiver: {
+        id: waiver.id,
+        reason: waiver.reason,
+        reviewer: waiver.reviewer,
+        createdAt: waiver.createdAt,
+        expiresOn: waiver.expiresOn,
+      },
+    };
+  });
+}
+
+/**
+ * Find waivers whose flag is still raised but on different evidence.
+ *
+ * Callers persist these as lapsed so they do not come back into force if the
+ * evidence later reverts. Waivers for flags that are no longer raised are left
+ * alone, since a flag can be absent simply because another policy disables it.
+ *
+ * @param flags - Computed risk flags
+ * @param waivers - Waivers recorded for the company
+ * @returns Waivers that should be marked as lapsed
+ */
+export function findLapsedWaivers(
+  flags: RiskFlag[],
+  waivers: RiskFlagWaiverRecord[]
+): RiskFlagWaiverRecord[] {
+  return waivers.filter((waiver) => {
+    if (waiver.lapsedAt) {
+      return false;
+    }
+    const flag = flags.find((candidate) => isWaiverFor(waiver, candidate));
+    return flag !== undefined && riskFlagFingerprint(flag) !== waiver.fingerprint;
+  });
+}
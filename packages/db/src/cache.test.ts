@@ -306,4 +306,118 @@ describe('Cache', () => {
       expect(fakeFetch).toHaveBeenCalledWith('https://api.example.com/data', headers);
     });
   });
+
+  describe('stale policies', () => {
+    const request = {
+      source: 'test',
+      request: 'stale',
+      url: 'https://example.com/stale',
+      ttlSeconds: 60,
+    };
+
+    const respond = (body: string, status = 200) => ({
+      status,
+      body: Buffer.from(body),
+      contentType: 'text/plain',
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should serve stale data and refresh in the background within stale-while-revalidate', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const fakeFetch = vi
+        .fn()
+        .mockResolvedValueOnce(respond('v1'))
+        .mockResolvedValueOnce(respond('v2'));
+      cache = createCache(fakeFetch, db, { staleWhileRevalidate: 30_000 });
+
+      await cache.getOrFetchRaw(request);
+      vi.setSystemTime(Date.now() + 70_000);
+
+      const stale = await cache.getOrFetchRaw(request);
+      expect(stale.body.toString()).toBe('v1');
+      expect(stale.hit).toBe(true);
+      expect(stale.stale).toBe(true);
+
+      await cache.settleRefreshes();
+      const refreshed = await cache.getOrFetchRaw(request);
+      expect(refreshed.body.toString()).toBe('v2');
+      expect(refreshed.stale).toBe(false);
+      expect(fakeFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve stale data when upstream throws within stale-if-error', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const fakeFetch = vi
+        .fn()
+        .mockResolvedValueOnce(respond('v1'))
+        .mockRejectedValueOnce(new Error('upstream down'));
+      cache = createCache(fakeFetch, db, { staleIfError: 3_600_000 });
+
+      await cache.getOrFetchRaw(request);
+      vi.setSystemTime(Date.now() + 600_000);
+
+      const result = await cache.getOrFetchRaw(request);
+      expect(result.body.toString()).toBe('v1');
+      expect(result.stale).toBe(true);
+    });
+
+    it('should serve stale data and keep the entry when upstream returns a 5xx', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const fakeFetch = vi
+        .fn()
+        .mockResolvedValueOnce(respond('v1'))
+        .mockResolvedValueOnce(respond('error', 503))
+        .mockResolvedValueOnce(respond('error', 503));
+      cache = createCache(fakeFetch, db, { staleIfError: 3_600_000 });
+
+      await cache.getOrFetchRaw(request);
+      vi.setSystemTime(Date.now() + 600_000);
+
+      expect((await cache.getOrFetchRaw(request)).body.toString()).toBe('v1');
+      expect((await cache.getOrFetchRaw(request)).body.toString()).toBe('v1');
+    });
+
+    it('should rethrow once the stale-if-error window has passed', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const fakeFetch = vi
+        .fn()
+        .mockResolvedValueOnce(respond('v1'))
+        .mockRejectedValueOnce(new Error('upstream down'));
+      cache = createCache(fakeFetch, db, { staleIfError: 60_000 });
+
+      await cache.getOrFetchRaw(request);
+      vi.setSystemTime(Date.now() + 200_000);
+
+      await expect(cache.getOrFetchRaw(request)).rejects.toThrow('upstream down');
+    });
+
+    it('should not serve stale data without a policy', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const fakeFetch = vi
+        .fn()
+        .mockResolvedValueOnce(respond('v1'))
+        .mockRejectedValueOnce(new Error('upstream down'));
+      cache = createCache(fakeFetch, db);
+
+      await cache.getOrFetchRaw(request);
+      vi.setSystemTime(Date.now() + 60_000);
+
+      await expect(cache.getOrFetchRaw(request)).rejects.toThrow('upstream down');
+    });
+
+    it('should keep entries within the stale window when cleaning expired entries', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      cache = createCache(async () => respond('v1'), db, { staleIfError: 120_000 });
+
+      await cache.getOrFetchRaw(request);
+      vi.setSystemTime(Date.now() + 90_000);
+      expect(cache.cleanExpired()).toBe(0);
+
+      vi.setSystemTime(Date.now() + 100_000);
+      expect(cache.cleanExpired()).toBe(1);
+    });
+  });
 });
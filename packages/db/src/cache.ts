@@ -17,6 +17,19 @@ export interface FetchResponse {
   contentType: string;
   cacheKey: string;
   hit: boolean;
+  /** True when an expired entry was served under the cache policy */
+  stale: boolean;
+}
+
+/**
+ * How long expired entries remain usable, in milliseconds past expiry.
+ * Expired entries are retained for the longer of the two windows.
+ */
+export interface CachePolicy {
+  /** Serve a stale entry immediately and refresh it in the background */
+  staleWhileRevalidate?: number;
+  /** Serve a stale entry when the upstream fetch fails or returns a 5xx */
+  staleIfError?: number;
 }
 
 export interface CacheEntry {
@@ -45,17 +58,32 @@ export function generateCacheKey(params: { source: string; request: string; url:
   return crypto.createHash('sha256').update(data).digest('hex');
 }
 
+/**
+ * How long past expiry an entry must be kept to honour a policy.
+ */
+export function staleRetentionMs(policy: CachePolicy | undefined): number {
+  return Math.max(policy?.staleWhileRevalidate ?? 0, policy?.staleIfError ?? 0);
+}
+
+function isWithinWindow(staleFor: number, windowMs: number | undefined): boolean {
+  return windowMs !== undefined && windowMs > 0 && staleFor <= windowMs;
+}
+
 /**
  * Cache class for managing cached upstream responses.
  */
 export class Cache {
   private db: Database.Database;
   private fetchFn: FetchFunction;
+  private policy: CachePolicy;
   private initialized = false;
+  /** Background refreshes in flight, keyed by cache key */
+  private refreshing = new Map<string, Promise<unknown>>();
 
-  constructor(fetchFn: FetchFunction, db?: Database.Database) {
+  constructor(fetchFn: FetchFunction, db?: Database.Database, policy: CachePolicy = {}) {
     this.db = db ?? getConnection();
     this.fetchFn = fetchFn;
+    this.policy = policy;
   }
 
   /**
@@ -70,7 +98,8 @@ export class Cache {
 
   /**
    * Gets a cached entry or fetches from upstream.
-   * Returns identical bytes on cache hit.
+   * Returns identical bytes on cache hit. Under the cache policy, expired entries
+   * may be served stale while refreshing in the background, or when upstream fails.
    */
   async getOrFetchRaw(params: FetchRequest): Promise<FetchResponse> {
     this.ensureInitialized();
@@ -81,21 +110,69 @@ export class Cache {
       url: params.url,
     });
 
-    // Check for valid cache entry
+    // Check for a stored entry, fresh or stale
     const cached = this.getCacheEntry(cacheKey);
-    if (cached) {
-      return {
-        status: cached.status,
-        body: cached.body,
-        contentType: cached.content_type,
-        cacheKey,
-        hit: true,
-      };
+    const now = Date.now();
+
+    if (cached && cached.expires_at > now) {
+      return this.toResponse(cached, cacheKey, false);
     }
 
-    // Cache miss - fetch from upstream
+    const staleFor = cached ? now - cached.expires_at : Infinity;
+
+    if (cached && isWithinWindow(staleFor, this.policy.staleWhileRevalidate)) {
+      this.refreshInBackground(params, cacheKey);
+      return this.toResponse(cached, cacheKey, true);
+    }
+
+    const canServeStale = cached !== null && isWithinWindow(staleFor, this.policy.staleIfError);
+
+    let response: Awaited<ReturnType<FetchFunction>>;
+    try {
+      response = await this.fetchAndStore(params, cacheKey, canServeStale);
+    } catch (error) {
+      if (cached && canServeStale) {
+        return this.toResponse(cached, cacheKey, true);
+      }
+      throw error;
+    }
+
+    if (cached && canServeStale && response.status >= 500) {
+      return this.toResponse(cached, cacheKey, true);
+    }
+
+    return {
+      status: response.status,
+      body: response.body,
+      contentType: response.contentType,
+      cacheKey,
+      hit: false,
+      stale: false,
+    };
+  }
+
+  /**
+   * Wait for any background refreshes in flight.
+   */
+  async settleRefreshes(): Promise<void> {
+    await Promise.all(this.refreshing.values());
+  }
+
+  /**
+   * Fetches from upstream and stores the response. With `keepOnServerError`, a 5xx
+   * response is not stored so the existing entry remains available as a fallback.
+   */
+  private async fetchAndStore(
+    params: FetchRequest,
+    cacheKey: string,
+    keepOnServerError: boolean
+  ): Promise<Awaited<ReturnType<FetchFunction>>> {
     const response = await this.fetchFn(params.url, params.headers);
 
+    if (keepOnServerError && response.status >= 500) {
+      return response;
+    }
+
     // Store in cache
     this.setCacheEntry({
       cacheKey,
@@ -109,27 +186,46 @@ export class Cache {
       ttlSeconds: params.ttlSeconds,
     });
 
+    return response;
+  }
+
+  /**
+   * Refreshes an entry without blocking the caller. Concurrent refreshes of the same
+   * key are coalesced, and failures are ignored: the stale entry stays in place.
+   */
+  private refreshInBackground(params: FetchRequest, cacheKey: string): void {
+    if (this.refreshing.has(cacheKey)) {
+      return;
+    }
+
+    const refresh = this.fetchAndStore(params, cacheKey, true)
+      .catch(() => undefined)
+      .finally(() => this.refreshing.delete(cacheKey));
+
+    this.refreshing.set(cacheKey, refresh);
+  }
+
+  private toResponse(entry: CacheEntry, cacheKey: string, stale: boolean): FetchResponse {
     return {
-      status: response.status,
-      body: response.body,
-      contentType: response.contentType,
+      status: entry.status,
+      body: entry.body,
+      contentType: entry.content_type,
       cacheKey,
-      hit: false,
+      hit: true,
+      stale,
     };
   }
 
   /**
-   * Gets a cache entry if it exists and hasn't expired.
+   * Gets a cache entry if it exists, whether or not it has expired.
    */
   private getCacheEntry(cacheKey: string): CacheEntry | null {
-    const now = Date.now();
-
     const stmt = this.db.prepare(`
       SELECT * FROM cache_entries
-      WHERE cache_key = ? AND expires_at > ?
+      WHERE cache_key = ?
     `);
 
-    const row = stmt.get(cacheKey, now) as CacheEntry | undefined;
+    const row = stmt.get(cacheKey) as CacheEntry | undefined;
     return row ?? null;
   }
 
@@ -171,14 +267,14 @@ export class Cache {
   }
 
   /**
-   * Removes expired cache entries.
+   * Removes cache entries past expiry and any stale window.
    */
   cleanExpired(): number {
     this.ensureInitialized();
 
-    const now = Date.now();
+    const cutoff = Date.now() - staleRetentionMs(this.policy);
     const stmt = this.db.prepare('DELETE FROM cache_entries WHERE expires_at <= ?');
-    const result = stmt.run(now);
+    const result = stmt.run(cutoff);
     return result.changes;
   }
 
@@ -195,6 +291,10 @@ export class Cache {
 /**
  * Creates a new Cache instance with the given fetch function.
  */
-export function createCache(fetchFn: FetchFunction, db?: Database.Database): Cache {
-  return new Cache(fetchFn, db);
+export function createCache(
+  fetchFn: FetchFunction,
+  db?: Database.Database,
+  policy?: CachePolicy
+): Cache {
+  return new Cache(fetchFn, db, policy);
 }
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SqliteConnectorCache, createConnectorCache } from './connectorCache.js';
+
+describe('SqliteConnectorCache', () => {
+  let db: Database.Database;
+  let cache: SqliteConnectorCache;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    cache = createConnectorCache({ defaultTTL: 1000 }, db);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    db.close();
+  });
+
+  describe('get/set', () => {
+    it('should store and retrieve JSON values', () => {
+      cache.set('profile:12345678', { company_name: 'ACME LTD', has_charges: true });
+
+      expect(cache.get('profile:12345678')).toEqual({
+        company_name: 'ACME LTD',
+        has_charges: true,
+      });
+    });
+
+    it('should return undefined for missing keys', () => {
+      expect(cache.get('missing')).toBeUndefined();
+    });
+
+    it('should overwrite existing values', () => {
+      cache.set('key', 'first');
+      cache.set('key', 'second');
+
+      expect(cache.get('key')).toBe('second');
+    });
+
+    it('should store entries in cache_entries', () => {
+      cache.set('profile:12345678', { ok: true }, 5000);
+
+      const row = db
+        .prepare('SELECT source, request, status, content_type FROM cache_entries')
+        .get();
+      expect(row).toEqual({
+        source: 'companies-house',
+        request: 'profile:12345678',
+        status: 200,
+        content_type: 'application/json',
+      });
+    });
+  });
+
+  describe('getEntry', () => {
+    it('should return expired entries with their validators', () => {
+      vi.useFakeTimers();
+
+      cache.set('profile:12345678', { ok: true }, 500, {
+        etag: '"abc"',
+        lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+      });
+      vi.advanceTimersByTime(600);
+
+      expect(cache.get('profile:12345678')).toBeUndefined();
+      expect(cache.getEntry('profile:12345678')).toEqual({
+        value: { ok: true },
+        storedAt: Date.now() - 600,
+        expiresAt: Date.now() - 100,
+        validators: { etag: '"abc"', lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT' },
+      });
+    });
+
+    it('should omit validators when none were stored', () => {
+      cache.set('key', 'value');
+
+      expect(cache.getEntry('key')).not.toHaveProperty('validators');
+    });
+
+    it('should return undefined for missing keys', () => {
+      expect(cache.getEntry('missing')).toBeUndefined();
+    });
+  });
+
+  describe('TTL expiration', () => {
+    it('should expire entries after the TTL', () => {
+      vi.useFakeTimers();
+
+      cache.set('short', 'value', 500);
+      vi.advanceTimersByTime(400);
+      expect(cache.get('short')).toBe('value');
+
+      vi.advanceTimersByTime(200);
+      expect(cache.get('short')).toBeUndefined();
+    });
+
+    it('should use the default TTL when not specified', () => {
+      vi.useFakeTimers();
+
+      cache.set('default', 'value');
+      vi.advanceTimersByTime(1100);
+
+      expect(cache.get('default')).toBeUndefined();
+    });
+  });
+
+  describe('delete/clear/cleanup', () => {
+    it('should delete a key', () => {
+      cache.set('key', 'value');
+
+      expect(cache.delete('key')).toBe(true);
+      expect(cache.delete('key')).toBe(false);
+      expect(cache.get('key')).toBeUndefined();
+    });
+
+    it('should only clear entries for its own source', () => {
+      const other = new SqliteConnectorCache({ source: 'other' }, db);
+      cache.set('key', 'mine');
+      other.set('key', 'theirs');
+
+      cache.clear();
+
+      expect(cache.get('key')).toBeUndefined();
+      expect(other.get('key')).toBe('theirs');
+    });
+
+    it('should keep entries within the stale window on cleanup', () => {
+      vi.useFakeTimers();
+      const stale = new SqliteConnectorCache({ staleIfError: 1000 }, db);
+
+      stale.set('key', 'value', 100);
+      vi.advanceTimersByTime(500);
+      expect(stale.cleanup()).toBe(0);
+
+      vi.advanceTimersByTime(1000);
+      expect(stale.cleanup()).toBe(1);
+    });
+
+    it('should expose its stale policy', () => {
+      const stale = new SqliteConnectorCache({ staleWhileRevalidate: 10, staleIfError: 20 }, db);
+      expect(stale.policy).toEqual({ staleWhileRevalidate: 10, staleIfError: 20 });
+    });
+
+    it('should remove expired entries on cleanup', () => {
+      vi.useFakeTimers();
+
+      cache.set('expired', 'value', 100);
+      cache.set('valid', 'value', 5000);
+      vi.advanceTimersByTime(200);
+
+      expect(cache.cleanup()).toBe(1);
+      expect(cache.get('valid')).toBe('value');
+    });
+  });
+
+  it('should persist entries across connections to the same file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'connector-cache-'));
+    const dbPath = path.join(dir, 'cache.sqlite');
+
+    try {
+      const first = new Database(dbPath);
+      new SqliteConnectorCache({}, first).set('profile:12345678', { company_number: '12345678' });
+      first.close();
+
+      const second = new Database(dbPath);
+      expect(new SqliteConnectorCache({}, second).get('profile:12345678')).toEqual({
+        company_number: '12345678',
+      });
+      second.close();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,174 @@
+import type Database from 'better-sqlite3';
+import { getConnection } from './connection.js';
+import { runMigrations } from './migrations/index.js';
+import { generateCacheKey, staleRetentionMs, type CachePolicy } from './cache.js';
+
+export interface ConnectorCacheOptions extends CachePolicy {
+  /** Source recorded against entries, isolating one connector's keys from another's */
+  source?: string;
+  /** Default TTL in milliseconds */
+  defaultTTL?: number;
+}
+
+/** HTTP validators used to revalidate an entry with a conditional request */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/** A stored entry, returned whether or not it has expired */
+export interface CachedEntry<T> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+  validators?: CacheValidators;
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Connector response cache stored in `cache_entries`.
+ * Values are JSON-encoded, so cached responses survive restarts and are
+ * shared by every process using the same database file.
+ */
+export class SqliteConnectorCache {
+  private db: Database.Database;
+  private source: string;
+  private defaultTTL: number;
+  private initialized = false;
+  readonly policy: CachePolicy;
+
+  constructor(options: ConnectorCacheOptions = {}, db?: Database.Database) {
+    this.db = db ?? getConnection();
+    this.source = options.source ?? 'companies-house';
+    this.defaultTTL = options.defaultTTL ?? DEFAULT_TTL_MS;
+    this.policy = {
+      staleWhileRevalidate: options.staleWhileRevalidate,
+      staleIfError: options.staleIfError,
+    };
+  }
+
+  /**
+   * Ensures database migrations have been run.
+   */
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      runMigrations(this.db);
+      this.initialized = true;
+    }
+  }
+
+  private cacheKey(key: string): string {
+    return generateCacheKey({ source: this.source, request: key, url: '' });
+  }
+
+  /**
+   * Gets a value if it exists and hasn't expired.
+   */
+  get<T>(key: string): T | undefined {
+    this.ensureInitialized();
+
+    const row = this.db
+      .prepare('SELECT body FROM cache_entries WHERE cache_key = ? AND expires_at > ?')
+      .get(this.cacheKey(key), Date.now()) as { body: Buffer } | undefined;
+
+    return row ? (JSON.parse(row.body.toString('utf8')) as T) : undefined;
+  }
+
+  /**
+   * Gets an entry with its expiry and validators, even once expired.
+   */
+  getEntry<T>(key: string): CachedEntry<T> | undefined {
+    this.ensureInitialized();
+
+    const row = this.db
+      .prepare(
+        'SELECT body, headers, created_at, expires_at FROM cache_entries WHERE cache_key = ?'
+      )
+      .get(this.cacheKey(key)) as
+      | { body: Buffer; headers: string | null; created_at: number; expires_at: number }
+      | undefined;
+
+    if (!row) {
+      return undefined;
+    }
+
+    return {
+      value: JSON.parse(row.body.toString('utf8')) as T,
+      storedAt: row.created_at,
+      expiresAt: row.expires_at,
+      ...(row.headers && { validators: JSON.parse(row.headers) as CacheValidators }),
+    };
+  }
+
+  /**
+   * Stores a value with optional TTL override in milliseconds.
+   * Validators are kept in the `headers` column for conditional revalidation.
+   */
+  set<T>(key: string, value: T, ttl?: number, validators?: CacheValidators): void {
+    this.ensureInitialized();
+
+    const now = Date.now();
+    const body = Buffer.from(JSON.stringify(value), 'utf8');
+    const headers = validators ? JSON.stringify(validators) : null;
+
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO cache_entries
+      (cache_key, source, request, url, status, body, content_type, headers, created_at, expires_at)
+      VALUES (?, ?, ?, '', 200, ?, 'application/json', ?, ?, ?)
+    `);
+
+    stmt.run(
+      this.cacheKey(key),
+      this.source,
+      key,
+      body,
+      headers,
+      now,
+      now + (ttl ?? this.defaultTTL)
+    );
+  }
+
+  /**
+   * Deletes a specific key.
+   */
+  delete(key: string): boolean {
+    this.ensureInitialized();
+
+    const result = this.db
+      .prepare('DELETE FROM cache_entries WHERE cache_key = ?')
+      .run(this.cacheKey(key));
+    return result.changes > 0;
+  }
+
+  /**
+   * Clears all entries for this source.
+   */
+  clear(): void {
+    this.ensureInitialized();
+
+    this.db.prepare('DELETE FROM cache_entries WHERE source = ?').run(this.source);
+  }
+
+  /**
+   * Removes entries for this source that are past expiry and any stale window.
+   */
+  cleanup(): number {
+    this.ensureInitialized();
+
+    const result = this.db
+      .prepare('DELETE FROM cache_entries WHERE source = ? AND expires_at <= ?')
+      .run(this.source, Date.now() - staleRetentionMs(this.policy));
+    return result.changes;
+  }
+}
+
+/**
+ * Creates a SQLite-backed connector cache.
+ */
+export function createConnectorCache(
+  options?: ConnectorCacheOptions,
+  db?: Database.Database
+): SqliteConnectorCache {
+  return new SqliteConnectorCache(options, db);
+}
@@ -3,5 +3,51 @@ export type { ConnectionOptions } from './connection.js';
 
 export { runMigrations } from './migrations/index.js';
 
-export { Cache, createCache, generateCacheKey } from './cache.js';
-export type { FetchRequest, FetchResponse, CacheEntry, FetchFunction } from './cache.js';
+export { Cache, createCache, generateCacheKey, staleRetentionMs } from './cache.js';
+export type {
+  FetchRequest,
+  FetchResponse,
+  CacheEntry,
+  FetchFunction,
+  CachePolicy,
+} from './cache.js';
+
+export { SqliteConnectorCache, createConnectorCache } from './connectorCache.js';
+export type { ConnectorCacheOptions, CacheValidators, CachedEntry } from './connectorCache.js';
+
+export { SqliteRateLimitStore, createRateLimitStore } from './rateLimit.js';
+export type { TokenBucketState } from './rateLimit.js';
+
+export { SqliteWaiverStore, createWaiverStore } from './waivers.js';
+export type { NewWaiver, StoredWaiver } from './waivers.js';
+
+export { SqliteJobStore, createJobStore, DEFAULT_MAX_ATTEMPTS, DEFAULT_LEASE_MS } from './jobs.js';
+export type { Job, JobState, JobError, JobClaim, JobLease, NewJob } from './jobs.js';
+
+export { SqliteWatchlistStore, createWatchlistStore } from './watchlist.js';
+export type {
+  NewWatch,
+  Watch,
+  NewWatchEvent,
+  WatchEvent,
+  WatchEventQuery,
+  WatchCheckError,
+} from './watchlist.js';
+
+export { SqliteWebhookStore, createWebhookStore } from './webhooks.js';
+export type {
+  NewWebhook,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryState,
+  WebhookAttempt,
+} from './webhooks.js';
+
+export { SqliteSnapshotStore, createSnapshotStore } from './snapshots.js';
+export type {
+  NewSnapshot,
+  Snapshot,
+  SnapshotSummary,
+  SnapshotReport,
+  SnapshotReportFormat,
+} from './snapshots.js';
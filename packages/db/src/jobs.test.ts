@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { SqliteJobStore, createJobStore } from './jobs.js';
+
+const lease = { workerId: 'worker-1', leaseMs: 10000 };
+const otherWorker = { workerId: 'worker-2', leaseMs: 10000 };
+
+describe('SqliteJobStore', () => {
+  let db: Database.Database;
+  let store: SqliteJobStore;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    store = createJobStore(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should queue a job with its payload', () => {
+    const job = store.enqueue({ type: 'dossier', payload: { companyNumber: '12345678' } }, 1000);
+
+    expect(job).toEqual({
+      id: expect.any(String),
+      type: 'dossier',
+      state: 'queued',
+      payload: { companyNumber: '12345678' },
+      progress: { done: 0 },
+      attempts: 0,
+      maxAttempts: 3,
+      createdAt: 1000,
+      updatedAt: 1000,
+      runAfter: 1000,
+    });
+    expect(store.get(job.id)).toEqual(job);
+  });
+
+  it('should claim due jobs oldest first, once each', () => {
+    const first = store.enqueue({ type: 'a', payload: null }, 1000);
+    const second = store.enqueue({ type: 'b', payload: null }, 2000);
+
+    expect(store.claimNext(lease, 500)).toBeUndefined();
+
+    const claimed = store.claimNext(lease, 3000);
+    expect(claimed).toMatchObject({ id: first.id, state: 'running', attempts: 1, startedAt: 3000 });
+    expect(store.claimNext(lease, 3000)?.id).toBe(second.id);
+    expect(store.claimNext(lease, 3000)).toBeUndefined();
+  });
+
+  it('should only claim the job types asked for', () => {
+    const screening = store.enqueue({ type: 'screening', payload: null }, 1000);
+    const webhook = store.enqueue({ type: 'webhook', payload: null }, 2000);
+
+    expect(store.claimNext({ ...lease, types: ['webhook'] }, 3000)?.id).toBe(webhook.id);
+    expect(store.claimNext({ ...lease, excludeTypes: ['screening'] }, 3000)).toBeUndefined();
+    expect(store.claimNext({ ...lease, types: [] }, 3000)).toBeUndefined();
+    expect(store.claimNext(lease, 3000)?.id).toBe(screening.id);
+  });
+
+  it('should record progress and results', () => {
+    const { id } = store.enqueue({ type: 'screening', payload: null }, 1000);
+    store.claimNext(lease, 1000);
+
+    store.updateProgress(id, 2, 5, 1500);
+    expect(store.get(id)?.progress).toEqual({ done: 2, total: 5 });
+
+    store.complete(id, { rows: 5 }, 2000);
+    expect(store.get(id)).toMatchObject({
+      state: 'succeeded',
+      result: { rows: 5 },
+      finishedAt: 2000,
+    });
+  });
+
+  it('should retry failed attempts until none are left', () => {
+    const { id } = store.enqueue({ type: 'dossier', payload: null, maxAttempts: 2 }, 1000);
+    const error = { code: 'UPSTREAM_ERROR', message: 'Companies House unavailable' };
+
+    store.claimNext(lease, 1000);
+    store.fail(id, error, { retryAt: 5000 }, 1000);
+    expect(store.get(id)).toMatchObject({ state: 'queued', runAfter: 5000, error });
+    expect(store.claimNext(lease, 4999)).toBeUndefined();
+
+    store.claimNext(lease, 5000);
+    store.fail(id, error, { retryAt: 9000 }, 5000);
+    expect(store.get(id)).toMatchObject({ state: 'failed', attempts: 2, finishedAt: 5000 });
+  });
+
+  it('should fail for good when the failure is not retryable', () => {
+    const { id } = store.enqueue({ type: 'dossier', payload: null }, 1000);
+    store.claimNext(lease, 1000);
+
+    store.fail(id, { code: 'NOT_FOUND', message: 'Company not found' }, { retryable: false });
+
+    expect(store.get(id)).toMatchObject({ state: 'failed', attempts: 1 });
+  });
+
+  it('should cancel unfinished jobs and keep them cancelled', () => {
+    const { id } = store.enqueue({ type: 'dossier', payload: null });
+    store.claimNext(lease);
+
+    expect(store.cancel(id)).toBe(true);
+    store.complete(id, 'late result');
+
+    expect(store.get(id)).toMatchObject({ state: 'cancelled' });
+    expect(store.get(id)?.result).toBeUndefined();
+    expect(store.cancel(id)).toBe(false);
+  });
+
+  it('should delete jobs', () => {
+    const { id } = store.enqueue({ type: 'dossier', payload: null });
+
+    expect(store.delete(id)).toBe(true);
+    expect(store.delete(id)).toBe(false);
+    expect(store.get(id)).toBeUndefined();
+  });
+
+  it('should hold a claimed job for its worker until the lease lapses', () => {
+    const { id } = store.enqueue({ type: 'dossier', payload: null }, 1000);
+    expect(store.claimNext(lease, 1000)).toMatchObject({
+      id,
+      lockedBy: 'worker-1',
+      lockedUntil: 11000,
+    });
+
+    // Another process starting up leaves the job alone while the lease holds
+    expect(store.claimNext(otherWorker, 5000)).toBeUndefined();
+    expect(store.renewLease(id, lease, 5000)).toBe(true);
+    expect(store.claimNext(otherWorker, 11000)).toBeUndefined();
+
+    // Once the lease lapses the job is taken over, and the old worker loses it
+    expect(store.claimNext(otherWorker, 15000)).toMatchObject({
+      id,
+      state: 'running',
+      attempts: 2,
+      lockedBy: 'worker-2',
+    });
+    expect(store.renewLease(id, lease, 15000)).toBe(false);
+  });
+
+  it('should fail a lapsed job with no attempts left rather than rerun it', () => {
+    const { id } = store.enqueue({ type: 'report', payload: null, maxAttempts: 2 }, 1000);
+    store.claimNext(lease, 1000);
+    store.claimNext(otherWorker, 12000);
+
+    // The second worker's process also dies mid-job
+    expect(store.claimNext(lease, 23000)).toBeUndefined();
+    expect(store.get(id)).toMatchObject({
+      state: 'failed',
+      attempts: 2,
+      finishedAt: 23000,
+      error: { code: 'LEASE_LOST' },
+    });
+  });
+
+  it('should not renew the lease on a cancelled job', () => {
+    const { id } = store.enqueue({ type: 'dossier', payload: null }, 1000);
+    store.claimNext(lease, 1000);
+    store.cancel(id, 2000);
+
+    expect(store.renewLease(id, lease, 2000)).toBe(false);
+  });
+});
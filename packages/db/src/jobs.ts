@@ -0,0 +1,358 @@
+import crypto from 'crypto';
+import type Database from 'better-sqlite3';
+import { getConnection } from './connection.js';
+import { runMigrations } from './migrations/index.js';
+
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobError {
+  code: string;
+  message: string;
+}
+
+export interface Job {
+  id: string;
+  type: string;
+  state: JobState;
+  payload: unknown;
+  progress: {
+    done: number;
+    total?: number;
+  };
+  attempts: number;
+  maxAttempts: number;
+  result?: unknown;
+  error?: JobError;
+  createdAt: number;
+  updatedAt: number;
+  /** Earliest time the job may (re)start */
+  runAfter: number;
+  startedAt?: number;
+  finishedAt?: number;
+  /** Worker holding the job while it runs */
+  lockedBy?: string;
+  /** When the worker's hold lapses unless renewed */
+  lockedUntil?: number;
+}
+
+export interface NewJob {
+  type: string;
+  payload: unknown;
+  /** Attempts before the job fails for good (default: 3) */
+  maxAttempts?: number;
+}
+
+/**
+ * A worker's hold on the jobs it claims.
+ */
+export interface JobLease {
+  /** Unique to each worker; only the claiming worker can renew its lease */
+  workerId: string;
+  /** How long a claimed job is held before another worker may take it over (default: 30000) */
+  leaseMs?: number;
+}
+
+/**
+ * A claim for the next job, optionally limited to some job types.
+ */
+export interface JobClaim extends JobLease {
+  /** Only claim jobs of these types */
+  types?: readonly string[];
+  /** Never claim jobs of these types */
+  excludeTypes?: readonly string[];
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const DEFAULT_LEASE_MS = 30000;
+
+/** Recorded on a job whose last attempt stopped without finishing, e.g. because its process died */
+const LEASE_LOST_ERROR: JobError = {
+  code: 'LEASE_LOST',
+  message: 'The worker running the job stopped before it finished, with no attempts left',
+};
+
+interface JobRow {
+  id: string;
+  type: string;
+  state: JobState;
+  payload: string;
+  progress_done: number;
+  progress_total: number | null;
+  attempts: number;
+  max_attempts: number;
+  result: string | null;
+  error: string | null;
+  created_at: number;
+  updated_at: number;
+  run_after: number;
+  started_at: number | null;
+  finished_at: number | null;
+  locked_by: string | null;
+  locked_until: number | null;
+}
+
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    type: row.type,
+    state: row.state,
+    payload: JSON.parse(row.payload),
+    progress: {
+      done: row.progress_done,
+      ...(row.progress_total !== null && { total: row.progress_total }),
+    },
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    ...(row.result !== null && { result: JSON.parse(row.result) }),
+    ...(row.error !== null && { error: JSON.parse(row.error) as JobError }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    runAfter: row.run_after,
+    ...(row.started_at !== null && { startedAt: row.started_at }),
+    ...(row.finished_at !== null && { finishedAt: row.finished_at }),
+    ...(row.locked_by !== null && { lockedBy: row.locked_by }),
+    ...(row.locked_until !== null && { lockedUntil: row.locked_until }),
+  };
+}
+
+/**
+ * Job queue backed by SQLite.
+ *
+ * Jobs are claimed in an IMMEDIATE transaction under a lease, so several
+ * workers sharing the database file never run the same job at once. The
+ * claiming worker renews its lease while the job runs; a job whose lease has
+ * lapsed, because its worker stopped or hung, can be claimed again by any
+ * worker. Because the queue lives in the database, queued jobs survive a restart.
+ */
+export class SqliteJobStore {
+  private db: Database.Database;
+  private initialized = false;
+
+  constructor(db?: Database.Database) {
+    this.db = db ?? getConnection();
+  }
+
+  /**
+   * Ensures database migrations have been run.
+   */
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      runMigrations(this.db);
+      this.initialized = true;
+    }
+  }
+
+  /**
+   * Adds a job to the queue.
+   */
+  enqueue(job: NewJob, now: number = Date.now()): Job {
+    this.ensureInitialized();
+
+    const id = crypto.randomUUID();
+    this.db
+      .prepare(
+        `
+        INSERT INTO jobs (id, type, state, payload, max_attempts, created_at, updated_at, run_after)
+        VALUES (?, ?, 'queued', ?, ?, ?, ?, ?)
+      `
+      )
+      .run(
+        id,
+        job.type,
+        JSON.stringify(job.payload ?? null),
+        job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        now,
+        now,
+        now
+      );
+
+    return this.get(id) as Job;
+  }
+
+  /**
+   * Gets a job by ID.
+   */
+  get(id: string): Job | undefined {
+    this.ensureInitialized();
+
+    const row = this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+    return row ? toJob(row) : undefined;
+  }
+
+  /**
+   * Claims the oldest job that is due, marking it as running under the
+   * worker's lease. Running jobs whose lease has lapsed are due again while
+   * they have attempts left, and fail once they have none, so a job that
+   * brings its process down is not rerun after every restart.
+   */
+  claimNext(claim: JobClaim, now: number = Date.now()): Job | undefined {
+    this.ensureInitialized();
+
+    const placeholders = (values: readonly string[]) => values.map(() => '?').join(', ');
+    const typeFilters = [
+      ...(claim.types ? [`type IN (${placeholders(claim.types)})`] : []),
+      ...(claim.excludeTypes?.length ? [`type NOT IN (${placeholders(claim.excludeTypes)})`] : []),
+    ];
+    const select = this.db.prepare(`
+      SELECT id FROM jobs
+      WHERE ((state = 'queued' AND run_after <= ?)
+         OR (state = 'running' AND COALESCE(locked_until, 0) <= ? AND attempts < max_attempts))
+        ${typeFilters.map((filter) => `AND ${filter}`).join(' ')}
+      ORDER BY run_after, created_at
+      LIMIT 1
+    `);
+    const update = this.db.prepare(`
+      UPDATE jobs
+      SET state = 'running', attempts = attempts + 1, started_at = ?, updated_at = ?,
+          locked_by = ?, locked_until = ?
+      WHERE id = ?
+    `);
+    const expire = this.db.prepare(`
+      UPDATE jobs
+      SET state = 'failed', error = ?, finished_at = ?, updated_at = ?
+      WHERE state = 'running' AND COALESCE(locked_until, 0) <= ? AND attempts >= max_attempts
+    `);
+    const lockedUntil = now + (claim.leaseMs ?? DEFAULT_LEASE_MS);
+
+    const transaction = this.db.transaction(() => {
+      expire.run(JSON.stringify(LEASE_LOST_ERROR), now, now, now);
+      const row = select.get(now, now, ...(claim.types ?? []), ...(claim.excludeTypes ?? [])) as
+        | { id: string }
+        | undefined;
+      if (!row) {
+        return undefined;
+      }
+      update.run(now, now, claim.workerId, lockedUntil, row.id);
+      return row.id;
+    });
+
+    const id = transaction.immediate();
+    return id ? this.get(id) : undefined;
+  }
+
+  /**
+   * Extends a worker's lease on a running job.
+   * @returns false if the job is no longer running under this worker's lease,
+   *          because it was cancelled or another worker took it over
+   */
+  renewLease(id: string, lease: JobLease, now: number = Date.now()): boolean {
+    this.ensureInitialized();
+
+    const result = this.db
+      .prepare(
+        `
+        UPDATE jobs SET locked_until = ?
+        WHERE id = ? AND state = 'running' AND locked_by = ?
+      `
+      )
+      .run(now + (lease.leaseMs ?? DEFAULT_LEASE_MS), id, lease.workerId);
+    return result.changes > 0;
+  }
+
+  /**
+   * Records progress on a running job.
+   */
+  updateProgress(id: string, done: number, total?: number, now: number = Date.now()): void {
+    this.ensureInitialized();
+
+    this.db
+      .prepare(
+        `
+        UPDATE jobs SET progress_done = ?, progress_total = ?, updated_at = ?
+        WHERE id = ? AND state = 'running'
+      `
+      )
+      .run(done, total ?? null, now, id);
+  }
+
+  /**
+   * Marks a running job as succeeded with its result.
+   * A job cancelled while it ran stays cancelled.
+   */
+  complete(id: string, result: unknown, now: number = Date.now()): void {
+    this.ensureInitialized();
+
+    this.db
+      .prepare(
+        `
+        UPDATE jobs
+        SET state = 'succeeded', result = ?, error = NULL, finished_at = ?, updated_at = ?
+        WHERE id = ? AND state = 'running'
+      `
+      )
+      .run(JSON.stringify(result ?? null), now, now, id);
+  }
+
+  /**
+   * Records a failed attempt on a running job.
+   *
+   * The job goes back in the queue, due at `retryAt`, while it has attempts
+   * left and the failure is retryable; otherwise it fails for good.
+   */
+  fail(
+    id: string,
+    error: JobError,
+    options: { retryAt?: number; retryable?: boolean } = {},
+    now: number = Date.now()
+  ): void {
+    this.ensureInitialized();
+
+    const retryable = options.retryable ?? true;
+    this.db
+      .prepare(
+        `
+        UPDATE jobs
+        SET state = CASE WHEN ? AND attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+            finished_at = CASE WHEN ? AND attempts < max_attempts THEN NULL ELSE ? END,
+            run_after = ?,
+            error = ?,
+            updated_at = ?
+        WHERE id = ? AND state = 'running'
+      `
+      )
+      .run(
+        retryable ? 1 : 0,
+        retryable ? 1 : 0,
+        now,
+        options.retryAt ?? now,
+        JSON.stringify(error),
+        now,
+        id
+      );
+  }
+
+  /**
+   * Cancels a queued or running job.
+   * @returns false if the job does not exist or has already finished
+   */
+  cancel(id: string, now: number = Date.now()): boolean {
+    this.ensureInitialized();
+
+    const result = this.db
+      .prepare(
+        `
+        UPDATE jobs SET state = 'cancelled', finished_at = ?, updated_at = ?
+        WHERE id = ? AND state IN ('queued', 'running')
+      `
+      )
+      .run(now, now, id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Deletes a job.
+   * @returns true if the job existed
+   */
+  delete(id: string): boolean {
+    this.ensureInitialized();
+
+    return this.db.prepare('DELETE FROM jobs WHERE id = ?').run(id).changes > 0;
+  }
+}
+
+/**
+ * Creates a SQLite-backed job store.
+ */
+export function createJobStore(db?: Database.Database): SqliteJobStore {
+  return new SqliteJobStore(db);
+}
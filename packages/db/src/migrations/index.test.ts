@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { migrations, runMigrations } from './index.js';
+
+describe('runMigrations', () => {
+  let db: Database.Database;
+
+  const applied = () =>
+    (db.prepare('SELECT id FROM _migrations ORDER BY id').all() as Array<{ id: string }>).map(
+      (row) => row.id
+    );
+  const jobColumns = () =>
+    (db.prepare('PRAGMA table_info(jobs)').all() as Array<{ name: string }>).map(
+      (column) => column.name
+    );
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should apply each migration once', () => {
+    runMigrations(db);
+    runMigrations(db);
+
+    expect(applied()).toEqual(migrations.map((migration) => migration.id).sort());
+  });
+
+  it('should roll back a migration that fails part way', () => {
+    runMigrations(db);
+    // Leave 008 half undone: its first column is missing again, its second is not
+    db.exec(`
+      DELETE FROM _migrations WHERE id = '008_add_job_leases';
+      ALTER TABLE jobs DROP COLUMN locked_by;
+    `);
+
+    expect(() => runMigrations(db)).toThrow(/duplicate column/);
+    expect(jobColumns()).not.toContain('locked_by');
+    expect(applied()).not.toContain('008_add_job_leases');
+  });
+});
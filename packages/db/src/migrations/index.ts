@@ -31,6 +31,190 @@ const migrations: Migration[] = [
       `);
     },
   },
+  {
+    id: '002_create_rate_limit_buckets',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+          bucket_key TEXT PRIMARY KEY,
+          tokens REAL NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    id: '003_create_risk_flag_waivers',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS risk_flag_waivers (
+          id TEXT PRIMARY KEY,
+          company_number TEXT NOT NULL,
+          flag_id TEXT NOT NULL,
+          policy_id TEXT NOT NULL,
+          fingerprint TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          reviewer TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          expires_on TEXT NOT NULL,
+          lapsed_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_risk_flag_waivers_company_number
+          ON risk_flag_waivers(company_number);
+      `);
+    },
+  },
+  {
+    id: '004_create_jobs',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS jobs (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          state TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          progress_done INTEGER NOT NULL DEFAULT 0,
+          progress_total INTEGER,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL,
+          result TEXT,
+          error TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          run_after INTEGER NOT NULL,
+          started_at INTEGER,
+          finished_at INTEGER
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_jobs_state_run_after
+          ON jobs(state, run_after);
+      `);
+    },
+  },
+  {
+    id: '005_create_watchlist',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS watchlist (
+          company_number TEXT PRIMARY KEY,
+          label TEXT,
+          policy_id TEXT NOT NULL,
+          added_at TEXT NOT NULL,
+          next_check_at TEXT NOT NULL,
+          last_checked_at TEXT,
+          last_dossier TEXT,
+          last_error TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_watchlist_next_check_at
+          ON watchlist(next_check_at);
+
+        CREATE TABLE IF NOT EXISTS watchlist_events (
+          id TEXT PRIMARY KEY,
+          company_number TEXT NOT NULL,
+          type TEXT NOT NULL,
+          summary TEXT NOT NULL,
+          previous TEXT,
+          current TEXT,
+          detected_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_watchlist_events_detected_at
+          ON watchlist_events(detected_at);
+
+        CREATE INDEX IF NOT EXISTS idx_watchlist_events_company_number
+          ON watchlist_events(company_number, detected_at);
+      `);
+    },
+  },
+  {
+    id: '006_create_webhooks',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS webhooks (
+          id TEXT PRIMARY KEY,
+          url TEXT NOT NULL,
+          secret TEXT NOT NULL,
+          event_types TEXT NOT NULL,
+          description TEXT,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id TEXT PRIMARY KEY,
+          webhook_id TEXT NOT NULL,
+          event_type TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          state TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          response_status INTEGER,
+          error TEXT,
+          created_at TEXT NOT NULL,
+          last_attempt_at TEXT,
+          delivered_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id
+          ON webhook_deliveries(webhook_id, created_at);
+      `);
+    },
+  },
+  {
+    id: '007_create_dossier_snapshots',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS dossier_snapshots (
+          id TEXT PRIMARY KEY,
+          company_number TEXT NOT NULL,
+          policy_id TEXT NOT NULL,
+          policy_version TEXT NOT NULL,
+          generated_at TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          content TEXT NOT NULL,
+          sha256 TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_dossier_snapshots_company_number
+          ON dossier_snapshots(company_number, created_at);
+
+        CREATE TABLE IF NOT EXISTS snapshot_reports (
+          snapshot_id TEXT NOT NULL,
+          format TEXT NOT NULL,
+          content_type TEXT NOT NULL,
+          body BLOB NOT NULL,
+          sha256 TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (snapshot_id, format)
+        );
+
+        CREATE TRIGGER IF NOT EXISTS dossier_snapshots_immutable_update
+          BEFORE UPDATE ON dossier_snapshots
+          BEGIN SELECT RAISE(ABORT, 'dossier snapshots are immutable'); END;
+
+        CREATE TRIGGER IF NOT EXISTS dossier_snapshots_immutable_delete
+          BEFORE DELETE ON dossier_snapshots
+          BEGIN SELECT RAISE(ABORT, 'dossier snapshots are immutable'); END;
+
+        CREATE TRIGGER IF NOT EXISTS snapshot_reports_immutable_update
+          BEFORE UPDATE ON snapshot_reports
+          BEGIN SELECT RAISE(ABORT, 'snapshot reports are immutable'); END;
+
+        CREATE TRIGGER IF NOT EXISTS snapshot_reports_immutable_delete
+          BEFORE DELETE ON snapshot_reports
+          BEGIN SELECT RAISE(ABORT, 'snapshot reports are immutable'); END;
+      `);
+    },
+  },
+  {
+    id: '008_add_job_leases',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE jobs ADD COLUMN locked_by TEXT;
+        ALTER TABLE jobs ADD COLUMN locked_until INTEGER;
+      `);
+    },
+  },
 ];
 
 /**
@@ -49,11 +233,20 @@ export function runMigrations(db: Database.Database): void {
   const recordMigration = db.prepare('INSERT INTO _migrations (id, applied_at) VALUES (?, ?)');
 
   for (const migration of migrations) {
-    const existing = getApplied.get(migration.id);
-    if (!existing) {
-      migration.up(db);
-      recordMigration.run(migration.id, Date.now());
+    if (getApplied.get(migration.id)) {
+      continue;
     }
+
+    // A migration commits together with its record, and is checked for again
+    // under the write lock, so neither a crash part way through nor another
+    // process migrating the same database at once can apply it twice
+    const apply = db.transaction(() => {
+      if (!getApplied.get(migration.id)) {
+        migration.up(db);
+        recordMigration.run(migration.id, Date.now());
+      }
+    });
+    apply.immediate();
   }
 }
 
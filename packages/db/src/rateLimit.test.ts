@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SqliteRateLimitStore, createRateLimitStore } from './rateLimit.js';
+
+describe('SqliteRateLimitStore', () => {
+  let db: Database.Database;
+  let store: SqliteRateLimitStore;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    store = createRateLimitStore(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should pass undefined state for a new bucket', () => {
+    const seen = store.update('bucket', (state) => ({
+      state: { tokens: 10, updatedAt: 1000 },
+      result: state,
+    }));
+
+    expect(seen).toBeUndefined();
+  });
+
+  it('should persist state between updates', () => {
+    store.update('bucket', () => ({ state: { tokens: 4.5, updatedAt: 2000 }, result: null }));
+
+    const seen = store.update('bucket', (state) => ({
+      state: state!,
+      result: state,
+    }));
+
+    expect(seen).toEqual({ tokens: 4.5, updatedAt: 2000 });
+  });
+
+  it('should keep buckets separate by key', () => {
+    store.update('a', () => ({ state: { tokens: 1, updatedAt: 1 }, result: null }));
+
+    const seen = store.update('b', (state) => ({
+      state: { tokens: 2, updatedAt: 2 },
+      result: state,
+    }));
+
+    expect(seen).toBeUndefined();
+  });
+
+  it('should not persist state when the update throws', () => {
+    store.update('bucket', () => ({ state: { tokens: 3, updatedAt: 1 }, result: null }));
+
+    expect(() =>
+      store.update('bucket', () => {
+        throw new Error('boom');
+      })
+    ).toThrow('boom');
+
+    const seen = store.update('bucket', (state) => ({ state: state!, result: state }));
+    expect(seen?.tokens).toBe(3);
+  });
+
+  it('should reset a bucket', () => {
+    store.update('bucket', () => ({ state: { tokens: 3, updatedAt: 1 }, result: null }));
+    store.reset('bucket');
+
+    const seen = store.update('bucket', (state) => ({
+      state: { tokens: 1, updatedAt: 1 },
+      result: state,
+    }));
+    expect(seen).toBeUndefined();
+  });
+
+  it('should share a budget between connections to the same file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rate-limit-'));
+    const dbPath = path.join(dir, 'shared.sqlite');
+    const first = new Database(dbPath);
+    const second = new Database(dbPath);
+
+    try {
+      const take = (s: SqliteRateLimitStore) =>
+        s.update('companies-house', (state) => {
+          const tokens = (state?.tokens ?? 3) - 1;
+          return { state: { tokens, updatedAt: 0 }, result: tokens };
+        });
+
+      const storeA = new SqliteRateLimitStore(first);
+      const storeB = new SqliteRateLimitStore(second);
+
+      expect(take(storeA)).toBe(2);
+      expect(take(storeB)).toBe(1);
+      expect(take(storeA)).toBe(0);
+    } finally {
+      first.close();
+      second.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
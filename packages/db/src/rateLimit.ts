@@ -0,0 +1,82 @@
+import type Database from 'better-sqlite3';
+import { getConnection } from './connection.js';
+import { runMigrations } from './migrations/index.js';
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface BucketRow {
+  tokens: number;
+  updated_at: number;
+}
+
+/**
+ * Token bucket store backed by SQLite.
+ * Each update runs in an IMMEDIATE transaction, so processes sharing the
+ * database file draw on a single budget without racing each other.
+ */
+export class SqliteRateLimitStore {
+  private db: Database.Database;
+  private initialized = false;
+
+  constructor(db?: Database.Database) {
+    this.db = db ?? getConnection();
+  }
+
+  /**
+   * Ensures database migrations have been run.
+   */
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      runMigrations(this.db);
+      this.initialized = true;
+    }
+  }
+
+  /**
+   * Atomically reads, transforms and persists the bucket state for a key.
+   */
+  update<T>(
+    key: string,
+    fn: (state: TokenBucketState | undefined) => { state: TokenBucketState; result: T }
+  ): T {
+    this.ensureInitialized();
+
+    const select = this.db.prepare(
+      'SELECT tokens, updated_at FROM rate_limit_buckets WHERE bucket_key = ?'
+    );
+    const upsert = this.db.prepare(`
+      INSERT OR REPLACE INTO rate_limit_buckets (bucket_key, tokens, updated_at)
+      VALUES (?, ?, ?)
+    `);
+
+    const transaction = this.db.transaction(() => {
+      const row = select.get(key) as BucketRow | undefined;
+      const { state, result } = fn(
+        row ? { tokens: row.tokens, updatedAt: row.updated_at } : undefined
+      );
+      upsert.run(key, state.tokens, state.updatedAt);
+      return result;
+    });
+
+    return transaction.immediate();
+  }
+
+  /**
+   * Removes the stored state for a bucket.
+   */
+  reset(key: string): void {
+    this.ensureInitialized();
+
+    this.db.prepare('DELETE FROM rate_limit_buckets WHERE bucket_key = ?').run(key);
+  }
+}
+
+/**
+ * Creates a SQLite-backed rate limit store.
+ */
+export function createRateLimitStore(db?: Database.Database): SqliteRateLimitStore {
+  return new SqliteRateLimitStore(db);
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { SqliteSnapshotStore, createSnapshotStore } from './snapshots.js';
+import type { NewSnapshot } from './snapshots.js';
+
+const snapshot: NewSnapshot = {
+  companyNumber: '12345678',
+  policyId: 'default',
+  policyVersion: '1.0.0',
+  generatedAt: '2024-01-10T08:59:58.000Z',
+  dossier: { company: { companyNumber: '12345678', status: 'active' }, riskFlags: [] },
+  evidence: [{ id: 'E1', source: 'Companies House' }],
+  rawInput: { profile: { company_number: '12345678' } },
+  riskScore: { score: 0, level: 'low' },
+};
+
+const created = new Date('2024-01-10T09:00:00.000Z');
+const later = new Date('2024-01-10T09:05:00.000Z');
+
+describe('SqliteSnapshotStore', () => {
+  let db: Database.Database;
+  let store: SqliteSnapshotStore;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    store = createSnapshotStore(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store a snapshot and return it with its content', () => {
+    const summary = store.create(snapshot, created);
+
+    expect(summary).toEqual({
+      id: expect.any(String),
+      companyNumber: '12345678',
+      policyId: 'default',
+      policyVersion: '1.0.0',
+      generatedAt: '2024-01-10T08:59:58.000Z',
+      createdAt: '2024-01-10T09:00:00.000Z',
+      sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+    });
+    expect(store.get(summary.id)).toEqual({ ...snapshot, ...summary });
+    expect(store.get('missing')).toBeUndefined();
+  });
+
+  it('should list a company snapshots newest first', () => {
+    const first = store.create(snapshot, created);
+    const second = store.create(snapshot, later);
+    store.create({ ...snapshot, companyNumber: '87654321' }, later);
+
+    expect(store.listForCompany('12345678')).toEqual([second, first]);
+    expect(store.listForCompany('12345678', 1)).toEqual([second]);
+    expect(second.sha256).toBe(first.sha256);
+  });
+
+  it('should keep the first report stored for each format', () => {
+    const { id } = store.create(snapshot, created);
+
+    expect(store.getReport(id, 'html')).toBeUndefined();
+
+    const stored = store.saveReport(id, 'html', 'text/html', Buffer.from('<p>first</p>'), created);
+    const again = store.saveReport(id, 'html', 'text/html', Buffer.from('<p>second</p>'), later);
+
+    expect(again).toEqual(stored);
+    expect(stored).toMatchObject({
+      snapshotId: id,
+      format: 'html',
+      contentType: 'text/html',
+      createdAt: '2024-01-10T09:00:00.000Z',
+    });
+    expect(stored.body.toString()).toBe('<p>first</p>');
+    expect(store.getReport(id, 'pdf')).toBeUndefined();
+  });
+
+  it('should reject changes to stored snapshots and reports', () => {
+    const { id } = store.create(snapshot, created);
+    store.saveReport(id, 'html', 'text/html', Buffer.from('<p>report</p>'), created);
+
+    expect(() =>
+      db.prepare("UPDATE dossier_snapshots SET content = '{}' WHERE id = ?").run(id)
+    ).toThrow(/immutable/);
+    expect(() => db.prepare('DELETE FROM dossier_snapshots WHERE id = ?').run(id)).toThrow(
+      /immutable/
+    );
+    expect(() =>
+      db.prepare("UPDATE snapshot_reports SET body = x'00' WHERE snapshot_id = ?").run(id)
+    ).toThrow(/immutable/);
+    expect(() => db.prepare('DELETE FROM snapshot_reports WHERE snapshot_id = ?').run(id)).toThrow(
+      /immutable/
+    );
+  });
+});
@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import type Database from 'better-sqlite3';
+import { getConnection } from './connection.js';
+import { runMigrations } from './migrations/index.js';
+
+/**
+ * A generated dossier and everything it was built from.
+ */
+export interface NewSnapshot {
+  companyNumber: string;
+  policyId: string;
+  policyVersion: string;
+  /** The dossier's own generatedAt timestamp */
+  generatedAt: string;
+  dossier: unknown;
+  evidence: unknown;
+  /** Connector payloads the dossier was built from */
+  rawInput: unknown;
+  riskScore: unknown;
+}
+
+/**
+ * Snapshot metadata, without the stored content.
+ */
+export interface SnapshotSummary {
+  id: string;
+  companyNumber: string;
+  policyId: string;
+  policyVersion: string;
+  generatedAt: string;
+  createdAt: string;
+  /** SHA-256 of the stored content, for proving it has not changed */
+  sha256: string;
+}
+
+export interface Snapshot extends SnapshotSummary {
+  dossier: unknown;
+  evidence: unknown;
+  rawInput: unknown;
+  riskScore: unknown;
+}
+
+export type SnapshotReportFormat = 'html' | 'pdf';
+
+/**
+ * A report rendered from a snapshot, kept so later requests get the same bytes.
+ */
+export interface SnapshotReport {
+  snapshotId: string;
+  format: SnapshotReportFormat;
+  contentType: string;
+  body: Buffer;
+  sha256: string;
+  createdAt: string;
+}
+
+const DEFAULT_SNAPSHOT_LIMIT = 50;
+
+const SUMMARY_COLUMNS =
+  'id, company_number, policy_id, policy_version, generated_at, created_at, sha256';
+
+interface SnapshotSummaryRow {
+  id: string;
+  company_number: string;
+  policy_id: string;
+  policy_version: string;
+  generated_at: string;
+  created_at: string;
+  sha256: string;
+}
+
+interface SnapshotRow extends SnapshotSummaryRow {
+  content: string;
+}
+
+interface SnapshotReportRow {
+  snapshot_id: string;
+  format: SnapshotReportFormat;
+  content_type: string;
+  body: Buffer;
+  sha256: string;
+  created_at: string;
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function toSummary(row: SnapshotSummaryRow): SnapshotSummary {
+  return {
+    id: row.id,
+    companyNumber: row.company_number,
+    policyId: row.policy_id,
+    policyVersion: row.policy_version,
+    generatedAt: row.generated_at,
+    createdAt: row.created_at,
+    sha256: row.sha256,
+  };
+}
+
+function toReport(row: SnapshotReportRow): SnapshotReport {
+  return {
+    snapshotId: row.snapshot_id,
+    format: row.format,
+    contentType: row.content_type,
+    body: row.body,
+    sha256: row.sha256,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Immutable dossier snapshots backed by SQLite.
+ *
+ * Snapshots and the reports rendered from them can be added but never changed
+ * or deleted; triggers in the schema reject updates and deletes, so the record
+ * of what was seen holds even against direct writes to the database.
+ */
+export class SqliteSnapshotStore {
+  private db: Database.Database;
+  private initialized = false;
+
+  constructor(db?: Database.Database) {
+    this.db = db ?? getConnection();
+  }
+
+  /**
+   * Ensures database migrations have been run.
+   */
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      runMigrations(this.db);
+      this.initialized = true;
+    }
+  }
+
+  /**
+   * Stores a snapshot.
+   */
+  create(snapshot: NewSnapshot, now: Date = new Date()): SnapshotSummary {
+    this.ensureInitialized();
+
+    const { dossier, evidence, rawInput, riskScore } = snapshot;
+    const content = JSON.stringify({ dossier, evidence, rawInput, riskScore });
+    const summary: SnapshotSummary = {
+      id: crypto.randomUUID(),
+      companyNumber: snapshot.companyNumber,
+      policyId: snapshot.policyId,
+      policyVersion: snapshot.policyVersion,
+      generatedAt: snapshot.generatedAt,
+      createdAt: now.toISOString(),
+      sha256: sha256(content),
+    };
+
+    this.db
+      .prepare(
+        `
+        INSERT INTO dossier_snapshots
+          (id, company_number, policy_id, policy_version, generated_at, created_at, content, sha256)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `
+      )
+      .run(
+        summary.id,
+        summary.companyNumber,
+        summary.policyId,
+        summary.policyVersion,
+        summary.generatedAt,
+        summary.createdAt,
+        content,
+        summary.sha256
+      );
+
+    return summary;
+  }
+
+  /**
+   * Gets a snapshot with its content.
+   */
+  get(id: string): Snapshot | undefined {
+    this.ensureInitialized();
+
+    const row = this.db.prepare('SELECT * FROM dossier_snapshots WHERE id = ?').get(id) as
+      | SnapshotRow
+      | undefined;
+    if (!row) {
+      return undefined;
+    }
+
+    const content = JSON.parse(row.content) as Pick<
+      Snapshot,
+      'dossier' | 'evidence' | 'rawInput' | 'riskScore'
+    >;
+    return { ...toSummary(row), ...content };
+  }
+
+  /**
+   * Lists a company's snapshots, newest first.
+   */
+  listForCompany(companyNumber: string, limit: number = DEFAULT_SNAPSHOT_LIMIT): SnapshotSummary[] {
+    this.ensureInitialized();
+
+    const rows = this.db
+      .prepare(
+        `
+        SELECT ${SUMMARY_COLUMNS} FROM dossier_snapshots WHERE company_number = ?
+        ORDER BY created_at DESC, rowid DESC
+        LIMIT ?
+      `
+      )
+      .all(companyNumber, limit) as SnapshotSummaryRow[];
+
+    return rows.map(toSummary);
+  }
+
+  /**
+   * Gets a report already rendered from a snapshot.
+   */
+  getReport(snapshotId: string, format: SnapshotReportFormat): SnapshotReport | undefined {
+    this.ensureInitialized();
+
+    const row = this.db
+      .prepare('SELECT * FROM snapshot_reports WHERE snapshot_id = ? AND format = ?')
+      .get(snapshotId, format) as SnapshotReportRow | undefined;
+
+    return row ? toReport(row) : undefined;
+  }
+
+  /**
+   * Stores a report rendered from a snapshot. The first report stored for a
+   * format is kept; later ones are discarded in its favour, so a report is
+   * frozen at its first rendering rather than re-rendered on each request
+   * (renderings are not byte-for-byte repeatable: PDFs embed their creation
+   * time).
+   *
+   * @returns The stored report
+   */
+  saveReport(
+    snapshotId: string,
+    format: SnapshotReportFormat,
+    contentType: string,
+    body: Buffer,
+    now: Date = new Date()
+  ): SnapshotReport {
+    this.ensureInitialized();
+
+    this.db
+      .prepare(
+        `
+        INSERT OR IGNORE INTO snapshot_reports
+          (snapshot_id, format, content_type, body, sha256, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `
+      )
+      .run(snapshotId, format, contentType, body, sha256(body), now.toISOString());
+
+    return this.getReport(snapshotId, format) as SnapshotReport;
+  }
+}
+
+/**
+ * Creates a SQLite-backed snapshot store.
+ */
+export function createSnapshotStore(db?: Database.Database): SqliteSnapshotStore {
+  return new SqliteSnapshotStore(db);
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { SqliteWaiverStore, createWaiverStore } from './waivers.js';
+import type { NewWaiver } from './waivers.js';
+
+const waiver: NewWaiver = {
+  companyNumber: '12345678',
+  flagId: 'F7',
+  policyId: 'default',
+  fingerprint: '0123456789abcdef',
+  reason: 'Turnover below the reporting threshold',
+  reviewer: 'j.smith',
+  expiresOn: '2024-12-31',
+};
+
+describe('SqliteWaiverStore', () => {
+  let db: Database.Database;
+  let store: SqliteWaiverStore;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    store = createWaiverStore(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store and return a waiver', () => {
+    const created = store.create(waiver, new Date('2024-01-10T09:30:00.000Z'));
+
+    expect(created).toEqual({
+      ...waiver,
+      id: expect.any(String),
+      createdAt: '2024-01-10T09:30:00.000Z',
+    });
+    expect(store.get(created.id)).toEqual(created);
+  });
+
+  it('should list waivers for one company, oldest first', () => {
+    const second = store.create(waiver, new Date('2024-02-01T00:00:00.000Z'));
+    const first = store.create({ ...waiver, flagId: 'F2' }, new Date('2024-01-01T00:00:00.000Z'));
+    store.create({ ...waiver, companyNumber: '87654321' });
+
+    expect(store.listForCompany('12345678').map((w) => w.id)).toEqual([first.id, second.id]);
+    expect(store.listForCompany('00000000')).toEqual([]);
+  });
+
+  it('should mark waivers as lapsed once', () => {
+    const created = store.create(waiver);
+
+    store.markLapsed([created.id], new Date('2024-03-01T00:00:00.000Z'));
+    store.markLapsed([created.id], new Date('2024-04-01T00:00:00.000Z'));
+
+    expect(store.get(created.id)?.lapsedAt).toBe('2024-03-01T00:00:00.000Z');
+  });
+
+  it('should delete waivers', () => {
+    const created = store.create(waiver);
+
+    expect(store.delete(created.id)).toBe(true);
+    expect(store.delete(created.id)).toBe(false);
+    expect(store.get(created.id)).toBeUndefined();
+  });
+
+  it('should persist waivers across store instances', () => {
+    const created = store.create(waiver);
+
+    expect(new SqliteWaiverStore(db).get(created.id)).toEqual(created);
+  });
+});
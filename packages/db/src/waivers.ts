@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import type Database from 'better-sqlite3';
+import { getConnection } from './connection.js';
+import { runMigrations } from './migrations/index.js';
+
+/**
+ * A waiver as recorded by a reviewer.
+ */
+export interface NewWaiver {
+  companyNumber: string;
+  flagId: string;
+  policyId: string;
+  /** Fingerprint of the flag's evidence at review time */
+  fingerprint: string;
+  reason: string;
+  reviewer: string;
+  /** Last day the waiver applies (YYYY-MM-DD) */
+  expiresOn: string;
+}
+
+/**
+ * A stored waiver.
+ */
+export interface StoredWaiver extends NewWaiver {
+  id: string;
+  createdAt: string;
+  /** Set once the flag's evidence changed */
+  lapsedAt?: string;
+}
+
+interface WaiverRow {
+  id: string;
+  company_number: string;
+  flag_id: string;
+  policy_id: string;
+  fingerprint: string;
+  reason: string;
+  reviewer: string;
+  created_at: string;
+  expires_on: string;
+  lapsed_at: string | null;
+}
+
+function toWaiver(row: WaiverRow): StoredWaiver {
+  return {
+    id: row.id,
+    companyNumber: row.company_number,
+    flagId: row.flag_id,
+    policyId: row.policy_id,
+    fingerprint: row.fingerprint,
+    reason: row.reason,
+    reviewer: row.reviewer,
+    createdAt: row.created_at,
+    expiresOn: row.expires_on,
+    ...(row.lapsed_at && { lapsedAt: row.lapsed_at }),
+  };
+}
+
+/**
+ * Risk flag waiver store backed by SQLite.
+ * Waivers are kept after they expire or lapse, as a record of past reviews.
+ */
+export class SqliteWaiverStore {
+  private db: Database.Database;
+  private initialized = false;
+
+  constructor(db?: Database.Database) {
+    this.db = db ?? getConnection();
+  }
+
+  /**
+   * Ensures database migrations have been run.
+   */
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      runMigrations(this.db);
+      this.initialized = true;
+    }
+  }
+
+  /**
+   * Records a new waiver.
+   */
+  create(waiver: NewWaiver, now: Date = new Date()): StoredWaiver {
+    this.ensureInitialized();
+
+    const stored: StoredWaiver = {
+      ...waiver,
+      id: crypto.randomUUID(),
+      createdAt: now.toISOString(),
+    };
+
+    this.db
+      .prepare(
+        `
+        INSERT INTO risk_flag_waivers
+          (id, company_number, flag_id, policy_id, fingerprint, reason, reviewer, created_at, expires_on)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `
+      )
+      .run(
+        stored.id,
+        stored.companyNumber,
+        stored.flagId,
+        stored.policyId,
+        stored.fingerprint,
+        stored.reason,
+        stored.reviewer,
+        stored.createdAt,
+        stored.expiresOn
+      );
+
+    return stored;
+  }
+
+  /**
+   * Gets a waiver by ID.
+   */
+  get(id: string): StoredWaiver | undefined {
+    this.ensureInitialized();
+
+    const row = this.db.prepare('SELECT * FROM risk_flag_waivers WHERE id = ?').get(id) as
+      | WaiverRow
+      | undefined;
+
+    return row ? toWaiver(row) : undefined;
+  }
+
+  /**
+   * Lists every waiver for a company, oldest first.
+   */
+  listForCompany(companyNumber: string): StoredWaiver[] {
+    this.ensureInitialized();
+
+    const rows = this.db
+      .prepare('SELECT * FROM risk_flag_waivers WHERE company_number = ? ORDER BY created_at, id')
+      .all(companyNumber) as WaiverRow[];
+
+    return rows.map(toWaiver);
+  }
+
+  /**
+   * Marks waivers as lapsed. Waivers that already lapsed keep their original date.
+   */
+  markLapsed(ids: string[], lapsedAt: Date = new Date()): void {
+    this.ensureInitialized();
+
+    const update = this.db.prepare(
+      'UPDATE risk_flag_waivers SET lapsed_at = ? WHERE id = ? AND lapsed_at IS NULL'
+    );
+    const transaction = this.db.transaction(() => {
+      for (const id of ids) {
+        update.run(lapsedAt.toISOString(), id);
+      }
+    });
+
+    transaction();
+  }
+
+  /**
+   * Deletes a waiver.
+   * @returns true if the waiver existed
+   */
+  delete(id: string): boolean {
+    this.ensureInitialized();
+
+    const result = this.db.prepare('DELETE FROM risk_flag_waivers WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+}
+
+/**
+ * Creates a SQLite-backed waiver store.
+ */
+export function createWaiverStore(db?: Database.Database): SqliteWaiverStore {
+  return new SqliteWaiverStore(db);
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { SqliteWatchlistStore, createWatchlistStore } from './watchlist.js';
+
+const added = new Date('2024-01-10T09:00:00.000Z');
+const later = new Date('2024-01-11T09:00:00.000Z');
+
+describe('SqliteWatchlistStore', () => {
+  let db: Database.Database;
+  let store: SqliteWatchlistStore;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    store = createWatchlistStore(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should add a company, due for a check straight away', () => {
+    const watch = store.add(
+      { companyNumber: '12345678', label: 'SUP-001', policyId: 'default' },
+      added
+    );
+
+    expect(watch).toEqual({
+      companyNumber: '12345678',
+      label: 'SUP-001',
+      policyId: 'default',
+      addedAt: '2024-01-10T09:00:00.000Z',
+      nextCheckAt: '2024-01-10T09:00:00.000Z',
+    });
+    expect(store.list()).toEqual([watch]);
+  });
+
+  it('should claim due companies once and reschedule them', () => {
+    store.add({ companyNumber: '12345678', policyId: 'default' }, added);
+
+    const claimed = store.claimDue(later, added);
+    expect(claimed.map((watch) => watch.companyNumber)).toEqual(['12345678']);
+    expect(claimed[0].nextCheckAt).toBe(later.toISOString());
+
+    expect(store.claimDue(later, added)).toEqual([]);
+    expect(store.claimDue(new Date('2024-01-12T09:00:00.000Z'), later)).toHaveLength(1);
+  });
+
+  it('should leave companies unclaimed when handling a claim fails', () => {
+    store.add({ companyNumber: '12345678', policyId: 'default' }, added);
+
+    expect(() =>
+      store.claimDue(later, added, () => {
+        throw new Error('database is locked');
+      })
+    ).toThrow('database is locked');
+    expect(store.get('12345678')?.nextCheckAt).toBe(added.toISOString());
+
+    const onClaim = vi.fn();
+    store.claimDue(later, added, onClaim);
+    expect(onClaim).toHaveBeenCalledWith(expect.objectContaining({ companyNumber: '12345678' }));
+  });
+
+  it('should keep the last dossier and record events from a check', () => {
+    store.add({ companyNumber: '12345678', policyId: 'default' }, added);
+    expect(store.getLastDossier('12345678')).toBeUndefined();
+
+    const events = store.recordCheck(
+      '12345678',
+      { company: { status: 'liquidation' } },
+      [
+        {
+          type: 'status_changed',
+          summary: 'Status changed',
+          previous: 'active',
+          current: 'liquidation',
+        },
+      ],
+      later
+    );
+
+    expect(events).toEqual([
+      {
+        id: expect.any(String),
+        companyNumber: '12345678',
+        type: 'status_changed',
+        summary: 'Status changed',
+        previous: 'active',
+        current: 'liquidation',
+        detectedAt: later.toISOString(),
+      },
+    ]);
+    expect(store.getLastDossier('12345678')).toEqual({ company: { status: 'liquidation' } });
+    expect(store.get('12345678')?.lastCheckedAt).toBe(later.toISOString());
+    expect(store.listEvents()).toEqual(events);
+  });
+
+  it('should record a failed check and clear it on the next success', () => {
+    store.add({ companyNumber: '12345678', policyId: 'default' }, added);
+
+    store.recordError('12345678', { code: 'UPSTREAM_ERROR', message: 'Bad gateway' }, later);
+    expect(store.get('12345678')?.lastError).toEqual({
+      code: 'UPSTREAM_ERROR',
+      message: 'Bad gateway',
+    });
+
+    store.recordCheck('12345678', {}, [], later);
+    expect(store.get('12345678')?.lastError).toBeUndefined();
+  });
+
+  it('should discard the stored dossier when the policy changes', () => {
+    store.add({ companyNumber: '12345678', policyId: 'default' }, added);
+    store.claimDue(later, added);
+    store.recordCheck('12345678', { company: {} }, [], added);
+
+    store.add({ companyNumber: '12345678', label: 'SUP-001', policyId: 'default' }, added);
+    expect(store.getLastDossier('12345678')).toEqual({ company: {} });
+    expect(store.get('12345678')?.nextCheckAt).toBe(later.toISOString());
+
+    const watch = store.add({ companyNumber: '12345678', policyId: 'public-sector' }, added);
+    expect(store.getLastDossier('12345678')).toBeUndefined();
+    expect(watch).toMatchObject({ policyId: 'public-sector', nextCheckAt: added.toISOString() });
+    expect(watch.label).toBeUndefined();
+  });
+
+  it('should not record checks for companies removed meanwhile, but keep earlier events', () => {
+    store.add({ companyNumber: '12345678', policyId: 'default' }, added);
+    store.recordCheck('12345678', {}, [{ type: 'psc_added', summary: 'PSC added' }], added);
+
+    expect(store.remove('12345678')).toBe(true);
+    expect(store.remove('12345678')).toBe(false);
+    expect(store.recordCheck('12345678', {}, [{ type: 'psc_ceased', summary: 'x' }])).toEqual([]);
+    expect(store.listEvents().map((event) => event.type)).toEqual(['psc_added']);
+  });
+
+  it('should filter events by company and time, newest first', () => {
+    store.add({ companyNumber: '12345678', policyId: 'default' }, added);
+    store.add({ companyNumber: '87654321', policyId: 'default' }, added);
+    store.recordCheck('12345678', {}, [{ type: 'status_changed', summary: 'first' }], added);
+    store.recordCheck(
+      '12345678',
+      {},
+      [
+        { type: 'officer_appointed', summary: 'second' },
+        { type: 'officer_ceased', summary: 'third' },
+      ],
+      later
+    );
+    store.recordCheck('87654321', {}, [{ type: 'psc_added', summary: 'other' }], later);
+
+    const summaries = (query = {}) => store.listEvents(query).map((event) => event.summary);
+
+    expect(summaries({ companyNumber: '12345678' })).toEqual(['second', 'third', 'first']);
+    expect(summaries({ since: added.toISOString() })).toEqual(['second', 'third', 'other']);
+    expect(summaries({ limit: 1 })).toEqual(['second']);
+  });
+});
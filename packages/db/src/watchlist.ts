@@ -0,0 +1,341 @@
+import crypto from 'crypto';
+import type Database from 'better-sqlite3';
+import { getConnection } from './connection.js';
+import { runMigrations } from './migrations/index.js';
+
+/**
+ * A company to add to the watchlist.
+ */
+export interface NewWatch {
+  companyNumber: string;
+  /** Reviewer's name for the supplier, e.g. an internal supplier ID */
+  label?: string;
+  /** Risk policy the company's dossier is rebuilt under */
+  policyId: string;
+}
+
+export interface WatchCheckError {
+  code: string;
+  message: string;
+}
+
+/**
+ * A watched company and its check schedule.
+ */
+export interface Watch extends NewWatch {
+  addedAt: string;
+  nextCheckAt: string;
+  lastCheckedAt?: string;
+  /** Set when the last check failed */
+  lastError?: WatchCheckError;
+}
+
+/**
+ * A change found when a watched company was checked.
+ */
+export interface NewWatchEvent {
+  type: string;
+  summary: string;
+  previous?: unknown;
+  current?: unknown;
+}
+
+export interface WatchEvent extends NewWatchEvent {
+  id: string;
+  companyNumber: string;
+  detectedAt: string;
+}
+
+export interface WatchEventQuery {
+  companyNumber?: string;
+  /** Only events detected after this time (ISO timestamp) */
+  since?: string;
+  /** Most events returned (default: 100) */
+  limit?: number;
+}
+
+const DEFAULT_EVENT_LIMIT = 100;
+
+interface WatchRow {
+  company_number: string;
+  label: string | null;
+  policy_id: string;
+  added_at: string;
+  next_check_at: string;
+  last_checked_at: string | null;
+  last_error: string | null;
+}
+
+interface WatchEventRow {
+  id: string;
+  company_number: string;
+  type: string;
+  summary: string;
+  previous: string | null;
+  current: string | null;
+  detected_at: string;
+}
+
+const WATCH_COLUMNS =
+  'company_number, label, policy_id, added_at, next_check_at, last_checked_at, last_error';
+
+function toWatch(row: WatchRow): Watch {
+  return {
+    companyNumber: row.company_number,
+    ...(row.label !== null && { label: row.label }),
+    policyId: row.policy_id,
+    addedAt: row.added_at,
+    nextCheckAt: row.next_check_at,
+    ...(row.last_checked_at !== null && { lastCheckedAt: row.last_checked_at }),
+    ...(row.last_error !== null && { lastError: JSON.parse(row.last_error) as WatchCheckError }),
+  };
+}
+
+function toWatchEvent(row: WatchEventRow): WatchEvent {
+  return {
+    id: row.id,
+    companyNumber: row.company_number,
+    type: row.type,
+    summary: row.summary,
+    ...(row.previous !== null && { previous: JSON.parse(row.previous) }),
+    ...(row.current !== null && { current: JSON.parse(row.current) }),
+    detectedAt: row.detected_at,
+  };
+}
+
+/**
+ * Supplier watchlist backed by SQLite.
+ *
+ * Each watched company keeps the dossier from its last successful check, so
+ * the next check can be compared against it. Events are kept after a company
+ * is removed from the watchlist, as a record of what was seen.
+ */
+export class SqliteWatchlistStore {
+  private db: Database.Database;
+  private initialized = false;
+
+  constructor(db?: Database.Database) {
+    this.db = db ?? getConnection();
+  }
+
+  /**
+   * Ensures database migrations have been run.
+   */
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      runMigrations(this.db);
+      this.initialized = true;
+    }
+  }
+
+  /**
+   * Adds a company to the watchlist, due for its first check straight away.
+   *
+   * Adding a company already on the watchlist updates its label and policy.
+   * A policy change discards the stored dossier, since flags raised under the
+   * old policy are not comparable, and brings the next check forward.
+   */
+  add(watch: NewWatch, now: Date = new Date()): Watch {
+    this.ensureInitialized();
+
+    this.db
+      .prepare(
+        `
+        INSERT INTO watchlist (company_number, label, policy_id, added_at, next_check_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (company_number) DO UPDATE SET
+          label = excluded.label,
+          last_dossier = CASE
+            WHEN policy_id = excluded.policy_id THEN last_dossier ELSE NULL END,
+          next_check_at = CASE
+            WHEN policy_id = excluded.policy_id THEN next_check_at ELSE excluded.next_check_at END,
+          policy_id = excluded.policy_id
+      `
+      )
+      .run(
+        watch.companyNumber,
+        watch.label ?? null,
+        watch.policyId,
+        now.toISOString(),
+        now.toISOString()
+      );
+
+    return this.get(watch.companyNumber) as Watch;
+  }
+
+  /**
+   * Gets a watched company.
+   */
+  get(companyNumber: string): Watch | undefined {
+    this.ensureInitialized();
+
+    const row = this.db
+      .prepare(`SELECT ${WATCH_COLUMNS} FROM watchlist WHERE company_number = ?`)
+      .get(companyNumber) as WatchRow | undefined;
+
+    return row ? toWatch(row) : undefined;
+  }
+
+  /**
+   * Lists every watched company, in the order they were added.
+   */
+  list(): Watch[] {
+    this.ensureInitialized();
+
+    const rows = this.db
+      .prepare(`SELECT ${WATCH_COLUMNS} FROM watchlist ORDER BY added_at, company_number`)
+      .all() as WatchRow[];
+
+    return rows.map(toWatch);
+  }
+
+  /**
+   * Removes a company from the watchlist. Its events are kept.
+   * @returns true if the company was on the watchlist
+   */
+  remove(companyNumber: string): boolean {
+    this.ensureInitialized();
+
+    const result = this.db
+      .prepare('DELETE FROM watchlist WHERE company_number = ?')
+      .run(companyNumber);
+    return result.changes > 0;
+  }
+
+  /**
+   * Claims the companies due for a check, moving their next check to `nextCheckAt`
+   * so they are not claimed again while the check is pending.
+   *
+   * `onClaim` is called for each claimed company inside the claim's
+   * transaction, so what it writes on the same connection commits with the
+   * claim; if it throws, nothing is claimed.
+   */
+  claimDue(nextCheckAt: Date, now: Date = new Date(), onClaim?: (watch: Watch) => void): Watch[] {
+    this.ensureInitialized();
+
+    const select = this.db.prepare(`
+      SELECT ${WATCH_COLUMNS} FROM watchlist
+      WHERE next_check_at <= ?
+      ORDER BY next_check_at, company_number
+    `);
+    const reschedule = this.db.prepare(
+      'UPDATE watchlist SET next_check_at = ? WHERE company_number = ?'
+    );
+
+    const transaction = this.db.transaction(() => {
+      const rows = select.all(now.toISOString()) as WatchRow[];
+      return rows.map((row) => {
+        reschedule.run(nextCheckAt.toISOString(), row.company_number);
+        const watch = toWatch({ ...row, next_check_at: nextCheckAt.toISOString() });
+        onClaim?.(watch);
+        return watch;
+      });
+    });
+
+    return transaction.immediate();
+  }
+
+  /**
+   * Gets the dossier stored by the last successful check, if any.
+   */
+  getLastDossier(companyNumber: string): unknown {
+    this.ensureInitialized();
+
+    const row = this.db
+      .prepare('SELECT last_dossier FROM watchlist WHERE company_number = ?')
+      .get(companyNumber) as { last_dossier: string | null } | undefined;
+
+    return row?.last_dossier ? JSON.parse(row.last_dossier) : undefined;
+  }
+
+  /**
+   * Records a successful check: stores the new dossier and the changes found.
+   * Nothing is recorded if the company was removed from the watchlist meanwhile.
+   *
+   * @returns The stored events
+   */
+  recordCheck(
+    companyNumber: string,
+    dossier: unknown,
+    changes: NewWatchEvent[],
+    now: Date = new Date()
+  ): WatchEvent[] {
+    this.ensureInitialized();
+
+    const update = this.db.prepare(`
+      UPDATE watchlist SET last_dossier = ?, last_checked_at = ?, last_error = NULL
+      WHERE company_number = ?
+    `);
+    const insert = this.db.prepare(`
+      INSERT INTO watchlist_events
+        (id, company_number, type, summary, previous, current, detected_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const transaction = this.db.transaction(() => {
+      const detectedAt = now.toISOString();
+      if (update.run(JSON.stringify(dossier), detectedAt, companyNumber).changes === 0) {
+        return [];
+      }
+
+      return changes.map((change) => {
+        const event: WatchEvent = { ...change, id: crypto.randomUUID(), companyNumber, detectedAt };
+        insert.run(
+          event.id,
+          companyNumber,
+          event.type,
+          event.summary,
+          event.previous === undefined ? null : JSON.stringify(event.previous),
+          event.current === undefined ? null : JSON.stringify(event.current),
+          detectedAt
+        );
+        return event;
+      });
+    });
+
+    return transaction();
+  }
+
+  /**
+   * Records a failed check. The stored dossier is kept for the next attempt.
+   */
+  recordError(companyNumber: string, error: WatchCheckError, now: Date = new Date()): void {
+    this.ensureInitialized();
+
+    this.db
+      .prepare('UPDATE watchlist SET last_checked_at = ?, last_error = ? WHERE company_number = ?')
+      .run(now.toISOString(), JSON.stringify(error), companyNumber);
+  }
+
+  /**
+   * Lists events, newest check first and in the order found within a check.
+   */
+  listEvents(query: WatchEventQuery = {}): WatchEvent[] {
+    this.ensureInitialized();
+
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    if (query.companyNumber) {
+      conditions.push('company_number = ?');
+      params.push(query.companyNumber);
+    }
+    if (query.since) {
+      conditions.push('detected_at > ?');
+      params.push(query.since);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM watchlist_events ${where} ORDER BY detected_at DESC, rowid LIMIT ?`)
+      .all(...params, query.limit ?? DEFAULT_EVENT_LIMIT) as WatchEventRow[];
+
+    return rows.map(toWatchEvent);
+  }
+}
+
+/**
+ * Creates a SQLite-backed watchlist store.
+ */
+export function createWatchlistStore(db?: Database.Database): SqliteWatchlistStore {
+  return new SqliteWatchlistStore(db);
+}
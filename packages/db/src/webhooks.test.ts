@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { SqliteWebhookStore, createWebhookStore } from './webhooks.js';
+import type { NewWebhook } from './webhooks.js';
+
+const webhook: NewWebhook = {
+  url: 'https://erp.example.test/hooks/suppliers',
+  secret: 'whsec_test',
+  eventTypes: ['watchlist.status_changed', 'screening.completed'],
+};
+
+const created = new Date('2024-01-10T09:00:00.000Z');
+const later = new Date('2024-01-10T09:05:00.000Z');
+
+describe('SqliteWebhookStore', () => {
+  let db: Database.Database;
+  let store: SqliteWebhookStore;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    store = createWebhookStore(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store and return a webhook', () => {
+    const stored = store.create({ ...webhook, description: 'ERP' }, created);
+
+    expect(stored).toEqual({
+      ...webhook,
+      description: 'ERP',
+      id: expect.any(String),
+      createdAt: '2024-01-10T09:00:00.000Z',
+    });
+    expect(store.get(stored.id)).toEqual(stored);
+    expect(store.list()).toEqual([stored]);
+  });
+
+  it('should list webhooks subscribed to an event type', () => {
+    const erp = store.create(webhook, created);
+    store.create({ ...webhook, eventTypes: ['watchlist.psc_added'] }, later);
+
+    expect(store.listForEvent('screening.completed')).toEqual([erp]);
+    expect(store.listForEvent('watchlist.officer_ceased')).toEqual([]);
+  });
+
+  it('should log a delivery and each attempt at it', () => {
+    const { id: webhookId } = store.create(webhook, created);
+    const delivery = store.createDelivery(webhookId, 'screening.completed', { id: 'evt' }, created);
+
+    expect(delivery).toEqual({
+      id: expect.any(String),
+      webhookId,
+      eventType: 'screening.completed',
+      payload: { id: 'evt' },
+      state: 'pending',
+      attempts: 0,
+      createdAt: '2024-01-10T09:00:00.000Z',
+    });
+
+    const retrying = store.recordAttempt(
+      delivery.id,
+      { state: 'pending', responseStatus: 503, error: 'Service Unavailable' },
+      created
+    );
+    expect(retrying).toMatchObject({ state: 'pending', attempts: 1, responseStatus: 503 });
+    expect(retrying.deliveredAt).toBeUndefined();
+
+    const delivered = store.recordAttempt(
+      delivery.id,
+      { state: 'succeeded', responseStatus: 200 },
+      later
+    );
+    expect(delivered).toMatchObject({
+      state: 'succeeded',
+      attempts: 2,
+      responseStatus: 200,
+      lastAttemptAt: later.toISOString(),
+      deliveredAt: later.toISOString(),
+    });
+    expect(delivered.error).toBeUndefined();
+  });
+
+  it('should list deliveries newest first and delete them with the webhook', () => {
+    const { id: webhookId } = store.create(webhook, created);
+    store.createDelivery(webhookId, 'screening.completed', { n: 1 }, created);
+    store.createDelivery(webhookId, 'screening.completed', { n: 2 }, later);
+
+    expect(store.listDeliveries(webhookId).map((delivery) => delivery.payload)).toEqual([
+      { n: 2 },
+      { n: 1 },
+    ]);
+    expect(store.listDeliveries(webhookId, 1)).toHaveLength(1);
+
+    expect(store.delete(webhookId)).toBe(true);
+    expect(store.delete(webhookId)).toBe(false);
+    expect(store.listDeliveries(webhookId)).toEqual([]);
+  });
+});
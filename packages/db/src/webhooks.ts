@@ -0,0 +1,297 @@
+import crypto from 'crypto';
+import type Database from 'better-sqlite3';
+import { getConnection } from './connection.js';
+import { runMigrations } from './migrations/index.js';
+
+/**
+ * A webhook subscription as registered.
+ */
+export interface NewWebhook {
+  url: string;
+  /** Key for the HMAC-SHA256 signature on each delivery */
+  secret: string;
+  /** Event types delivered to this webhook */
+  eventTypes: string[];
+  description?: string;
+}
+
+export interface Webhook extends NewWebhook {
+  id: string;
+  createdAt: string;
+}
+
+export type WebhookDeliveryState = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * Outcome of one attempt to deliver an event.
+ */
+export interface WebhookAttempt {
+  /** 'pending' while the delivery will be retried */
+  state: WebhookDeliveryState;
+  /** HTTP status returned by the receiver, if it responded */
+  responseStatus?: number;
+  error?: string;
+}
+
+/**
+ * An event delivery to one webhook, updated after each attempt.
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventType: string;
+  /** Event body, as posted to the receiver */
+  payload: unknown;
+  state: WebhookDeliveryState;
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  createdAt: string;
+  lastAttemptAt?: string;
+  deliveredAt?: string;
+}
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+
+interface WebhookRow {
+  id: string;
+  url: string;
+  secret: string;
+  event_types: string;
+  description: string | null;
+  created_at: string;
+}
+
+interface DeliveryRow {
+  id: string;
+  webhook_id: string;
+  event_type: string;
+  payload: string;
+  state: WebhookDeliveryState;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  last_attempt_at: string | null;
+  delivered_at: string | null;
+}
+
+function toWebhook(row: WebhookRow): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    secret: row.secret,
+    eventTypes: JSON.parse(row.event_types) as string[],
+    ...(row.description !== null && { description: row.description }),
+    createdAt: row.created_at,
+  };
+}
+
+function toDelivery(row: DeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    eventType: row.event_type,
+    payload: JSON.parse(row.payload),
+    state: row.state,
+    attempts: row.attempts,
+    ...(row.response_status !== null && { responseStatus: row.response_status }),
+    ...(row.error !== null && { error: row.error }),
+    createdAt: row.created_at,
+    ...(row.last_attempt_at !== null && { lastAttemptAt: row.last_attempt_at }),
+    ...(row.delivered_at !== null && { deliveredAt: row.delivered_at }),
+  };
+}
+
+/**
+ * Webhook subscriptions and their delivery log, backed by SQLite.
+ */
+export class SqliteWebhookStore {
+  private db: Database.Database;
+  private initialized = false;
+
+  constructor(db?: Database.Database) {
+    this.db = db ?? getConnection();
+  }
+
+  /**
+   * Ensures database migrations have been run.
+   */
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      runMigrations(this.db);
+      this.initialized = true;
+    }
+  }
+
+  /**
+   * Registers a webhook.
+   */
+  create(webhook: NewWebhook, now: Date = new Date()): Webhook {
+    this.ensureInitialized();
+
+    const stored: Webhook = {
+      ...webhook,
+      id: crypto.randomUUID(),
+      createdAt: now.toISOString(),
+    };
+
+    this.db
+      .prepare(
+        `
+        INSERT INTO webhooks (id, url, secret, event_types, description, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `
+      )
+      .run(
+        stored.id,
+        stored.url,
+        stored.secret,
+        JSON.stringify(stored.eventTypes),
+        stored.description ?? null,
+        stored.createdAt
+      );
+
+    return stored;
+  }
+
+  /**
+   * Gets a webhook by ID.
+   */
+  get(id: string): Webhook | undefined {
+    this.ensureInitialized();
+
+    const row = this.db.prepare('SELECT * FROM webhooks WHERE id = ?').get(id) as
+      | WebhookRow
+      | undefined;
+
+    return row ? toWebhook(row) : undefined;
+  }
+
+  /**
+   * Lists every webhook, oldest first.
+   */
+  list(): Webhook[] {
+    this.ensureInitialized();
+
+    const rows = this.db
+      .prepare('SELECT * FROM webhooks ORDER BY created_at, id')
+      .all() as WebhookRow[];
+
+    return rows.map(toWebhook);
+  }
+
+  /**
+   * Lists the webhooks subscribed to an event type.
+   */
+  listForEvent(eventType: string): Webhook[] {
+    return this.list().filter((webhook) => webhook.eventTypes.includes(eventType));
+  }
+
+  /**
+   * Deletes a webhook and its delivery log.
+   * @returns true if the webhook existed
+   */
+  delete(id: string): boolean {
+    this.ensureInitialized();
+
+    const transaction = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').run(id);
+      return this.db.prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+    });
+
+    return transaction();
+  }
+
+  /**
+   * Logs a new delivery of an event to a webhook, not yet attempted.
+   */
+  createDelivery(
+    webhookId: string,
+    eventType: string,
+    payload: unknown,
+    now: Date = new Date()
+  ): WebhookDelivery {
+    this.ensureInitialized();
+
+    const id = crypto.randomUUID();
+    this.db
+      .prepare(
+        `
+        INSERT INTO webhook_deliveries (id, webhook_id, event_type, payload, state, created_at)
+        VALUES (?, ?, ?, ?, 'pending', ?)
+      `
+      )
+      .run(id, webhookId, eventType, JSON.stringify(payload), now.toISOString());
+
+    return this.getDelivery(id) as WebhookDelivery;
+  }
+
+  /**
+   * Gets a delivery by ID.
+   */
+  getDelivery(id: string): WebhookDelivery | undefined {
+    this.ensureInitialized();
+
+    const row = this.db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id) as
+      | DeliveryRow
+      | undefined;
+
+    return row ? toDelivery(row) : undefined;
+  }
+
+  /**
+   * Records an attempt to deliver an event.
+   * @returns The updated delivery
+   */
+  recordAttempt(id: string, attempt: WebhookAttempt, now: Date = new Date()): WebhookDelivery {
+    this.ensureInitialized();
+
+    const attemptedAt = now.toISOString();
+    this.db
+      .prepare(
+        `
+        UPDATE webhook_deliveries
+        SET state = ?, attempts = attempts + 1, response_status = ?, error = ?,
+            last_attempt_at = ?, delivered_at = ?
+        WHERE id = ?
+      `
+      )
+      .run(
+        attempt.state,
+        attempt.responseStatus ?? null,
+        attempt.error ?? null,
+        attemptedAt,
+        attempt.state === 'succeeded' ? attemptedAt : null,
+        id
+      );
+
+    return this.getDelivery(id) as WebhookDelivery;
+  }
+
+  /**
+   * Lists a webhook's deliveries, newest first.
+   */
+  listDeliveries(webhookId: string, limit: number = DEFAULT_DELIVERY_LIMIT): WebhookDelivery[] {
+    this.ensureInitialized();
+
+    const rows = this.db
+      .prepare(
+        `
+        SELECT * FROM webhook_deliveries WHERE webhook_id = ?
+        ORDER BY created_at DESC, rowid DESC
+        LIMIT ?
+      `
+      )
+      .all(webhookId, limit) as DeliveryRow[];
+
+    return rows.map(toDelivery);
+  }
+}
+
+/**
+ * Creates a SQLite-backed webhook store.
+ */
+export function createWebhookStore(db?: Database.Database): SqliteWebhookStore {
+  return new SqliteWebhookStore(db);
+}
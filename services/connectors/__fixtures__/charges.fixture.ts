@@ -0,0 +1,61 @@
+import type { ChargesResponse } from '../companies-house.types';
+
+export const chargesFixture: ChargesResponse = {
+  etag: 'charges-etag-123',
+  items: [
+    {
+      charge_code: '123456780002',
+      charge_number: 2,
+      classification: {
+        description: 'A registered charge',
+        type: 'charge-description',
+      },
+      created_on: '2024-02-12',
+      delivered_on: '2024-02-19',
+      etag: 'charge-2-etag',
+      id: 'charge-2',
+      links: {
+        self: '/company/12345678/charges/charge-2',
+      },
+      particulars: {
+        contains_fixed_charge: true,
+        contains_floating_charge: true,
+        contains_negative_pledge: true,
+        floating_charge_covers_all: true,
+        type: 'brief-description',
+      },
+      persons_entitled: [{ name: 'Example Bank PLC' }],
+      status: 'outstanding',
+    },
+    {
+      charge_number: 1,
+      classification: {
+        description: 'Debenture',
+        type: 'charge-description',
+      },
+      created_on: '2020-03-01',
+      delivered_on: '2020-03-10',
+      etag: 'charge-1-etag',
+      id: 'charge-1',
+      links: {
+        self: '/company/12345678/charges/charge-1',
+      },
+      persons_entitled: [{ name: 'Old Lender Limited' }],
+      satisfied_on: '2023-05-04',
+      status: 'fully-satisfied',
+    },
+  ],
+  part_satisfied_count: 0,
+  satisfied_count: 1,
+  total_count: 2,
+  unfiltered_count: 2,
+};
+
+export const emptyChargesFixture: ChargesResponse = {
+  etag: 'empty-charges-etag',
+  items: [],
+  part_satisfied_count: 0,
+  satisfied_count: 0,
+  total_count: 0,
+  unfiltered_count: 0,
+};
@@ -0,0 +1,64 @@
+import type {
+  DisqualifiedOfficerResponse,
+  DisqualifiedOfficerSearchResponse,
+} from '../companies-house.types';
+
+export const disqualifiedOfficerSearchFixture: DisqualifiedOfficerSearchResponse = {
+  items: [
+    {
+      address: {
+        address_line_1: '10 Other Street',
+        locality: 'Leeds',
+        postal_code: 'LS1 1AA',
+      },
+      date_of_birth: '1985-06-12',
+      description: 'Born on 12 June 1985',
+      kind: 'searchresults#disqualified-officer',
+      links: { self: '/disqualified-officers/natural/dq1234567890' },
+      snippet: '10 Other Street, Leeds, LS1 1AA',
+      title: 'John David SMITH',
+    },
+    {
+      date_of_birth: '1961-02-03',
+      description: 'Born on 3 February 1961',
+      kind: 'searchresults#disqualified-officer',
+      links: { self: '/disqualified-officers/natural/dq0987654321' },
+      title: 'John SMITH',
+    },
+  ],
+  items_per_page: 20,
+  kind: 'search#disqualified-officers',
+  start_index: 0,
+  total_results: 2,
+};
+
+export const disqualifiedOfficerFixture: DisqualifiedOfficerResponse = {
+  date_of_birth: '1985-06-12',
+  disqualifications: [
+    {
+      address: {
+        address_line_1: '10 Other Street',
+        locality: 'Leeds',
+        postal_code: 'LS1 1AA',
+      },
+      company_names: ['FAILED FOODS LIMITED'],
+      disqualification_type: 'undertaking',
+      disqualified_from: '2022-03-01',
+      disqualified_until: '2029-02-28',
+      reason: {
+        act: 'company-directors-disqualification-act-1986',
+        description_identifier: 'unfitness',
+        section: '7',
+      },
+      undertaken_on: '2022-02-08',
+    },
+  ],
+  etag: 'disqualified-etag-123',
+  forename: 'John',
+  kind: 'natural-disqualification',
+  links: { self: '/disqualified-officers/natural/dq1234567890' },
+  nationality: 'British',
+  other_forenames: 'David',
+  surname: 'SMITH',
+  title: 'Mr',
+};
@@ -0,0 +1,115 @@
+import type { FilingHistoryResponse } from '../companies-house.types';
+
+export const filingHistoryFixture: FilingHistoryResponse = {
+  etag: 'filing-history-etag',
+  filing_history_status: 'filing-history-available',
+  items: [
+    {
+      category: 'confirmation-statement',
+      date: '2024-03-20',
+      description: 'confirmation-statement-with-no-updates',
+      description_values: {
+        made_up_date: '2024-03-15',
+      },
+      links: {
+        document_metadata:
+          'https://frontend-doc-api.company-information.service.gov.uk/document/cs2024',
+        self: '/company/12345678/filing-history/MzQwMDAwMDAwMWFkaXF6a2N4',
+      },
+      pages: 3,
+      paper_filed: false,
+      transaction_id: 'MzQwMDAwMDAwMWFkaXF6a2N4',
+      type: 'CS01',
+    },
+    {
+      category: 'accounts',
+      date: '2024-09-12',
+      description: 'accounts-with-accounts-type-full',
+      description_values: {
+        made_up_date: '2023-12-31',
+      },
+      links: {
+        document_metadata:
+          'https://frontend-doc-api.company-information.service.gov.uk/document/aa2023',
+        self: '/company/12345678/filing-history/MzQxMDAwMDAwMmFkaXF6a2N4',
+      },
+      pages: 24,
+      paper_filed: false,
+      transaction_id: 'MzQxMDAwMDAwMmFkaXF6a2N4',
+      type: 'AA',
+    },
+    {
+      category: 'officers',
+      date: '2023-06-30',
+      description: 'termination-secretary-company-with-name-termination-date',
+      description_values: {
+        officer_name: 'Michael Brown',
+        termination_date: '2023-06-30',
+      },
+      links: {
+        self: '/company/12345678/filing-history/MzM5MDAwMDAwM2FkaXF6a2N4',
+      },
+      pages: 1,
+      paper_filed: false,
+      transaction_id: 'MzM5MDAwMDAwM2FkaXF6a2N4',
+      type: 'TM02',
+    },
+    {
+      category: 'accounts',
+      date: '2023-10-02',
+      description: 'accounts-amended-with-accounts-type-small',
+      description_values: {
+        made_up_date: '2022-12-31',
+      },
+      links: {
+        self: '/company/12345678/filing-history/MzM4MDAwMDAwNGFkaXF6a2N4',
+      },
+      pages: 12,
+      paper_filed: true,
+      transaction_id: 'MzM4MDAwMDAwNGFkaXF6a2N4',
+      type: 'AAMD',
+    },
+  ],
+  items_per_page: 25,
+  kind: 'filing-history',
+  start_index: 0,
+  total_count: 4,
+};
+
+export const emptyFilingHistoryFixture: FilingHistoryResponse = {
+  etag: 'empty-filing-history-etag',
+  filing_history_status: 'filing-history-available',
+  items: [],
+  items_per_page: 25,
+  kind: 'filing-history',
+  start_index: 0,
+  total_count: 0,
+};
+
+export const addressFilingHistoryFixture: FilingHistoryResponse = {
+  etag: 'address-filing-history-etag',
+  filing_history_status: 'filing-history-available',
+  items: [
+    {
+      category: 'address',
+      date: '2023-05-04',
+      description: 'change-registered-office-address-company-with-date-old-address-new-address',
+      description_values: {
+        change_date: '2023-05-02',
+        old_address: '1 Old Street, London, EC1A 1AA',
+        new_address: '123 Test Street, London, EC1A 1BB',
+      },
+      links: {
+        self: '/company/12345678/filing-history/MzM3MDAwMDAwNWFkaXF6a2N4',
+      },
+      pages: 1,
+      paper_filed: false,
+      transaction_id: 'MzM3MDAwMDAwNWFkaXF6a2N4',
+      type: 'AD01',
+    },
+  ],
+  items_per_page: 100,
+  kind: 'filing-history',
+  start_index: 0,
+  total_count: 1,
+};
@@ -7,3 +7,9 @@ export * from './profile.fixture';
 export * from './officers.fixture';
 export * from './pscs.fixture';
 export * from './psc-statements.fixture';
+export * from './filing-history.fixture';
+export * from './charges.fixture';
+export * from './insolvency.fixture';
+export * from './officer-appointments.fixture';
+export * from './disqualified-officers.fixture';
+export * from './officer-search.fixture';
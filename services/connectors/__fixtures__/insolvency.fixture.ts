@@ -0,0 +1,58 @@
+import type { InsolvencyResponse } from '../companies-house.types';
+
+export const insolvencyFixture: InsolvencyResponse = {
+  cases: [
+    {
+      dates: [
+        {
+          date: '2024-03-12',
+          type: 'administration-started-on',
+        },
+      ],
+      number: '1',
+      practitioners: [
+        {
+          address: {
+            address_line_1: '1 Recovery Street',
+            locality: 'London',
+            postal_code: 'EC4A 1AB',
+          },
+          appointed_on: '2024-03-12',
+          name: 'Jane Administrator',
+          role: 'practitioner',
+        },
+      ],
+      type: 'in-administration',
+    },
+  ],
+  etag: 'insolvency-etag-123',
+  status: ['in-administration'],
+};
+
+export const concludedInsolvencyFixture: InsolvencyResponse = {
+  cases: [
+    {
+      dates: [
+        {
+          date: '2012-05-01',
+          type: 'declaration-solvent-on',
+        },
+        {
+          date: '2013-08-20',
+          type: 'concluded-winding-up-on',
+        },
+      ],
+      number: '1',
+      practitioners: [
+        {
+          appointed_on: '2012-05-01',
+          ceased_to_act_on: '2013-08-20',
+          name: 'John Liquidator',
+          role: 'final-liquidator',
+        },
+      ],
+      type: 'members-voluntary-liquidation',
+    },
+  ],
+  etag: 'concluded-insolvency-etag',
+};
@@ -0,0 +1,66 @@
+import type { OfficerAppointmentsResponse } from '../companies-house.types';
+
+export const officerAppointmentsFixture: OfficerAppointmentsResponse = {
+  date_of_birth: {
+    month: 6,
+    year: 1985,
+  },
+  etag: 'appointments-etag-123',
+  is_corporate_officer: false,
+  items: [
+    {
+      appointed_on: '2020-01-15',
+      appointed_to: {
+        company_name: 'TEST COMPANY LIMITED',
+        company_number: '12345678',
+        company_status: 'active',
+      },
+      links: { company: '/company/12345678' },
+      name: 'John David SMITH',
+      officer_role: 'director',
+    },
+    {
+      appointed_on: '2023-09-01',
+      appointed_to: {
+        company_name: 'NEW VENTURES LIMITED',
+        company_number: '55556666',
+        company_status: 'active',
+      },
+      links: { company: '/company/55556666' },
+      name: 'John David SMITH',
+      officer_role: 'director',
+    },
+    {
+      appointed_on: '2016-03-01',
+      appointed_to: {
+        company_name: 'OLD TRADING LIMITED',
+        company_number: '07778888',
+        company_status: 'dissolved',
+      },
+      links: { company: '/company/07778888' },
+      name: 'John David SMITH',
+      officer_role: 'director',
+      resigned_on: '2019-05-31',
+    },
+    {
+      appointed_on: '2017-07-10',
+      appointed_to: {
+        company_name: 'FAILED FOODS LIMITED',
+        company_number: '08889999',
+        company_status: 'liquidation',
+      },
+      links: { company: '/company/08889999' },
+      name: 'John David SMITH',
+      officer_role: 'director',
+      resigned_on: '2020-01-10',
+    },
+  ],
+  items_per_page: 35,
+  kind: 'personal-appointment',
+  links: {
+    self: '/officers/abc123def456/appointments',
+  },
+  name: 'John David SMITH',
+  start_index: 0,
+  total_results: 4,
+};
@@ -0,0 +1,43 @@
+import type { OfficerSearchResponse } from '../companies-house.types';
+
+export const officerSearchFixture: OfficerSearchResponse = {
+  etag: 'officer-search-etag',
+  items: [
+    {
+      address: {
+        address_line_1: '10 Other Street',
+        locality: 'Leeds',
+        postal_code: 'LS1 1AA',
+      },
+      address_snippet: '10 Other Street, Leeds, LS1 1AA',
+      appointment_count: 4,
+      date_of_birth: {
+        month: 6,
+        year: 1985,
+      },
+      description: 'Total number of appointments 4 - Born June 1985',
+      description_identifiers: ['appointment-count', 'born-on'],
+      kind: 'searchresults#officer',
+      links: { self: '/officers/abc123def456/appointments' },
+      snippet: '',
+      title: 'John David SMITH',
+    },
+    {
+      address: {
+        address_line_1: '1 Market Place',
+        locality: 'York',
+        postal_code: 'YO1 7HH',
+      },
+      appointment_count: 1,
+      description: 'Total number of appointments 1',
+      description_identifiers: ['appointment-count'],
+      kind: 'searchresults#officer',
+      links: { self: '/officers/def456ghi789/appointments' },
+      title: 'John SMITH',
+    },
+  ],
+  items_per_page: 20,
+  kind: 'search#officers',
+  start_index: 0,
+  total_results: 2,
+};
@@ -1,4 +1,7 @@
-import type { CompanySearchResponse } from '../companies-house.types';
+import type {
+  AdvancedCompanySearchResponse,
+  CompanySearchResponse,
+} from '../companies-house.types';
 
 export const searchFixture: CompanySearchResponse = {
   etag: 'abc123def456',
@@ -72,3 +75,46 @@ export const emptySearchFixture: CompanySearchResponse = {
   start_index: 0,
   total_results: 0,
 };
+
+export const advancedSearchFixture: AdvancedCompanySearchResponse = {
+  etag: 'adv123',
+  hits: 42,
+  items: [
+    {
+      company_name: 'MARINE ENTERPRISES LTD',
+      company_number: '10203040',
+      company_status: 'active',
+      company_type: 'ltd',
+      date_of_creation: '2016-05-15',
+      kind: 'search-results#company',
+      links: {
+        company_profile: '/company/10203040',
+      },
+      registered_office_address: {
+        address_line_1: '123 Ocean Drive',
+        locality: 'Southampton',
+        postal_code: 'SO14 2AB',
+      },
+      sic_codes: ['62020'],
+    },
+    {
+      company_name: 'MARINE SOFTWARE LIMITED',
+      company_number: '11223344',
+      company_status: 'active',
+      company_type: 'ltd',
+      date_of_creation: '2018-09-01',
+      kind: 'search-results#company',
+      links: {
+        company_profile: '/company/11223344',
+      },
+      registered_office_address: {
+        premises: 'Unit 4',
+        address_line_1: 'Harbour Road',
+        locality: 'Southampton',
+        postal_code: 'SO15 1AA',
+      },
+      sic_codes: ['62012', '62020'],
+    },
+  ],
+  kind: 'search#advanced-search',
+};
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { Cache, COMPANIES_HOUSE_TTL } from './cache';
+import { Cache, COMPANIES_HOUSE_TTL, COMPANIES_HOUSE_CACHE_POLICY, staleRetention } from './cache';
 
 describe('Cache', () => {
   let cache: Cache;
@@ -96,6 +96,33 @@ describe('Cache', () => {
     });
   });
 
+  describe('getEntry', () => {
+    it('should return expired entries with their validators', () => {
+      vi.useFakeTimers();
+
+      cache.set('revalidate', 'value', 500, { etag: '"abc"' });
+      vi.advanceTimersByTime(600);
+
+      expect(cache.getEntry('revalidate')).toEqual({
+        value: 'value',
+        storedAt: Date.now() - 600,
+        expiresAt: Date.now() - 100,
+        validators: { etag: '"abc"' },
+      });
+
+      vi.useRealTimers();
+    });
+
+    it('should omit validators when none were stored', () => {
+      cache.set('plain', 'value');
+      expect(cache.getEntry('plain')).not.toHaveProperty('validators');
+    });
+
+    it('should return undefined for non-existent keys', () => {
+      expect(cache.getEntry('nonexistent')).toBeUndefined();
+    });
+  });
+
   describe('delete', () => {
     it('should remove an entry', () => {
       cache.set('toDelete', 'value');
@@ -159,6 +186,36 @@ describe('Cache', () => {
     });
   });
 
+  describe('stale policy', () => {
+    it('should expose its policy', () => {
+      const stale = new Cache({ staleWhileRevalidate: 10, staleIfError: 20 });
+      expect(stale.policy).toEqual({ staleWhileRevalidate: 10, staleIfError: 20 });
+    });
+
+    it('should retain expired entries within the stale window', () => {
+      vi.useFakeTimers();
+      const stale = new Cache({ defaultTTL: 100, staleIfError: 1000 });
+
+      stale.set('key', 'value');
+      vi.advanceTimersByTime(500);
+
+      expect(stale.get('key')).toBeUndefined();
+      expect(stale.getEntry('key')?.value).toBe('value');
+      expect(stale.cleanup()).toBe(0);
+
+      vi.advanceTimersByTime(1000);
+      expect(stale.cleanup()).toBe(1);
+
+      vi.useRealTimers();
+    });
+
+    it('should compute retention as the longer stale window', () => {
+      expect(staleRetention({ staleWhileRevalidate: 10, staleIfError: 20 })).toBe(20);
+      expect(staleRetention({ staleWhileRevalidate: 30 })).toBe(30);
+      expect(staleRetention(undefined)).toBe(0);
+    });
+  });
+
   describe('getOrSet', () => {
     it('should return cached value if exists', async () => {
       cache.set('existing', 'cached');
@@ -198,7 +255,19 @@ describe('COMPANIES_HOUSE_TTL', () => {
     expect(COMPANIES_HOUSE_TTL.SEARCH).toBe(5 * 60 * 1000); // 5 minutes
     expect(COMPANIES_HOUSE_TTL.PROFILE).toBe(60 * 60 * 1000); // 1 hour
     expect(COMPANIES_HOUSE_TTL.OFFICERS).toBe(60 * 60 * 1000); // 1 hour
+    expect(COMPANIES_HOUSE_TTL.OFFICER_APPOINTMENTS).toBe(60 * 60 * 1000); // 1 hour
+    expect(COMPANIES_HOUSE_TTL.DISQUALIFIED_OFFICER).toBe(60 * 60 * 1000); // 1 hour
     expect(COMPANIES_HOUSE_TTL.PSCS).toBe(60 * 60 * 1000); // 1 hour
     expect(COMPANIES_HOUSE_TTL.PSC_STATEMENTS).toBe(60 * 60 * 1000); // 1 hour
+    expect(COMPANIES_HOUSE_TTL.FILING_HISTORY).toBe(60 * 60 * 1000); // 1 hour
+    expect(COMPANIES_HOUSE_TTL.CHARGES).toBe(60 * 60 * 1000); // 1 hour
+    expect(COMPANIES_HOUSE_TTL.INSOLVENCY).toBe(60 * 60 * 1000); // 1 hour
+  });
+});
+
+describe('COMPANIES_HOUSE_CACHE_POLICY', () => {
+  it('should have correct stale windows', () => {
+    expect(COMPANIES_HOUSE_CACHE_POLICY.staleWhileRevalidate).toBe(10 * 60 * 1000); // 10 minutes
+    expect(COMPANIES_HOUSE_CACHE_POLICY.staleIfError).toBe(24 * 60 * 60 * 1000); // 24 hours
   });
 });
@@ -5,20 +5,86 @@
 
 interface CacheEntry<T> {
   value: T;
+  storedAt: number;
   expiresAt: number;
+  validators?: CacheValidators;
 }
 
-export interface CacheOptions {
+/** HTTP validators used to revalidate an entry with a conditional request */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/** A stored entry, returned whether or not it has expired */
+export interface CachedEntry<T> {
+  value: T;
+  /** Epoch milliseconds at which the value was stored */
+  storedAt: number;
+  /** Epoch milliseconds after which the entry is stale */
+  expiresAt: number;
+  validators?: CacheValidators;
+}
+
+/**
+ * How long expired entries remain usable, in milliseconds past expiry.
+ * Expired entries are retained for the longer of the two windows.
+ */
+export interface CachePolicy {
+  /** Serve a stale entry immediately and refresh it in the background */
+  staleWhileRevalidate?: number;
+  /** Serve a stale entry when the upstream request fails */
+  staleIfError?: number;
+}
+
+export interface CacheOptions extends CachePolicy {
   /** Default TTL in milliseconds */
-  defaultTTL: number;
+  defaultTTL?: number;
+}
+
+/**
+ * Response cache used by connectors.
+ * `Cache` below is the per-process implementation; shared, persistent
+ * implementations (e.g. SQLite in `@pkg/db`) satisfy the same contract.
+ */
+export interface ConnectorCache {
+  /** Get a value, or undefined if the key doesn't exist or has expired */
+  get<T>(key: string): T | undefined;
+  /**
+   * Get an entry including its expiry and validators, even once expired,
+   * so it can be revalidated. Undefined if the key doesn't exist.
+   */
+  getEntry<T>(key: string): CachedEntry<T> | undefined;
+  /** Set a value with optional TTL override in milliseconds and HTTP validators */
+  set<T>(key: string, value: T, ttl?: number, validators?: CacheValidators): void;
+  /** Delete a specific key */
+  delete(key: string): boolean;
+  /** Clear all entries */
+  clear(): void;
+  /** Remove entries past expiry and any stale window, returning the number removed */
+  cleanup(): number;
+  /** Stale-serving policy; no stale data is served when absent */
+  readonly policy?: CachePolicy;
 }
 
-export class Cache {
+export class Cache implements ConnectorCache {
   private store = new Map<string, CacheEntry<unknown>>();
   private defaultTTL: number;
+  readonly policy: CachePolicy;
 
-  constructor(options: CacheOptions = { defaultTTL: 5 * 60 * 1000 }) {
-    this.defaultTTL = options.defaultTTL;
+  constructor(options: CacheOptions = {}) {
+    this.defaultTTL = options.defaultTTL ?? 5 * 60 * 1000;
+    this.policy = {
+      staleWhileRevalidate: options.staleWhileRevalidate,
+      staleIfError: options.staleIfError,
+    };
+  }
+
+  /**
+   * Whether an entry has outlived its stale windows and can be evicted.
+   */
+  private isEvictable(entry: CacheEntry<unknown>, now: number): boolean {
+    return now > entry.expiresAt + staleRetention(this.policy);
   }
 
   /**
@@ -32,23 +98,46 @@ export class Cache {
       return undefined;
     }
 
-    if (Date.now() > entry.expiresAt) {
-      this.store.delete(key);
+    const now = Date.now();
+    if (now > entry.expiresAt) {
+      if (this.isEvictable(entry, now)) {
+        this.store.delete(key);
+      }
       return undefined;
     }
 
     return entry.value as T;
   }
 
+  /**
+   * Get an entry with its expiry and validators, without evicting it when expired.
+   */
+  getEntry<T>(key: string): CachedEntry<T> | undefined {
+    const entry = this.store.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    return {
+      value: entry.value as T,
+      storedAt: entry.storedAt,
+      expiresAt: entry.expiresAt,
+      ...(entry.validators && { validators: entry.validators }),
+    };
+  }
+
   /**
    * Set a value in the cache with optional TTL override.
    * @param key Cache key
    * @param value Value to cache
    * @param ttl Optional TTL in milliseconds (defaults to defaultTTL)
+   * @param validators Optional ETag/Last-Modified for conditional revalidation
    */
-  set<T>(key: string, value: T, ttl?: number): void {
-    const expiresAt = Date.now() + (ttl ?? this.defaultTTL);
-    this.store.set(key, { value, expiresAt });
+  set<T>(key: string, value: T, ttl?: number, validators?: CacheValidators): void {
+    const storedAt = Date.now();
+    const expiresAt = storedAt + (ttl ?? this.defaultTTL);
+    this.store.set(key, { value, storedAt, expiresAt, validators });
   }
 
   /**
@@ -75,8 +164,11 @@ export class Cache {
       return false;
     }
 
-    if (Date.now() > entry.expiresAt) {
-      this.store.delete(key);
+    const now = Date.now();
+    if (now > entry.expiresAt) {
+      if (this.isEvictable(entry, now)) {
+        this.store.delete(key);
+      }
       return false;
     }
 
@@ -91,7 +183,7 @@ export class Cache {
   }
 
   /**
-   * Clean up expired entries from the cache.
+   * Clean up expired entries from the cache, keeping those still within a stale window.
    * Call this periodically to prevent memory leaks.
    */
   cleanup(): number {
@@ -99,7 +191,7 @@ export class Cache {
     let cleaned = 0;
 
     for (const [key, entry] of this.store.entries()) {
-      if (now > entry.expiresAt) {
+      if (this.isEvictable(entry, now)) {
         this.store.delete(key);
         cleaned++;
       }
@@ -126,6 +218,13 @@ export class Cache {
   }
 }
 
+/**
+ * How long past expiry an entry must be kept to honour a policy.
+ */
+export function staleRetention(policy: CachePolicy | undefined): number {
+  return Math.max(policy?.staleWhileRevalidate ?? 0, policy?.staleIfError ?? 0);
+}
+
 /** Default cache TTL values for Companies House endpoints (in milliseconds) */
 export const COMPANIES_HOUSE_TTL = {
   /** Search results - 5 minutes */
@@ -134,8 +233,29 @@ export const COMPANIES_HOUSE_TTL = {
   PROFILE: 60 * 60 * 1000,
   /** Officers list - 1 hour */
   OFFICERS: 60 * 60 * 1000,
+  /** Officer appointments - 1 hour */
+  OFFICER_APPOINTMENTS: 60 * 60 * 1000,
+  /** Disqualified officer record - 1 hour */
+  DISQUALIFIED_OFFICER: 60 * 60 * 1000,
   /** PSCs list - 1 hour */
   PSCS: 60 * 60 * 1000,
   /** PSC statements - 1 hour */
   PSC_STATEMENTS: 60 * 60 * 1000,
+  /** Filing history - 1 hour */
+  FILING_HISTORY: 60 * 60 * 1000,
+  /** Charges - 1 hour */
+  CHARGES: 60 * 60 * 1000,
+  /** Insolvency cases - 1 hour */
+  INSOLVENCY: 60 * 60 * 1000,
 } as const;
+
+/**
+ * Stale-serving policy for Companies House data: briefly serve expired entries while
+ * refreshing them, and fall back to data up to a day old when the API is unavailable.
+ */
+export const COMPANIES_HOUSE_CACHE_POLICY: CachePolicy = {
+  /** 10 minutes */
+  staleWhileRevalidate: 10 * 60 * 1000,
+  /** 24 hours */
+  staleIfError: 24 * 60 * 60 * 1000,
+};
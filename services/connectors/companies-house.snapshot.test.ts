@@ -5,6 +5,7 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import nock from 'nock';
+import nodeFetch from 'node-fetch';
 import { CompaniesHouseConnector } from './companies-house';
 import { Cache } from './cache';
 import {
@@ -21,6 +22,9 @@ import {
 
 const API_BASE = 'https://api.company-information.service.gov.uk';
 
+// nock intercepts Node's http module but not the built-in fetch, so requests go through node-fetch
+const nockFetch = nodeFetch as unknown as typeof fetch;
+
 describe('Companies House Connector Snapshots', () => {
   let connector: CompaniesHouseConnector;
 
@@ -28,6 +32,9 @@ describe('Companies House Connector Snapshots', () => {
     connector = new CompaniesHouseConnector({
       apiKey: 'test-key',
       cache: new Cache(),
+      fetch: nockFetch,
+      // Single-shot requests; retry behaviour is covered in its own suite
+      retry: { maxRetries: 0 },
     });
     nock.disableNetConnect();
   });
@@ -1,23 +1,39 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import nock from 'nock';
+import nodeFetch from 'node-fetch';
 import { CompaniesHouseConnector, createCompaniesHouseConnector } from './companies-house';
-import { Cache } from './cache';
-import { ConnectorErrorCode } from './companies-house.types';
+import { Cache, type CachedEntry, type ConnectorCache } from './cache';
+import { RateLimiter } from './rate-limiter';
+import { ConnectorErrorCode, type OfficersResponse } from './companies-house.types';
 import {
   searchFixture,
   emptySearchFixture,
+  advancedSearchFixture,
   profileFixture,
   dissolvedProfileFixture,
   officersFixture,
   emptyOfficersFixture,
+  officerAppointmentsFixture,
+  officerSearchFixture,
+  disqualifiedOfficerSearchFixture,
+  disqualifiedOfficerFixture,
   pscsFixture,
   emptyPscsFixture,
   pscStatementsFixture,
   emptyPscStatementsFixture,
+  statementsOnlyFixture,
+  filingHistoryFixture,
+  emptyFilingHistoryFixture,
+  chargesFixture,
+  emptyChargesFixture,
+  insolvencyFixture,
 } from './__fixtures__';
 
 const API_KEY = 'test-api-key-12345';
 const API_BASE = 'https://api.company-information.service.gov.uk';
+
+// nock intercepts Node's http module but not the built-in fetch, so requests go through node-fetch
+const nockFetch = nodeFetch as unknown as typeof fetch;
 const WEB_BASE = 'https://find-and-update.company-information.service.gov.uk';
 
 describe('CompaniesHouseConnector', () => {
@@ -29,6 +45,9 @@ describe('CompaniesHouseConnector', () => {
     connector = new CompaniesHouseConnector({
       apiKey: API_KEY,
       cache,
+      fetch: nockFetch,
+      // Single-shot requests; retry behaviour is covered in its own suite
+      retry: { maxRetries: 0 },
     });
     nock.disableNetConnect();
   });
@@ -129,6 +148,35 @@ describe('CompaniesHouseConnector', () => {
       }
     });
 
+    it('should pass paging to the API and cache each page separately', async () => {
+      nock(API_BASE)
+        .get('/search/companies')
+        .query({ q: 'marine', items_per_page: '2', start_index: '0' })
+        .reply(200, searchFixture)
+        .get('/search/companies')
+        .query({ q: 'marine', items_per_page: '2', start_index: '2' })
+        .reply(200, emptySearchFixture);
+
+      const first = await connector.searchCompanies('marine', { itemsPerPage: 2, startIndex: 0 });
+      const second = await connector.searchCompanies('marine', { itemsPerPage: 2, startIndex: 2 });
+
+      expect(first.success && first.evidence.apiUrl).toBe(
+        `${API_BASE}/search/companies?q=marine&items_per_page=2&start_index=0`
+      );
+      expect(second.success && second.data.items).toEqual([]);
+      expect(second.success && second.evidence.fromCache).toBe(false);
+    });
+
+    it('should reject invalid paging options', async () => {
+      const result = await connector.searchCompanies('marine', { itemsPerPage: 101 });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.INVALID_REQUEST);
+        expect(result.error.message).toBe('itemsPerPage must be an integer between 1 and 100');
+      }
+    });
+
     it('should handle 401 unauthorized', async () => {
       nock(API_BASE)
         .get('/search/companies')
@@ -160,6 +208,97 @@ describe('CompaniesHouseConnector', () => {
     });
   });
 
+  describe('advancedSearchCompanies', () => {
+    it('should pass criteria and paging to the API', async () => {
+      nock(API_BASE)
+        .get('/advanced-search/companies')
+        .query({
+          company_name_includes: 'marine',
+          company_status: 'active,liquidation',
+          company_type: 'ltd',
+          sic_codes: '62020',
+          incorporated_from: '2015-01-01',
+          incorporated_to: '2020-12-31',
+          location: 'SO14',
+          size: '2',
+          start_index: '0',
+        })
+        .reply(200, advancedSearchFixture);
+
+      const result = await connector.advancedSearchCompanies({
+        companyName: ' marine ',
+        companyStatus: ['liquidation', 'active'],
+        companyType: 'ltd',
+        sicCodes: ['62020'],
+        incorporatedFrom: '2015-01-01',
+        incorporatedTo: '2020-12-31',
+        location: 'SO14',
+        itemsPerPage: 2,
+        startIndex: 0,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.hits).toBe(42);
+        expect(result.data.items).toHaveLength(2);
+      }
+    });
+
+    it('should cache results for the same criteria', async () => {
+      nock(API_BASE)
+        .get('/advanced-search/companies')
+        .query({ company_status: 'active', sic_codes: '62012,62020' })
+        .once()
+        .reply(200, advancedSearchFixture);
+
+      await connector.advancedSearchCompanies({
+        companyStatus: 'active',
+        sicCodes: ['62020', '62012'],
+      });
+      const result = await connector.advancedSearchCompanies({
+        companyStatus: ['active'],
+        sicCodes: ['62012', '62020'],
+      });
+
+      expect(result.success && result.evidence.fromCache).toBe(true);
+    });
+
+    it('should return NOT_FOUND when nothing matches', async () => {
+      nock(API_BASE)
+        .get('/advanced-search/companies')
+        .query({ location: 'Nowhere' })
+        .reply(404, {});
+
+      const result = await connector.advancedSearchCompanies({ location: 'Nowhere' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.NOT_FOUND);
+      }
+    });
+
+    it('should require at least one criterion', async () => {
+      const result = await connector.advancedSearchCompanies({ companyStatus: [], location: ' ' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe('Advanced search needs at least one criterion');
+      }
+    });
+
+    it('should reject invalid dates and page sizes', async () => {
+      const date = await connector.advancedSearchCompanies({ incorporatedFrom: '01/01/2020' });
+      const size = await connector.advancedSearchCompanies({ location: 'Leeds', itemsPerPage: 0 });
+
+      expect(!date.success && date.error.message).toBe(
+        'Invalid date filter "01/01/2020" (expected YYYY-MM-DD)'
+      );
+      expect(!size.success && size.error.message).toBe(
+        'itemsPerPage must be an integer between 1 and 5000'
+      );
+    });
+  });
+
   describe('getCompanyProfile', () => {
     it('should get company profile by number', async () => {
       nock(API_BASE).get('/company/12345678').reply(200, profileFixture);
@@ -283,6 +422,146 @@ describe('CompaniesHouseConnector', () => {
     });
   });
 
+  describe('searchOfficers', () => {
+    it('should search officers and return results', async () => {
+      nock(API_BASE)
+        .get('/search/officers')
+        .query({ q: 'John Smith' })
+        .reply(200, officerSearchFixture);
+
+      const result = await connector.searchOfficers(' John Smith ');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items).toHaveLength(2);
+        expect(result.evidence.apiUrl).toBe(`${API_BASE}/search/officers?q=John+Smith`);
+      }
+    });
+
+    it('should pass paging to the API', async () => {
+      nock(API_BASE)
+        .get('/search/officers')
+        .query({ q: 'smith', items_per_page: '10', start_index: '10' })
+        .reply(200, { ...officerSearchFixture, items: [], start_index: 10 });
+
+      const result = await connector.searchOfficers('smith', { itemsPerPage: 10, startIndex: 10 });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should return error for empty query', async () => {
+      const result = await connector.searchOfficers('  ');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.INVALID_REQUEST);
+      }
+    });
+
+    it('should reject invalid paging options', async () => {
+      const result = await connector.searchOfficers('smith', { startIndex: -1 });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe('startIndex must be a non-negative integer');
+      }
+    });
+  });
+
+  describe('getOfficerAppointments', () => {
+    it('should get appointments for an officer', async () => {
+      nock(API_BASE)
+        .get('/officers/abc123def456/appointments')
+        .reply(200, officerAppointmentsFixture);
+
+      const result = await connector.getOfficerAppointments('abc123def456');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items).toHaveLength(4);
+        expect(result.data.items[2].appointed_to.company_status).toBe('dissolved');
+        expect(result.evidence.publicUrl).toBe(`${WEB_BASE}/officers/abc123def456/appointments`);
+      }
+    });
+
+    it('should return error for an invalid officer ID', async () => {
+      const result = await connector.getOfficerAppointments('../company/12345678');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.INVALID_REQUEST);
+      }
+    });
+
+    it('should cache appointment results', async () => {
+      nock(API_BASE)
+        .get('/officers/abc123def456/appointments')
+        .once()
+        .reply(200, officerAppointmentsFixture);
+
+      await connector.getOfficerAppointments('abc123def456');
+      const result = await connector.getOfficerAppointments('abc123def456');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.evidence.fromCache).toBe(true);
+      }
+    });
+  });
+
+  describe('searchDisqualifiedOfficers', () => {
+    it('should search the disqualified directors register', async () => {
+      nock(API_BASE)
+        .get('/search/disqualified-officers')
+        .query({ q: 'John David SMITH' })
+        .reply(200, disqualifiedOfficerSearchFixture);
+
+      const result = await connector.searchDisqualifiedOfficers('John David SMITH');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items).toHaveLength(2);
+        expect(result.data.items[0].date_of_birth).toBe('1985-06-12');
+      }
+    });
+
+    it('should return error for empty query', async () => {
+      const result = await connector.searchDisqualifiedOfficers('  ');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.INVALID_REQUEST);
+      }
+    });
+  });
+
+  describe('getDisqualifiedOfficer', () => {
+    it('should get a disqualification record', async () => {
+      nock(API_BASE)
+        .get('/disqualified-officers/natural/dq1234567890')
+        .reply(200, disqualifiedOfficerFixture);
+
+      const result = await connector.getDisqualifiedOfficer('dq1234567890');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.disqualifications[0].disqualified_until).toBe('2029-02-28');
+        expect(result.evidence.publicUrl).toBe(
+          `${WEB_BASE}/disqualified-officers/natural/dq1234567890`
+        );
+      }
+    });
+
+    it('should return error for an invalid officer ID', async () => {
+      const result = await connector.getDisqualifiedOfficer('natural/../x');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.INVALID_REQUEST);
+      }
+    });
+  });
+
   describe('getPscs', () => {
     it('should get PSCs for a company', async () => {
       nock(API_BASE)
@@ -399,95 +678,937 @@ describe('CompaniesHouseConnector', () => {
     });
   });
 
-  describe('error handling', () => {
-    it('should handle network errors', async () => {
-      nock(API_BASE).get('/company/12345678').replyWithError('Network connection failed');
+  describe('getFilingHistory', () => {
+    it('should get filing history for a company', async () => {
+      nock(API_BASE).get('/company/12345678/filing-history').reply(200, filingHistoryFixture);
 
-      const result = await connector.getCompanyProfile('12345678');
+      const result = await connector.getFilingHistory('12345678');
 
-      expect(result.success).toBe(false);
-      if (!result.success) {
-        expect(result.error.code).toBe(ConnectorErrorCode.NETWORK_ERROR);
-        expect(result.error.message).toContain('Network connection failed');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items).toHaveLength(4);
+        expect(result.data.total_count).toBe(4);
+        expect(result.evidence.apiUrl).toBe(`${API_BASE}/company/12345678/filing-history`);
+        expect(result.evidence.publicUrl).toBe(`${WEB_BASE}/company/12345678/filing-history`);
       }
     });
 
-    it('should handle 500 server errors', async () => {
+    it('should handle empty filing history', async () => {
+      nock(API_BASE).get('/company/00000001/filing-history').reply(200, emptyFilingHistoryFixture);
+
+      const result = await connector.getFilingHistory('00000001');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items).toHaveLength(0);
+      }
+    });
+
+    it('should pass category and paging filters to the API', async () => {
       nock(API_BASE)
-        .get('/company/12345678')
-        .reply(500, { errors: [{ error: 'Internal server error' }] });
+        .get('/company/12345678/filing-history')
+        .query({
+          category: 'accounts,confirmation-statement',
+          items_per_page: '50',
+          start_index: '25',
+        })
+        .reply(200, filingHistoryFixture);
+
+      const result = await connector.getFilingHistory('12345678', {
+        category: ['confirmation-statement', 'accounts'],
+        itemsPerPage: 50,
+        startIndex: 25,
+      });
 
-      const result = await connector.getCompanyProfile('12345678');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.evidence.apiUrl).toBe(
+          `${API_BASE}/company/12345678/filing-history?category=accounts%2Cconfirmation-statement&items_per_page=50&start_index=25`
+        );
+      }
+    });
+
+    it('should filter items by date range', async () => {
+      nock(API_BASE).get('/company/12345678/filing-history').reply(200, filingHistoryFixture);
+
+      const result = await connector.getFilingHistory('12345678', {
+        fromDate: '2023-07-01',
+        toDate: '2024-06-30',
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items.map((item) => item.type)).toEqual(['CS01', 'AAMD']);
+        expect(result.data.total_count).toBe(4);
+      }
+    });
+
+    it('should reject invalid paging options', async () => {
+      const result = await connector.getFilingHistory('12345678', { itemsPerPage: 500 });
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.code).toBe(ConnectorErrorCode.UPSTREAM_ERROR);
-        expect(result.error.statusCode).toBe(500);
+        expect(result.error.code).toBe(ConnectorErrorCode.INVALID_REQUEST);
       }
     });
 
-    it('should handle 400 bad request', async () => {
-      nock(API_BASE)
-        .get('/search/companies')
-        .query({ q: 'test' })
-        .reply(400, { errors: [{ error: 'Bad request' }] });
+    it('should reject invalid date filters', async () => {
+      const result = await connector.getFilingHistory('12345678', { fromDate: '01/01/2024' });
 
-      const result = await connector.searchCompanies('test');
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.INVALID_REQUEST);
+      }
+    });
+
+    it('should return error for invalid company number', async () => {
+      const result = await connector.getFilingHistory('??');
 
       expect(result.success).toBe(false);
       if (!result.success) {
         expect(result.error.code).toBe(ConnectorErrorCode.INVALID_REQUEST);
-        expect(result.error.statusCode).toBe(400);
       }
     });
 
-    it('should include evidence in error responses', async () => {
-      nock(API_BASE).get('/company/12345678').reply(404, {});
+    it('should cache filing history per query', async () => {
+      nock(API_BASE)
+        .get('/company/12345678/filing-history')
+        .once()
+        .reply(200, filingHistoryFixture);
 
-      const result = await connector.getCompanyProfile('12345678');
+      await connector.getFilingHistory('12345678');
+      const result = await connector.getFilingHistory('12345678', { fromDate: '2024-01-01' });
 
-      expect(result.success).toBe(false);
-      expect(result.evidence).toBeDefined();
-      expect(result.evidence.apiUrl).toBe(`${API_BASE}/company/12345678`);
-      expect(result.evidence.fetchedAt).toBeDefined();
-      expect(result.evidence.fromCache).toBe(false);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.evidence.fromCache).toBe(true);
+        expect(result.data.items).toHaveLength(2);
+      }
     });
   });
 
-  describe('authentication', () => {
-    it('should send Basic Auth header', async () => {
-      const expectedAuth = 'Basic ' + Buffer.from(`${API_KEY}:`).toString('base64');
+  describe('getCharges', () => {
+    it('should get charges for a company', async () => {
+      nock(API_BASE).get('/company/12345678/charges').reply(200, chargesFixture);
 
-      nock(API_BASE)
-        .get('/company/12345678')
-        .matchHeader('Authorization', expectedAuth)
-        .reply(200, profileFixture);
+      const result = await connector.getCharges('12345678');
 
-      const result = await connector.getCompanyProfile('12345678');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items).toHaveLength(2);
+        expect(result.data.items[0].status).toBe('outstanding');
+        expect(result.evidence.apiUrl).toBe(`${API_BASE}/company/12345678/charges`);
+        expect(result.evidence.publicUrl).toBe(`${WEB_BASE}/company/12345678/charges`);
+      }
+    });
+
+    it('should handle company with no charges', async () => {
+      nock(API_BASE).get('/company/00000001/charges').reply(200, emptyChargesFixture);
+
+      const result = await connector.getCharges('00000001');
 
       expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items).toHaveLength(0);
+      }
     });
-  });
 
-  describe('cache management', () => {
-    it('should clear cache', async () => {
-      nock(API_BASE).get('/company/12345678').twice().reply(200, profileFixture);
+    it('should return error for invalid company number', async () => {
+      const result = await connector.getCharges('??');
 
-      // First call
-      await connector.getCompanyProfile('12345678');
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.INVALID_REQUEST);
+      }
+    });
+  });
 
-      // Clear cache
-      connector.clearCache();
+  describe('getInsolvency', () => {
+    it('should get insolvency cases for a company', async () => {
+      nock(API_BASE).get('/company/12345678/insolvency').reply(200, insolvencyFixture);
 
-      // Second call should hit API again
-      const result = await connector.getCompanyProfile('12345678');
+      const result = await connector.getInsolvency('12345678');
 
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.evidence.fromCache).toBe(false);
+        expect(result.data.cases).toHaveLength(1);
+        expect(result.data.cases[0].type).toBe('in-administration');
+        expect(result.evidence.apiUrl).toBe(`${API_BASE}/company/12345678/insolvency`);
+        expect(result.evidence.publicUrl).toBe(`${WEB_BASE}/company/12345678/insolvency`);
+      }
+    });
+
+    it('should return NOT_FOUND when there is no insolvency record', async () => {
+      nock(API_BASE)
+        .get('/company/00000001/insolvency')
+        .reply(404, { errors: [{ error: 'company-insolvency-not-found' }] });
+
+      const result = await connector.getInsolvency('00000001');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.NOT_FOUND);
       }
     });
 
+    it('should return error for invalid company number', async () => {
+      const result = await connector.getInsolvency('??');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.INVALID_REQUEST);
+      }
+    });
+  });
+
+  describe('pagination', () => {
+    const officerPage = (
+      ids: string[],
+      startIndex: number,
+      totalResults: number
+    ): OfficersResponse => ({
+      items: ids.map((id) => ({
+        name: `OFFICER, ${id}`,
+        officer_role: 'director',
+        links: { self: `/company/12345678/appointments/${id}` },
+      })),
+      items_per_page: 35,
+      kind: 'officer-list',
+      links: { self: '/company/12345678/officers' },
+      start_index: startIndex,
+      total_results: totalResults,
+    });
+
+    it('should walk all pages and record evidence per page', async () => {
+      nock(API_BASE)
+        .get('/company/12345678/officers')
+        .reply(200, officerPage(['a', 'b'], 0, 5))
+        .get('/company/12345678/officers')
+        .query({ items_per_page: '100', start_index: '2' })
+        .reply(200, officerPage(['c', 'd', 'e'], 2, 5));
+
+      const result = await connector.getOfficers('12345678');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items.map((o) => o.name)).toEqual([
+          'OFFICER, a',
+          'OFFICER, b',
+          'OFFICER, c',
+          'OFFICER, d',
+          'OFFICER, e',
+        ]);
+        expect(result.evidence.apiUrl).toBe(`${API_BASE}/company/12345678/officers`);
+        expect(result.additionalEvidence?.map((e) => e.apiUrl)).toEqual([
+          `${API_BASE}/company/12345678/officers?items_per_page=100&start_index=2`,
+        ]);
+        expect(result.truncated).toBeUndefined();
+      }
+    });
+
+    it('should stop at the page ceiling and mark the result as truncated', async () => {
+      const limited = new CompaniesHouseConnector({
+        apiKey: API_KEY,
+        cache,
+        fetch: nockFetch,
+        maxPages: 2,
+      });
+      nock(API_BASE)
+        .get('/company/12345678/officers')
+        .reply(200, officerPage(['a', 'b'], 0, 6))
+        .get('/company/12345678/officers')
+        .query({ items_per_page: '100', start_index: '2' })
+        .reply(200, officerPage(['c', 'd'], 2, 6));
+
+      const result = await limited.getOfficers('12345678');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items).toHaveLength(4);
+        expect(result.additionalEvidence).toHaveLength(1);
+        expect(result.truncated).toBe(true);
+      }
+    });
+
+    it('should drop items repeated across pages', async () => {
+      nock(API_BASE)
+        .get('/company/12345678/officers')
+        .reply(200, officerPage(['a', 'b'], 0, 4))
+        .get('/company/12345678/officers')
+        .query({ items_per_page: '100', start_index: '2' })
+        .reply(200, officerPage(['b', 'c'], 2, 4));
+
+      const result = await connector.getOfficers('12345678');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items.map((o) => o.name)).toEqual([
+          'OFFICER, a',
+          'OFFICER, b',
+          'OFFICER, c',
+        ]);
+      }
+    });
+
+    it('should stop when a page comes back empty', async () => {
+      nock(API_BASE)
+        .get('/company/12345678/officers')
+        .reply(200, officerPage(['a'], 0, 3))
+        .get('/company/12345678/officers')
+        .query({ items_per_page: '100', start_index: '1' })
+        .reply(200, officerPage([], 1, 3));
+
+      const result = await connector.getOfficers('12345678');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items).toHaveLength(1);
+        expect(result.additionalEvidence).toHaveLength(1);
+      }
+    });
+
+    it('should return the error when a later page fails', async () => {
+      nock(API_BASE)
+        .get('/company/12345678/officers')
+        .reply(200, officerPage(['a'], 0, 2))
+        .get('/company/12345678/officers')
+        .query({ items_per_page: '100', start_index: '1' })
+        .reply(500, { errors: [{ error: 'Internal error' }] });
+
+      const result = await connector.getOfficers('12345678');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.UPSTREAM_ERROR);
+      }
+    });
+
+    it('should paginate PSC statements', async () => {
+      nock(API_BASE)
+        .get('/company/12345678/persons-with-significant-control-statements')
+        .reply(200, { ...pscStatementsFixture, start_index: 0, total_results: 4 })
+        .get('/company/12345678/persons-with-significant-control-statements')
+        .query({ items_per_page: '100', start_index: '2' })
+        .reply(200, { ...statementsOnlyFixture, start_index: 2, total_results: 4 });
+
+      const result = await connector.getPscStatements('12345678');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.items).toHaveLength(4);
+        expect(result.additionalEvidence).toHaveLength(1);
+      }
+    });
+
+    it('should reject an invalid page ceiling', () => {
+      expect(() => new CompaniesHouseConnector({ apiKey: API_KEY, maxPages: 0 })).toThrow(
+        'maxPages must be a positive integer'
+      );
+    });
+  });
+
+  describe('retries', () => {
+    const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) => ({
+      ok: status >= 200 && status < 300,
+      status,
+      headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+      json: async () => body,
+    });
+
+    let sleep: ReturnType<typeof vi.fn>;
+
+    const createRetryingConnector = (
+      fetchFn: unknown,
+      options: Partial<ConstructorParameters<typeof CompaniesHouseConnector>[0]> = {}
+    ) =>
+      new CompaniesHouseConnector({
+        apiKey: API_KEY,
+        cache: new Cache(),
+        fetch: fetchFn as typeof fetch,
+        sleep,
+        random: () => 0.5,
+        ...options,
+      });
+
+    beforeEach(() => {
+      sleep = vi.fn().mockResolvedValue(undefined);
+    });
+
+    it('should retry transient failures and report attempts in evidence', async () => {
+      const fetchFn = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse(503, {}))
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockResolvedValueOnce(jsonResponse(200, profileFixture));
+
+      const result = await createRetryingConnector(fetchFn).getCompanyProfile('12345678');
+
+      expect(result.success).toBe(true);
+      expect(result.evidence.attempts).toBe(3);
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+      // Equal jitter with random 0.5: 3/4 of 500ms, then 3/4 of 1000ms
+      expect(sleep.mock.calls).toEqual([[375], [750]]);
+    });
+
+    it('should cap backoff at maxDelayMs', async () => {
+      const fetchFn = vi.fn().mockResolvedValue(jsonResponse(500, {}));
+
+      await createRetryingConnector(fetchFn, {
+        retry: { maxRetries: 4, baseDelayMs: 1000, maxDelayMs: 2000 },
+        random: () => 0,
+      }).getCompanyProfile('12345678');
+
+      expect(sleep.mock.calls).toEqual([[500], [1000], [1000], [1000]]);
+    });
+
+    it('should give up after maxRetries and return the last error', async () => {
+      const fetchFn = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(502, { errors: [{ error: 'Bad gateway' }] }));
+
+      const result = await createRetryingConnector(fetchFn, {
+        retry: { maxRetries: 2 },
+      }).getCompanyProfile('12345678');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.UPSTREAM_ERROR);
+        expect(result.error.statusCode).toBe(502);
+        expect(result.error.message).toBe('Bad gateway');
+      }
+      expect(result.evidence.attempts).toBe(3);
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should honour Retry-After in seconds', async () => {
+      const fetchFn = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse(429, {}, { 'retry-after': '2' }))
+        .mockResolvedValueOnce(jsonResponse(200, profileFixture));
+
+      const result = await createRetryingConnector(fetchFn).getCompanyProfile('12345678');
+
+      expect(result.success).toBe(true);
+      expect(sleep).toHaveBeenCalledWith(2000);
+    });
+
+    it('should honour Retry-After as an HTTP date', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-01T12:00:00Z'));
+
+      const fetchFn = vi
+        .fn()
+        .mockResolvedValueOnce(
+          jsonResponse(429, {}, { 'retry-after': 'Mon, 01 Jan 2024 12:00:03 GMT' })
+        )
+        .mockResolvedValueOnce(jsonResponse(200, profileFixture));
+
+      await createRetryingConnector(fetchFn).getCompanyProfile('12345678');
+
+      expect(sleep).toHaveBeenCalledWith(3000);
+      vi.useRealTimers();
+    });
+
+    it('should honour X-Ratelimit-Reset', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-01T12:00:00Z'));
+
+      const reset = String(Date.parse('2024-01-01T12:00:04Z') / 1000);
+      const fetchFn = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse(429, {}, { 'x-ratelimit-reset': reset }))
+        .mockResolvedValueOnce(jsonResponse(200, profileFixture));
+
+      await createRetryingConnector(fetchFn).getCompanyProfile('12345678');
+
+      expect(sleep).toHaveBeenCalledWith(4000);
+      vi.useRealTimers();
+    });
+
+    it('should not wait longer than maxDelayMs for a requested retry', async () => {
+      const fetchFn = vi.fn().mockResolvedValue(jsonResponse(429, {}, { 'retry-after': '300' }));
+
+      const result = await createRetryingConnector(fetchFn).getCompanyProfile('12345678');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.RATE_LIMITED);
+      }
+      expect(result.evidence.attempts).toBe(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('should not retry client errors', async () => {
+      const fetchFn = vi.fn().mockResolvedValue(jsonResponse(404, {}));
+
+      const result = await createRetryingConnector(fetchFn).getCompanyProfile('12345678');
+
+      expect(result.success).toBe(false);
+      expect(result.evidence.attempts).toBe(1);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort requests that exceed the timeout', async () => {
+      const fetchFn = vi.fn(
+        (_url: string, init: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+          })
+      );
+
+      const result = await createRetryingConnector(fetchFn, {
+        timeoutMs: 10,
+        retry: { maxRetries: 1 },
+      }).getCompanyProfile('12345678');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.TIMEOUT);
+        expect(result.error.message).toBe('Request timed out after 10ms');
+      }
+      expect(result.evidence.attempts).toBe(2);
+    });
+
+    it('should not record attempts for cached responses', async () => {
+      const fetchFn = vi.fn().mockResolvedValue(jsonResponse(200, profileFixture));
+      const retrying = createRetryingConnector(fetchFn);
+
+      await retrying.getCompanyProfile('12345678');
+      const result = await retrying.getCompanyProfile('12345678');
+
+      expect(result.evidence.fromCache).toBe(true);
+      expect(result.evidence.attempts).toBeUndefined();
+    });
+
+    it('should reject a negative maxRetries', () => {
+      expect(
+        () => new CompaniesHouseConnector({ apiKey: API_KEY, retry: { maxRetries: -1 } })
+      ).toThrow('retry.maxRetries must be a non-negative integer');
+    });
+  });
+
+  describe('conditional revalidation', () => {
+    const PROFILE_TTL = 60 * 60 * 1000;
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-01T12:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should revalidate an expired entry with If-None-Match and reuse it on 304', async () => {
+      nock(API_BASE)
+        .get('/company/12345678')
+        .reply(200, profileFixture, { ETag: '"v1"' })
+        .get('/company/12345678')
+        .matchHeader('If-None-Match', '"v1"')
+        .reply(304);
+
+      await connector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL + 1);
+      const result = await connector.getCompanyProfile('12345678');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual(profileFixture);
+        expect(result.evidence.fromCache).toBe(true);
+        expect(result.evidence.revalidated).toBe(true);
+        expect(result.evidence.attempts).toBe(1);
+      }
+    });
+
+    it('should extend the TTL after a 304', async () => {
+      nock(API_BASE)
+        .get('/company/12345678')
+        .reply(200, profileFixture, { ETag: '"v1"' })
+        .get('/company/12345678')
+        .reply(304);
+
+      await connector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL + 1);
+      await connector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL - 1);
+      const result = await connector.getCompanyProfile('12345678');
+
+      expect(result.evidence.fromCache).toBe(true);
+      expect(result.evidence).not.toHaveProperty('revalidated');
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should replace the entry when the resource has changed', async () => {
+      const updated = { ...profileFixture, company_name: 'RENAMED LTD' };
+      nock(API_BASE)
+        .get('/company/12345678')
+        .reply(200, profileFixture, { ETag: '"v1"' })
+        .get('/company/12345678')
+        .matchHeader('If-None-Match', '"v1"')
+        .reply(200, updated, { ETag: '"v2"' })
+        .get('/company/12345678')
+        .matchHeader('If-None-Match', '"v2"')
+        .reply(304);
+
+      await connector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL + 1);
+      const changed = await connector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL + 1);
+      const confirmed = await connector.getCompanyProfile('12345678');
+
+      expect(changed.success && changed.data.company_name).toBe('RENAMED LTD');
+      expect(changed.evidence.fromCache).toBe(false);
+      expect(changed.evidence.revalidated).toBe(false);
+      expect(confirmed.success && confirmed.data.company_name).toBe('RENAMED LTD');
+      expect(confirmed.evidence.revalidated).toBe(true);
+    });
+
+    it('should fall back to the etag in the response body', async () => {
+      nock(API_BASE)
+        .get('/company/12345678')
+        .reply(200, profileFixture)
+        .get('/company/12345678')
+        .matchHeader('If-None-Match', 'profile-etag-123')
+        .reply(304);
+
+      await connector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL + 1);
+      const result = await connector.getCompanyProfile('12345678');
+
+      expect(result.evidence.revalidated).toBe(true);
+    });
+
+    it('should send If-Modified-Since when Last-Modified was returned', async () => {
+      const lastModified = 'Mon, 01 Jan 2024 09:00:00 GMT';
+      nock(API_BASE)
+        .get('/company/12345678/charges')
+        .reply(200, emptyChargesFixture, { 'Last-Modified': lastModified })
+        .get('/company/12345678/charges')
+        .matchHeader('If-Modified-Since', lastModified)
+        .reply(304);
+
+      await connector.getCharges('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL + 1);
+      const result = await connector.getCharges('12345678');
+
+      expect(result.evidence.revalidated).toBe(true);
+    });
+
+    it('should refetch without conditions when no validators were stored', async () => {
+      const { etag: _etag, ...withoutEtag } = profileFixture;
+      nock(API_BASE)
+        .get('/company/12345678')
+        .reply(200, withoutEtag)
+        .get('/company/12345678')
+        .matchHeader('If-None-Match', (value) => value === undefined)
+        .reply(200, withoutEtag);
+
+      await connector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL + 1);
+      const result = await connector.getCompanyProfile('12345678');
+
+      expect(result.evidence.fromCache).toBe(false);
+      expect(result.evidence).not.toHaveProperty('revalidated');
+    });
+  });
+
+  describe('stale cache policies', () => {
+    const PROFILE_TTL = 60 * 60 * 1000;
+    const FETCHED_AT = '2024-01-01T12:00:00.000Z';
+    let staleCache: Cache;
+    let staleConnector: CompaniesHouseConnector;
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(FETCHED_AT));
+      staleCache = new Cache({ staleWhileRevalidate: 10 * 60 * 1000, staleIfError: PROFILE_TTL });
+      staleConnector = new CompaniesHouseConnector({
+        apiKey: API_KEY,
+        cache: staleCache,
+        fetch: nockFetch,
+        retry: { maxRetries: 0 },
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should serve stale data and refresh it in the background', async () => {
+      const updated = { ...profileFixture, company_name: 'RENAMED LTD' };
+      nock(API_BASE)
+        .get('/company/12345678')
+        .reply(200, profileFixture)
+        .get('/company/12345678')
+        .reply(200, updated);
+
+      await staleConnector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL + 60_000);
+
+      const stale = await staleConnector.getCompanyProfile('12345678');
+      expect(stale.success && stale.data.company_name).toBe(profileFixture.company_name);
+      expect(stale.evidence).toMatchObject({ fromCache: true, stale: true, cachedAt: FETCHED_AT });
+
+      await staleConnector.settleRefreshes();
+      const refreshed = await staleConnector.getCompanyProfile('12345678');
+      expect(refreshed.success && refreshed.data.company_name).toBe('RENAMED LTD');
+      expect(refreshed.evidence).not.toHaveProperty('stale');
+    });
+
+    it('should coalesce concurrent background refreshes', async () => {
+      nock(API_BASE).get('/company/12345678').twice().reply(200, profileFixture);
+
+      await staleConnector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL + 60_000);
+
+      await Promise.all([
+        staleConnector.getCompanyProfile('12345678'),
+        staleConnector.getCompanyProfile('12345678'),
+      ]);
+      await staleConnector.settleRefreshes();
+
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should serve stale data when upstream fails within stale-if-error', async () => {
+      nock(API_BASE)
+        .get('/company/12345678')
+        .reply(200, profileFixture)
+        .get('/company/12345678')
+        .reply(503, {});
+
+      await staleConnector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL + 30 * 60 * 1000);
+      const result = await staleConnector.getCompanyProfile('12345678');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual(profileFixture);
+        expect(result.evidence).toMatchObject({
+          fromCache: true,
+          stale: true,
+          cachedAt: FETCHED_AT,
+          attempts: 1,
+        });
+      }
+    });
+
+    it('should not serve stale data for a client error', async () => {
+      nock(API_BASE)
+        .get('/company/12345678')
+        .reply(200, profileFixture)
+        .get('/company/12345678')
+        .reply(404, {});
+
+      await staleConnector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL + 30 * 60 * 1000);
+      const result = await staleConnector.getCompanyProfile('12345678');
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should return the error once the stale-if-error window has passed', async () => {
+      nock(API_BASE)
+        .get('/company/12345678')
+        .reply(200, profileFixture)
+        .get('/company/12345678')
+        .reply(503, {});
+
+      await staleConnector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + 2 * PROFILE_TTL + 1);
+      const result = await staleConnector.getCompanyProfile('12345678');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.UPSTREAM_ERROR);
+      }
+    });
+
+    it('should not serve stale data without a policy', async () => {
+      nock(API_BASE)
+        .get('/company/12345678')
+        .reply(200, profileFixture)
+        .get('/company/12345678')
+        .reply(503, {});
+
+      await connector.getCompanyProfile('12345678');
+      vi.setSystemTime(Date.now() + PROFILE_TTL + 1);
+      const result = await connector.getCompanyProfile('12345678');
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('rate limiting', () => {
+    let now: number;
+
+    const createLimitedConnector = (limiter: RateLimiter) =>
+      new CompaniesHouseConnector({
+        apiKey: API_KEY,
+        cache,
+        fetch: nockFetch,
+        retry: { maxRetries: 0 },
+        rateLimiter: limiter,
+      });
+
+    beforeEach(() => {
+      now = Date.parse('2024-01-01T12:00:00Z');
+    });
+
+    it('should draw one token per upstream request', async () => {
+      const limiter = new RateLimiter({ capacity: 5, now: () => now });
+      const limited = createLimitedConnector(limiter);
+      nock(API_BASE).get('/company/12345678').reply(200, profileFixture);
+
+      await limited.getCompanyProfile('12345678');
+      // Served from cache, so no token is used
+      await limited.getCompanyProfile('12345678');
+
+      expect(limited.getRateLimitStatus()).toMatchObject({ capacity: 5, available: 4 });
+    });
+
+    it('should fail fast with RATE_LIMITED when the queue wait is too long', async () => {
+      const limiter = new RateLimiter({
+        capacity: 1,
+        intervalMs: 60_000,
+        maxWaitMs: 1000,
+        now: () => now,
+      });
+      const limited = createLimitedConnector(limiter);
+      nock(API_BASE).get('/company/12345678').reply(200, profileFixture);
+
+      await limited.getCompanyProfile('12345678');
+      const result = await limited.getCompanyProfile('87654321');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.RATE_LIMITED);
+        expect(result.error.statusCode).toBeUndefined();
+        expect(result.error.details).toMatchObject({ retryAfterMs: 60_000 });
+        expect(result.evidence.attempts).toBeUndefined();
+      }
+    });
+
+    it('should report no status without a rate limiter', () => {
+      expect(connector.getRateLimitStatus()).toBeUndefined();
+    });
+  });
+
+  describe('error handling', () => {
+    it('should handle network errors', async () => {
+      nock(API_BASE).get('/company/12345678').replyWithError('Network connection failed');
+
+      const result = await connector.getCompanyProfile('12345678');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.NETWORK_ERROR);
+        expect(result.error.message).toContain('Network connection failed');
+      }
+    });
+
+    it('should handle 500 server errors', async () => {
+      nock(API_BASE)
+        .get('/company/12345678')
+        .reply(500, { errors: [{ error: 'Internal server error' }] });
+
+      const result = await connector.getCompanyProfile('12345678');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.UPSTREAM_ERROR);
+        expect(result.error.statusCode).toBe(500);
+      }
+    });
+
+    it('should handle 400 bad request', async () => {
+      nock(API_BASE)
+        .get('/search/companies')
+        .query({ q: 'test' })
+        .reply(400, { errors: [{ error: 'Bad request' }] });
+
+      const result = await connector.searchCompanies('test');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ConnectorErrorCode.INVALID_REQUEST);
+        expect(result.error.statusCode).toBe(400);
+      }
+    });
+
+    it('should include evidence in error responses', async () => {
+      nock(API_BASE).get('/company/12345678').reply(404, {});
+
+      const result = await connector.getCompanyProfile('12345678');
+
+      expect(result.success).toBe(false);
+      expect(result.evidence).toBeDefined();
+      expect(result.evidence.apiUrl).toBe(`${API_BASE}/company/12345678`);
+      expect(result.evidence.fetchedAt).toBeDefined();
+      expect(result.evidence.fromCache).toBe(false);
+    });
+  });
+
+  describe('authentication', () => {
+    it('should send Basic Auth header', async () => {
+      const expectedAuth = 'Basic ' + Buffer.from(`${API_KEY}:`).toString('base64');
+
+      nock(API_BASE)
+        .get('/company/12345678')
+        .matchHeader('Authorization', expectedAuth)
+        .reply(200, profileFixture);
+
+      const result = await connector.getCompanyProfile('12345678');
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('cache management', () => {
+    it('should clear cache', async () => {
+      nock(API_BASE).get('/company/12345678').twice().reply(200, profileFixture);
+
+      // First call
+      await connector.getCompanyProfile('12345678');
+
+      // Clear cache
+      connector.clearCache();
+
+      // Second call should hit API again
+      const result = await connector.getCompanyProfile('12345678');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.evidence.fromCache).toBe(false);
+      }
+    });
+
+    it('should use a custom cache implementation', async () => {
+      const entries = new Map<string, CachedEntry<unknown>>();
+      const custom: ConnectorCache = {
+        get: <T>(key: string) => entries.get(key)?.value as T | undefined,
+        getEntry: <T>(key: string) => entries.get(key) as CachedEntry<T> | undefined,
+        set: (key, value, ttl = 1000) =>
+          void entries.set(key, { value, storedAt: Date.now(), expiresAt: Date.now() + ttl }),
+        delete: (key) => entries.delete(key),
+        clear: () => entries.clear(),
+        cleanup: () => 0,
+      };
+      const cached = new CompaniesHouseConnector({
+        apiKey: API_KEY,
+        cache: custom,
+        fetch: nockFetch,
+        retry: { maxRetries: 0 },
+      });
+      nock(API_BASE).get('/company/12345678').reply(200, profileFixture);
+
+      await cached.getCompanyProfile('12345678');
+      const result = await cached.getCompanyProfile('12345678');
+
+      expect(entries.get('profile:12345678')?.value).toEqual(profileFixture);
+      expect(result.evidence.fromCache).toBe(true);
+    });
+
     it('should cleanup expired cache entries', () => {
       vi.useFakeTimers();
 
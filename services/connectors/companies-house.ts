@@ -7,15 +7,31 @@
  * @see https://developer.company-information.service.gov.uk/
  */
 
-import { Cache, COMPANIES_HOUSE_TTL } from './cache';
+import {
+  Cache,
+  COMPANIES_HOUSE_TTL,
+  type CachedEntry,
+  type CacheValidators,
+  type ConnectorCache,
+} from './cache';
+import type { RateLimiter, RateLimiterStatus } from './rate-limiter';
 import type {
   CompanySearchResponse,
+  AdvancedCompanySearchResponse,
   CompanyProfileResponse,
   OfficersResponse,
+  OfficerSearchResponse,
+  OfficerAppointmentsResponse,
+  DisqualifiedOfficerSearchResponse,
+  DisqualifiedOfficerResponse,
   PSCsResponse,
   PSCStatementsResponse,
+  FilingHistoryResponse,
+  ChargesResponse,
+  InsolvencyResponse,
   ConnectorResponse,
   ConnectorError,
+  Evidence,
 } from './companies-house.types';
 import { ConnectorErrorCode } from './companies-house.types';
 
@@ -29,26 +45,141 @@ const COMPANIES_HOUSE_WEB_BASE = 'https://find-and-update.company-information.se
 export interface CompaniesHouseConnectorConfig {
   /** Companies House API key */
   apiKey: string;
-  /** Optional custom cache instance */
-  cache?: Cache;
+  /** Optional cache implementation (default: in-memory, per process) */
+  cache?: ConnectorCache;
   /** Optional custom fetch implementation (for testing) */
   fetch?: typeof fetch;
+  /** Maximum number of pages fetched for paginated lists (default: 10) */
+  maxPages?: number;
+  /** Retry policy for transient failures (429, 5xx, network errors and timeouts) */
+  retry?: Partial<RetryOptions>;
+  /** Per-attempt request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** Optional custom sleep implementation (for testing) */
+  sleep?: (ms: number) => Promise<void>;
+  /** Optional random source in [0, 1) used for backoff jitter (for testing) */
+  random?: () => number;
+  /** Optional request budget shared by every call made through this connector */
+  rateLimiter?: RateLimiter;
+}
+
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt (default: 3) */
+  maxRetries: number;
+  /** Base delay for exponential backoff in milliseconds (default: 500) */
+  baseDelayMs: number;
+  /** Maximum delay between attempts in milliseconds (default: 10000) */
+  maxDelayMs: number;
+}
+
+export interface CompanySearchOptions {
+  /** Number of items per page (1-100) */
+  itemsPerPage?: number;
+  /** Zero-based index of the first item to return */
+  startIndex?: number;
+}
+
+export interface AdvancedCompanySearchOptions {
+  /** Words the company name must include */
+  companyName?: string;
+  /** Only return companies with these statuses (e.g. 'active', 'dissolved') */
+  companyStatus?: string | string[];
+  /** Only return companies of these types (e.g. 'ltd', 'plc') */
+  companyType?: string | string[];
+  /** Only return companies with any of these SIC codes */
+  sicCodes?: string | string[];
+  /** Only return companies incorporated on or after this date (YYYY-MM-DD) */
+  incorporatedFrom?: string;
+  /** Only return companies incorporated on or before this date (YYYY-MM-DD) */
+  incorporatedTo?: string;
+  /** Registered office location, e.g. a postcode or town */
+  location?: string;
+  /** Number of items per page (1-5000) */
+  itemsPerPage?: number;
+  /** Zero-based index of the first item to return */
+  startIndex?: number;
+}
+
+export type OfficerSearchOptions = CompanySearchOptions;
+
+export interface FilingHistoryOptions {
+  /** Only return filings in these categories (e.g. 'accounts', 'confirmation-statement') */
+  category?: string | string[];
+  /** Only return filings made on or after this date (YYYY-MM-DD) */
+  fromDate?: string;
+  /** Only return filings made on or before this date (YYYY-MM-DD) */
+  toDate?: string;
+  /** Number of items per page (1-100) */
+  itemsPerPage?: number;
+  /** Zero-based index of the first item to return */
+  startIndex?: number;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/** Failures for which expired cached data may be served instead (stale-if-error) */
+const STALE_IF_ERROR_CODES = new Set([
+  ConnectorErrorCode.RATE_LIMITED,
+  ConnectorErrorCode.UPSTREAM_ERROR,
+  ConnectorErrorCode.NETWORK_ERROR,
+  ConnectorErrorCode.TIMEOUT,
+]);
+
+/** HTTP statuses worth retrying: rate limiting and transient upstream failures */
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/** Default ceiling on pages fetched for officers, PSCs and PSC statements */
+const DEFAULT_MAX_PAGES = 10;
+
+/** Page size requested for pages after the first (Companies House maximum) */
+const PAGE_SIZE = 100;
+
+/**
+ * Shape shared by the paginated Companies House list responses.
+ */
+interface PaginatedResponse {
+  /** Items are de-duplicated by `links.self` where the list provides one */
+  items: Array<{ links?: { self?: string; [key: string]: unknown } }>;
+  start_index: number;
+  total_results: number;
 }
 
 interface FetchResponse {
   ok: boolean;
   status: number;
+  headers?: { get(name: string): string | null };
   json(): Promise<unknown>;
 }
 
+/**
+ * Outcome of a single HTTP attempt, before retry handling.
+ */
+type AttemptOutcome<T> =
+  | { success: true; data: T; notModified: boolean; validators?: CacheValidators }
+  | { success: false; error: ConnectorError; retryable: boolean; retryAfterMs?: number };
+
 // ============================================================================
 // Connector Class
 // ============================================================================
 
 export class CompaniesHouseConnector {
   private apiKey: string;
-  private cache: Cache;
+  private cache: ConnectorCache;
   private fetchFn: typeof fetch;
+  private maxPages: number;
+  private retry: RetryOptions;
+  private timeoutMs: number;
+  private sleep: (ms: number) => Promise<void>;
+  private random: () => number;
+  private rateLimiter?: RateLimiter;
+  /** Background refreshes in flight, keyed by cache key */
+  private refreshing = new Map<string, Promise<unknown>>();
 
   constructor(config: CompaniesHouseConnectorConfig) {
     if (!config.apiKey) {
@@ -58,6 +189,20 @@ export class CompaniesHouseConnector {
     this.apiKey = config.apiKey;
     this.cache = config.cache ?? new Cache();
     this.fetchFn = config.fetch ?? fetch;
+    this.maxPages = config.maxPages ?? DEFAULT_MAX_PAGES;
+
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...config.retry };
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.sleep = config.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.random = config.random ?? Math.random;
+    this.rateLimiter = config.rateLimiter;
+
+    if (!Number.isInteger(this.maxPages) || this.maxPages < 1) {
+      throw new Error('maxPages must be a positive integer');
+    }
+    if (!Number.isInteger(this.retry.maxRetries) || this.retry.maxRetries < 0) {
+      throw new Error('retry.maxRetries must be a non-negative integer');
+    }
   }
 
   // --------------------------------------------------------------------------
@@ -67,9 +212,13 @@ export class CompaniesHouseConnector {
   /**
    * Search for companies by name or company number.
    * @param query Search query string
+   * @param options Optional paging
    * @returns Search results with evidence
    */
-  async searchCompanies(query: string): Promise<ConnectorResponse<CompanySearchResponse>> {
+  async searchCompanies(
+    query: string,
+    options: CompanySearchOptions = {}
+  ): Promise<ConnectorResponse<CompanySearchResponse>> {
     if (!query || query.trim().length === 0) {
       return this.createError(
         ConnectorErrorCode.INVALID_REQUEST,
@@ -79,12 +228,89 @@ export class CompaniesHouseConnector {
       );
     }
 
-    const apiUrl = this.buildApiUrl('/search/companies', { q: query.trim() });
-    const cacheKey = `search:${query.trim().toLowerCase()}`;
+    const paging = this.pagingParams(options, 'items_per_page');
+    const apiUrl = this.buildApiUrl('/search/companies', { q: query.trim(), ...paging });
+
+    const pagingError = this.validatePaging(options, 100, apiUrl);
+    if (pagingError) {
+      return pagingError;
+    }
+
+    const pageKey = Object.values(paging).join(':');
+    const cacheKey = `search:${query.trim().toLowerCase()}${pageKey ? `:${pageKey}` : ''}`;
 
     return this.fetchWithCache<CompanySearchResponse>(apiUrl, cacheKey, COMPANIES_HOUSE_TTL.SEARCH);
   }
 
+  /**
+   * Search for companies with Companies House advanced search.
+   *
+   * At least one criterion is required. Multi-valued filters match any of
+   * the given values. Companies House answers 404 when nothing matches.
+   *
+   * @param options Search criteria and paging
+   * @returns Matching companies with evidence
+   */
+  async advancedSearchCompanies(
+    options: AdvancedCompanySearchOptions
+  ): Promise<ConnectorResponse<AdvancedCompanySearchResponse>> {
+    const list = (value: string | string[] | undefined) =>
+      (Array.isArray(value) ? value : value ? [value] : [])
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .sort()
+        .join(',');
+
+    const criteria: Record<string, string> = {
+      company_name_includes: options.companyName?.trim() ?? '',
+      company_status: list(options.companyStatus),
+      company_type: list(options.companyType),
+      sic_codes: list(options.sicCodes),
+      incorporated_from: options.incorporatedFrom ?? '',
+      incorporated_to: options.incorporatedTo ?? '',
+      location: options.location?.trim() ?? '',
+    };
+    const params = Object.fromEntries(Object.entries(criteria).filter(([, value]) => value));
+
+    if (Object.keys(params).length === 0) {
+      return this.createError(
+        ConnectorErrorCode.INVALID_REQUEST,
+        'Advanced search needs at least one criterion',
+        undefined,
+        this.buildApiUrl('/advanced-search/companies')
+      );
+    }
+
+    const apiUrl = this.buildApiUrl('/advanced-search/companies', {
+      ...params,
+      ...this.pagingParams(options, 'size'),
+    });
+
+    const pagingError = this.validatePaging(options, 5000, apiUrl);
+    if (pagingError) {
+      return pagingError;
+    }
+
+    for (const date of [options.incorporatedFrom, options.incorporatedTo]) {
+      if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return this.createError(
+          ConnectorErrorCode.INVALID_REQUEST,
+          `Invalid date filter "${date}" (expected YYYY-MM-DD)`,
+          undefined,
+          apiUrl
+        );
+      }
+    }
+
+    const cacheKey = `advanced-search:${new URL(apiUrl).search.toLowerCase()}`;
+
+    return this.fetchWithCache<AdvancedCompanySearchResponse>(
+      apiUrl,
+      cacheKey,
+      COMPANIES_HOUSE_TTL.SEARCH
+    );
+  }
+
   /**
    * Get company profile by company number.
    * @param companyNumber Company registration number
@@ -118,6 +344,7 @@ export class CompaniesHouseConnector {
 
   /**
    * Get officers for a company.
+   * Walks all result pages up to the configured page ceiling.
    * @param companyNumber Company registration number
    * @returns Officers list with evidence
    */
@@ -137,7 +364,7 @@ export class CompaniesHouseConnector {
     const cacheKey = `officers:${normalizedNumber}`;
     const publicUrl = `${COMPANIES_HOUSE_WEB_BASE}/company/${normalizedNumber}/officers`;
 
-    return this.fetchWithCache<OfficersResponse>(
+    return this.fetchAllPages<OfficersResponse>(
       apiUrl,
       cacheKey,
       COMPANIES_HOUSE_TTL.OFFICERS,
@@ -147,6 +374,7 @@ export class CompaniesHouseConnector {
 
   /**
    * Get persons with significant control for a company.
+   * Walks all result pages up to the configured page ceiling.
    * @param companyNumber Company registration number
    * @returns PSCs list with evidence
    */
@@ -168,11 +396,135 @@ export class CompaniesHouseConnector {
     const cacheKey = `pscs:${normalizedNumber}`;
     const publicUrl = `${COMPANIES_HOUSE_WEB_BASE}/company/${normalizedNumber}/persons-with-significant-control`;
 
-    return this.fetchWithCache<PSCsResponse>(apiUrl, cacheKey, COMPANIES_HOUSE_TTL.PSCS, publicUrl);
+    return this.fetchAllPages<PSCsResponse>(apiUrl, cacheKey, COMPANIES_HOUSE_TTL.PSCS, publicUrl);
+  }
+
+  /**
+   * Get every appointment held by an officer, across all companies.
+   * Walks all result pages up to the configured page ceiling.
+   * @param officerId Officer ID, as in `links.officer.appointments` on an officer
+   * @returns Appointment list with evidence
+   */
+  async getOfficerAppointments(
+    officerId: string
+  ): Promise<ConnectorResponse<OfficerAppointmentsResponse>> {
+    const id = officerId.trim();
+
+    if (!id || !/^[A-Za-z0-9_-]+$/.test(id)) {
+      return this.createError(
+        ConnectorErrorCode.INVALID_REQUEST,
+        'Invalid officer ID',
+        undefined,
+        this.buildApiUrl(`/officers/${encodeURIComponent(officerId)}/appointments`)
+      );
+    }
+
+    const apiUrl = this.buildApiUrl(`/officers/${id}/appointments`);
+    const cacheKey = `officer-appointments:${id}`;
+    const publicUrl = `${COMPANIES_HOUSE_WEB_BASE}/officers/${id}/appointments`;
+
+    return this.fetchAllPages<OfficerAppointmentsResponse>(
+      apiUrl,
+      cacheKey,
+      COMPANIES_HOUSE_TTL.OFFICER_APPOINTMENTS,
+      publicUrl
+    );
+  }
+
+  /**
+   * Search for officers by name.
+   * @param query Officer name
+   * @param options Optional paging
+   * @returns Search results with evidence
+   */
+  async searchOfficers(
+    query: string,
+    options: OfficerSearchOptions = {}
+  ): Promise<ConnectorResponse<OfficerSearchResponse>> {
+    if (!query || query.trim().length === 0) {
+      return this.createError(
+        ConnectorErrorCode.INVALID_REQUEST,
+        'Search query cannot be empty',
+        undefined,
+        this.buildApiUrl('/search/officers', { q: query })
+      );
+    }
+
+    const paging = this.pagingParams(options, 'items_per_page');
+    const apiUrl = this.buildApiUrl('/search/officers', { q: query.trim(), ...paging });
+
+    const pagingError = this.validatePaging(options, 100, apiUrl);
+    if (pagingError) {
+      return pagingError;
+    }
+
+    const pageKey = Object.values(paging).join(':');
+    const cacheKey = `officer-search:${query.trim().toLowerCase()}${pageKey ? `:${pageKey}` : ''}`;
+
+    return this.fetchWithCache<OfficerSearchResponse>(apiUrl, cacheKey, COMPANIES_HOUSE_TTL.SEARCH);
+  }
+
+  /**
+   * Search the register of disqualified directors by name.
+   * @param query Officer name
+   * @returns Search results with evidence
+   */
+  async searchDisqualifiedOfficers(
+    query: string
+  ): Promise<ConnectorResponse<DisqualifiedOfficerSearchResponse>> {
+    if (!query || query.trim().length === 0) {
+      return this.createError(
+        ConnectorErrorCode.INVALID_REQUEST,
+        'Search query cannot be empty',
+        undefined,
+        this.buildApiUrl('/search/disqualified-officers', { q: query })
+      );
+    }
+
+    const apiUrl = this.buildApiUrl('/search/disqualified-officers', { q: query.trim() });
+    const cacheKey = `disqualified-search:${query.trim().toLowerCase()}`;
+
+    return this.fetchWithCache<DisqualifiedOfficerSearchResponse>(
+      apiUrl,
+      cacheKey,
+      COMPANIES_HOUSE_TTL.SEARCH
+    );
+  }
+
+  /**
+   * Get the disqualification record of a natural person.
+   * @param officerId Disqualified officer ID, as in `links.self` on a search result
+   * @returns Disqualification record with evidence
+   */
+  async getDisqualifiedOfficer(
+    officerId: string
+  ): Promise<ConnectorResponse<DisqualifiedOfficerResponse>> {
+    const id = officerId.trim();
+
+    if (!id || !/^[A-Za-z0-9_-]+$/.test(id)) {
+      return this.createError(
+        ConnectorErrorCode.INVALID_REQUEST,
+        'Invalid officer ID',
+        undefined,
+        this.buildApiUrl(`/disqualified-officers/natural/${encodeURIComponent(officerId)}`)
+      );
+    }
+
+    const apiUrl = this.buildApiUrl(`/disqualified-officers/natural/${id}`);
+    const cacheKey = `disqualified-officer:${id}`;
+    const publicUrl = `${COMPANIES_HOUSE_WEB_BASE}/disqualified-officers/natural/${id}`;
+
+    return this.fetchWithCache<DisqualifiedOfficerResponse>(
+      apiUrl,
+      cacheKey,
+      COMPANIES_HOUSE_TTL.DISQUALIFIED_OFFICER,
+      publicUrl
+    );
   }
 
   /**
    * Get PSC statements for a company.
+   * Walks all result pages up to the configured page ceiling.
    * @param companyNumber Company registration number
    * @returns PSC statements list with evidence
    */
@@ -194,7 +546,7 @@ export class CompaniesHouseConnector {
     const cacheKey = `psc-statements:${normalizedNumber}`;
     const publicUrl = `${COMPANIES_HOUSE_WEB_BASE}/company/${normalizedNumber}/persons-with-significant-control`;
 
-    return this.fetchWithCache<PSCStatementsResponse>(
+    return this.fetchAllPages<PSCStatementsResponse>(
       apiUrl,
       cacheKey,
       COMPANIES_HOUSE_TTL.PSC_STATEMENTS,
@@ -202,6 +554,144 @@ export class CompaniesHouseConnector {
     );
   }
 
+  /**
+   * Get filing history for a company.
+   *
+   * Category and paging options are passed through to Companies House.
+   * Date filters are applied to the returned page, so `total_count` still
+   * reflects the upstream total for the requested categories.
+   *
+   * @param companyNumber Company registration number
+   * @param options Optional category, date and paging filters
+   * @returns Filing history list with evidence
+   */
+  async getFilingHistory(
+    companyNumber: string,
+    options: FilingHistoryOptions = {}
+  ): Promise<ConnectorResponse<FilingHistoryResponse>> {
+    const normalizedNumber = this.normalizeCompanyNumber(companyNumber);
+
+    if (!normalizedNumber) {
+      return this.createError(
+        ConnectorErrorCode.INVALID_REQUEST,
+        'Invalid company number',
+        undefined,
+        this.buildApiUrl(`/company/${companyNumber}/filing-history`)
+      );
+    }
+
+    const params: Record<string, string> = {};
+    const categories = Array.isArray(options.category)
+      ? options.category
+      : options.category
+        ? [options.category]
+        : [];
+
+    if (categories.length > 0) {
+      params.category = [...categories].sort().join(',');
+    }
+    Object.assign(params, this.pagingParams(options, 'items_per_page'));
+
+    const apiUrl = this.buildApiUrl(`/company/${normalizedNumber}/filing-history`, params);
+
+    const pagingError = this.validatePaging(options, 100, apiUrl);
+    if (pagingError) {
+      return pagingError;
+    }
+
+    for (const date of [options.fromDate, options.toDate]) {
+      if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return this.createError(
+          ConnectorErrorCode.INVALID_REQUEST,
+          `Invalid date filter "${date}" (expected YYYY-MM-DD)`,
+          undefined,
+          apiUrl
+        );
+      }
+    }
+
+    const query = new URL(apiUrl).search;
+    const cacheKey = `filing-history:${normalizedNumber}${query ? `:${query}` : ''}`;
+    const publicUrl = `${COMPANIES_HOUSE_WEB_BASE}/company/${normalizedNumber}/filing-history`;
+
+    const result = await this.fetchWithCache<FilingHistoryResponse>(
+      apiUrl,
+      cacheKey,
+      COMPANIES_HOUSE_TTL.FILING_HISTORY,
+      publicUrl
+    );
+
+    if (!result.success || (!options.fromDate && !options.toDate)) {
+      return result;
+    }
+
+    // Dates are ISO (YYYY-MM-DD) so string comparison is sufficient
+    const { fromDate, toDate } = options;
+    const items = result.data.items.filter(
+      (item) => (!fromDate || item.date >= fromDate) && (!toDate || item.date <= toDate)
+    );
+
+    return { ...result, data: { ...result.data, items } };
+  }
+
+  /**
+   * Get charges (mortgages) registered against a company.
+   * @param companyNumber Company registration number
+   * @returns Charges list with evidence
+   */
+  async getCharges(companyNumber: string): Promise<ConnectorResponse<ChargesResponse>> {
+    const normalizedNumber = this.normalizeCompanyNumber(companyNumber);
+
+    if (!normalizedNumber) {
+      return this.createError(
+        ConnectorErrorCode.INVALID_REQUEST,
+        'Invalid company number',
+        undefined,
+        this.buildApiUrl(`/company/${companyNumber}/charges`)
+      );
+    }
+
+    const apiUrl = this.buildApiUrl(`/company/${normalizedNumber}/charges`);
+    const cacheKey = `charges:${normalizedNumber}`;
+    const publicUrl = `${COMPANIES_HOUSE_WEB_BASE}/company/${normalizedNumber}/charges`;
+
+    return this.fetchWithCache<ChargesResponse>(
+      apiUrl,
+      cacheKey,
+      COMPANIES_HOUSE_TTL.CHARGES,
+      publicUrl
+    );
+  }
+
+  /**
+   * Get insolvency case details for a company.
+   * @param companyNumber Company registration number
+   * @returns Insolvency cases with evidence
+   */
+  async getInsolvency(companyNumber: string): Promise<ConnectorResponse<InsolvencyResponse>> {
+    const normalizedNumber = this.normalizeCompanyNumber(companyNumber);
+
+    if (!normalizedNumber) {
+      return this.createError(
+        ConnectorErrorCode.INVALID_REQUEST,
+        'Invalid company number',
+        undefined,
+        this.buildApiUrl(`/company/${companyNumber}/insolvency`)
+      );
+    }
+
+    const apiUrl = this.buildApiUrl(`/company/${normalizedNumber}/insolvency`);
+    const cacheKey = `insolvency:${normalizedNumber}`;
+    const publicUrl = `${COMPANIES_HOUSE_WEB_BASE}/company/${normalizedNumber}/insolvency`;
+
+    return this.fetchWithCache<InsolvencyResponse>(
+      apiUrl,
+      cacheKey,
+      COMPANIES_HOUSE_TTL.INSOLVENCY,
+      publicUrl
+    );
+  }
+
   /**
    * Clear all cached data.
    */
@@ -217,10 +707,72 @@ export class CompaniesHouseConnector {
     return this.cache.cleanup();
   }
 
+  /**
+   * Current request budget, or undefined when no rate limiter is configured.
+   */
+  getRateLimitStatus(): RateLimiterStatus | undefined {
+    return this.rateLimiter?.getStatus();
+  }
+
   // --------------------------------------------------------------------------
   // Private Methods
   // --------------------------------------------------------------------------
 
+  /**
+   * Query parameters for a page request; Companies House names the page size
+   * `items_per_page` on most endpoints but `size` on advanced search.
+   */
+  private pagingParams(
+    options: { itemsPerPage?: number; startIndex?: number },
+    sizeParam: 'items_per_page' | 'size'
+  ): Record<string, string> {
+    const params: Record<string, string> = {};
+    if (options.itemsPerPage !== undefined) {
+      params[sizeParam] = String(options.itemsPerPage);
+    }
+    if (options.startIndex !== undefined) {
+      params.start_index = String(options.startIndex);
+    }
+    return params;
+  }
+
+  /**
+   * Error for an out-of-range page size or start index, if any.
+   */
+  private validatePaging(
+    options: { itemsPerPage?: number; startIndex?: number },
+    maxItemsPerPage: number,
+    apiUrl: string
+  ): ConnectorError | undefined {
+    if (
+      options.itemsPerPage !== undefined &&
+      (!Number.isInteger(options.itemsPerPage) ||
+        options.itemsPerPage < 1 ||
+        options.itemsPerPage > maxItemsPerPage)
+    ) {
+      return this.createError(
+        ConnectorErrorCode.INVALID_REQUEST,
+        `itemsPerPage must be an integer between 1 and ${maxItemsPerPage}`,
+        undefined,
+        apiUrl
+      );
+    }
+
+    if (
+      options.startIndex !== undefined &&
+      (!Number.isInteger(options.startIndex) || options.startIndex < 0)
+    ) {
+      return this.createError(
+        ConnectorErrorCode.INVALID_REQUEST,
+        'startIndex must be a non-negative integer',
+        undefined,
+        apiUrl
+      );
+    }
+
+    return undefined;
+  }
+
   /**
    * Build API URL with query parameters.
    */
@@ -317,7 +869,8 @@ export class CompaniesHouseConnector {
     data: T,
     apiUrl: string,
     fromCache: boolean,
-    publicUrl?: string
+    publicUrl?: string,
+    fetch: Pick<Evidence, 'attempts' | 'revalidated' | 'stale' | 'cachedAt'> = {}
   ): ConnectorResponse<T> {
     return {
       success: true,
@@ -327,12 +880,92 @@ export class CompaniesHouseConnector {
         publicUrl,
         fetchedAt: new Date().toISOString(),
         fromCache,
+        ...(fetch.attempts !== undefined && { attempts: fetch.attempts }),
+        ...(fetch.revalidated !== undefined && { revalidated: fetch.revalidated }),
+        ...(fetch.stale && { stale: true, cachedAt: fetch.cachedAt }),
       },
     };
   }
 
+  /**
+   * Fetch every page of a paginated list with caching.
+   *
+   * The first page is requested exactly as a single-page call; later pages are
+   * requested by `start_index` at the maximum page size. Items are merged in page
+   * order, dropping any item (by self link) already seen on an earlier page. Stops
+   * at the page ceiling and marks the result as truncated.
+   */
+  private async fetchAllPages<T extends PaginatedResponse>(
+    apiUrl: string,
+    cacheKey: string,
+    ttl: number,
+    publicUrl?: string
+  ): Promise<ConnectorResponse<T>> {
+    const first = await this.fetchWithCache<T>(apiUrl, cacheKey, ttl, publicUrl);
+    if (!first.success) {
+      return first;
+    }
+
+    const items = [...first.data.items];
+    const seen = new Set(items.map((item) => item.links?.self).filter(Boolean));
+    const additionalEvidence: Evidence[] = [];
+    let fetched = first.data.start_index + first.data.items.length;
+    let pages = 1;
+    let truncated = false;
+
+    while (fetched < first.data.total_results) {
+      if (pages >= this.maxPages) {
+        truncated = true;
+        break;
+      }
+
+      const pageParams = { items_per_page: String(PAGE_SIZE), start_index: String(fetched) };
+      const pageUrl = `${apiUrl}?${new URLSearchParams(pageParams).toString()}`;
+      const page = await this.fetchWithCache<T>(pageUrl, `${cacheKey}:${fetched}`, ttl, publicUrl);
+      if (!page.success) {
+        return page;
+      }
+
+      additionalEvidence.push(page.evidence);
+      pages++;
+
+      // An empty page means the upstream total is stale; stop rather than loop
+      if (page.data.items.length === 0) {
+        break;
+      }
+      fetched += page.data.items.length;
+
+      for (const item of page.data.items) {
+        const self = item.links?.self;
+        if (self && seen.has(self)) continue;
+        if (self) seen.add(self);
+        items.push(item);
+      }
+    }
+
+    if (pages === 1 && !truncated) {
+      return first;
+    }
+
+    return {
+      ...first,
+      data: { ...first.data, items },
+      ...(additionalEvidence.length > 0 && { additionalEvidence }),
+      ...(truncated && { truncated }),
+    };
+  }
+
   /**
    * Fetch data from API with caching.
+   * Expired entries with an ETag or Last-Modified are revalidated with a conditional
+   * request; a 304 reuses the cached body and extends its TTL. Transient failures are
+   * retried according to the retry policy; the number of attempts made is recorded
+   * in the evidence.
+   *
+   * Under the cache's policy, an entry expired within the stale-while-revalidate
+   * window is served immediately while a background request refreshes it, and one
+   * expired within the stale-if-error window is served when the upstream request
+   * fails. Either way the evidence is marked stale with the time the data was fetched.
    */
   private async fetchWithCache<T>(
     apiUrl: string,
@@ -341,22 +974,150 @@ export class CompaniesHouseConnector {
     publicUrl?: string
   ): Promise<ConnectorResponse<T>> {
     // Check cache first
-    const cached = this.cache.get<T>(cacheKey);
+    const cached = this.cache.getEntry<T>(cacheKey);
+    const now = Date.now();
+
+    if (cached && now <= cached.expiresAt) {
+      return this.createSuccess(cached.value, apiUrl, true, publicUrl);
+    }
+
+    const policy = this.cache.policy;
+    const staleFor = cached ? now - cached.expiresAt : Infinity;
+
+    if (cached && staleFor <= (policy?.staleWhileRevalidate ?? 0)) {
+      this.refreshInBackground(apiUrl, cacheKey, ttl, cached);
+
+      return this.createSuccess(cached.value, apiUrl, true, publicUrl, {
+        stale: true,
+        cachedAt: new Date(cached.storedAt).toISOString(),
+      });
+    }
+
+    const result = await this.fetchFromUpstream<T>(apiUrl, cacheKey, ttl, publicUrl, cached);
+
+    if (
+      !result.success &&
+      cached &&
+      staleFor <= (policy?.staleIfError ?? 0) &&
+      STALE_IF_ERROR_CODES.has(result.error.code)
+    ) {
+      return this.createSuccess(cached.value, apiUrl, true, publicUrl, {
+        attempts: result.evidence.attempts,
+        stale: true,
+        cachedAt: new Date(cached.storedAt).toISOString(),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Refresh an entry without blocking the caller. Concurrent refreshes of the same
+   * key are coalesced, and failures are ignored: the stale entry stays in place.
+   */
+  private refreshInBackground<T>(
+    apiUrl: string,
+    cacheKey: string,
+    ttl: number,
+    cached: CachedEntry<T>
+  ): void {
+    if (this.refreshing.has(cacheKey)) {
+      return;
+    }
+
+    const refresh = this.fetchFromUpstream<T>(apiUrl, cacheKey, ttl, undefined, cached)
+      .catch(() => undefined)
+      .finally(() => this.refreshing.delete(cacheKey));
+
+    this.refreshing.set(cacheKey, refresh);
+  }
+
+  /**
+   * Wait for any background refreshes in flight.
+   */
+  async settleRefreshes(): Promise<void> {
+    await Promise.all(this.refreshing.values());
+  }
+
+  /**
+   * Request a resource from the API, retrying transient failures, and cache it.
+   */
+  private async fetchFromUpstream<T>(
+    apiUrl: string,
+    cacheKey: string,
+    ttl: number,
+    publicUrl: string | undefined,
+    cached: CachedEntry<T> | undefined
+  ): Promise<ConnectorResponse<T>> {
+    for (let attempt = 1; ; attempt++) {
+      const budget = await this.rateLimiter?.acquire();
+
+      if (budget && !budget.acquired) {
+        const retryAt = new Date(Date.now() + budget.retryAfterMs).toISOString();
+        const error = this.createError(
+          ConnectorErrorCode.RATE_LIMITED,
+          `Request budget exhausted; retry after ${retryAt}`,
+          undefined,
+          apiUrl,
+          { retryAfterMs: Math.ceil(budget.retryAfterMs), retryAt }
+        );
+        if (attempt > 1) {
+          error.evidence.attempts = attempt - 1;
+        }
+        return error;
+      }
+
+      const outcome = await this.fetchOnce<T>(apiUrl, cached);
+
+      if (outcome.success) {
+        // Cache successful response; a 304 keeps the cached body for another TTL
+        this.cache.set(cacheKey, outcome.data, ttl, outcome.validators);
+
+        return this.createSuccess(outcome.data, apiUrl, outcome.notModified, publicUrl, {
+          attempts: attempt,
+          ...(cached?.validators && { revalidated: outcome.notModified }),
+        });
+      }
+
+      const delay = outcome.retryable
+        ? this.getRetryDelay(attempt, outcome.retryAfterMs)
+        : undefined;
+
+      if (delay === undefined) {
+        outcome.error.evidence.attempts = attempt;
+        return outcome.error;
+      }
 
-    if (cached !== undefined) {
-      return this.createSuccess(cached, apiUrl, true, publicUrl);
+      await this.sleep(delay);
     }
+  }
+
+  /**
+   * Make a single HTTP attempt, aborting it after the configured timeout.
+   * When a cached entry with validators is given the request is conditional, and a
+   * 304 response yields the cached value.
+   */
+  private async fetchOnce<T>(apiUrl: string, cached?: CachedEntry<T>): Promise<AttemptOutcome<T>> {
+    const validators = cached?.validators;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
 
-    // Fetch from API
     try {
       const response = (await this.fetchFn(apiUrl, {
         method: 'GET',
         headers: {
           Authorization: this.getAuthHeader(),
           Accept: 'application/json',
+          ...(validators?.etag && { 'If-None-Match': validators.etag }),
+          ...(validators?.lastModified && { 'If-Modified-Since': validators.lastModified }),
         },
+        signal: controller.signal,
       })) as FetchResponse;
 
+      if (response.status === 304 && cached && validators) {
+        return { success: true, data: cached.value, notModified: true, validators };
+      }
+
       if (!response.ok) {
         const errorCode = this.mapHttpStatusToErrorCode(response.status);
         let errorMessage = `Companies House API error: ${response.status}`;
@@ -375,27 +1136,119 @@ export class CompaniesHouseConnector {
           // Ignore JSON parse errors
         }
 
-        return this.createError(errorCode, errorMessage, response.status, apiUrl, details);
+        return {
+          success: false,
+          error: this.createError(errorCode, errorMessage, response.status, apiUrl, details),
+          retryable: RETRYABLE_STATUSES.has(response.status),
+          retryAfterMs: this.parseRetryAfter(response),
+        };
       }
 
       const data = (await response.json()) as T;
 
-      // Cache successful response
-      this.cache.set(cacheKey, data, ttl);
-
-      return this.createSuccess(data, apiUrl, false, publicUrl);
+      return {
+        success: true,
+        notModified: false,
+        data,
+        validators: this.getValidators(response, data),
+      };
     } catch (error) {
+      if (controller.signal.aborted) {
+        return {
+          success: false,
+          error: this.createError(
+            ConnectorErrorCode.TIMEOUT,
+            `Request timed out after ${this.timeoutMs}ms`,
+            undefined,
+            apiUrl
+          ),
+          retryable: true,
+        };
+      }
+
       // Handle network errors
       const errorMessage = error instanceof Error ? error.message : 'Network error occurred';
 
-      return this.createError(
-        ConnectorErrorCode.NETWORK_ERROR,
-        errorMessage,
-        undefined,
-        apiUrl,
-        error
-      );
+      return {
+        success: false,
+        error: this.createError(
+          ConnectorErrorCode.NETWORK_ERROR,
+          errorMessage,
+          undefined,
+          apiUrl,
+          error
+        ),
+        retryable: true,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Validators for a response: the ETag header (falling back to the `etag` field
+   * Companies House includes in most resource bodies) and Last-Modified.
+   */
+  private getValidators(response: FetchResponse, data: unknown): CacheValidators | undefined {
+    const bodyEtag = (data as { etag?: unknown } | null)?.etag;
+    const etag =
+      response.headers?.get('etag') ?? (typeof bodyEtag === 'string' ? bodyEtag : undefined);
+    const lastModified = response.headers?.get('last-modified') ?? undefined;
+
+    if (!etag && !lastModified) {
+      return undefined;
     }
+
+    return {
+      ...(etag && { etag }),
+      ...(lastModified && { lastModified }),
+    };
+  }
+
+  /**
+   * Read the server's requested wait from `Retry-After` (seconds or HTTP date)
+   * or `X-Ratelimit-Reset` (epoch seconds). Returns undefined when neither is set.
+   */
+  private parseRetryAfter(response: FetchResponse): number | undefined {
+    const retryAfter = response.headers?.get('retry-after');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+      }
+      const date = Date.parse(retryAfter);
+      if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+      }
+    }
+
+    const reset = Number(response.headers?.get('x-ratelimit-reset'));
+    if (reset > 0) {
+      return Math.max(0, reset * 1000 - Date.now());
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Delay before the next attempt, or undefined when no more retries should be made.
+   * Uses the server's requested wait when given (giving up if it exceeds the maximum
+   * delay), otherwise exponential backoff with jitter.
+   */
+  private getRetryDelay(attempt: number, retryAfterMs?: number): number | undefined {
+    const { maxRetries, baseDelayMs, maxDelayMs } = this.retry;
+
+    if (attempt > maxRetries) {
+      return undefined;
+    }
+
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs <= maxDelayMs ? retryAfterMs : undefined;
+    }
+
+    // "Equal jitter": half the exponential delay plus a random share of the other half
+    const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    return exponential / 2 + this.random() * (exponential / 2);
   }
 }
 
@@ -406,8 +1259,12 @@ export class CompaniesHouseConnector {
 /**
  * Create a new Companies House connector instance.
  * @param apiKey Companies House API key
+ * @param options Optional connector settings, e.g. a shared rate limiter
  * @returns Configured connector instance
  */
-export function createCompaniesHouseConnector(apiKey: string): CompaniesHouseConnector {
-  return new CompaniesHouseConnector({ apiKey });
+export function createCompaniesHouseConnector(
+  apiKey: string,
+  options: Omit<CompaniesHouseConnectorConfig, 'apiKey'> = {}
+): CompaniesHouseConnector {
+  return new CompaniesHouseConnector({ ...options, apiKey });
 }
@@ -67,6 +67,62 @@ export interface CompanySearchResponse {
   total_results: number;
 }
 
+export interface AdvancedCompanySearchItem {
+  company_name: string;
+  company_number: string;
+  company_status: string;
+  company_subtype?: string;
+  company_type: string;
+  date_of_cessation?: string;
+  date_of_creation?: string;
+  kind: string;
+  links: {
+    company_profile: string;
+  };
+  registered_office_address?: CompaniesHouseAddress;
+  sic_codes?: string[];
+}
+
+export interface AdvancedCompanySearchResponse {
+  etag?: string;
+  hits: number;
+  items: AdvancedCompanySearchItem[];
+  kind: string;
+  top_hit?: AdvancedCompanySearchItem;
+}
+
+export interface OfficerSearchItem {
+  address?: CompaniesHouseAddress;
+  address_snippet?: string;
+  appointment_count?: number;
+  date_of_birth?: {
+    month: number;
+    year: number;
+  };
+  description?: string;
+  description_identifiers?: string[];
+  kind: string;
+  links: {
+    self: string;
+  };
+  matches?: {
+    title?: number[];
+    snippet?: number[];
+  };
+  snippet?: string;
+  title: string;
+}
+
+export interface OfficerSearchResponse {
+  etag?: string;
+  items: OfficerSearchItem[];
+  items_per_page: number;
+  kind: string;
+  page_number?: number;
+  start_index: number;
+  total_results: number;
+}
+
 // ============================================================================
 // Company Profile API Types
 // ============================================================================
@@ -191,6 +247,134 @@ export interface OfficersResponse {
   total_results: number;
 }
 
+// ============================================================================
+// Officer Appointments API Types
+// ============================================================================
+
+export interface OfficerAppointmentItem {
+  address?: CompaniesHouseAddress;
+  appointed_before?: string;
+  appointed_on?: string;
+  appointed_to: {
+    company_name?: string;
+    company_number: string;
+    company_status?: string;
+  };
+  country_of_residence?: string;
+  is_pre_1992_appointment?: boolean;
+  links: {
+    company: string;
+  };
+  name: string;
+  name_elements?: {
+    forename?: string;
+    other_forenames?: string;
+    surname?: string;
+    title?: string;
+  };
+  nationality?: string;
+  occupation?: string;
+  officer_role: string;
+  resigned_on?: string;
+}
+
+export interface OfficerAppointmentsResponse {
+  date_of_birth?: {
+    month: number;
+    year: number;
+  };
+  etag?: string;
+  is_corporate_officer?: boolean;
+  items: OfficerAppointmentItem[];
+  items_per_page: number;
+  kind: string;
+  links: {
+    self: string;
+  };
+  name: string;
+  start_index: number;
+  total_results: number;
+}
+
+// ============================================================================
+// Disqualified Officers API Types
+// ============================================================================
+
+export interface DisqualifiedOfficerSearchItem {
+  address?: CompaniesHouseAddress;
+  address_snippet?: string;
+  /** Full date of birth (YYYY-MM-DD) for natural persons */
+  date_of_birth?: string;
+  description?: string;
+  description_identifiers?: string[];
+  kind: string;
+  links: {
+    self: string;
+  };
+  matches?: {
+    title?: number[];
+    snippet?: number[];
+  };
+  snippet?: string;
+  title: string;
+}
+
+export interface DisqualifiedOfficerSearchResponse {
+  etag?: string;
+  items: DisqualifiedOfficerSearchItem[];
+  items_per_page: number;
+  kind: string;
+  page_number?: number;
+  start_index: number;
+  total_results: number;
+}
+
+export interface DisqualificationItem {
+  address?: CompaniesHouseAddress;
+  case_identifier?: string;
+  company_names?: string[];
+  court_name?: string;
+  disqualification_type: string;
+  disqualified_from: string;
+  disqualified_until: string;
+  heard_on?: string;
+  last_variation?: {
+    case_identifier?: string;
+    court_name?: string;
+    varied_on?: string;
+  };
+  reason: {
+    act: string;
+    article?: string;
+    description_identifier: string;
+    section?: string;
+  };
+  undertaken_on?: string;
+}
+
+export interface DisqualifiedOfficerResponse {
+  /** Full date of birth (YYYY-MM-DD) */
+  date_of_birth?: string;
+  disqualifications: DisqualificationItem[];
+  etag?: string;
+  forename?: string;
+  honours?: string;
+  kind: string;
+  links: {
+    self: string;
+  };
+  nationality?: string;
+  other_forenames?: string;
+  permissions_to_act?: Array<{
+    company_names?: string[];
+    court_name?: string;
+    expires_on?: string;
+    granted_on?: string;
+  }>;
+  surname: string;
+  title?: string;
+}
+
 // ============================================================================
 // PSC (Persons with Significant Control) API Types
 // ============================================================================
@@ -277,6 +461,125 @@ export interface PSCStatementsResponse {
   total_results: number;
 }
 
+// ============================================================================
+// Filing History API Types
+// ============================================================================
+
+export interface FilingHistoryItem {
+  action_date?: string;
+  annotations?: Array<{
+    annotation?: string;
+    date?: string;
+    description?: string;
+  }>;
+  associated_filings?: Array<{
+    date?: string;
+    description?: string;
+    type?: string;
+  }>;
+  barcode?: string;
+  category: string;
+  date: string;
+  description: string;
+  description_values?: {
+    made_up_date?: string;
+    [key: string]: unknown;
+  };
+  links?: {
+    document_metadata?: string;
+    self?: string;
+  };
+  pages?: number;
+  paper_filed?: boolean;
+  subcategory?: string;
+  transaction_id: string;
+  type: string;
+}
+
+export interface FilingHistoryResponse {
+  etag?: string;
+  filing_history_status?: string;
+  items: FilingHistoryItem[];
+  items_per_page: number;
+  kind: string;
+  start_index: number;
+  total_count: number;
+}
+
+export interface ChargeItem {
+  acquired_on?: string;
+  assets_ceased_released?: string;
+  charge_code?: string;
+  charge_number: number;
+  classification: {
+    description: string;
+    type: string;
+  };
+  covering_instrument_date?: string;
+  created_on?: string;
+  delivered_on?: string;
+  etag?: string;
+  id?: string;
+  links?: {
+    self?: string;
+  };
+  more_than_four_persons_entitled?: boolean;
+  particulars?: {
+    chargor_acting_as_bare_trustee?: boolean;
+    contains_fixed_charge?: boolean;
+    contains_floating_charge?: boolean;
+    contains_negative_pledge?: boolean;
+    description?: string;
+    floating_charge_covers_all?: boolean;
+    type?: string;
+  };
+  persons_entitled?: Array<{
+    name: string;
+  }>;
+  resolved_on?: string;
+  satisfied_on?: string;
+  secured_details?: {
+    description?: string;
+    type?: string;
+  };
+  status: string;
+}
+
+export interface ChargesResponse {
+  etag?: string;
+  items: ChargeItem[];
+  part_satisfied_count?: number;
+  satisfied_count?: number;
+  total_count: number;
+  unfiltered_count?: number;
+}
+
+export interface InsolvencyCaseItem {
+  dates: Array<{
+    date: string;
+    type: string;
+  }>;
+  links?: {
+    charge?: string;
+  };
+  notes?: string[];
+  number: string;
+  practitioners: Array<{
+    address?: CompaniesHouseAddress;
+    appointed_on?: string;
+    ceased_to_act_on?: string;
+    name: string;
+    role?: string;
+  }>;
+  type: string;
+}
+
+export interface InsolvencyResponse {
+  cases: InsolvencyCaseItem[];
+  etag?: string;
+  status?: string[];
+}
+
 // ============================================================================
 // Connector Result Types (with Evidence)
 // ============================================================================
@@ -290,12 +593,27 @@ export interface Evidence {
   fetchedAt: string;
   /** Whether this data came from cache */
   fromCache: boolean;
+  /** Number of HTTP attempts made, including retries (omitted for cached responses) */
+  attempts?: number;
+  /**
+   * Outcome of a conditional request for expired cached data: true when the server
+   * confirmed it unchanged (304), false when a new body was fetched. Omitted otherwise.
+   */
+  revalidated?: boolean;
+  /** True when expired cached data was served (stale-while-revalidate or stale-if-error) */
+  stale?: boolean;
+  /** When stale, the ISO timestamp at which the cached data was fetched from upstream */
+  cachedAt?: string;
 }
 
 export interface ConnectorResult<T> {
   success: true;
   data: T;
   evidence: Evidence;
+  /** Evidence for each page after the first, when the response was paginated */
+  additionalEvidence?: Evidence[];
+  /** True when pagination stopped at the page ceiling before all items were fetched */
+  truncated?: boolean;
 }
 
 export interface ConnectorError {
@@ -324,6 +642,8 @@ export enum ConnectorErrorCode {
   NETWORK_ERROR = 'NETWORK_ERROR',
   /** Invalid request parameters */
   INVALID_REQUEST = 'INVALID_REQUEST',
+  /** Request did not complete within the configured timeout */
+  TIMEOUT = 'TIMEOUT',
   /** Unknown error */
   UNKNOWN = 'UNKNOWN',
 }
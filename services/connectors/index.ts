@@ -3,12 +3,35 @@
  */
 
 // Cache
-export { Cache, COMPANIES_HOUSE_TTL } from './cache';
-export type { CacheOptions } from './cache';
+export { Cache, COMPANIES_HOUSE_TTL, COMPANIES_HOUSE_CACHE_POLICY, staleRetention } from './cache';
+export type {
+  CacheOptions,
+  CachePolicy,
+  ConnectorCache,
+  CacheValidators,
+  CachedEntry,
+} from './cache';
 
 // Companies House Connector
 export { CompaniesHouseConnector, createCompaniesHouseConnector } from './companies-house';
-export type { CompaniesHouseConnectorConfig } from './companies-house';
+export type {
+  CompaniesHouseConnectorConfig,
+  CompanySearchOptions,
+  AdvancedCompanySearchOptions,
+  OfficerSearchOptions,
+  FilingHistoryOptions,
+  RetryOptions,
+} from './companies-house';
+
+// Rate Limiting
+export { RateLimiter, MemoryRateLimitStore, COMPANIES_HOUSE_RATE_LIMIT } from './rate-limiter';
+export type {
+  RateLimiterConfig,
+  RateLimiterStatus,
+  RateLimitAcquireResult,
+  RateLimitStore,
+  TokenBucketState,
+} from './rate-limiter';
 
 // Companies House Types
 export { ConnectorErrorCode } from './companies-house.types';
@@ -17,13 +40,29 @@ export type {
   // API Response Types
   CompanySearchResponse,
   CompanySearchItem,
+  AdvancedCompanySearchResponse,
+  AdvancedCompanySearchItem,
+  OfficerSearchResponse,
+  OfficerSearchItem,
   CompanyProfileResponse,
   OfficersResponse,
   OfficerItem,
+  OfficerAppointmentsResponse,
+  OfficerAppointmentItem,
+  DisqualifiedOfficerSearchResponse,
+  DisqualifiedOfficerSearchItem,
+  DisqualifiedOfficerResponse,
+  DisqualificationItem,
   PSCsResponse,
   PSCItem,
   PSCStatementsResponse,
   PSCStatementItem,
+  FilingHistoryResponse,
+  FilingHistoryItem,
+  ChargesResponse,
+  ChargeItem,
+  InsolvencyResponse,
+  InsolvencyCaseItem,
   // Common Types
   CompaniesHouseAddress,
   CompaniesHouseLinks,
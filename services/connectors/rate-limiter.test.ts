@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  RateLimiter,
+  MemoryRateLimitStore,
+  COMPANIES_HOUSE_RATE_LIMIT,
+  type RateLimiterConfig,
+} from './rate-limiter';
+
+describe('RateLimiter', () => {
+  let now: number;
+  let sleep: ReturnType<typeof vi.fn>;
+
+  // 10 tokens refilling at one per second
+  const createLimiter = (config: RateLimiterConfig = {}) =>
+    new RateLimiter({
+      capacity: 10,
+      intervalMs: 10_000,
+      now: () => now,
+      sleep,
+      ...config,
+    });
+
+  const drain = async (limiter: RateLimiter, count: number) => {
+    for (let i = 0; i < count; i++) {
+      await limiter.acquire();
+    }
+  };
+
+  beforeEach(() => {
+    now = 1_000_000;
+    sleep = vi.fn().mockResolvedValue(undefined);
+  });
+
+  describe('constructor', () => {
+    it('should default to the Companies House budget', () => {
+      const status = new RateLimiter().getStatus();
+      expect(status.capacity).toBe(600);
+      expect(COMPANIES_HOUSE_RATE_LIMIT.intervalMs).toBe(5 * 60 * 1000);
+    });
+
+    it('should reject invalid settings', () => {
+      expect(() => new RateLimiter({ capacity: 0 })).toThrow('capacity must be a positive integer');
+      expect(() => new RateLimiter({ intervalMs: 0 })).toThrow('intervalMs must be positive');
+      expect(() => new RateLimiter({ maxWaitMs: -1 })).toThrow('maxWaitMs must be non-negative');
+    });
+  });
+
+  describe('acquire', () => {
+    it('should acquire immediately while budget remains', async () => {
+      const limiter = createLimiter();
+
+      const result = await limiter.acquire();
+
+      expect(result).toEqual({ acquired: true, waitedMs: 0 });
+      expect(sleep).not.toHaveBeenCalled();
+      expect(limiter.getStatus().available).toBe(9);
+    });
+
+    it('should queue requests once the budget is spent', async () => {
+      const limiter = createLimiter();
+      await drain(limiter, 10);
+
+      const first = await limiter.acquire();
+      const second = await limiter.acquire();
+
+      expect(first).toEqual({ acquired: true, waitedMs: 1000 });
+      expect(second).toEqual({ acquired: true, waitedMs: 2000 });
+      expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+    });
+
+    it('should refill over time', async () => {
+      const limiter = createLimiter();
+      await drain(limiter, 10);
+
+      now += 3000;
+
+      expect(limiter.getStatus().available).toBe(3);
+      expect(await limiter.acquire()).toEqual({ acquired: true, waitedMs: 0 });
+    });
+
+    it('should not refill beyond capacity', () => {
+      const limiter = createLimiter();
+      limiter.getStatus();
+
+      now += 60_000;
+
+      expect(limiter.getStatus().available).toBe(10);
+    });
+
+    it('should fail fast when the wait would exceed maxWaitMs', async () => {
+      const limiter = createLimiter({ maxWaitMs: 2500 });
+      await drain(limiter, 12);
+
+      const result = await limiter.acquire();
+
+      expect(result).toEqual({ acquired: false, retryAfterMs: 3000 });
+      // A rejected request does not take a place in the queue
+      expect(limiter.getStatus().queueDepth).toBe(2);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report budget and queue depth', async () => {
+      const limiter = createLimiter();
+      await drain(limiter, 13);
+
+      expect(limiter.getStatus()).toEqual({
+        capacity: 10,
+        available: 0,
+        queueDepth: 3,
+        estimatedWaitMs: 4000,
+      });
+
+      now += 1500;
+
+      expect(limiter.getStatus()).toMatchObject({ queueDepth: 2, estimatedWaitMs: 2500 });
+    });
+  });
+
+  describe('shared store', () => {
+    it('should share one budget between limiters using the same store', async () => {
+      const store = new MemoryRateLimitStore();
+      const a = createLimiter({ store });
+      const b = createLimiter({ store });
+
+      await drain(a, 6);
+      await drain(b, 4);
+
+      expect(a.getStatus().available).toBe(0);
+      expect((await b.acquire()).acquired).toBe(true);
+      expect(a.getStatus().queueDepth).toBe(1);
+    });
+
+    it('should keep separate budgets for different keys', async () => {
+      const store = new MemoryRateLimitStore();
+      const a = createLimiter({ store, key: 'key-a' });
+      const b = createLimiter({ store, key: 'key-b' });
+
+      await drain(a, 10);
+
+      expect(b.getStatus().available).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Token-bucket rate limiter for upstream API budgets.
+ *
+ * Requests reserve a token up front and wait until it has refilled, so callers
+ * queue in arrival order rather than failing. Bucket state lives in a pluggable
+ * store; a shared store (e.g. SQLite) lets several processes draw on one budget.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TokenBucketState {
+  /** Tokens currently in the bucket; negative when requests are queued */
+  tokens: number;
+  /** Epoch milliseconds at which `tokens` was last computed */
+  updatedAt: number;
+}
+
+export interface RateLimitStore {
+  /**
+   * Atomically read, transform and persist the bucket state for `key`.
+   * `state` is undefined when the bucket has never been used.
+   */
+  update<T>(
+    key: string,
+    fn: (state: TokenBucketState | undefined) => { state: TokenBucketState; result: T }
+  ): T;
+}
+
+export interface RateLimiterConfig {
+  /** Bucket size, i.e. requests allowed per interval (default: 600) */
+  capacity?: number;
+  /** Interval over which the full capacity refills in milliseconds (default: 5 minutes) */
+  intervalMs?: number;
+  /** Longest a request may queue before failing fast in milliseconds (default: 60000) */
+  maxWaitMs?: number;
+  /** Bucket state store (default: in-memory, per process) */
+  store?: RateLimitStore;
+  /** Bucket key within the store (default: 'companies-house') */
+  key?: string;
+  /** Optional clock (for testing) */
+  now?: () => number;
+  /** Optional custom sleep implementation (for testing) */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export type RateLimitAcquireResult =
+  | { acquired: true; waitedMs: number }
+  | { acquired: false; retryAfterMs: number };
+
+export interface RateLimiterStatus {
+  /** Bucket size */
+  capacity: number;
+  /** Whole tokens available for immediate use */
+  available: number;
+  /** Requests reserved but still waiting for a token */
+  queueDepth: number;
+  /** Wait a new request would incur in milliseconds */
+  estimatedWaitMs: number;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * Per-process bucket store.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, TokenBucketState>();
+
+  update<T>(
+    key: string,
+    fn: (state: TokenBucketState | undefined) => { state: TokenBucketState; result: T }
+  ): T {
+    const { state, result } = fn(this.buckets.get(key));
+    this.buckets.set(key, state);
+    return result;
+  }
+}
+
+// ============================================================================
+// Rate Limiter
+// ============================================================================
+
+/** Companies House allows 600 requests per 5 minutes per API key */
+export const COMPANIES_HOUSE_RATE_LIMIT = {
+  capacity: 600,
+  intervalMs: 5 * 60 * 1000,
+};
+
+const DEFAULT_MAX_WAIT_MS = 60_000;
+
+export class RateLimiter {
+  private capacity: number;
+  private refillPerMs: number;
+  private maxWaitMs: number;
+  private store: RateLimitStore;
+  private key: string;
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(config: RateLimiterConfig = {}) {
+    this.capacity = config.capacity ?? COMPANIES_HOUSE_RATE_LIMIT.capacity;
+    const intervalMs = config.intervalMs ?? COMPANIES_HOUSE_RATE_LIMIT.intervalMs;
+    this.maxWaitMs = config.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    this.store = config.store ?? new MemoryRateLimitStore();
+    this.key = config.key ?? 'companies-house';
+    this.now = config.now ?? Date.now;
+    this.sleep = config.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+
+    if (!Number.isInteger(this.capacity) || this.capacity < 1) {
+      throw new Error('capacity must be a positive integer');
+    }
+    if (!(intervalMs > 0)) {
+      throw new Error('intervalMs must be positive');
+    }
+    if (!(this.maxWaitMs >= 0)) {
+      throw new Error('maxWaitMs must be non-negative');
+    }
+
+    this.refillPerMs = this.capacity / intervalMs;
+  }
+
+  /**
+   * Reserve a token, waiting for it to refill if necessary.
+   * Fails fast without reserving when the wait would exceed `maxWaitMs`.
+   */
+  async acquire(): Promise<RateLimitAcquireResult> {
+    const outcome = this.store.update<RateLimitAcquireResult>(this.key, (state) => {
+      const current = this.refill(state);
+      const waitMs = this.waitFor(current.tokens);
+
+      if (waitMs > this.maxWaitMs) {
+        return { state: current, result: { acquired: false, retryAfterMs: waitMs } };
+      }
+
+      return {
+        state: { tokens: current.tokens - 1, updatedAt: current.updatedAt },
+        result: { acquired: true, waitedMs: waitMs },
+      };
+    });
+
+    if (outcome.acquired && outcome.waitedMs > 0) {
+      await this.sleep(outcome.waitedMs);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Current budget and queue depth.
+   */
+  getStatus(): RateLimiterStatus {
+    return this.store.update(this.key, (state) => {
+      const current = this.refill(state);
+
+      return {
+        state: current,
+        result: {
+          capacity: this.capacity,
+          available: Math.max(0, Math.floor(current.tokens)),
+          queueDepth: current.tokens < 0 ? Math.ceil(-current.tokens) : 0,
+          estimatedWaitMs: Math.ceil(this.waitFor(current.tokens)),
+        },
+      };
+    });
+  }
+
+  /**
+   * Bring a bucket up to date with the tokens refilled since it was last touched.
+   */
+  private refill(state: TokenBucketState | undefined): TokenBucketState {
+    const now = this.now();
+
+    if (!state) {
+      return { tokens: this.capacity, updatedAt: now };
+    }
+
+    const elapsed = Math.max(0, now - state.updatedAt);
+    return {
+      tokens: Math.min(this.capacity, state.tokens + elapsed * this.refillPerMs),
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Milliseconds until the next token after `tokens` becomes available.
+   */
+  private waitFor(tokens: number): number {
+    return tokens >= 1 ? 0 : (1 - tokens) / this.refillPerMs;
+  }
+}
@@ -24,6 +24,55 @@ export interface PSC {
   nationality: string;
 }
 
+export interface Filing {
+  transactionId: string;
+  date: string; // ISO date the filing was received
+  category: string; // 'accounts', 'confirmation-statement', 'address', etc.
+  subcategory?: string;
+  type: string; // Form type, e.g. 'AA', 'CS01', 'AD01'
+  description: string;
+  madeUpDate?: string;
+  pages?: number;
+  paperFiled: boolean;
+}
+
+export interface Charge {
+  chargeNumber: number;
+  chargeCode?: string;
+  status: string; // 'outstanding', 'part-satisfied', 'fully-satisfied', etc.
+  classification: string;
+  createdOn?: string;
+  deliveredOn?: string;
+  satisfiedOn?: string;
+  personsEntitled: string[];
+  containsFixedCharge: boolean;
+  containsFloatingCharge: boolean;
+}
+
+export interface InsolvencyCaseDate {
+  type: string; // 'wound-up-on', 'administration-started-on', 'case-end-on', etc.
+  date: string;
+}
+
+export interface InsolvencyPractitioner {
+  name: string;
+  role: string;
+  appointedOn?: string;
+  ceasedToActOn?: string;
+}
+
+export interface InsolvencyCase {
+  caseNumber: string;
+  type: string; // 'in-administration', 'creditors-voluntary-liquidation', etc.
+  dates: InsolvencyCaseDate[];
+  practitioners: InsolvencyPractitioner[];
+}
+
+/**
+ * Dossier sections whose upstream lists can be cut short by the connector's page ceiling.
+ */
+export type TruncatableSection = 'officers' | 'pscs' | 'pscStatements';
+
 export enum FlagSeverity {
   HIGH = 'HIGH',
   MEDIUM = 'MEDIUM',
@@ -60,8 +109,15 @@ export interface Dossier {
   company: Company;
   officers: Officer[];
   pscs: PSC[];
+  filings: Filing[];
+  charges: Charge[];
+  insolvencyCases: InsolvencyCase[];
   riskFlags: RiskFlag[];
   modernSlavery?: ModernSlaveryStatement;
+  /** Set when the registry could not be read in full, so a missing statement is inconclusive */
+  modernSlaveryIncomplete?: boolean;
+  /** Sections whose lists are incomplete because pagination hit its ceiling */
+  truncatedSections: TruncatableSection[];
   generatedAt: string;
 }
 
@@ -72,9 +128,81 @@ export interface SearchResult {
   addressSnippet: string;
 }
 
+/** Advanced search filters; multi-valued filters match any of their values */
+export interface SearchFilters {
+  status?: string[];
+  type?: string[];
+  sic?: string[];
+  incorporatedFrom?: string;
+  incorporatedTo?: string;
+  location?: string;
+}
+
+/** Links to the current, next and previous pages of a paged listing */
+export interface PageLinks {
+  self: string;
+  next?: string;
+  previous?: string;
+}
+
 export interface SearchResponse {
   query: string;
+  /** 'advanced' when any filter was given, otherwise a plain name/number search */
+  mode: 'basic' | 'advanced';
+  filters?: SearchFilters;
   results: SearchResult[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  links: PageLinks;
+}
+
+export interface OfficerSearchResult {
+  officerId: string;
+  name: string;
+  appointmentCount: number;
+  dateOfBirth?: { month: number; year: number };
+  addressSnippet: string;
+  description?: string;
+  links: {
+    appointments: string;
+  };
+}
+
+export interface OfficerSearchResults {
+  query: string;
+  results: OfficerSearchResult[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  links: PageLinks;
+}
+
+export interface OfficerAppointment {
+  companyNumber: string;
+  companyName: string;
+  status: string;
+  role: string;
+  appointedOn?: string;
+  resignedOn?: string;
+  links: {
+    dossier: string;
+    report: string;
+  };
+}
+
+export interface OfficerAppointmentList {
+  officerId: string;
+  name: string;
+  dateOfBirth?: { month: number; year: number };
+  isCorporateOfficer: boolean;
+  totalResults: number;
+  /** Appointments the officer has not resigned from */
+  activeCount: number;
+  /** Most recently appointed first */
+  appointments: OfficerAppointment[];
+  /** Whether the list was cut short by the connector's page ceiling */
+  truncated: boolean;
 }
 
 export interface DossierResponse {
@@ -85,6 +213,46 @@ export interface DossierResponse {
   };
 }
 
+/** One supplier in a screening batch, by company number and/or name */
+export interface ScreeningInput {
+  companyNumber?: string;
+  companyName?: string;
+}
+
+/** Flags are typed by the caller, since the API returns the core engine's flags */
+export interface ScreeningRowResult<Flag = RiskFlag> {
+  /** Position in the batch, from 1 */
+  row: number;
+  input: ScreeningInput;
+  /** 'skipped' rows were not attempted because the request budget ran out */
+  status: 'screened' | 'failed' | 'skipped';
+  companyNumber?: string;
+  companyName?: string;
+  /** Whether the company number was given or found by name search */
+  matchedBy?: 'company_number' | 'name_search';
+  riskFlags?: Flag[];
+  riskScore?: {
+    score: number;
+    maxScore: number;
+    band: 'GREEN' | 'AMBER' | 'RED';
+  };
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface ScreeningResponse<Flag = RiskFlag> {
+  riskPolicy: { id: string; version: string };
+  summary: {
+    total: number;
+    screened: number;
+    failed: number;
+    skipped: number;
+  };
+  results: ScreeningRowResult<Flag>[];
+}
+
 // Modern Slavery Registry Types
 
 /** Evidence of data sources used during lookup */
@@ -101,6 +269,8 @@ export interface ModernSlaveryRegistryResult {
   latestYear?: number;
   statementSummaryUrl?: string;
   evidence: RegistryEvidence[];
+  /** Set when a year's registry CSV could not be fetched or read, so a statement may have been missed */
+  incomplete?: boolean;
 }
 
 /** Raw parsed row from CSV (flexible schema) */
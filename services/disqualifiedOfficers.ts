@@ -0,0 +1,166 @@
+/**
+ * Disqualified directors screening.
+ *
+ * Searches the Companies House register of disqualified directors for each
+ * current officer and fetches the records that could belong to them. Deciding
+ * whether a record really is the officer (and how confidently) is left to the
+ * dossier builder, which matches on the full name and date of birth.
+ */
+
+import type {
+  CompaniesHouseConnector,
+  DisqualifiedOfficerResponse,
+  DisqualifiedOfficerSearchItem,
+  Evidence,
+  OfficerItem,
+  OfficersResponse,
+} from './connectors';
+import { mapWithConcurrency } from '../lib/concurrency';
+import { DEFAULT_LOOKUP_CONCURRENCY } from './officerAppointments';
+
+export interface DisqualificationScreeningOptions {
+  /** Most officers searched for (default: 20) */
+  maxOfficers?: number;
+  /** Most records fetched per officer (default: 3) */
+  maxCandidates?: number;
+  /** Most searches or record lookups in flight at once (default: 4) */
+  concurrency?: number;
+}
+
+export interface DisqualificationScreeningResult {
+  /** Disqualification records that could belong to a current officer */
+  records: DisqualifiedOfficerResponse[];
+  /** Evidence for every search and record fetched */
+  evidence: Evidence[];
+}
+
+export const DEFAULT_MAX_SCREENED_OFFICERS = 20;
+export const DEFAULT_MAX_CANDIDATES = 3;
+
+type DisqualificationSource = Pick<
+  CompaniesHouseConnector,
+  'searchDisqualifiedOfficers' | 'getDisqualifiedOfficer'
+>;
+
+/**
+ * Upper-case a name and reduce it to letters and single spaces.
+ */
+function normalizePersonName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Search query for an officer: register names are "SURNAME, Forenames".
+ */
+export function officerSearchName(item: OfficerItem): string {
+  const [surname, forenames] = item.name.split(',', 2).map((part) => part.trim());
+  return forenames ? `${forenames} ${surname}` : surname;
+}
+
+/**
+ * Whether a search result could be the officer: same surname and no
+ * conflicting month and year of birth.
+ */
+export function isCandidate(item: OfficerItem, result: DisqualifiedOfficerSearchItem): boolean {
+  const surname = normalizePersonName(item.name.split(',')[0]);
+  const title = normalizePersonName(result.title);
+  if (!surname || !(title === surname || title.endsWith(` ${surname}`))) {
+    return false;
+  }
+
+  const dob = item.date_of_birth;
+  const [year, month] = (result.date_of_birth || '').split('-').map(Number);
+  if (dob && year && month) {
+    return dob.year === year && dob.month === month;
+  }
+  return true;
+}
+
+/**
+ * Disqualified officer ID from a record link (`/disqualified-officers/natural/{id}`).
+ */
+function getDisqualifiedOfficerId(link: string): string | undefined {
+  return link.match(/^\/disqualified-officers\/natural\/([^/]+)$/)?.[1];
+}
+
+/**
+ * Screen a company's current officers against the register of disqualified directors.
+ *
+ * Corporate officers and officers who have resigned are skipped. Officers are
+ * searched a few at a time, then each candidate record is fetched once, again a
+ * few at a time; evidence keeps the officers' listed order. A failed search or
+ * record lookup leaves that officer unscreened rather than failing the whole step.
+ *
+ * @param connector - Source of disqualification searches and records
+ * @param officers - The subject company's officers
+ * @param options - Screening options
+ */
+export async function screenDisqualifiedOfficers(
+  connector: DisqualificationSource,
+  officers: OfficersResponse,
+  options: DisqualificationScreeningOptions = {}
+): Promise<DisqualificationScreeningResult> {
+  const maxOfficers = options.maxOfficers ?? DEFAULT_MAX_SCREENED_OFFICERS;
+  const maxCandidates = options.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
+  if (!Number.isInteger(maxOfficers) || maxOfficers < 0) {
+    throw new Error('maxOfficers must be a non-negative integer');
+  }
+  if (!Number.isInteger(maxCandidates) || maxCandidates < 0) {
+    throw new Error('maxCandidates must be a non-negative integer');
+  }
+
+  const current = officers.items
+    .filter((item) => !item.resigned_on && !item.officer_role.startsWith('corporate'))
+    .slice(0, maxOfficers);
+
+  const concurrency = options.concurrency ?? DEFAULT_LOOKUP_CONCURRENCY;
+  const searches = await mapWithConcurrency(current, concurrency, (officer) =>
+    connector.searchDisqualifiedOfficers(officerSearchName(officer))
+  );
+
+  // Each record is fetched once, for the first officer it could belong to
+  const fetched = new Set<string>();
+  const idsByOfficer = searches.map((search, index) => {
+    if (!search.success) {
+      return [];
+    }
+    const ids = search.data.items
+      .filter((item) => isCandidate(current[index], item))
+      .map((item) => getDisqualifiedOfficerId(item.links.self))
+      .filter((id): id is string => Boolean(id))
+      .slice(0, maxCandidates)
+      .filter((id) => !fetched.has(id));
+    ids.forEach((id) => fetched.add(id));
+    return ids;
+  });
+
+  const ids = idsByOfficer.flat();
+  const responses = await mapWithConcurrency(ids, concurrency, (id) =>
+    connector.getDisqualifiedOfficer(id)
+  );
+  const records = new Map(ids.map((id, index) => [id, responses[index]]));
+
+  const result: DisqualificationScreeningResult = { records: [], evidence: [] };
+
+  searches.forEach((search, index) => {
+    if (!search.success) {
+      return;
+    }
+    result.evidence.push(search.evidence);
+
+    for (const id of idsByOfficer[index]) {
+      const record = records.get(id);
+      if (!record?.success) {
+        continue;
+      }
+      result.records.push(record.data);
+      result.evidence.push(record.evidence);
+    }
+  });
+
+  return result;
+}
@@ -200,7 +200,8 @@ function extractYear(
  * Look up a company in the Modern Slavery Registry.
  *
  * Checks CSV files for each configured year, starting from most recent.
- * Returns information about the latest statement found.
+ * Returns information about the latest statement found. A year whose CSV
+ * cannot be fetched or read is skipped, and the result marked incomplete.
  *
  * @param companyNumber - The company's registration number
  * @param companyName - The company's name (used for fallback matching)
@@ -215,6 +216,7 @@ export async function lookupModernSlaveryRegistry(
   const evidence: RegistryEvidence[] = [];
   let latestYear: number | undefined;
   let statementSummaryUrl: string | undefined;
+  let incomplete = false;
 
   // Sort years descending (most recent first)
   const sortedYears = [...config.years].sort((a, b) => b - a);
@@ -226,10 +228,11 @@ export async function lookupModernSlaveryRegistry(
       entry = await fetchCSVForYear(year, config);
     } catch {
       // Fetch error - continue to next year
-      continue;
+      entry = null;
     }
 
     if (!entry) {
+      incomplete = true;
       continue;
     }
 
@@ -263,6 +266,7 @@ export async function lookupModernSlaveryRegistry(
     latestYear,
     statementSummaryUrl,
     evidence,
+    ...(incomplete && { incomplete }),
   };
 }
 
@@ -0,0 +1,110 @@
+/**
+ * Officer appointment history lookup.
+ *
+ * Fetches the full appointment list of each active director so the dossier can
+ * show where else they serve and how many of those companies have failed.
+ */
+
+import type {
+  CompaniesHouseConnector,
+  Evidence,
+  OfficerAppointmentsResponse,
+  OfficerItem,
+  OfficersResponse,
+} from './connectors';
+import { mapWithConcurrency } from '../lib/concurrency';
+
+export interface DirectorAppointmentsOptions {
+  /** Most directors whose appointments are fetched (default: 20) */
+  maxOfficers?: number;
+  /** Most lookups in flight at once (default: 4) */
+  concurrency?: number;
+}
+
+export interface DirectorAppointmentsResult {
+  /** One appointment list per director that was looked up successfully */
+  appointments: OfficerAppointmentsResponse[];
+  /** Evidence for every appointment page fetched */
+  evidence: Evidence[];
+  /** Whether any list was cut short by the connector's page ceiling */
+  truncated: boolean;
+}
+
+export const DEFAULT_MAX_OFFICERS = 20;
+export const DEFAULT_LOOKUP_CONCURRENCY = 4;
+
+type AppointmentSource = Pick<CompaniesHouseConnector, 'getOfficerAppointments'>;
+
+/**
+ * Officer ID from an appointments link (`/officers/{id}/appointments`).
+ */
+export function officerIdFromLink(link: string | undefined): string | undefined {
+  return link?.match(/^\/officers\/([^/]+)\/appointments/)?.[1];
+}
+
+/**
+ * Officer ID from an officer's appointments link.
+ */
+export function getOfficerId(item: OfficerItem): string | undefined {
+  return officerIdFromLink(item.links.officer?.appointments);
+}
+
+/**
+ * Whether an officer is a director who has not resigned.
+ */
+export function isActiveDirector(item: OfficerItem): boolean {
+  return !item.resigned_on && item.officer_role.includes('director');
+}
+
+/**
+ * Fetch the appointment history of each active director.
+ *
+ * Directors are looked up once per officer ID, up to `maxOfficers`, a few at a
+ * time; results keep the listed order. A failed lookup leaves that director without a history
+ * rather than failing the whole step.
+ *
+ * @param connector - Source of officer appointment lists
+ * @param officers - The subject company's officers
+ * @param options - Lookup options
+ */
+export async function fetchDirectorAppointments(
+  connector: AppointmentSource,
+  officers: OfficersResponse,
+  options: DirectorAppointmentsOptions = {}
+): Promise<DirectorAppointmentsResult> {
+  const maxOfficers = options.maxOfficers ?? DEFAULT_MAX_OFFICERS;
+  if (!Number.isInteger(maxOfficers) || maxOfficers < 0) {
+    throw new Error('maxOfficers must be a non-negative integer');
+  }
+
+  const officerIds = [
+    ...new Set(
+      officers.items
+        .filter(isActiveDirector)
+        .map(getOfficerId)
+        .filter((id): id is string => Boolean(id))
+    ),
+  ].slice(0, maxOfficers);
+
+  const responses = await mapWithConcurrency(
+    officerIds,
+    options.concurrency ?? DEFAULT_LOOKUP_CONCURRENCY,
+    (officerId) => connector.getOfficerAppointments(officerId)
+  );
+
+  const result: DirectorAppointmentsResult = { appointments: [], evidence: [], truncated: false };
+
+  for (const response of responses) {
+    if (!response.success) {
+      continue;
+    }
+
+    result.appointments.push(response.data);
+    result.evidence.push(response.evidence, ...(response.additionalEvidence || []));
+    if (response.truncated) {
+      result.truncated = true;
+    }
+  }
+
+  return result;
+}
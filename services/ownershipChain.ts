@@ -0,0 +1,232 @@
+/**
+ * Corporate ownership chain resolver.
+ *
+ * Follows corporate PSCs registered at Companies House up through their own PSC
+ * registers until the chain reaches individuals, leaves the UK register, loops
+ * back on itself or hits the configured depth.
+ */
+
+import type {
+  CompaniesHouseConnector,
+  ConnectorResponse,
+  ConnectorError,
+  Evidence,
+  PSCItem,
+  PSCsResponse,
+} from './connectors';
+import { normalizeCompanyNumber } from '../lib/nameNormalizer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Why traversal stopped at an owner.
+ * - individual / legal-person: an ultimate owner has been reached
+ * - overseas: a corporate owner registered outside the UK register
+ * - cycle: the owner already appears further down this chain
+ * - depth-limit: the owner is a UK company beyond the configured depth
+ * - no-pscs: the owner's own PSC register lists no active PSCs
+ * - unresolved: the owner could not be looked up
+ */
+export type OwnershipTermination =
+  | 'individual'
+  | 'legal-person'
+  | 'overseas'
+  | 'cycle'
+  | 'depth-limit'
+  | 'no-pscs'
+  | 'unresolved';
+
+export interface OwnershipNode {
+  name: string;
+  /** Companies House PSC kind */
+  kind: string;
+  /** UK company number, for corporate owners on the UK register */
+  companyNumber?: string;
+  /** Jurisdiction the corporate owner is registered in */
+  countryRegistered?: string;
+  /** Register or authority the corporate owner is registered with */
+  placeRegistered?: string;
+  natureOfControl: string[];
+  /** 1 for the subject company's own PSCs */
+  depth: number;
+  /** Set when the chain ends at this owner; omitted when `owners` were resolved */
+  termination?: OwnershipTermination;
+  owners: OwnershipNode[];
+}
+
+export interface OwnershipChain {
+  /** Corporate layers followed above the subject company */
+  maxDepth: number;
+  /** The subject company's active PSCs and, recursively, their owners */
+  owners: OwnershipNode[];
+}
+
+export interface OwnershipChainResult {
+  chain: OwnershipChain;
+  /** Evidence for every PSC register fetched while walking the chain */
+  evidence: Evidence[];
+}
+
+export interface OwnershipChainOptions {
+  /** Corporate layers to follow above the subject company (default: 5) */
+  maxDepth?: number;
+}
+
+export const DEFAULT_OWNERSHIP_MAX_DEPTH = 5;
+
+type PscSource = Pick<CompaniesHouseConnector, 'getPscs'>;
+
+// ============================================================================
+// Jurisdictions
+// ============================================================================
+
+/** Jurisdictions whose companies are on the Companies House register */
+const UK_JURISDICTIONS = new Set([
+  'united kingdom',
+  'uk',
+  'great britain',
+  'england',
+  'wales',
+  'england and wales',
+  'england & wales',
+  'scotland',
+  'northern ireland',
+]);
+
+function normalizeJurisdiction(value: string | undefined): string {
+  return (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Whether a corporate PSC's identification places it on the UK register.
+ */
+export function isUkRegistered(identification: PSCItem['identification']): boolean {
+  const country = normalizeJurisdiction(identification?.country_registered);
+  const place = normalizeJurisdiction(identification?.place_registered);
+
+  return UK_JURISDICTIONS.has(country) || place.includes('companies house');
+}
+
+// ============================================================================
+// Resolver
+// ============================================================================
+
+function isConnectorError<T>(result: ConnectorResponse<T>): result is ConnectorError {
+  return result.success === false;
+}
+
+function isCorporate(kind: string): boolean {
+  return kind.startsWith('corporate-entity');
+}
+
+/**
+ * Walk the ownership chain above a company, starting from its already-fetched PSCs.
+ *
+ * Ceased PSCs are ignored. Each UK corporate owner's PSC register is fetched
+ * (through the connector's cache and rate limiter) until `maxDepth` corporate
+ * layers have been followed.
+ *
+ * @param connector - Source of PSC registers
+ * @param companyNumber - The subject company
+ * @param pscs - The subject company's PSC register
+ * @param options - Traversal options
+ */
+export async function resolveOwnershipChain(
+  connector: PscSource,
+  companyNumber: string,
+  pscs: PSCsResponse,
+  options: OwnershipChainOptions = {}
+): Promise<OwnershipChainResult> {
+  const maxDepth = options.maxDepth ?? DEFAULT_OWNERSHIP_MAX_DEPTH;
+  if (!Number.isInteger(maxDepth) || maxDepth < 0) {
+    throw new Error('maxDepth must be a non-negative integer');
+  }
+
+  const evidence: Evidence[] = [];
+
+  const resolveOwners = async (
+    items: PSCItem[],
+    depth: number,
+    path: Set<string>
+  ): Promise<OwnershipNode[]> => {
+    const owners: OwnershipNode[] = [];
+
+    for (const item of items.filter((psc) => !psc.ceased_on)) {
+      owners.push(await resolveOwner(item, depth, path));
+    }
+
+    return owners;
+  };
+
+  const resolveOwner = async (
+    item: PSCItem,
+    depth: number,
+    path: Set<string>
+  ): Promise<OwnershipNode> => {
+    const node: OwnershipNode = {
+      name: item.name || '',
+      kind: item.kind,
+      natureOfControl: item.natures_of_control || [],
+      depth,
+      owners: [],
+    };
+
+    if (item.kind.startsWith('legal-person')) {
+      return { ...node, termination: 'legal-person' };
+    }
+    if (!isCorporate(item.kind)) {
+      return { ...node, termination: 'individual' };
+    }
+
+    const { identification } = item;
+    if (identification?.country_registered) {
+      node.countryRegistered = identification.country_registered;
+    }
+    if (identification?.place_registered) {
+      node.placeRegistered = identification.place_registered;
+    }
+
+    if (!isUkRegistered(identification)) {
+      const known = identification?.country_registered || identification?.place_registered;
+      return { ...node, termination: known ? 'overseas' : 'unresolved' };
+    }
+
+    const ownerNumber = normalizeCompanyNumber(identification?.registration_number || '');
+    if (!ownerNumber) {
+      return { ...node, termination: 'unresolved' };
+    }
+    node.companyNumber = ownerNumber;
+
+    if (path.has(ownerNumber)) {
+      return { ...node, termination: 'cycle' };
+    }
+    if (depth > maxDepth) {
+      return { ...node, termination: 'depth-limit' };
+    }
+
+    const result = await connector.getPscs(ownerNumber);
+    if (isConnectorError(result)) {
+      return { ...node, termination: 'unresolved' };
+    }
+
+    evidence.push(result.evidence, ...(result.additionalEvidence || []));
+
+    const owners = await resolveOwners(
+      result.data.items,
+      depth + 1,
+      new Set([...path, ownerNumber])
+    );
+    if (owners.length === 0) {
+      return { ...node, termination: 'no-pscs' };
+    }
+
+    return { ...node, owners };
+  };
+
+  const subject = normalizeCompanyNumber(companyNumber);
+  const owners = await resolveOwners(pscs.items, 1, new Set([subject]));
+
+  return { chain: { maxDepth, owners }, evidence };
+}
@@ -0,0 +1,255 @@
+/**
+ * Bulk supplier screening.
+ *
+ * Reads a batch of suppliers from a CSV upload or a JSON list, resolves names
+ * to company numbers through Companies House search, and screens each company
+ * in turn. Every row gets its own result, so one bad row or failed lookup does
+ * not abort the batch.
+ */
+
+import type { ScreeningInput, ScreeningRowResult } from '../types';
+import {
+  parseCSV,
+  detectColumnMapping,
+  getHeadersFromRows,
+  getMappedValue,
+} from '../lib/csvParser';
+import { namesMatch, normalizeCompanyNumber } from '../lib/nameNormalizer';
+import { ConnectorErrorCode, type CompaniesHouseConnector } from './connectors';
+
+/** Most suppliers accepted in one screening request */
+export const MAX_SCREENING_ROWS = 500;
+
+/** Search results checked for an exact name match */
+const NAME_SEARCH_ITEMS = 20;
+
+/** Company numbers: 8 digits, or a 2-letter prefix and 6 digits (shorter forms are padded) */
+const COMPANY_NUMBER_PATTERN = /^([A-Z]{2})?\d{1,8}$/i;
+
+type SearchSource = Pick<CompaniesHouseConnector, 'searchCompanies'>;
+
+/**
+ * Outcome of screening one resolved company.
+ */
+export type ScreenCompanyResult<Flag> =
+  | {
+      success: true;
+      companyName: string;
+      riskFlags: Flag[];
+      riskScore?: ScreeningRowResult['riskScore'];
+    }
+  | {
+      success: false;
+      error: { code: string; message: string };
+    };
+
+export interface ScreeningOptions {
+  /** Called after each row is screened */
+  onProgress?: (done: number, total: number) => void;
+  /** Rows not yet started when this aborts are reported as skipped */
+  signal?: AbortSignal;
+}
+
+/**
+ * Check the batch size.
+ */
+function checkRowCount(rows: ScreeningInput[]): ScreeningInput[] {
+  if (rows.length === 0) {
+    throw new Error('No suppliers to screen');
+  }
+  if (rows.length > MAX_SCREENING_ROWS) {
+    throw new Error(`At most ${MAX_SCREENING_ROWS} suppliers can be screened at once`);
+  }
+  return rows;
+}
+
+/**
+ * Read suppliers from CSV text.
+ *
+ * Company number and name columns are found by the same header detection as
+ * the modern slavery registry import (e.g. "Company Number", "CRN", "Name").
+ *
+ * @throws Error if neither column is present, or the batch is empty or too large
+ */
+export function parseScreeningCsv(csvText: string): ScreeningInput[] {
+  const rows = parseCSV(csvText);
+  const mapping = detectColumnMapping(getHeadersFromRows(rows));
+
+  if (rows.length > 0 && !mapping.companyNumber && !mapping.companyName) {
+    throw new Error('CSV must have a company number or company name column');
+  }
+
+  return checkRowCount(
+    rows.map((row) => {
+      const companyNumber = getMappedValue(row, mapping, 'companyNumber');
+      const companyName = getMappedValue(row, mapping, 'companyName');
+      return { ...(companyNumber && { companyNumber }), ...(companyName && { companyName }) };
+    })
+  );
+}
+
+/**
+ * Read suppliers from a JSON list.
+ *
+ * Each item is either a string (a company number, or otherwise a name) or an
+ * object with `companyNumber` and/or `companyName`.
+ *
+ * @throws Error if the list or an item is malformed, or the batch is empty or too large
+ */
+export function parseScreeningList(items: unknown): ScreeningInput[] {
+  if (!Array.isArray(items)) {
+    throw new Error('companies must be a list');
+  }
+
+  return checkRowCount(
+    items.map((item, index): ScreeningInput => {
+      if (typeof item === 'string') {
+        const value = item.trim();
+        return COMPANY_NUMBER_PATTERN.test(value.replace(/\s/g, ''))
+          ? { companyNumber: value }
+          : { companyName: value };
+      }
+
+      if (item && typeof item === 'object') {
+        const { companyNumber, companyName } = item as Record<string, unknown>;
+        if (
+          (companyNumber === undefined || typeof companyNumber === 'string') &&
+          (companyName === undefined || typeof companyName === 'string')
+        ) {
+          return {
+            ...(companyNumber?.trim() && { companyNumber: companyNumber.trim() }),
+            ...(companyName?.trim() && { companyName: companyName.trim() }),
+          };
+        }
+      }
+
+      throw new Error(
+        `companies[${index}] must be a string or an object with companyNumber and/or companyName`
+      );
+    })
+  );
+}
+
+/**
+ * Find the company number for a supplier known only by name.
+ * Only an exact match (after name normalisation) among the top search results is accepted.
+ */
+export async function resolveCompanyName(
+  connector: SearchSource,
+  name: string
+): Promise<
+  | { success: true; companyNumber: string; companyName: string }
+  | { success: false; error: { code: string; message: string } }
+> {
+  const result = await connector.searchCompanies(name, { itemsPerPage: NAME_SEARCH_ITEMS });
+  if (!result.success) {
+    return { success: false, error: { code: result.error.code, message: result.error.message } };
+  }
+
+  const match = result.data.items.find((item) => namesMatch(item.title, name));
+  if (!match) {
+    return {
+      success: false,
+      error: { code: 'NO_MATCH', message: `No company named "${name}" found` },
+    };
+  }
+
+  return { success: true, companyNumber: match.company_number, companyName: match.title };
+}
+
+/**
+ * Screen a batch of suppliers, one at a time.
+ *
+ * Rows are processed sequentially so the batch draws on the Companies House
+ * request budget like any other caller. If the budget runs out (the rate
+ * limiter gives up with RATE_LIMITED), the remaining rows are reported as
+ * skipped rather than queued behind it.
+ *
+ * @param connector - Used to resolve names to company numbers
+ * @param rows - Suppliers to screen
+ * @param screenCompany - Builds the dossier and risk flags for one company
+ * @param options - Progress reporting and cancellation
+ */
+export async function screenSuppliers<Flag>(
+  connector: SearchSource,
+  rows: ScreeningInput[],
+  screenCompany: (companyNumber: string) => Promise<ScreenCompanyResult<Flag>>,
+  options: ScreeningOptions = {}
+): Promise<ScreeningRowResult<Flag>[]> {
+  const results: ScreeningRowResult<Flag>[] = [];
+  let rateLimited = false;
+
+  for (const [index, input] of rows.entries()) {
+    const row = index + 1;
+
+    if (rateLimited || options.signal?.aborted) {
+      results.push({
+        row,
+        input,
+        status: 'skipped',
+        error: rateLimited
+          ? {
+              code: ConnectorErrorCode.RATE_LIMITED,
+              message: 'Companies House request budget exhausted',
+            }
+          : { code: 'CANCELLED', message: 'Screening was cancelled' },
+      });
+      continue;
+    }
+
+    const result = await screenRow(connector, row, input, screenCompany);
+    rateLimited = result.error?.code === ConnectorErrorCode.RATE_LIMITED;
+    results.push(result);
+    options.onProgress?.(row, rows.length);
+  }
+
+  return results;
+}
+
+/**
+ * Resolve and screen one row.
+ */
+async function screenRow<Flag>(
+  connector: SearchSource,
+  row: number,
+  input: ScreeningInput,
+  screenCompany: (companyNumber: string) => Promise<ScreenCompanyResult<Flag>>
+): Promise<ScreeningRowResult<Flag>> {
+  let companyNumber: string;
+  let matchedBy: ScreeningRowResult['matchedBy'];
+
+  if (input.companyNumber) {
+    companyNumber = normalizeCompanyNumber(input.companyNumber);
+    matchedBy = 'company_number';
+  } else if (input.companyName) {
+    const resolved = await resolveCompanyName(connector, input.companyName);
+    if (!resolved.success) {
+      return { row, input, status: 'failed', error: resolved.error };
+    }
+    companyNumber = resolved.companyNumber;
+    matchedBy = 'name_search';
+  } else {
+    return {
+      row,
+      input,
+      status: 'failed',
+      error: { code: 'INVALID_ROW', message: 'Row has no company number or name' },
+    };
+  }
+
+  const screened = await screenCompany(companyNumber);
+  if (!screened.success) {
+    return { row, input, status: 'failed', companyNumber, matchedBy, error: screened.error };
+  }
+
+  return {
+    row,
+    input,
+    status: 'screened',
+    companyNumber,
+    companyName: screened.companyName,
+    matchedBy,
+    riskFlags: screened.riskFlags,
+    ...(screened.riskScore && { riskScore: screened.riskScore }),
+  };
+}
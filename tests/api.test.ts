@@ -1,15 +1,40 @@
-import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, vi } from 'vitest';
 import nock from 'nock';
 import fetch from 'node-fetch';
 import type { FastifyInstance } from 'fastify';
+import { mkdtemp, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
 import { buildApiApp } from '../apps/api/src/app';
+import { loadRiskPolicies, parseRiskPolicyPaths } from '../apps/api/src/utils/riskPolicies';
 import {
   profileFixture,
   officersFixture,
+  officerAppointmentsFixture,
+  officerSearchFixture,
+  disqualifiedOfficerSearchFixture,
+  disqualifiedOfficerFixture,
   pscsFixture,
+  pscStatementsFixture,
+  corporatePscFixture,
   searchFixture,
+  advancedSearchFixture,
+  filingHistoryFixture,
+  addressFilingHistoryFixture,
+  chargesFixture,
+  insolvencyFixture,
 } from '../services/connectors/__fixtures__';
-import { CompaniesHouseConnector } from '../services/connectors';
+import { CompaniesHouseConnector, RateLimiter } from '../services/connectors';
+import { DEFAULT_RISK_POLICY } from '@pkg/core';
+import { SqliteJobStore, SqliteWatchlistStore } from '@pkg/db';
+import { WatchlistScheduler } from '../apps/api/src/watchlist/scheduler';
+import { signWebhookPayload } from '../apps/api/src/webhooks/delivery';
+
+const emptyDisqualifiedSearch = {
+  ...disqualifiedOfficerSearchFixture,
+  items: [],
+  total_results: 0,
+};
 
 vi.mock('../apps/api/src/report/renderPdf', () => ({
   renderReportPdf: async () => Buffer.from('%PDF' + 'x'.repeat(2000), 'utf8'),
@@ -23,6 +48,7 @@ describe('API Health Check', () => {
     const connector = new CompaniesHouseConnector({
       apiKey: 'test-key',
       fetch: fetch as unknown as typeof globalThis.fetch,
+      rateLimiter: new RateLimiter(),
     });
     app = await buildApiApp({
       env: {
@@ -33,6 +59,9 @@ describe('API Health Check', () => {
         PORT: 0,
         RATE_LIMIT_MAX: 100,
         RATE_LIMIT_WINDOW_MS: 60000,
+        // Keeps the per-supplier request cost low enough to screen the CSV upload inline
+        OFFICER_LOOKUP_MAX_OFFICERS: 5,
+        DISQUALIFICATION_MAX_CANDIDATES: 1,
       },
       connector,
       registryConfig: {
@@ -40,6 +69,10 @@ describe('API Health Check', () => {
         years: [2024],
         urlPattern: 'https://registry.example.test/statements/{year}.csv',
       },
+      riskPolicies: [
+        DEFAULT_RISK_POLICY,
+        { id: 'public-sector', version: '3', rules: { F7: { enabled: false } } },
+      ],
     });
     await app.ready();
     nock.disableNetConnect();
@@ -78,7 +111,7 @@ describe('API Health Check', () => {
   it('GET /api/search returns search results', async () => {
     nock('https://api.company-information.service.gov.uk')
       .get('/search/companies')
-      .query({ q: 'Marine' })
+      .query({ q: 'Marine', items_per_page: '20', start_index: '0' })
       .reply(200, searchFixture);
 
     const response = await app.inject({ method: 'GET', url: '/api/search?q=Marine' });
@@ -86,17 +119,205 @@ describe('API Health Check', () => {
     expect(response.statusCode).toBe(200);
     const body = response.json();
     expect(body.query).toBe('Marine');
+    expect(body.mode).toBe('basic');
     expect(body.results.length).toBeGreaterThan(0);
+    expect(body.totalResults).toBe(3);
+    expect(body.links).toEqual({
+      self: '/api/search?q=Marine&start_index=0&items_per_page=20',
+    });
+  });
+
+  it('GET /api/search pages through results', async () => {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/search/companies')
+      .query({ q: 'Marine', items_per_page: '1', start_index: '1' })
+      .reply(200, { ...searchFixture, items: searchFixture.items.slice(1, 2), start_index: 1 });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/search?q=Marine&start_index=1&items_per_page=1',
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.results).toHaveLength(1);
+    expect(body.startIndex).toBe(1);
+    expect(body.links.next).toBe('/api/search?q=Marine&start_index=2&items_per_page=1');
+    expect(body.links.previous).toBe('/api/search?q=Marine&start_index=0&items_per_page=1');
+  });
+
+  it('GET /api/search rejects invalid paging', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/search?q=Marine&items_per_page=500',
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('GET /api/search uses advanced search when filters are given', async () => {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/advanced-search/companies')
+      .query({
+        company_name_includes: 'Marine',
+        company_status: 'active',
+        sic_codes: '62012,62020',
+        incorporated_from: '2015-01-01',
+        location: 'Southampton',
+        size: '20',
+        start_index: '0',
+      })
+      .reply(200, advancedSearchFixture);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/search?q=Marine&status=active&sic=62020&sic=62012&incorporated_from=2015-01-01&location=Southampton',
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.mode).toBe('advanced');
+    expect(body.filters).toEqual({
+      status: ['active'],
+      sic: ['62020', '62012'],
+      incorporatedFrom: '2015-01-01',
+      location: 'Southampton',
+    });
+    expect(body.totalResults).toBe(42);
+    expect(body.results[1]).toEqual({
+      companyNumber: '11223344',
+      name: 'MARINE SOFTWARE LIMITED',
+      status: 'active',
+      addressSnippet: 'Unit 4, Harbour Road, Southampton, SO15 1AA',
+    });
+    expect(body.links.next).toContain('start_index=20');
+  });
+
+  it('GET /api/search returns an empty page when advanced search finds nothing', async () => {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/advanced-search/companies')
+      .query(true)
+      .reply(404, {});
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/search?type=plc&location=Nowhere',
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.query).toBe('');
+    expect(body.results).toEqual([]);
+    expect(body.totalResults).toBe(0);
+  });
+
+  it('GET /api/officers/search returns officers with appointment counts and links', async () => {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/search/officers')
+      .query({ q: 'John Smith', items_per_page: '1', start_index: '0' })
+      .reply(200, { ...officerSearchFixture, items: officerSearchFixture.items.slice(0, 1) });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/officers/search?q=John%20Smith&items_per_page=1',
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.results).toEqual([
+      {
+        officerId: 'abc123def456',
+        name: 'John David SMITH',
+        appointmentCount: 4,
+        dateOfBirth: { month: 6, year: 1985 },
+        addressSnippet: '10 Other Street, Leeds, LS1 1AA',
+        description: 'Total number of appointments 4 - Born June 1985',
+        links: { appointments: '/api/officers/abc123def456/appointments' },
+      },
+    ]);
+    expect(body.totalResults).toBe(2);
+    expect(body.links.next).toBe(
+      '/api/officers/search?q=John+Smith&start_index=1&items_per_page=1'
+    );
+  });
+
+  it('GET /api/officers/search requires a query', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/officers/search' });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('GET /api/officers/:officerId/appointments lists companies linked to their dossiers', async () => {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/officers/abc123def456/appointments')
+      .reply(200, officerAppointmentsFixture);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/officers/abc123def456/appointments',
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.name).toBe('John David SMITH');
+    expect(body.appointments).toHaveLength(officerAppointmentsFixture.items.length);
+    const subject = body.appointments.find(
+      (appointment: { companyNumber: string }) => appointment.companyNumber === '12345678'
+    );
+    expect(subject).toMatchObject({
+      companyName: 'TEST COMPANY LIMITED',
+      role: 'Director',
+      links: {
+        dossier: '/api/company/12345678',
+        report: '/api/company/12345678/report.html',
+      },
+    });
+    expect(body.truncated).toBe(false);
+  });
+
+  it('GET /api/officers/:officerId/appointments maps unknown officers to 404', async () => {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/officers/unknown/appointments')
+      .reply(404, {});
+
+    const response = await app.inject({ method: 'GET', url: '/api/officers/unknown/appointments' });
+
+    expect(response.statusCode).toBe(404);
   });
 
   it('GET /api/company/:companyNumber returns dossier and report URLs', async () => {
     nock('https://api.company-information.service.gov.uk')
       .get('/company/12345678')
-      .reply(200, profileFixture)
+      .reply(200, { ...profileFixture, has_charges: true, has_insolvency_history: true })
       .get('/company/12345678/officers')
       .reply(200, officersFixture)
       .get('/company/12345678/persons-with-significant-control')
-      .reply(200, pscsFixture);
+      .reply(200, pscsFixture)
+      .get('/company/12345678/persons-with-significant-control-statements')
+      .reply(200, pscStatementsFixture)
+      .get('/company/12345678/filing-history')
+      .reply(200, filingHistoryFixture)
+      .get('/company/12345678/filing-history')
+      .query({ category: 'address', items_per_page: '100' })
+      .reply(200, addressFilingHistoryFixture)
+      .get('/company/12345678/charges')
+      .reply(200, chargesFixture)
+      .get('/company/12345678/insolvency')
+      .reply(200, insolvencyFixture)
+      .get('/officers/abc123def456/appointments')
+      .reply(200, officerAppointmentsFixture)
+      .get('/officers/xyz789ghi012/appointments')
+      .reply(404, {})
+      .get('/search/disqualified-officers')
+      .query({ q: 'John David SMITH' })
+      .reply(200, disqualifiedOfficerSearchFixture)
+      .get('/search/disqualified-officers')
+      .query({ q: 'Sarah Elizabeth JONES' })
+      .reply(200, emptyDisqualifiedSearch)
+      .get('/disqualified-officers/natural/dq1234567890')
+      .reply(200, disqualifiedOfficerFixture);
 
     nock('https://registry.example.test')
       .get('/statements/2024.csv')
@@ -110,10 +331,121 @@ describe('API Health Check', () => {
     expect(response.statusCode).toBe(200);
     const body = response.json();
     expect(body.dossier.company.companyNumber).toBe('12345678');
+    expect(body.dossier.filings).toHaveLength(4);
+    expect(body.dossier.filings[0].type).toBe('AA');
+    expect(body.dossier.charges).toHaveLength(2);
+    expect(body.dossier.insolvencyCases[0].type).toBe('in-administration');
+    const f4 = body.dossier.riskFlags.find((flag: { id: string }) => flag.id === 'F4');
+    expect(f4.evidenceUrl).toContain('/company/12345678/insolvency');
+    const director = body.dossier.officers.find(
+      (officer: { officerId?: string }) => officer.officerId === 'abc123def456'
+    );
+    expect(director.appointments.failedCompanies).toHaveLength(2);
+    expect(body.dossier.disqualifiedOfficers[0]).toMatchObject({
+      officerName: 'SMITH, John David',
+      confidence: 'high',
+    });
+    expect(body.dossier.pscStatements).toHaveLength(2);
+    expect(body.dossier.pscStatements[0]).toMatchObject({
+      statement: 'no-individual-or-entity-with-significant-control',
+      notifiedOn: '2020-01-15',
+    });
+    expect(body.dossier.registeredOfficeHistory).toEqual([
+      {
+        date: '2023-05-02',
+        transactionId: 'MzM3MDAwMDAwNWFkaXF6a2N4',
+        oldAddress: '1 Old Street, London, EC1A 1AA',
+        newAddress: '123 Test Street, London, EC1A 1BB',
+      },
+    ]);
+    expect(body.riskScore.band).toBe('RED');
+    expect(body.riskScore.breakdown.map((c: { flagId: string }) => c.flagId)).toContain('F12');
+    const f12 = body.dossier.riskFlags.find((flag: { id: string }) => flag.id === 'F12');
+    expect(f12.evidenceUrl).toContain('/disqualified-officers/natural/dq1234567890');
     expect(body.report.htmlUrl).toContain('/api/company/12345678/report.html');
     expect(body.report.pdfUrl).toContain('/api/company/12345678/report.pdf');
   });
 
+  it('GET /api/company/:companyNumber follows corporate PSCs up the ownership chain', async () => {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/company/22334455')
+      .reply(200, { ...profileFixture, company_number: '22334455' })
+      .get('/company/22334455/officers')
+      .reply(200, officersFixture)
+      .get('/company/22334455/persons-with-significant-control')
+      .reply(200, corporatePscFixture)
+      .get('/company/11112222/persons-with-significant-control')
+      .reply(200, pscsFixture)
+      .get(/^\/officers\/\w+\/appointments/)
+      .times(2)
+      .reply(404, {})
+      .get(/^\/search\/disqualified-officers/)
+      .times(2)
+      .reply(200, emptyDisqualifiedSearch);
+
+    nock('https://registry.example.test').get('/statements/2024.csv').reply(200, '');
+
+    const response = await app.inject({ method: 'GET', url: '/api/company/22334455' });
+
+    expect(response.statusCode).toBe(200);
+    const { ownership } = response.json().dossier;
+    expect(ownership.maxDepth).toBe(5);
+    expect(ownership.owners[0].name).toBe('PARENT HOLDINGS LTD');
+    expect(ownership.owners[0].owners).toHaveLength(
+      pscsFixture.items.filter((psc) => !psc.ceased_on).length
+    );
+    expect(
+      ownership.owners[0].owners.every(
+        (owner: { termination: string }) => owner.termination === 'individual'
+      )
+    ).toBe(true);
+  });
+
+  it('GET /api/company/:companyNumber runs the requested risk policy', async () => {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/company/22334455')
+      .reply(200, { ...profileFixture, company_number: '22334455' })
+      .get('/company/22334455/officers')
+      .reply(200, officersFixture)
+      .get('/company/22334455/persons-with-significant-control')
+      .reply(200, pscsFixture)
+      .get(/^\/officers\/\w+\/appointments/)
+      .times(2)
+      .reply(404, {})
+      .get(/^\/search\/disqualified-officers/)
+      .times(2)
+      .reply(200, emptyDisqualifiedSearch);
+
+    nock('https://registry.example.test').get('/statements/2024.csv').reply(200, '');
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/company/22334455?policy=public-sector',
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.riskPolicy).toEqual({ id: 'public-sector', version: '3' });
+    expect(body.dossier.riskFlags.map((flag: { id: string }) => flag.id)).not.toContain('F7');
+    for (const flag of body.dossier.riskFlags) {
+      expect(flag.provenance).toMatchObject({ policyId: 'public-sector', policyVersion: '3' });
+    }
+    expect(body.report.htmlUrl).toContain('/report.html?policy=public-sector');
+  });
+
+  it('GET /api/company/:companyNumber rejects unknown risk policies', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/company/12345678/report.html?policy=unknown',
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      message: 'Unknown risk policy "unknown".',
+    });
+  });
+
   it('GET /api/company/:companyNumber/report.html returns HTML', async () => {
     nock('https://api.company-information.service.gov.uk')
       .get('/company/12345678')
@@ -121,7 +453,15 @@ describe('API Health Check', () => {
       .get('/company/12345678/officers')
       .reply(200, officersFixture)
       .get('/company/12345678/persons-with-significant-control')
-      .reply(200, pscsFixture);
+      .reply(200, pscsFixture)
+      .get('/company/12345678/persons-with-significant-control-statements')
+      .reply(200, pscStatementsFixture)
+      .get(/^\/officers\/\w+\/appointments/)
+      .times(2)
+      .reply(404, {})
+      .get(/^\/search\/disqualified-officers/)
+      .times(2)
+      .reply(200, emptyDisqualifiedSearch);
 
     nock('https://registry.example.test')
       .get('/statements/2024.csv')
@@ -135,6 +475,7 @@ describe('API Health Check', () => {
     expect(response.statusCode).toBe(200);
     expect(response.headers['content-type']).toContain('text/html');
     expect(response.body).toContain('<html');
+    expect(response.body).toContain('<span class="rating-band">');
   });
 
   it('GET /api/company/:companyNumber/report.pdf returns PDF content', async () => {
@@ -144,7 +485,15 @@ describe('API Health Check', () => {
       .get('/company/12345678/officers')
       .reply(200, officersFixture)
       .get('/company/12345678/persons-with-significant-control')
-      .reply(200, pscsFixture);
+      .reply(200, pscsFixture)
+      .get('/company/12345678/persons-with-significant-control-statements')
+      .reply(200, pscStatementsFixture)
+      .get(/^\/officers\/\w+\/appointments/)
+      .times(2)
+      .reply(404, {})
+      .get(/^\/search\/disqualified-officers/)
+      .times(2)
+      .reply(200, emptyDisqualifiedSearch);
 
     nock('https://registry.example.test')
       .get('/statements/2024.csv')
@@ -165,6 +514,77 @@ describe('API Health Check', () => {
     expect(pdfBody.length).toBeGreaterThan(1_000);
   });
 
+  it('POST /api/screenings screens a CSV upload row by row', async () => {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/company/44556677')
+      .reply(200, { ...profileFixture, company_number: '44556677' })
+      .get('/company/44556677/officers')
+      .reply(200, officersFixture)
+      .get('/company/44556677/persons-with-significant-control')
+      .reply(200, pscsFixture)
+      .get('/company/44556677/persons-with-significant-control-statements')
+      .reply(200, pscStatementsFixture)
+      .get('/company/44556677/filing-history')
+      .reply(200, filingHistoryFixture)
+      .get('/company/44556677/filing-history')
+      .query({ category: 'address', items_per_page: '100' })
+      .reply(200, addressFilingHistoryFixture)
+      .get(/^\/officers\/\w+\/appointments/)
+      .times(2)
+      .reply(404, {})
+      .get(/^\/search\/disqualified-officers/)
+      .times(2)
+      .reply(200, emptyDisqualifiedSearch)
+      .get('/search/companies')
+      .query({ q: 'Unknown Supplier Ltd', items_per_page: '20' })
+      .reply(200, searchFixture)
+      .get('/company/00099999')
+      .reply(404, {});
+
+    nock('https://registry.example.test').get('/statements/2024.csv').reply(200, '');
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/screenings',
+      headers: { 'content-type': 'text/csv' },
+      payload: 'Company Number,Company Name\n44556677,\n,Unknown Supplier Ltd\n99999,\n',
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.riskPolicy).toEqual({ id: 'default', version: '1' });
+    expect(body.summary).toEqual({ total: 3, screened: 1, failed: 2, skipped: 0 });
+    expect(body.results[0]).toMatchObject({
+      row: 1,
+      status: 'screened',
+      companyNumber: '44556677',
+      companyName: profileFixture.company_name,
+      matchedBy: 'company_number',
+    });
+    expect(body.results[0].riskFlags.map((flag: { id: string }) => flag.id)).toContain('F7');
+    expect(body.results[0].riskScore.band).toBeDefined();
+    expect(body.results[1]).toMatchObject({ status: 'failed', error: { code: 'NO_MATCH' } });
+    expect(body.results[2]).toMatchObject({
+      status: 'failed',
+      companyNumber: '00099999',
+      error: { code: 'NOT_FOUND' },
+    });
+  });
+
+  it('POST /api/screenings rejects batches it cannot read', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/screenings',
+      payload: { companies: [] },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      message: 'No suppliers to screen.',
+    });
+  });
+
   it('GET /api/search without query returns structured error', async () => {
     const response = await app.inject({ method: 'GET', url: '/api/search' });
 
@@ -172,6 +592,17 @@ describe('API Health Check', () => {
     const body = response.json();
     expect(body.error.code).toBe('VALIDATION_ERROR');
   });
+
+  it('GET /api/rate-limit returns the Companies House request budget', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/rate-limit' });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.capacity).toBe(600);
+    expect(body.available).toBeLessThan(600);
+    expect(body.queueDepth).toBe(0);
+    expect(body.estimatedWaitMs).toBe(0);
+  });
 });
 
 describe('API key pending handling', () => {
@@ -206,3 +637,1113 @@ describe('API key pending handling', () => {
     expect(body.error.code).toBe('COMPANIES_HOUSE_API_KEY_PENDING');
   });
 });
+
+describe('Risk flag waivers', () => {
+  const apps: FastifyInstance[] = [];
+
+  /**
+   * A fresh app (and connector cache) per request, so each sees the mocked profile.
+   * Waivers live in the shared database, as they would across restarts.
+   */
+  async function createApp(): Promise<FastifyInstance> {
+    const app = await buildApiApp({
+      env: {
+        COMPANIES_HOUSE_API_KEY: 'test-key',
+        HOST: '127.0.0.1',
+        LOG_LEVEL: 'info',
+        NODE_ENV: 'test',
+        PORT: 0,
+        RATE_LIMIT_MAX: 100,
+        RATE_LIMIT_WINDOW_MS: 60000,
+      },
+      connector: new CompaniesHouseConnector({
+        apiKey: 'test-key',
+        fetch: fetch as unknown as typeof globalThis.fetch,
+        rateLimiter: new RateLimiter(),
+        retry: { maxRetries: 0 },
+      }),
+      registryConfig: {
+        baseUrl: 'https://registry.example.test',
+        years: [2024],
+        urlPattern: 'https://registry.example.test/statements/{year}.csv',
+      },
+      riskPolicies: [DEFAULT_RISK_POLICY],
+    });
+    apps.push(app);
+    return app;
+  }
+
+  function mockCompany(companyStatusDetail: string) {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/company/33445566')
+      .reply(200, {
+        ...profileFixture,
+        company_number: '33445566',
+        company_status_detail: companyStatusDetail,
+      })
+      .get('/company/33445566/officers')
+      .reply(200, officersFixture)
+      .get('/company/33445566/persons-with-significant-control')
+      .reply(200, pscsFixture)
+      .get(/^\/officers\/\w+\/appointments/)
+      .times(2)
+      .reply(404, {})
+      .get(/^\/search\/disqualified-officers/)
+      .times(2)
+      .reply(200, emptyDisqualifiedSearch);
+
+    nock('https://registry.example.test').get('/statements/2024.csv').reply(200, '');
+  }
+
+  async function getCompany(statusDetail: string, url = '/api/company/33445566') {
+    mockCompany(statusDetail);
+    const app = await createApp();
+    return app.inject({ method: 'GET', url });
+  }
+
+  const waiverRequest = {
+    flagId: 'F16',
+    reason: 'Objection to strike-off lodged with Companies House',
+    reviewer: 'j.smith',
+    expiresOn: '2099-12-31',
+  };
+
+  beforeAll(() => {
+    globalThis.fetch = fetch as unknown as typeof globalThis.fetch;
+    nock.disableNetConnect();
+  });
+
+  afterEach(async () => {
+    nock.cleanAll();
+    await Promise.all(apps.splice(0).map((app) => app.close()));
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+  });
+
+  it('records a waiver, annotates the flag and lapses it when the evidence changes', async () => {
+    mockCompany('active-proposal-to-strike-off');
+    let app = await createApp();
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/company/33445566/waivers',
+      payload: waiverRequest,
+    });
+
+    expect(created.statusCode).toBe(201);
+    const waiver = created.json();
+    expect(waiver).toMatchObject({
+      ...waiverRequest,
+      companyNumber: '33445566',
+      policyId: 'default',
+      status: 'active',
+    });
+
+    const reviewed = (await getCompany('active-proposal-to-strike-off')).json();
+    const f16 = reviewed.dossier.riskFlags.find((flag: { id: string }) => flag.id === 'F16');
+    expect(f16.waiver).toMatchObject({ id: waiver.id, reviewer: 'j.smith' });
+    expect(reviewed.riskScore.breakdown.map((c: { flagId: string }) => c.flagId)).not.toContain(
+      'F16'
+    );
+
+    const report = await getCompany(
+      'active-proposal-to-strike-off',
+      '/api/company/33445566/report.html'
+    );
+    expect(report.body).toContain('Accepted Risks (1)');
+
+    const changed = (await getCompany('petition-to-restore-dissolved')).json();
+    const changedF16 = changed.dossier.riskFlags.find((flag: { id: string }) => flag.id === 'F16');
+    expect(changedF16.waiver).toBeUndefined();
+
+    app = await createApp();
+    const listed = await app.inject({ method: 'GET', url: '/api/company/33445566/waivers' });
+    expect(listed.json().waivers).toEqual([
+      expect.objectContaining({ id: waiver.id, status: 'lapsed', lapsedAt: expect.any(String) }),
+    ]);
+
+    const reverted = (await getCompany('active-proposal-to-strike-off')).json();
+    expect(
+      reverted.dossier.riskFlags.find((flag: { id: string }) => flag.id === 'F16').waiver
+    ).toBeUndefined();
+
+    const deleted = await app.inject({ method: 'DELETE', url: `/api/waivers/${waiver.id}` });
+    expect(deleted.statusCode).toBe(204);
+    const missing = await app.inject({ method: 'DELETE', url: `/api/waivers/${waiver.id}` });
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it('rejects invalid waivers', async () => {
+    const app = await createApp();
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/company/33445566/waivers',
+      payload: { flagId: 'F16', expiresOn: '2020-01-01' },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: [
+        'reason is required.',
+        'reviewer is required.',
+        'expiresOn must not be in the past.',
+      ],
+    });
+  });
+
+  it('rejects waivers for flags that are not raised', async () => {
+    mockCompany('active-proposal-to-strike-off');
+    const app = await createApp();
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/company/33445566/waivers',
+      payload: { ...waiverRequest, flagId: 'F1' },
+    });
+
+    expect(response.statusCode).toBe(409);
+    expect(response.json().error.code).toBe('FLAG_NOT_RAISED');
+  });
+});
+
+describe('Background jobs', () => {
+  const apps: FastifyInstance[] = [];
+
+  /**
+   * Jobs live in the shared database, so a second app sees jobs queued by the
+   * first, as a restarted process would.
+   */
+  async function createApp(jobWorker: false | { pollIntervalMs: number } = { pollIntervalMs: 10 }) {
+    const app = await buildApiApp({
+      env: {
+        COMPANIES_HOUSE_API_KEY: 'test-key',
+        HOST: '127.0.0.1',
+        LOG_LEVEL: 'info',
+        NODE_ENV: 'test',
+        PORT: 0,
+        RATE_LIMIT_MAX: 100,
+        RATE_LIMIT_WINDOW_MS: 60000,
+      },
+      connector: new CompaniesHouseConnector({
+        apiKey: 'test-key',
+        fetch: fetch as unknown as typeof globalThis.fetch,
+        rateLimiter: new RateLimiter(),
+        retry: { maxRetries: 0 },
+      }),
+      registryConfig: {
+        baseUrl: 'https://registry.example.test',
+        years: [2024],
+        urlPattern: 'https://registry.example.test/statements/{year}.csv',
+      },
+      riskPolicies: [DEFAULT_RISK_POLICY],
+      jobWorker,
+    });
+    apps.push(app);
+    await app.ready();
+    return app;
+  }
+
+  function mockCompany() {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/company/55667788')
+      .reply(200, { ...profileFixture, company_number: '55667788' })
+      .get('/company/55667788/officers')
+      .reply(200, officersFixture)
+      .get('/company/55667788/persons-with-significant-control')
+      .reply(200, pscsFixture)
+      .get('/company/55667788/persons-with-significant-control-statements')
+      .reply(200, pscStatementsFixture)
+      .get('/company/55667788/filing-history')
+      .reply(200, filingHistoryFixture)
+      .get('/company/55667788/filing-history')
+      .query({ category: 'address', items_per_page: '100' })
+      .reply(200, addressFilingHistoryFixture)
+      .get(/^\/officers\/\w+\/appointments/)
+      .times(2)
+      .reply(404, {})
+      .get(/^\/search\/disqualified-officers/)
+      .times(2)
+      .reply(200, emptyDisqualifiedSearch);
+
+    nock('https://registry.example.test').get('/statements/2024.csv').reply(200, '');
+  }
+
+  async function waitForJob(app: FastifyInstance, id: string) {
+    for (let attempt = 0; attempt < 200; attempt++) {
+      const job = (await app.inject({ method: 'GET', url: `/api/jobs/${id}` })).json();
+      if (job.state !== 'queued' && job.state !== 'running') {
+        return job;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error(`Job ${id} did not finish`);
+  }
+
+  beforeAll(() => {
+    globalThis.fetch = fetch as unknown as typeof globalThis.fetch;
+    nock.disableNetConnect();
+  });
+
+  afterEach(async () => {
+    nock.cleanAll();
+    await Promise.all(apps.splice(0).map((app) => app.close()));
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+  });
+
+  it('runs a dossier job in the background', async () => {
+    mockCompany();
+    const app = await createApp();
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/jobs',
+      payload: { type: 'dossier', companyNumber: '55667788' },
+    });
+
+    expect(response.statusCode).toBe(202);
+    const queued = response.json();
+    expect(queued).toMatchObject({
+      type: 'dossier',
+      state: 'queued',
+      payload: { companyNumber: '55667788', policy: 'default' },
+      attempts: 0,
+      maxAttempts: 3,
+    });
+    expect(response.headers.location).toBe(`/api/jobs/${queued.id}`);
+
+    const job = await waitForJob(app, queued.id);
+    expect(job.state).toBe('succeeded');
+    expect(job.attempts).toBe(1);
+    expect(job.finishedAt).toBeDefined();
+    expect(job.result.dossier.company.companyNumber).toBe('55667788');
+    expect(job.result.riskPolicy).toEqual({ id: 'default', version: '1' });
+    expect(job.result.riskScore.band).toBeDefined();
+  });
+
+  it('resumes queued jobs in a restarted process', async () => {
+    const first = await createApp(false);
+    const queued = (
+      await first.inject({
+        method: 'POST',
+        url: '/api/jobs',
+        payload: { type: 'screening', companies: ['55667788'] },
+      })
+    ).json();
+    await first.close();
+
+    mockCompany();
+    const restarted = await createApp();
+    const job = await waitForJob(restarted, queued.id);
+
+    expect(job.state).toBe('succeeded');
+    expect(job.progress).toEqual({ done: 1, total: 1 });
+    expect(job.result.summary).toEqual({ total: 1, screened: 1, failed: 0, skipped: 0 });
+  });
+
+  it('leaves jobs another process is running alone', async () => {
+    const jobs = new SqliteJobStore();
+    const { id } = jobs.enqueue({
+      type: 'dossier',
+      payload: { policy: 'default', companyNumber: '55667788' },
+    });
+    expect(jobs.claimNext({ workerId: 'other-process', leaseMs: 60000 })?.id).toBe(id);
+
+    const app = await createApp();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const job = (await app.inject({ method: 'GET', url: `/api/jobs/${id}` })).json();
+    expect(job).toMatchObject({ state: 'running', attempts: 1 });
+
+    jobs.cancel(id);
+  });
+
+  it('runs other jobs while a screening is still running', async () => {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/company/11112222')
+      .delay(1000)
+      .reply(404, {});
+    mockCompany();
+    const app = await createApp();
+
+    const screening = (
+      await app.inject({
+        method: 'POST',
+        url: '/api/jobs',
+        payload: { type: 'screening', companies: ['11112222'] },
+      })
+    ).json();
+    const dossier = (
+      await app.inject({
+        method: 'POST',
+        url: '/api/jobs',
+        payload: { type: 'dossier', companyNumber: '55667788' },
+      })
+    ).json();
+
+    expect((await waitForJob(app, dossier.id)).state).toBe('succeeded');
+    const running = (await app.inject({ method: 'GET', url: `/api/jobs/${screening.id}` })).json();
+    expect(running.state).toBe('running');
+  });
+
+  it('POST /api/screenings queues large batches as a job', async () => {
+    const app = await createApp(false);
+    const companies = Array.from({ length: 26 }, (_, index) => String(10000000 + index));
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/screenings?policy=default',
+      payload: { companies },
+    });
+
+    expect(response.statusCode).toBe(202);
+    const job = response.json();
+    expect(response.headers.location).toBe(`/api/jobs/${job.id}`);
+    expect(job).toMatchObject({ type: 'screening', state: 'queued' });
+    expect(job.payload.companies).toHaveLength(26);
+
+    await app.inject({ method: 'DELETE', url: `/api/jobs/${job.id}` });
+  });
+
+  it('fails a job for good when the company does not exist', async () => {
+    nock('https://api.company-information.service.gov.uk').get('/company/00099999').reply(404, {});
+    const app = await createApp();
+
+    const queued = (
+      await app.inject({
+        method: 'POST',
+        url: '/api/jobs',
+        payload: { type: 'report', companyNumber: '00099999', format: 'html' },
+      })
+    ).json();
+    const job = await waitForJob(app, queued.id);
+
+    expect(job.state).toBe('failed');
+    expect(job.attempts).toBe(1);
+    expect(job.error).toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('DELETE /api/jobs/:id cancels an unfinished job, then removes it', async () => {
+    const app = await createApp(false);
+    const queued = (
+      await app.inject({
+        method: 'POST',
+        url: '/api/jobs',
+        payload: { type: 'report', companyNumber: '55667788' },
+      })
+    ).json();
+    expect(queued.payload.format).toBe('pdf');
+
+    const cancelled = await app.inject({ method: 'DELETE', url: `/api/jobs/${queued.id}` });
+    expect(cancelled.statusCode).toBe(200);
+    expect(cancelled.json().state).toBe('cancelled');
+
+    const deleted = await app.inject({ method: 'DELETE', url: `/api/jobs/${queued.id}` });
+    expect(deleted.statusCode).toBe(204);
+
+    const missing = await app.inject({ method: 'GET', url: `/api/jobs/${queued.id}` });
+    expect(missing.statusCode).toBe(404);
+    expect(missing.json().error.code).toBe('NOT_FOUND');
+  });
+
+  it('POST /api/jobs validates the job before queueing it', async () => {
+    const app = await createApp(false);
+
+    const unknownType = await app.inject({
+      method: 'POST',
+      url: '/api/jobs',
+      payload: { type: 'export' },
+    });
+    expect(unknownType.statusCode).toBe(400);
+    expect(unknownType.json().error.message).toBe(
+      'type must be one of: screening, dossier, report.'
+    );
+
+    const badFormat = await app.inject({
+      method: 'POST',
+      url: '/api/jobs',
+      payload: { type: 'report', companyNumber: '55667788', format: 'docx' },
+    });
+    expect(badFormat.statusCode).toBe(400);
+
+    const noCompanies = await app.inject({
+      method: 'POST',
+      url: '/api/jobs',
+      payload: { type: 'screening', companies: [] },
+    });
+    expect(noCompanies.statusCode).toBe(400);
+    expect(noCompanies.json().error.message).toBe('No suppliers to screen.');
+  });
+});
+
+describe('Supplier watchlist', () => {
+  const apps: FastifyInstance[] = [];
+
+  // Checks are queued by hand, due immediately, rather than by the app's own scheduler
+  const scheduler = new WatchlistScheduler({
+    watchlist: new SqliteWatchlistStore(),
+    jobs: new SqliteJobStore(),
+    checkIntervalMs: 0,
+  });
+
+  /**
+   * A fresh app (and connector cache) per check, so each sees the mocked profile.
+   */
+  async function createApp() {
+    const app = await buildApiApp({
+      env: {
+        COMPANIES_HOUSE_API_KEY: 'test-key',
+        HOST: '127.0.0.1',
+        LOG_LEVEL: 'info',
+        NODE_ENV: 'test',
+        PORT: 0,
+        RATE_LIMIT_MAX: 100,
+        RATE_LIMIT_WINDOW_MS: 60000,
+      },
+      connector: new CompaniesHouseConnector({
+        apiKey: 'test-key',
+        fetch: fetch as unknown as typeof globalThis.fetch,
+        rateLimiter: new RateLimiter(),
+        retry: { maxRetries: 0 },
+      }),
+      registryConfig: {
+        baseUrl: 'https://registry.example.test',
+        years: [2024],
+        urlPattern: 'https://registry.example.test/statements/{year}.csv',
+      },
+      riskPolicies: [DEFAULT_RISK_POLICY],
+      jobWorker: { pollIntervalMs: 10 },
+      watchlistScheduler: false,
+    });
+    apps.push(app);
+    await app.ready();
+    return app;
+  }
+
+  function mockCompany(companyStatus: string) {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/company/66778899')
+      .reply(200, { ...profileFixture, company_number: '66778899', company_status: companyStatus })
+      .get('/company/66778899/officers')
+      .reply(200, officersFixture)
+      .get('/company/66778899/persons-with-significant-control')
+      .reply(200, pscsFixture)
+      .get('/company/66778899/persons-with-significant-control-statements')
+      .reply(200, pscStatementsFixture)
+      .get('/company/66778899/filing-history')
+      .reply(200, filingHistoryFixture)
+      .get('/company/66778899/filing-history')
+      .query({ category: 'address', items_per_page: '100' })
+      .reply(200, addressFilingHistoryFixture)
+      .get(/^\/officers\/\w+\/appointments/)
+      .times(2)
+      .reply(404, {})
+      .get(/^\/search\/disqualified-officers/)
+      .times(2)
+      .reply(200, emptyDisqualifiedSearch);
+
+    nock('https://registry.example.test').get('/statements/2024.csv').reply(200, '');
+  }
+
+  /**
+   * Queue a check and wait for it to be recorded.
+   */
+  async function check(app: FastifyInstance) {
+    const before = (await app.inject({ method: 'GET', url: '/api/watchlist' })).json();
+    const previousCheck = before.companies[0].lastCheckedAt;
+    expect(scheduler.runOnce()).toBe(1);
+
+    for (let attempt = 0; attempt < 200; attempt++) {
+      const { companies } = (await app.inject({ method: 'GET', url: '/api/watchlist' })).json();
+      if (companies[0].lastCheckedAt !== previousCheck) {
+        return companies[0];
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error('Watchlist check did not finish');
+  }
+
+  beforeAll(() => {
+    globalThis.fetch = fetch as unknown as typeof globalThis.fetch;
+    nock.disableNetConnect();
+  });
+
+  afterEach(async () => {
+    nock.cleanAll();
+    await Promise.all(apps.splice(0).map((app) => app.close()));
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+  });
+
+  it('records changes between scheduled checks as events', async () => {
+    let app = await createApp();
+
+    nock('https://api.company-information.service.gov.uk')
+      .get('/company/66778899')
+      .reply(200, { ...profileFixture, company_number: '66778899' });
+    const added = await app.inject({
+      method: 'POST',
+      url: '/api/watchlist',
+      payload: { companyNumber: '66778899' },
+    });
+    expect(added.statusCode).toBe(201);
+    expect(added.json()).toMatchObject({ companyNumber: '66778899', policyId: 'default' });
+
+    const relabelled = await app.inject({
+      method: 'POST',
+      url: '/api/watchlist',
+      payload: { companyNumber: '66778899', label: 'SUP-042' },
+    });
+    expect(relabelled.statusCode).toBe(200);
+    expect(relabelled.json().label).toBe('SUP-042');
+
+    // A fresh cache, so the first check fetches the company rather than reusing the lookup
+    await app.close();
+    app = await createApp();
+
+    // The first check only stores a baseline
+    mockCompany('active');
+    expect(await check(app)).not.toHaveProperty('lastError');
+    const baseline = await app.inject({ method: 'GET', url: '/api/watchlist/events' });
+    expect(baseline.json().events).toEqual([]);
+
+    await app.close();
+    mockCompany('liquidation');
+    app = await createApp();
+    await check(app);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/watchlist/events?companyNumber=66778899',
+    });
+    expect(response.statusCode).toBe(200);
+    const { events } = response.json();
+    expect(events[0]).toMatchObject({
+      companyNumber: '66778899',
+      type: 'status_changed',
+      summary: 'Company status changed from active to liquidation',
+      previous: 'active',
+      current: 'liquidation',
+    });
+    expect(events[0].detectedAt).toBeDefined();
+
+    const removed = await app.inject({ method: 'DELETE', url: '/api/watchlist/66778899' });
+    expect(removed.statusCode).toBe(204);
+    expect((await app.inject({ method: 'GET', url: '/api/watchlist' })).json().companies).toEqual(
+      []
+    );
+    const missing = await app.inject({ method: 'DELETE', url: '/api/watchlist/66778899' });
+    expect(missing.statusCode).toBe(404);
+
+    // Events outlive the watch
+    const kept = await app.inject({ method: 'GET', url: '/api/watchlist/events?limit=1' });
+    expect(kept.json().events).toHaveLength(1);
+  });
+
+  it('validates watchlist requests', async () => {
+    const app = await createApp();
+
+    const noCompany = await app.inject({ method: 'POST', url: '/api/watchlist', payload: {} });
+    expect(noCompany.statusCode).toBe(400);
+
+    const badNumber = await app.inject({
+      method: 'POST',
+      url: '/api/watchlist',
+      payload: { companyNumber: 'ACME-LTD' },
+    });
+    expect(badNumber.statusCode).toBe(400);
+    expect(badNumber.json().error.message).toBe(
+      'Company number must be 8 letters and digits, e.g. 01234567 or SC123456.'
+    );
+
+    nock('https://api.company-information.service.gov.uk').get('/company/00099999').reply(404, {});
+    const unknownCompany = await app.inject({
+      method: 'POST',
+      url: '/api/watchlist',
+      payload: { companyNumber: '99999' },
+    });
+    expect(unknownCompany.statusCode).toBe(404);
+    expect(unknownCompany.json().error.code).toBe('NOT_FOUND');
+    expect((await app.inject({ method: 'GET', url: '/api/watchlist' })).json().companies).toEqual(
+      []
+    );
+
+    nock('https://api.company-information.service.gov.uk')
+      .get('/company/SC012345')
+      .reply(200, { ...profileFixture, company_number: 'SC012345' });
+    const padded = await app.inject({
+      method: 'POST',
+      url: '/api/watchlist',
+      payload: { companyNumber: ' sc12345 ' },
+    });
+    expect(padded.statusCode).toBe(201);
+    expect(padded.json().companyNumber).toBe('SC012345');
+    const removed = await app.inject({ method: 'DELETE', url: '/api/watchlist/sc12345' });
+    expect(removed.statusCode).toBe(204);
+
+    const unknownPolicy = await app.inject({
+      method: 'POST',
+      url: '/api/watchlist',
+      payload: { companyNumber: '66778899', policy: 'missing' },
+    });
+    expect(unknownPolicy.statusCode).toBe(400);
+    expect(unknownPolicy.json().error.message).toBe('Unknown risk policy "missing".');
+
+    const badLimit = await app.inject({ method: 'GET', url: '/api/watchlist/events?limit=0' });
+    expect(badLimit.statusCode).toBe(400);
+
+    const badSince = await app.inject({ method: 'GET', url: '/api/watchlist/events?since=soon' });
+    expect(badSince.statusCode).toBe(400);
+  });
+});
+
+describe('Webhooks', () => {
+  let app: FastifyInstance;
+
+  // Receivers' DNS records, so no lookup leaves the test
+  const hosts = new Map<string, string[]>();
+
+  beforeAll(async () => {
+    globalThis.fetch = fetch as unknown as typeof globalThis.fetch;
+    app = await buildApiApp({
+      env: {
+        COMPANIES_HOUSE_API_KEY: 'test-key',
+        HOST: '127.0.0.1',
+        LOG_LEVEL: 'info',
+        NODE_ENV: 'test',
+        PORT: 0,
+        RATE_LIMIT_MAX: 100,
+        RATE_LIMIT_WINDOW_MS: 60000,
+      },
+      connector: new CompaniesHouseConnector({
+        apiKey: 'test-key',
+        fetch: fetch as unknown as typeof globalThis.fetch,
+        rateLimiter: new RateLimiter(),
+        retry: { maxRetries: 0 },
+      }),
+      registryConfig: {
+        baseUrl: 'https://registry.example.test',
+        years: [2024],
+        urlPattern: 'https://registry.example.test/statements/{year}.csv',
+      },
+      riskPolicies: [DEFAULT_RISK_POLICY],
+      jobWorker: { pollIntervalMs: 10, retryDelayMs: 10 },
+      watchlistScheduler: false,
+      webhookSender: {
+        fetch: fetch as unknown as typeof globalThis.fetch,
+        lookup: async (hostname) => hosts.get(hostname) ?? [],
+      },
+    });
+    await app.ready();
+    nock.disableNetConnect();
+  });
+
+  beforeEach(() => {
+    hosts.clear();
+    hosts.set('erp.example.test', ['203.0.113.10']);
+  });
+
+  afterEach(async () => {
+    nock.cleanAll();
+    for (const webhook of (await app.inject({ method: 'GET', url: '/api/webhooks' })).json()
+      .webhooks) {
+      await app.inject({ method: 'DELETE', url: `/api/webhooks/${webhook.id}` });
+    }
+  });
+
+  afterAll(async () => {
+    nock.enableNetConnect();
+    await app.close();
+  });
+
+  async function register(events: string[]) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/webhooks',
+      payload: { url: 'https://erp.example.test/hooks', events, description: 'ERP' },
+    });
+    expect(response.statusCode).toBe(201);
+    return response.json();
+  }
+
+  it('registers webhooks and only shows the secret on creation', async () => {
+    const webhook = await register(['watchlist.risk_flag_raised']);
+    expect(webhook).toMatchObject({
+      url: 'https://erp.example.test/hooks',
+      eventTypes: ['watchlist.risk_flag_raised'],
+      description: 'ERP',
+      links: { deliveries: `/api/webhooks/${webhook.id}/deliveries` },
+    });
+    expect(webhook.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+
+    const fetched = await app.inject({ method: 'GET', url: `/api/webhooks/${webhook.id}` });
+    expect(fetched.json()).not.toHaveProperty('secret');
+
+    const invalid = await app.inject({
+      method: 'POST',
+      url: '/api/webhooks',
+      payload: { url: 'ftp://erp.example.test', events: ['supplier.deleted'], secret: 'short' },
+    });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json().error.details).toEqual([
+      'url must be an https URL.',
+      'Unknown event type "supplier.deleted".',
+      'secret must be at least 16 characters.',
+    ]);
+  });
+
+  it('refuses webhooks that would reach private addresses', async () => {
+    hosts.set('intranet.example.test', ['10.1.2.3']);
+    hosts.set('metadata.example.test', ['::ffff:169.254.169.254']);
+    hosts.set('127.0.0.1', ['127.0.0.1']);
+    hosts.set('::1', ['::1']);
+
+    for (const url of [
+      'http://erp.example.test/hooks',
+      'https://intranet.example.test/hooks',
+      'https://metadata.example.test/latest',
+      'https://127.0.0.1/hooks',
+      'https://[::1]/hooks',
+      'https://unknown.example.test/hooks',
+    ]) {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/webhooks',
+        payload: { url, events: ['screening.completed'] },
+      });
+      expect(response.statusCode, url).toBe(400);
+    }
+
+    const webhook = await register(['screening.completed']);
+    hosts.set('erp.example.test', ['192.168.0.20']);
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/webhooks/${webhook.id}/test`,
+    });
+    expect(response.json()).toMatchObject({
+      state: 'failed',
+      error:
+        'url host "erp.example.test" resolves to a private or reserved address (192.168.0.20).',
+    });
+  });
+
+  it('POST /api/webhooks/:id/test sends a signed test event', async () => {
+    const webhook = await register(['screening.completed']);
+    let received: { headers: Record<string, string>; body: string } | undefined;
+
+    nock('https://erp.example.test')
+      .post('/hooks')
+      .reply(function (_uri, body) {
+        received = {
+          headers: this.req.headers as Record<string, string>,
+          body: JSON.stringify(body),
+        };
+        return [204];
+      });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/webhooks/${webhook.id}/test`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      webhookId: webhook.id,
+      eventType: 'webhook.test',
+      state: 'succeeded',
+      attempts: 1,
+      responseStatus: 204,
+    });
+
+    const headers = received?.headers ?? {};
+    expect(headers['x-suppliercheck-event']).toBe('webhook.test');
+    expect(headers['x-suppliercheck-delivery']).toBe(response.json().id);
+    expect(headers['x-suppliercheck-signature']).toBe(
+      signWebhookPayload(webhook.secret, headers['x-suppliercheck-timestamp'], received?.body ?? '')
+    );
+
+    nock('https://erp.example.test').post('/hooks').reply(410);
+    const gone = await app.inject({ method: 'POST', url: `/api/webhooks/${webhook.id}/test` });
+    expect(gone.json()).toMatchObject({
+      state: 'failed',
+      responseStatus: 410,
+      error: 'Webhook responded with HTTP 410',
+    });
+  });
+
+  it('retries deliveries of screening results and logs each one', async () => {
+    const webhook = await register(['screening.completed']);
+    nock('https://api.company-information.service.gov.uk').get('/company/00099999').reply(404, {});
+    nock('https://erp.example.test').post('/hooks').reply(503).post('/hooks').reply(200);
+
+    const job = (
+      await app.inject({
+        method: 'POST',
+        url: '/api/jobs',
+        payload: { type: 'screening', companies: ['00099999'] },
+      })
+    ).json();
+
+    let deliveries: Array<Record<string, unknown>> = [];
+    for (let attempt = 0; attempt < 200; attempt++) {
+      deliveries = (
+        await app.inject({ method: 'GET', url: `/api/webhooks/${webhook.id}/deliveries` })
+      ).json().deliveries;
+      if (deliveries[0]?.state === 'succeeded') {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]).toMatchObject({
+      eventType: 'screening.completed',
+      state: 'succeeded',
+      attempts: 2,
+      responseStatus: 200,
+      payload: {
+        type: 'screening.completed',
+        data: {
+          jobId: job.id,
+          riskPolicy: { id: 'default', version: '1' },
+          summary: { total: 1, screened: 0, failed: 1, skipped: 0 },
+        },
+      },
+    });
+  });
+
+  it('publishes screenings sent to POST /api/screenings', async () => {
+    const webhook = await register(['screening.completed']);
+    nock('https://api.company-information.service.gov.uk').get('/company/00099998').reply(404, {});
+    nock('https://erp.example.test').post('/hooks').reply(200);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/screenings',
+      payload: { companies: ['00099998'] },
+    });
+    expect(response.statusCode).toBe(200);
+
+    let deliveries: Array<Record<string, unknown>> = [];
+    for (let attempt = 0; attempt < 200; attempt++) {
+      deliveries = (
+        await app.inject({ method: 'GET', url: `/api/webhooks/${webhook.id}/deliveries` })
+      ).json().deliveries;
+      if (deliveries[0]?.state === 'succeeded') {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]).toMatchObject({
+      eventType: 'screening.completed',
+      state: 'succeeded',
+      payload: { type: 'screening.completed', data: response.json() },
+    });
+  });
+});
+
+describe('Dossier snapshots', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    globalThis.fetch = fetch as unknown as typeof globalThis.fetch;
+    app = await buildApiApp({
+      env: {
+        COMPANIES_HOUSE_API_KEY: 'test-key',
+        HOST: '127.0.0.1',
+        LOG_LEVEL: 'info',
+        NODE_ENV: 'test',
+        PORT: 0,
+        RATE_LIMIT_MAX: 100,
+        RATE_LIMIT_WINDOW_MS: 60000,
+      },
+      connector: new CompaniesHouseConnector({
+        apiKey: 'test-key',
+        fetch: fetch as unknown as typeof globalThis.fetch,
+        rateLimiter: new RateLimiter(),
+        retry: { maxRetries: 0 },
+      }),
+      registryConfig: {
+        baseUrl: 'https://registry.example.test',
+        years: [2024],
+        urlPattern: 'https://registry.example.test/statements/{year}.csv',
+      },
+      riskPolicies: [DEFAULT_RISK_POLICY],
+      jobWorker: false,
+      watchlistScheduler: false,
+    });
+    await app.ready();
+    nock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(async () => {
+    nock.enableNetConnect();
+    await app.close();
+  });
+
+  it('stores each dossier served and serves reports from it byte for byte', async () => {
+    nock('https://api.company-information.service.gov.uk')
+      .get('/company/77889900')
+      .reply(200, { ...profileFixture, company_number: '77889900' })
+      .get('/company/77889900/officers')
+      .reply(200, officersFixture)
+      .get('/company/77889900/persons-with-significant-control')
+      .reply(200, pscsFixture)
+      .get('/company/77889900/persons-with-significant-control-statements')
+      .reply(200, pscStatementsFixture)
+      .get('/company/77889900/filing-history')
+      .reply(200, filingHistoryFixture)
+      .get('/company/77889900/filing-history')
+      .query({ category: 'address', items_per_page: '100' })
+      .reply(200, addressFilingHistoryFixture)
+      .get(/^\/officers\/\w+\/appointments/)
+      .times(2)
+      .reply(404, {})
+      .get(/^\/search\/disqualified-officers/)
+      .times(2)
+      .reply(200, emptyDisqualifiedSearch);
+    nock('https://registry.example.test').get('/statements/2024.csv').reply(200, '');
+
+    const response = await app.inject({ method: 'GET', url: '/api/company/77889900' });
+    expect(response.statusCode).toBe(200);
+    const { dossier, riskScore, snapshot } = response.json();
+    expect(snapshot).toMatchObject({
+      companyNumber: '77889900',
+      policyId: 'default',
+      generatedAt: dossier.generatedAt,
+      links: { self: `/api/snapshots/${snapshot.id}` },
+    });
+
+    const list = await app.inject({ method: 'GET', url: '/api/company/77889900/snapshots' });
+    expect(list.json()).toEqual({ companyNumber: '77889900', snapshots: [snapshot] });
+
+    const stored = await app.inject({ method: 'GET', url: snapshot.links.self });
+    expect(stored.statusCode).toBe(200);
+    expect(stored.json()).toMatchObject({ ...snapshot, dossier, riskScore });
+    expect(stored.json().evidence.length).toBeGreaterThan(0);
+    expect(stored.json().rawInput.profile.company_number).toBe('77889900');
+
+    // Nothing is mocked any more, so reports can only come from the snapshot
+    for (const format of ['html', 'pdf']) {
+      const url = snapshot.links[format === 'html' ? 'reportHtml' : 'reportPdf'];
+      const first = await app.inject({ method: 'GET', url });
+      const second = await app.inject({ method: 'GET', url });
+      expect(first.statusCode).toBe(200);
+      expect(second.rawPayload.equals(first.rawPayload)).toBe(true);
+      expect(second.headers.etag).toBe(first.headers.etag);
+    }
+    const html = await app.inject({ method: 'GET', url: snapshot.links.reportHtml });
+    expect(html.headers['content-type']).toContain('text/html');
+    expect(html.body).toContain('77889900');
+  });
+
+  it('stores every dossier served, including those behind reports', async () => {
+    nock('https://api.company-information.service.gov.uk')
+      .persist()
+      .get('/company/77889901')
+      .reply(200, { ...profileFixture, company_number: '77889901' })
+      .get('/company/77889901/officers')
+      .reply(200, officersFixture)
+      .get('/company/77889901/persons-with-significant-control')
+      .reply(200, pscsFixture)
+      .get('/company/77889901/persons-with-significant-control-statements')
+      .reply(200, pscStatementsFixture)
+      .get('/company/77889901/filing-history')
+      .reply(200, filingHistoryFixture)
+      .get('/company/77889901/filing-history')
+      .query({ category: 'address', items_per_page: '100' })
+      .reply(200, addressFilingHistoryFixture)
+      .get(/^\/officers\/\w+\/appointments/)
+      .reply(404, {})
+      .get(/^\/search\/disqualified-officers/)
+      .reply(200, emptyDisqualifiedSearch);
+    nock('https://registry.example.test').persist().get('/statements/2024.csv').reply(200, '');
+
+    const first = (await app.inject({ method: 'GET', url: '/api/company/77889901' })).json();
+    const again = (await app.inject({ method: 'GET', url: '/api/company/77889901' })).json();
+    expect(again.snapshot.id).not.toBe(first.snapshot.id);
+    expect(again.snapshot.generatedAt).toBe(again.dossier.generatedAt);
+
+    const html = await app.inject({ method: 'GET', url: '/api/company/77889901/report.html' });
+    expect(html.statusCode).toBe(200);
+    const htmlLocation = html.headers['content-location'] as string;
+    const stored = await app.inject({ method: 'GET', url: htmlLocation });
+    expect(html.rawPayload.equals(stored.rawPayload)).toBe(true);
+
+    const pdf = await app.inject({ method: 'GET', url: '/api/company/77889901/report.pdf' });
+    expect(pdf.statusCode).toBe(200);
+    const pdfLocation = pdf.headers['content-location'] as string;
+
+    const list = await app.inject({ method: 'GET', url: '/api/company/77889901/snapshots' });
+    const ids = list.json().snapshots.map((snapshot: { id: string }) => snapshot.id);
+    expect(ids).toEqual([
+      pdfLocation.split('/')[3],
+      htmlLocation.split('/')[3],
+      again.snapshot.id,
+      first.snapshot.id,
+    ]);
+  });
+
+  it('returns 404 for unknown snapshots', async () => {
+    const missing = await app.inject({ method: 'GET', url: '/api/snapshots/missing' });
+    expect(missing.statusCode).toBe(404);
+
+    const report = await app.inject({ method: 'GET', url: '/api/snapshots/missing/report.html' });
+    expect(report.statusCode).toBe(404);
+
+    const badLimit = await app.inject({
+      method: 'GET',
+      url: '/api/company/77889900/snapshots?limit=0',
+    });
+    expect(badLimit.statusCode).toBe(400);
+  });
+});
+
+describe('Risk policy files', () => {
+  async function writePolicies(files: Record<string, string>): Promise<string[]> {
+    const dir = await mkdtemp(path.join(tmpdir(), 'risk-policies-'));
+    return Promise.all(
+      Object.entries(files).map(async ([name, source]) => {
+        const file = path.join(dir, name);
+        await writeFile(file, source);
+        return file;
+      })
+    );
+  }
+
+  it('loads YAML and JSON policies in order, defaulting to the built-in policy', async () => {
+    const paths = await writePolicies({
+      'procurement.yaml': 'id: procurement\nversion: 1\nrules:\n  F7:\n    enabled: false\n',
+      'finance.json': '{"id": "finance", "version": "2024-06"}',
+    });
+
+    const policies = await loadRiskPolicies(parseRiskPolicyPaths(paths.join(', ')));
+
+    expect(policies.map((policy) => policy.id)).toEqual(['procurement', 'finance']);
+    expect(policies[0].rules.F7).toEqual({ enabled: false });
+    expect(await loadRiskPolicies(parseRiskPolicyPaths(''))).toEqual([DEFAULT_RISK_POLICY]);
+  });
+
+  it('rejects invalid and duplicate policies', async () => {
+    const [invalid, first, second] = await writePolicies({
+      'invalid.yaml': 'id: broken\nversion: 1\nrules:\n  F99: {}\n',
+      'first.json': '{"id": "same", "version": "1"}',
+      'second.json': '{"id": "same", "version": "2"}',
+    });
+
+    await expect(loadRiskPolicies([invalid])).rejects.toThrow('Unknown rule "F99"');
+    await expect(loadRiskPolicies([first, second])).rejects.toThrow(
+      'risk policy "same" is already loaded'
+    );
+  });
+});
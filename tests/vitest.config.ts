@@ -6,6 +6,7 @@ export default defineConfig({
     alias: {
       '@pkg/core': resolve(__dirname, '../packages/core/src/index.ts'),
       '@pkg/config': resolve(__dirname, '../packages/config/src/index.ts'),
+      '@pkg/db': resolve(__dirname, '../packages/db/src/index.ts'),
     },
   },
   test: {